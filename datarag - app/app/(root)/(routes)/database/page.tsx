@@ -13,6 +13,7 @@ import {
 import { Streamdown } from "streamdown";
 import { BeatLoader } from "react-spinners";
 import { toast, Toaster } from "react-hot-toast";
+import type { SqlAgentStep } from "@/types/database";
 
 interface QueryResult {
   success: boolean;
@@ -24,8 +25,16 @@ interface QueryResult {
   answer?: string;
   error?: string;
   note?: string;
+  steps?: SqlAgentStep[];
 }
 
+const formatStepInput = (step: SqlAgentStep): string => {
+  if (step.action === "execute_sql" && typeof step.input.sql_query === "string") return step.input.sql_query;
+  if (typeof step.input.table_name === "string") return step.input.table_name;
+  if (step.action === "final_answer" && typeof step.input.answer === "string") return step.input.answer;
+  return "";
+};
+
 interface TableInfo {
   [tableName: string]: {
     column: string;
@@ -356,6 +365,42 @@ const DatabaseQueryInterface = () => {
             </div>
           )}
 
+          {/* Agent trace */}
+          {result.steps && result.steps.length > 0 && (
+            <details className="mb-4 rounded-md border border-gray-200 dark:border-neutral-800">
+              <summary className="cursor-pointer select-none px-3 py-2 text-sm font-medium text-gray-900 dark:text-gray-100">
+                Agent steps ({result.steps.length})
+              </summary>
+              <ol className="divide-y divide-gray-200 dark:divide-neutral-800">
+                {result.steps.map((step) => (
+                  <li key={step.step} className="px-3 py-2 text-xs">
+                    <div className="flex items-center gap-2">
+                      <span className="font-mono text-gray-500 dark:text-gray-400">{step.step}.</span>
+                      <span className="font-mono font-semibold text-gray-900 dark:text-gray-100">{step.action}</span>
+                      {step.success === true && <CheckCircle className="w-3 h-3 text-gray-700 dark:text-gray-300" />}
+                      {step.success === false && <AlertCircle className="w-3 h-3 text-gray-700 dark:text-gray-300" />}
+                      <span className="ml-auto text-gray-500 dark:text-gray-400">{step.durationMs}ms</span>
+                    </div>
+                    {step.thought && (
+                      <div className="mt-1 text-gray-600 dark:text-gray-400">{step.thought}</div>
+                    )}
+                    {formatStepInput(step) && (
+                      <pre className="mt-1 p-2 rounded bg-gray-50 dark:bg-neutral-900 overflow-auto whitespace-pre-wrap">
+                        {formatStepInput(step)}
+                      </pre>
+                    )}
+                    <details className="mt-1">
+                      <summary className="cursor-pointer text-gray-500 dark:text-gray-400">Observation</summary>
+                      <pre className="mt-1 p-2 rounded bg-gray-50 dark:bg-neutral-900 overflow-auto max-h-60 whitespace-pre-wrap">
+                        {step.observation}
+                      </pre>
+                    </details>
+                  </li>
+                ))}
+              </ol>
+            </details>
+          )}
+
           {/* Markdown answer/summary */}
           {result.answer && (
             <div className="prose prose-sm dark:prose-invert max-w-none mb-4">
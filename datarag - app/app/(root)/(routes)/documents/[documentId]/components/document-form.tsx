@@ -43,7 +43,9 @@ const formSchema = z
     categoryId: z.string().min(1, { message: "Category is required" }),
     file: z.instanceof(File).optional().nullable(),
     fileUrl: z.string().url().optional(),
-    addToKnowledgeBase: z.boolean().default(true)
+    addToKnowledgeBase: z.boolean().default(true),
+    // "default" leaves the choice to the server's embedding config
+    chunkingStrategy: z.enum(["default", "flat", "hierarchical", "semantic"]).default("default")
   })
   .superRefine((val, ctx) => {
     if (!val.file && !val.fileUrl) {
@@ -55,6 +57,15 @@ const formSchema = z
     }
   });
 
+type ChunkingChoice = z.infer<typeof formSchema>["chunkingStrategy"];
+
+const chunkingOptions: { value: ChunkingChoice; label: string; description: string }[] = [
+  { value: "default", label: "Default", description: "Use the server's configured strategy" },
+  { value: "flat", label: "Flat", description: "Fixed-size pieces, page by page" },
+  { value: "hierarchical", label: "Hierarchical", description: "Sections split into paragraphs; answers can draw on the whole section" },
+  { value: "semantic", label: "Semantic", description: "Breaks where the topic changes (slower to process)" }
+];
+
 // Processing stages for better UX
 enum ProcessingStage {
   IDLE = "idle",
@@ -134,7 +145,8 @@ export const DocumentForm = ({ initialData, categories }: DocumentIdPageProps) =
           categoryId: (initialData as any).categoryId ?? "",
           file: null,
           fileUrl: (initialData as any).fileUrl ?? "",
-          addToKnowledgeBase: true
+          addToKnowledgeBase: true,
+          chunkingStrategy: ((initialData as any).chunkingStrategy ?? "default") as ChunkingChoice
         }
       : {
           title: "",
@@ -142,7 +154,8 @@ export const DocumentForm = ({ initialData, categories }: DocumentIdPageProps) =
           categoryId: "",
           file: null,
           fileUrl: undefined,
-          addToKnowledgeBase: true
+          addToKnowledgeBase: true,
+          chunkingStrategy: "default"
         }
   });
 
@@ -316,7 +329,8 @@ export const DocumentForm = ({ initialData, categories }: DocumentIdPageProps) =
         title: values.title,
         description: values.description,
         categoryId: values.categoryId,
-        fileUrl
+        fileUrl,
+        ...(values.chunkingStrategy !== "default" ? { chunkingStrategy: values.chunkingStrategy } : {})
       };
 
       if (initialData) {
@@ -575,6 +589,36 @@ export const DocumentForm = ({ initialData, categories }: DocumentIdPageProps) =
                   )}
                 />
 
+                {!initialData && (
+                  <FormField
+                    control={form.control}
+                    name="chunkingStrategy"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Chunking</FormLabel>
+                        <Select disabled={isProcessing} onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger className="bg-background">
+                              <SelectValue placeholder="Select a chunking strategy" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {chunkingOptions.map((option) => (
+                              <SelectItem key={option.value} value={option.value}>
+                                {option.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormDescription>
+                          {chunkingOptions.find((o) => o.value === field.value)?.description}
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
                 {form.watch("fileUrl") && !file && (
                   <div className="text-sm text-muted-foreground">
                     Using existing file: {form.watch("fileUrl")}
@@ -0,0 +1,302 @@
+// app/prompts/page.tsx
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { CheckCircle2, History, Loader2, RotateCcw, Save } from "lucide-react";
+
+type Scope = "user" | "global";
+
+type TemplateVersion = {
+  id: string;
+  version: number;
+  content: string;
+  description: string | null;
+  isActive: boolean;
+  createdBy: string | null;
+  createdAt: string;
+};
+
+type PromptEntry = {
+  key: string;
+  description: string;
+  variables: string[];
+  builtin: string;
+  effective: { version: number; source: "builtin" | "global" | "user"; label: string };
+  global: TemplateVersion[];
+  user: TemplateVersion[];
+};
+
+export default function PromptsPage() {
+  const [prompts, setPrompts] = useState<PromptEntry[]>([]);
+  const [canEditGlobal, setCanEditGlobal] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [scope, setScope] = useState<Scope>("user");
+  const [draft, setDraft] = useState("");
+  const [note, setNote] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [saved, setSaved] = useState(false);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/prompts", { cache: "no-store" });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.error || `Failed to load prompts (${res.status})`);
+      setPrompts(data.prompts || []);
+      setCanEditGlobal(!!data.canEditGlobal);
+      setSelectedKey((k) => k ?? data.prompts?.[0]?.key ?? null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to load prompts");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const selected = useMemo(() => prompts.find((p) => p.key === selectedKey) || null, [prompts, selectedKey]);
+  const versions = selected ? (scope === "global" ? selected.global : selected.user) : [];
+  const active = versions.find((v) => v.isActive) || null;
+
+  // the editor starts from whatever this scope currently falls back to
+  const baseline = useMemo(() => {
+    if (!selected) return "";
+    if (active) return active.content;
+    const globalActive = selected.global.find((v) => v.isActive);
+    return scope === "user" && globalActive ? globalActive.content : selected.builtin;
+  }, [selected, active, scope]);
+
+  useEffect(() => {
+    setDraft(baseline);
+    setNote("");
+  }, [baseline]);
+
+  const send = useCallback(
+    async (method: "POST" | "PATCH", body: Record<string, unknown>) => {
+      setBusy(true);
+      setError(null);
+      try {
+        const res = await fetch("/api/prompts", {
+          method,
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(body),
+        });
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(data?.error || `Request failed (${res.status})`);
+        await load();
+        setSaved(true);
+        setTimeout(() => setSaved(false), 1500);
+      } catch (e) {
+        setError(e instanceof Error ? e.message : "Request failed");
+      } finally {
+        setBusy(false);
+      }
+    },
+    [load]
+  );
+
+  const handleSave = () => {
+    if (!selected || !draft.trim()) return;
+    void send("POST", { key: selected.key, content: draft, description: note.trim() || null, scope });
+  };
+
+  const handleActivate = (version: number) => {
+    if (!selected) return;
+    void send("PATCH", { key: selected.key, scope, version });
+  };
+
+  return (
+    <div className="min-h-screen bg-white dark:bg-neutral-950">
+      <div className="mx-auto max-w-6xl px-4">
+        <div className="py-8">
+          <h1 className="text-2xl font-semibold tracking-tight text-gray-900 dark:text-gray-100">Prompt templates</h1>
+          <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+            Every system prompt is versioned. Personal versions override the global template for your account only;
+            chat messages and evaluation runs record the versions that produced them.
+          </p>
+        </div>
+      </div>
+
+      <main className="mx-auto max-w-6xl px-4 pb-28">
+        {loading && (
+          <div className="mb-6 inline-flex items-center gap-2 rounded-xl border border-gray-200 dark:border-neutral-800 px-3 py-2 text-sm text-gray-600 dark:text-gray-300">
+            <Loader2 className="animate-spin" size={16} /> Loading…
+          </div>
+        )}
+        {error && (
+          <div className="mb-6 rounded-xl border border-red-200 dark:border-red-900 bg-red-50 dark:bg-red-950/40 px-3 py-2 text-sm text-red-700 dark:text-red-300">
+            {error}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-12 gap-6">
+          <aside className="lg:col-span-3">
+            <nav className="sticky top-20 space-y-1">
+              {prompts.map((p) => (
+                <button
+                  key={p.key}
+                  type="button"
+                  onClick={() => setSelectedKey(p.key)}
+                  className={[
+                    "w-full text-left rounded-xl px-3 py-2 text-sm border",
+                    p.key === selectedKey
+                      ? "border-gray-300 dark:border-neutral-700 bg-gray-50 dark:bg-neutral-900 text-gray-900 dark:text-gray-100"
+                      : "border-transparent text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-neutral-900 hover:border-gray-200 dark:hover:border-neutral-800",
+                  ].join(" ")}
+                >
+                  <div className="font-mono text-xs">{p.key}</div>
+                  <div className="text-[11px] text-gray-500 dark:text-gray-400">{p.effective.label}</div>
+                </button>
+              ))}
+            </nav>
+          </aside>
+
+          {selected && (
+            <section className="lg:col-span-9 space-y-6">
+              <div className="rounded-2xl border border-gray-200 dark:border-neutral-800 p-5 bg-white dark:bg-neutral-950 shadow-sm">
+                <div className="flex flex-wrap items-start justify-between gap-3">
+                  <div>
+                    <h2 className="font-mono text-sm font-semibold text-gray-800 dark:text-gray-200">{selected.key}</h2>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">{selected.description}</p>
+                    <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                      In effect for you: <span className="font-medium">{selected.effective.label}</span>
+                    </p>
+                  </div>
+                  <div className="inline-flex rounded-lg border border-gray-300 dark:border-neutral-700 p-0.5 text-xs">
+                    {(["user", "global"] as Scope[]).map((s) => (
+                      <button
+                        key={s}
+                        type="button"
+                        disabled={s === "global" && !canEditGlobal}
+                        onClick={() => setScope(s)}
+                        title={s === "global" && !canEditGlobal ? "Only prompt admins can edit global templates" : undefined}
+                        className={[
+                          "rounded-md px-3 py-1 disabled:opacity-50 disabled:cursor-not-allowed",
+                          scope === s ? "bg-gray-900 text-white dark:bg-gray-100 dark:text-gray-900" : "text-gray-700 dark:text-gray-300",
+                        ].join(" ")}
+                      >
+                        {s === "user" ? "Personal" : "Global"}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="mt-4 flex flex-wrap gap-1.5">
+                  {selected.variables.map((v) => (
+                    <code
+                      key={v}
+                      className="rounded bg-gray-100 dark:bg-neutral-900 px-1.5 py-0.5 text-[11px] text-gray-700 dark:text-gray-300"
+                    >
+                      {`{{${v}}}`}
+                    </code>
+                  ))}
+                </div>
+
+                <textarea
+                  className="mt-3 h-96 w-full rounded-lg border border-gray-300 dark:border-neutral-700 bg-white dark:bg-neutral-900 px-3 py-2 font-mono text-xs"
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  spellCheck={false}
+                />
+
+                <div className="mt-3 flex flex-wrap items-center gap-3">
+                  <input
+                    className="flex-1 min-w-[200px] rounded-lg border border-gray-300 dark:border-neutral-700 bg-white dark:bg-neutral-900 px-3 py-2 text-sm"
+                    placeholder="What changed? (optional)"
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setDraft(selected.builtin)}
+                    className="inline-flex items-center gap-2 rounded-lg border border-gray-300 dark:border-neutral-700 px-3 py-2 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-neutral-900"
+                  >
+                    <RotateCcw size={14} /> Load built-in
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleSave}
+                    disabled={busy || !draft.trim() || draft === baseline}
+                    className="inline-flex items-center gap-2 rounded-lg bg-gray-900 px-4 py-2 text-sm text-white disabled:opacity-60 dark:bg-gray-100 dark:text-gray-900"
+                  >
+                    {busy ? <Loader2 size={14} className="animate-spin" /> : saved ? <CheckCircle2 size={14} /> : <Save size={14} />}
+                    Save as v{(versions[0]?.version ?? 0) + 1}
+                  </button>
+                </div>
+              </div>
+
+              <div className="rounded-2xl border border-gray-200 dark:border-neutral-800 p-5 bg-white dark:bg-neutral-950 shadow-sm">
+                <h2 className="mb-3 inline-flex items-center gap-2 text-sm font-semibold text-gray-800 dark:text-gray-200">
+                  <History size={14} /> {scope === "user" ? "Personal" : "Global"} versions
+                </h2>
+                <ul className="divide-y divide-gray-100 dark:divide-neutral-900">
+                  {versions.map((v) => (
+                    <li key={v.id} className="flex items-center justify-between gap-3 py-2 text-sm">
+                      <div className="min-w-0">
+                        <span className="font-medium text-gray-900 dark:text-gray-100">v{v.version}</span>
+                        {v.isActive && (
+                          <span className="ml-2 rounded bg-green-100 px-1.5 py-0.5 text-[11px] text-green-700 dark:bg-green-950 dark:text-green-300">
+                            active
+                          </span>
+                        )}
+                        <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                          {new Date(v.createdAt).toLocaleString()}
+                          {v.description ? ` · ${v.description}` : ""}
+                        </span>
+                      </div>
+                      <div className="flex shrink-0 gap-2">
+                        <button
+                          type="button"
+                          onClick={() => setDraft(v.content)}
+                          className="rounded-lg border border-gray-300 dark:border-neutral-700 px-2 py-1 text-xs hover:bg-gray-50 dark:hover:bg-neutral-900"
+                        >
+                          Load
+                        </button>
+                        {!v.isActive && (
+                          <button
+                            type="button"
+                            disabled={busy}
+                            onClick={() => handleActivate(v.version)}
+                            className="rounded-lg border border-gray-300 dark:border-neutral-700 px-2 py-1 text-xs hover:bg-gray-50 dark:hover:bg-neutral-900 disabled:opacity-60"
+                          >
+                            Activate
+                          </button>
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                  <li className="flex items-center justify-between gap-3 py-2 text-sm">
+                    <div className="text-gray-600 dark:text-gray-400">
+                      {scope === "user" ? "No personal override (use global / built-in)" : "Built-in default (v0)"}
+                      {!active && (
+                        <span className="ml-2 rounded bg-green-100 px-1.5 py-0.5 text-[11px] text-green-700 dark:bg-green-950 dark:text-green-300">
+                          active
+                        </span>
+                      )}
+                    </div>
+                    {active && (
+                      <button
+                        type="button"
+                        disabled={busy}
+                        onClick={() => handleActivate(0)}
+                        className="rounded-lg border border-gray-300 dark:border-neutral-700 px-2 py-1 text-xs hover:bg-gray-50 dark:hover:bg-neutral-900 disabled:opacity-60"
+                      >
+                        Activate
+                      </button>
+                    )}
+                  </li>
+                </ul>
+              </div>
+            </section>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
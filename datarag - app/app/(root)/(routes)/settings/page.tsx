@@ -6,6 +6,7 @@ import { Loader2, Save, CheckCircle2, Undo2 } from "lucide-react";
 import { useRouter } from "next/navigation";
 import { useUserSettings, useModels, UserSettings } from "@/hooks/useChat";
 import { useTheme } from "next-themes";
+import { AVAILABLE_MODELS } from "@/config/models";
 
 type Settings = {
   theme: "system" | "light" | "dark";
@@ -20,8 +21,31 @@ type Settings = {
   maxContextLength: number;
   rerankingThreshold: number;
   enableReranking: boolean;
+  sqlModel?: string | null;
+  rerankModel?: string | null;
+  intentModel?: string | null;
+  judgeModel?: string | null;
+  reranker?: "llm" | "cross-encoder" | "none" | null;
+  queryTransforms?: QueryTransform[];
 };
 
+type QueryTransform = "rewrite" | "multi-query" | "hyde";
+
+const QUERY_TRANSFORMS: { key: QueryTransform; label: string; hint: string }[] = [
+  { key: "rewrite", label: "Rewrite follow-ups", hint: "Turn the question into a standalone search query" },
+  { key: "multi-query", label: "Paraphrases", hint: "Also search with a few rewordings of the question" },
+  { key: "hyde", label: "Hypothetical answer (HyDE)", hint: "Also search with a drafted answer passage" },
+];
+
+type StageModelKey = "sqlModel" | "rerankModel" | "intentModel" | "judgeModel";
+
+const STAGE_MODELS: { key: StageModelKey; label: string; hint: string }[] = [
+  { key: "sqlModel", label: "SQL generation", hint: "Automatic uses the chat model" },
+  { key: "rerankModel", label: "Reranking", hint: "Automatic uses the chat model" },
+  { key: "intentModel", label: "Intent detection", hint: "Automatic uses a small fast model" },
+  { key: "judgeModel", label: "Evaluation judge", hint: "Automatic uses a small fast model" },
+];
+
 const DEFAULTS: Settings = {
   theme: "system",
   sidebarCollapsed: false,
@@ -35,6 +59,12 @@ const DEFAULTS: Settings = {
   maxContextLength: 8192,
   rerankingThreshold: 0.5,
   enableReranking: true,
+  sqlModel: null,
+  rerankModel: null,
+  intentModel: null,
+  judgeModel: null,
+  reranker: null,
+  queryTransforms: [],
 };
 
 export default function SettingsPage() {
@@ -82,6 +112,16 @@ export default function SettingsPage() {
     });
   }, [models]);
 
+  // stage models must be able to chat (no speech-to-text models)
+  const chatModelOptions = useMemo(
+    () =>
+      modelOptions.filter((m) => {
+        const entry = (AVAILABLE_MODELS as Record<string, { capabilities: readonly string[] }>)[m.value];
+        return !entry || entry.capabilities.includes("chat");
+      }),
+    [modelOptions]
+  );
+
   const hasChanges = useMemo(() => {
     if (!settings) return false;
     try {
@@ -161,6 +201,7 @@ export default function SettingsPage() {
               {[
                 { href: "#general", label: "General" },
                 { href: "#defaults", label: "Defaults" },
+                { href: "#models", label: "Models" },
                 { href: "#display", label: "Display" },
                 { href: "#advanced", label: "Advanced" },
               ].map((i) => (
@@ -258,6 +299,35 @@ export default function SettingsPage() {
               </div>
             </Section>
 
+            {/* Models */}
+            <Section id="models" title="Models per stage">
+              <div className="grid gap-4">
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  Chats answer with the chat&apos;s own model (new chats start with the default model above).
+                  The other pipeline stages can use their own models.
+                </p>
+                {STAGE_MODELS.map(({ key, label, hint }) => (
+                  <Field key={key} label={`${label} — ${hint}`}>
+                    <select
+                      className="w-full rounded-lg border border-gray-300 dark:border-neutral-700 bg-white dark:bg-neutral-900 px-3 py-2 text-sm"
+                      value={local[key] ?? ""}
+                      onChange={(e) => setLocal((s) => ({ ...s, [key]: e.target.value || null }))}
+                    >
+                      <option value="">Automatic</option>
+                      {chatModelOptions.map((m) => (
+                        <option key={m.value} value={m.value}>
+                          {m.label}
+                        </option>
+                      ))}
+                      {local[key] && !chatModelOptions.some((m) => m.value === local[key]) && (
+                        <option value={local[key]!}>{local[key]}</option>
+                      )}
+                    </select>
+                  </Field>
+                ))}
+              </div>
+            </Section>
+
             {/* Display */}
             <Section id="display" title="Display">
               <div className="grid gap-3">
@@ -323,6 +393,40 @@ export default function SettingsPage() {
                   checked={local.enableReranking}
                   onChange={(v) => setLocal((s) => ({ ...s, enableReranking: v }))}
                 />
+
+                <Field label="Reranker">
+                  <select
+                    className="w-full rounded-lg border border-gray-300 dark:border-neutral-700 bg-white dark:bg-neutral-900 px-3 py-2 text-sm"
+                    value={local.reranker ?? ""}
+                    onChange={(e) =>
+                      setLocal((s) => ({ ...s, reranker: (e.target.value || null) as Settings["reranker"] }))
+                    }
+                  >
+                    <option value="">Automatic</option>
+                    <option value="llm">Reranking model (scores with the model above)</option>
+                    <option value="cross-encoder">Local cross-encoder (fast, runs on the server)</option>
+                    <option value="none">None (keep retrieval order)</option>
+                  </select>
+                </Field>
+
+                <div className="text-xs text-gray-500 dark:text-gray-400">
+                  Query transformations add a fast model call before retrieval. With none selected the server
+                  default applies.
+                </div>
+                {QUERY_TRANSFORMS.map(({ key, label, hint }) => (
+                  <ToggleRow
+                    key={key}
+                    title={label}
+                    hint={hint}
+                    checked={(local.queryTransforms || []).includes(key)}
+                    onChange={(v) =>
+                      setLocal((s) => {
+                        const rest = (s.queryTransforms || []).filter((t) => t !== key);
+                        return { ...s, queryTransforms: v ? [...rest, key] : rest };
+                      })
+                    }
+                  />
+                ))}
               </div>
             </Section>
           </section>
@@ -10,9 +10,15 @@ import {
   createDocumentAgent,
   handleAuthAndRateLimit,
   createErrorResponse,
+  formatQueryTransforms,
+  formatStageModels,
+  loadUserMaxContextLength,
+  loadUserQueryTransforms,
+  loadUserReranker,
+  loadUserStageModels,
   validateDocumentChatRequest
 } from "@/lib/agent";
-import { type AgentConfig } from "@/types";
+import { type AgentConfig, type SourceReference } from "@/types";
 
 import prismadb from "@/lib/prismadb";
 
@@ -200,7 +206,12 @@ ${recentMessages}
       useDatabase: false,
       useKnowledgeBase: false,
       streaming: true,
+      stageModels: await loadUserStageModels(userId),
+      reranker: await loadUserReranker(userId),
+      queryTransforms: await loadUserQueryTransforms(userId),
     };
+    const maxContextLength = await loadUserMaxContextLength(userId);
+    if (maxContextLength) agentConfig.maxContextLength = maxContextLength;
 
     let agent: any;
     try {
@@ -257,12 +268,21 @@ ${recentMessages}
 
         // Only save if there's meaningful content
         if (aiText && aiText.trim().length > 0) {
+          // the cited document chunks, so the answer can be rated (cached answers have none)
+          const citable: SourceReference[] = agent.lastModelUsed?.citableSources || [];
+          const sources = agent
+            .validateCitations(aiText, citable)
+            .citedSourceIndices.map((index: number) => citable[index]);
           await prismadb.documentMessage.create({
             data: {
               content: aiText,
               role: "SYSTEM", // Change to "ASSISTANT" if that's your DB enum/UI convention
               userId: userId, // Associate to current user
               documentId: params.chatId,
+              promptVersions: agent.lastModelUsed?.promptVersions
+                ? JSON.stringify(agent.lastModelUsed.promptVersions)
+                : null,
+              metadata: sources.length ? JSON.stringify({ sources }) : null,
             },
           });
           logWithContext("info", "AI message persisted", { requestId, userId });
@@ -282,10 +302,23 @@ ${recentMessages}
       }
     })();
 
+    const served = agent.lastModelUsed;
     logWithContext("info", "Returning StreamingTextResponse to client", {
       requestId,
+      model: served?.model,
+      fallbacks: served?.fallbacks?.length || 0,
     });
-    return new StreamingTextResponse(toClient);
+    const headers: Record<string, string> = {};
+    if (served?.model) headers["X-Model-Used"] = served.model;
+    if (served?.fallbacks?.length) headers["X-Model-Requested"] = served.requestedModel;
+    if (served?.stageModels) headers["X-Stage-Models"] = formatStageModels(served.stageModels);
+    if (served?.cache) headers["X-Cache"] = served.cache.hit ? "HIT" : "MISS";
+    if (served?.contextBudget) {
+      headers["X-Context-Budget"] = `${served.contextBudget.usedTokens}/${served.contextBudget.budget}`;
+      headers["X-Context-Dropped"] = String(served.contextBudget.dropped.length);
+    }
+    if (served?.queryTransforms) headers["X-Query-Transforms"] = formatQueryTransforms(served.queryTransforms);
+    return new StreamingTextResponse(toClient, { headers });
   } catch (error) {
     logWithContext("error", "Unhandled error in POST", {
       requestId,
@@ -344,13 +377,23 @@ export async function GET(
       return NextResponse.json({ error: "Document not found or access denied" }, { status: 404 });
     }
 
-    const formattedMessages = document.messages.map((msg: any) => ({
-      id: msg.id,
-      role: msg.role,
-      content: msg.content,
-      timestamp: msg.createdAt.toISOString(),
-      userId: msg.userId,
-    }));
+    const formattedMessages = document.messages.map((msg: any) => {
+      let metadata: { sources?: SourceReference[]; feedback?: string | null } = {};
+      try {
+        metadata = msg.metadata ? JSON.parse(msg.metadata) : {};
+      } catch (e) {
+        console.warn("Failed to parse message metadata:", e);
+      }
+      return {
+        id: msg.id,
+        role: msg.role,
+        content: msg.content,
+        timestamp: msg.createdAt.toISOString(),
+        userId: msg.userId,
+        sources: metadata.sources,
+        feedback: metadata.feedback ?? null,
+      };
+    });
 
     logWithContext("info", "GET success", {
       requestId,
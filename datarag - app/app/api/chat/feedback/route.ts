@@ -0,0 +1,89 @@
+// app/api/chat/feedback/route.ts - Rate an answer; the rating counts for the chunks it cited
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { handleAuthAndRateLimit, createErrorResponse } from "@/lib/agent";
+import { rateChunks } from "@/lib/chunk-quality";
+import prismadb from "@/lib/prismadb";
+import type { Prisma } from "@prisma/client";
+import type { SourceReference } from "@/types";
+import type { ChunkFeedback } from "@/types/document";
+
+export const runtime = "nodejs";
+
+const FeedbackSchema = z.object({
+  messageId: z.string().min(1),
+  // null takes a rating back
+  rating: z.enum(["helpful", "unhelpful"]).nullable(),
+});
+
+// a rating that lost a race with another one is read again
+const RATE_ATTEMPTS = 3;
+
+type RatedMetadata = { sources?: SourceReference[]; feedback?: ChunkFeedback | null };
+
+function parseMetadata(raw: string | null): RatedMetadata {
+  try {
+    return raw ? JSON.parse(raw) : {};
+  } catch (e) {
+    console.warn("Failed to parse message metadata:", e);
+    return {};
+  }
+}
+
+/**
+ * Rate the answer `messageId` of a general chat (ChatMessage) or a
+ * single-document chat (DocumentMessage). The message is only written if its
+ * metadata is still what was read, in the transaction that moves the chunk
+ * counts, so a repeated submit cannot count twice. Null: no such answer.
+ */
+async function rateMessage(messageId: string, userId: string, rating: ChunkFeedback | null) {
+  for (let attempt = 1; attempt <= RATE_ATTEMPTS; attempt++) {
+    const [chatMessage, documentMessage]: { metadata: string | null }[] = await Promise.all([
+      prismadb.chatMessage.findFirst({ where: { id: messageId, userId, role: "ASSISTANT" }, select: { metadata: true } }),
+      prismadb.documentMessage.findFirst({ where: { id: messageId, userId, role: "SYSTEM" }, select: { metadata: true } }),
+    ]);
+    const message = chatMessage ?? documentMessage;
+    if (!message) return null;
+    const metadata = parseMetadata(message.metadata);
+
+    const chunks = await prismadb.$transaction(async (tx: Prisma.TransactionClient) => {
+      const update = {
+        where: { id: messageId, metadata: message.metadata },
+        data: { metadata: JSON.stringify({ ...metadata, feedback: rating }) },
+      };
+      const { count } = chatMessage
+        ? await tx.chatMessage.updateMany(update)
+        : await tx.documentMessage.updateMany(update);
+      if (!count) return null;
+      return rateChunks(metadata.sources || [], metadata.feedback ?? null, rating, tx);
+    });
+    if (chunks !== null) return chunks;
+  }
+  throw new Error("The message was rated concurrently; try again");
+}
+
+/**
+ * POST /api/chat/feedback
+ * Rate one of your assistant messages, in a general or a document chat.
+ * Rating again replaces the earlier rating, so each answer counts once per chunk.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await handleAuthAndRateLimit(request);
+    if (!authResult.success || !authResult.user) return authResult.error!;
+
+    const parsed = FeedbackSchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Invalid request", details: parsed.error.flatten() }, { status: 400 });
+    }
+    const { messageId, rating } = parsed.data;
+
+    const chunks = await rateMessage(messageId, authResult.user.id, rating);
+    if (chunks === null) return NextResponse.json({ error: "Message not found" }, { status: 404 });
+
+    return NextResponse.json({ success: true, rating, chunks });
+  } catch (error) {
+    console.error("[CHAT_FEEDBACK_POST]", error);
+    return createErrorResponse(error);
+  }
+}
@@ -4,6 +4,10 @@ import {
   createChatAgent,
   handleAuthAndRateLimit,
   createErrorResponse,
+  loadUserMaxContextLength,
+  loadUserQueryTransforms,
+  loadUserReranker,
+  loadUserStageModels,
   setAgentResponseHeaders,
   validateChatRequest
 } from "@/lib/agent";
@@ -12,6 +16,14 @@ import {
   type SourceReference
 } from "@/types";
 import prismadb from "@/lib/prismadb";
+import {
+  normalizeScope,
+  parseRetrievalScope,
+  resolveRetrievalScope,
+  retrievalScopeSchema,
+  validateRetrievalScope
+} from "@/lib/retrieval-scope";
+import { parseVersionPins, validateVersionPins, versionPinsSchema } from "@/lib/document-versions";
 import {v4 as uuidv4 } from "uuid";
 import {AVAILABLE_MODELS_LIST} from "@/config/models";
 
@@ -92,6 +104,55 @@ async function generateSmartTitle(userMessage: string, sources: SourceReference[
   return truncated.length < userMessage.length ? truncated + '...' : truncated;
 }
 
+// documents one multi-document chat may search
+const MAX_SESSION_DOCUMENTS = 10;
+
+// The documents of a multi-document chat: the user's own, fully processed
+async function sessionDocumentIds(raw: unknown, userId: string): Promise<{ value: string[]; errors: string[] }> {
+  if (raw === null || raw === undefined) return { value: [], errors: [] };
+  if (!Array.isArray(raw) || raw.some((id) => typeof id !== 'string')) {
+    return { value: [], errors: ['documentIds must be an array of document IDs'] };
+  }
+  const ids = Array.from(new Set(raw as string[]));
+  if (ids.length > MAX_SESSION_DOCUMENTS) {
+    return { value: [], errors: [`A chat can search at most ${MAX_SESSION_DOCUMENTS} documents`] };
+  }
+  const found: { id: string }[] = await prismadb.document.findMany({
+    where: { id: { in: ids }, userId, status: 'COMPLETED' },
+    select: { id: true },
+  });
+  const known = new Set(found.map((d) => d.id));
+  const missing = ids.filter((id) => !known.has(id));
+  return missing.length
+    ? { value: [], errors: [`Documents not found, not processed or access denied: ${missing.join(', ')}`] }
+    : { value: ids, errors: [] };
+}
+
+// A retrieval scope from a request body as stored on the session: JSON, or null to clear it
+async function storedRetrievalScope(raw: unknown, userId: string): Promise<{ value: string | null; errors: string[] }> {
+  if (raw === null) return { value: null, errors: [] };
+  const parsed = retrievalScopeSchema.safeParse(raw);
+  if (!parsed.success) {
+    return { value: null, errors: parsed.error.issues.map((i) => `retrievalScope.${i.path.join(".")}: ${i.message}`) };
+  }
+  const scope = normalizeScope(parsed.data);
+  if (!scope) return { value: null, errors: [] };
+  const errors = await validateRetrievalScope(scope, userId);
+  return { value: errors.length ? null : JSON.stringify(scope), errors };
+}
+
+// Version pins from a request body as stored on the session: JSON, or null to follow the latest versions
+async function storedVersionPins(raw: unknown, documentIds: string[]): Promise<{ value: string | null; errors: string[] }> {
+  if (raw === null) return { value: null, errors: [] };
+  const parsed = versionPinsSchema.safeParse(raw);
+  if (!parsed.success) {
+    return { value: null, errors: parsed.error.issues.map((i) => `documentVersions.${i.path.join(".")}: ${i.message}`) };
+  }
+  if (!Object.keys(parsed.data).length) return { value: null, errors: [] };
+  const errors = await validateVersionPins(parsed.data, documentIds);
+  return { value: errors.length ? null : JSON.stringify(parsed.data), errors };
+}
+
 export async function POST(request: NextRequest) {
   try {
     // Authentication and rate limiting
@@ -102,6 +163,17 @@ export async function POST(request: NextRequest) {
     // Handle session creation
     if (body.action === 'create') {
       try {
+        const scope = body.retrievalScope !== undefined
+          ? await storedRetrievalScope(body.retrievalScope, (user as any).id)
+          : { value: null, errors: [] };
+        const documents = await sessionDocumentIds(body.documentIds, (user as any).id);
+        const pins = body.documentVersions !== undefined && !documents.errors.length
+          ? await storedVersionPins(body.documentVersions, documents.value)
+          : { value: null, errors: [] };
+        const createErrors = [...scope.errors, ...documents.errors, ...pins.errors];
+        if (createErrors.length > 0) {
+          return NextResponse.json({ error: createErrors.join(', ') }, { status: 400 });
+        }
         const newSession = await prismadb.chatSession.create({
           data: {
             id: uuidv4(),
@@ -113,6 +185,9 @@ export async function POST(request: NextRequest) {
             temperature: body.temperature ?? 0.2,
             isPinned: false,
             isArchived: false,
+            retrievalScope: scope.value,
+            documentIds: documents.value,
+            documentVersions: pins.value,
           },
         });
 
@@ -163,25 +238,45 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Session not found' }, { status: 404 });
     }
 
+    // A multi-document chat answers from its documents only
+    const documentIds: string[] = session.documentIds || [];
+    const isDocumentChat = documentIds.length > 0;
+
+    const scope = await resolveRetrievalScope(parseRetrievalScope(session.retrievalScope), (user as any).id);
+
     // Create agent with enhanced configuration
     const agent = createChatAgent({
       modelKey: body.model || session.modelKey,
       temperature: body.temperature ?? session.temperature,
-      useDatabase: body.enableDatabaseQueries ?? session.useDatabase,
-      useKnowledgeBase: body.useKnowledgeBase ?? session.useKnowledgeBase,
+      useDatabase: isDocumentChat ? false : body.enableDatabaseQueries ?? session.useDatabase,
+      useKnowledgeBase: isDocumentChat ? false : body.useKnowledgeBase ?? session.useKnowledgeBase,
       useReranking: useReranking ?? true,
+      reranker: await loadUserReranker((user as any).id),
+      knowledgeFilter: scope.knowledgeFilter,
+      scopeDocuments: scope.documents,
+      queryTransforms: await loadUserQueryTransforms((user as any).id),
       rerankingThreshold: rerankingThreshold ?? 0.5,
-      maxContextLength: maxContextLength ?? 6000,
+      maxContextLength: maxContextLength ?? (await loadUserMaxContextLength((user as any).id)) ?? 6000,
       streaming: body.stream ?? false,
+      stageModels: await loadUserStageModels((user as any).id),
     });
 
+    const agentContext = {
+      userId: (user as any).id,
+      userName: (user as any).firstName || (user as any).username || 'User',
+      sessionId: session.id,
+    };
+    const respond = () => isDocumentChat
+      ? agent.generateDocumentResponse(userMessage, {
+        ...agentContext,
+        documentIds,
+        documentVersions: parseVersionPins(session.documentVersions),
+      })
+      : agent.generateChatResponse(userMessage, agentContext);
+
     // Check if we should handle streaming
     if (body.stream) {
-      const stream = await agent.generateChatResponse(userMessage, {
-        userId: (user as any).id,
-        userName: (user as any).firstName || (user as any).username || 'User',
-        sessionId: session.id,
-      });
+      const stream = await respond();
 
       return new Response(stream as any, {
         headers: {
@@ -195,11 +290,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Generate enhanced response with sources
-    const agentResponse = await agent.generateChatResponse(userMessage, {
-      userId: (user as any).id,
-      userName: (user as any).firstName || (user as any).username || 'User',
-      sessionId: session.id,
-    });
+    const agentResponse = await respond();
 
     // Save user message
     await prismadb.chatMessage.create({
@@ -224,11 +315,18 @@ export async function POST(request: NextRequest) {
         executionTime: agentResponse.executionTime,
         dbQueryUsed: agentResponse.contexts.database?.success || false,
         contextSources: agentResponse.metadata.contextSources.join(','),
+        promptVersions: agentResponse.metadata.promptVersions
+          ? JSON.stringify(agentResponse.metadata.promptVersions)
+          : null,
         // Store sources as JSON in a text field (you may want to create a separate sources table)
         metadata: JSON.stringify({
           sources: agentResponse.sources,
           dbQuery: agentResponse.contexts.database?.sqlQuery,
           rerankingApplied: agentResponse.metadata.rerankingApplied,
+          requestedModel: agentResponse.metadata.requestedModel,
+          modelFallbacks: agentResponse.metadata.modelFallbacks,
+          stageModels: agentResponse.metadata.stageModels,
+          cache: agentResponse.metadata.cache,
         }),
       },
     });
@@ -312,6 +410,7 @@ export async function GET(request: NextRequest) {
         isArchived: session.isArchived,
         modelKey: session.modelKey,
         createdAt: session.createdAt.toISOString(),
+        documentIds: session.documentIds,
       }));
 
       return NextResponse.json({ sessions: formattedSessions });
@@ -334,14 +433,23 @@ export async function GET(request: NextRequest) {
         return NextResponse.json({ error: 'Session not found' }, { status: 404 });
       }
 
+      const documents: { id: string; title: string; currentVersion: number }[] = session.documentIds?.length
+        ? await prismadb.document.findMany({
+          where: { id: { in: session.documentIds } },
+          select: { id: true, title: true, currentVersion: true },
+        })
+        : [];
+
       // Parse source references from stored metadata
       const enhancedMessages = session.messages.map((message: any) => {
         let sources: SourceReference[] = [];
+        let feedback: string | null = null;
 
         if (message.metadata) {
           try {
             const metadata = JSON.parse(message.metadata as string);
             sources = metadata.sources || [];
+            feedback = metadata.feedback ?? null;
           } catch (error) {
             console.warn('Failed to parse message metadata:', error);
           }
@@ -357,6 +465,7 @@ export async function GET(request: NextRequest) {
           dbQueryUsed: message.dbQueryUsed,
           contextSources: message.contextSources,
           sources: message.role === 'ASSISTANT' ? sources : undefined,
+          feedback: message.role === 'ASSISTANT' ? feedback : undefined,
         };
       });
 
@@ -371,11 +480,37 @@ export async function GET(request: NextRequest) {
         isPinned: session.isPinned,
         isArchived: session.isArchived,
         lastMessageAt: session.lastMessageAt?.toISOString(),
+        retrievalScope: parseRetrievalScope(session.retrievalScope),
+        documents,
+        documentVersions: parseVersionPins(session.documentVersions),
       };
 
       return NextResponse.json({ session: formattedSession });
     }
 
+    if (action === 'scope-options') {
+      // What a session's retrieval scope can be narrowed to
+      const [categories, documents, tags] = await Promise.all([
+        prismadb.category.findMany({
+          where: { isActive: true },
+          select: { id: true, name: true },
+          orderBy: { name: 'asc' },
+        }),
+        prismadb.document.findMany({
+          where: { userId: (user as any).id, status: 'COMPLETED' },
+          select: { id: true, title: true, categoryId: true },
+          orderBy: { title: 'asc' },
+        }),
+        prismadb.knowledgeBaseTag.findMany({
+          select: { name: true },
+          orderBy: { usageCount: 'desc' },
+          take: 100,
+        }),
+      ]);
+
+      return NextResponse.json({ categories, documents, tags: tags.map((t: { name: string }) => t.name) });
+    }
+
     if (action === 'models') {
       // Return available models (this would come from your config)
       const models = AVAILABLE_MODELS_LIST
@@ -403,12 +538,56 @@ export async function PUT(request: NextRequest) {
       return NextResponse.json({ error: 'Session ID required' }, { status: 400 });
     }
 
+    if (updates.retrievalScope !== undefined) {
+      const scope = await storedRetrievalScope(updates.retrievalScope, (user as any).id);
+      if (scope.errors.length > 0) {
+        return NextResponse.json({ error: scope.errors.join(', ') }, { status: 400 });
+      }
+      updates.retrievalScope = scope.value;
+    }
+
+    if (updates.documentIds !== undefined) {
+      const documents = await sessionDocumentIds(updates.documentIds, (user as any).id);
+      if (documents.errors.length > 0) {
+        return NextResponse.json({ error: documents.errors.join(', ') }, { status: 400 });
+      }
+      updates.documentIds = documents.value;
+    }
+
+    if (updates.documentVersions !== undefined) {
+      // pins are checked against the documents the chat will have after this update
+      const documentIds: string[] = updates.documentIds ?? (await prismadb.chatSession.findUnique({
+        where: { id: sessionId, userId: (user as any).id },
+        select: { documentIds: true },
+      }))?.documentIds ?? [];
+      const pins = await storedVersionPins(updates.documentVersions, documentIds);
+      if (pins.errors.length > 0) {
+        return NextResponse.json({ error: pins.errors.join(', ') }, { status: 400 });
+      }
+      updates.documentVersions = pins.value;
+    } else if (updates.documentIds !== undefined) {
+      // pins of documents no longer in the chat are dropped
+      const current = await prismadb.chatSession.findUnique({
+        where: { id: sessionId, userId: (user as any).id },
+        select: { documentVersions: true },
+      });
+      const kept = Object.entries(parseVersionPins(current?.documentVersions))
+        .filter(([id]) => updates.documentIds.includes(id));
+      updates.documentVersions = kept.length ? JSON.stringify(Object.fromEntries(kept)) : null;
+    }
+
     const session = await prismadb.chatSession.update({
       where: { id: sessionId, userId: (user as any).id },
       data: updates,
     });
 
-    return NextResponse.json({ session });
+    return NextResponse.json({
+      session: {
+        ...session,
+        retrievalScope: parseRetrievalScope(session.retrievalScope),
+        documentVersions: parseVersionPins(session.documentVersions),
+      },
+    });
 
   } catch (error: any) {
     console.error('Chat PUT API error:', error);
@@ -8,8 +8,10 @@ import {
   handleAuthAndRateLimit,
   createErrorResponse,
   validateDatabaseRequest,
+  loadUserStageModels,
   DATABASE_SCHEMA
 } from "@/lib/agent";
+import { saveUsageHistory } from "@/lib/llm/usage";
 import { type AgentConfig } from "@/types";
 
 // Import database tools directly for GET endpoints
@@ -68,6 +70,7 @@ export async function POST(request: Request) {
       useKnowledgeBase: false,
       streaming: false,
       timeout: 45000,
+      stageModels: await loadUserStageModels(user.id),
     };
 
     const agent = createDatabaseAgent(agentConfig);
@@ -86,7 +89,7 @@ export async function POST(request: Request) {
       }
 
       try {
-        result = await agent.executeQuery(directQuery);
+        result = await agent.executeQuery(directQuery, user.id);
         sqlQuery = directQuery;
       } catch (error: any) {
         return NextResponse.json(
@@ -96,7 +99,7 @@ export async function POST(request: Request) {
       }
     } else {
       try {
-        result = await agent.executeQuery(question);
+        result = await agent.executeQuery(question, user.id);
         sqlQuery = result.sqlQuery || "";
         answer = result.summary || "";
       } catch (error: any) {
@@ -140,6 +143,34 @@ export async function POST(request: Request) {
     if (result?.performance) {
       response.performance = result.performance;
     }
+
+    if (result?.steps?.length) {
+      response.steps = result.steps;
+    }
+
+    if (result?.stageModels) {
+      response.stageModels = result.stageModels;
+    }
+
+    if (result?.promptVersions && Object.keys(result.promptVersions).length) {
+      response.promptVersions = result.promptVersions;
+    }
+
+    if (result?.usage) {
+      response.usage = result.usage;
+      await saveUsageHistory({
+        userId: user.id,
+        query: question || directQuery,
+        queryType: "database",
+        success: !!result.success,
+        modelUsed: result.usage.byModel[0]?.modelId ?? model,
+        executionTime: result.performance?.executionTime,
+        resultCount: result.data?.length || 0,
+        sqlGenerated: sqlQuery || undefined,
+        errorMessage: result.success ? undefined : result.error,
+        usage: result.usage,
+      });
+    }
     return NextResponse.json(response);
   } catch (error: any) {
     console.error("[DATABASE_QUERY_ERROR]", error);
@@ -0,0 +1,107 @@
+// app/api/document/[documentId]/chunks/route.ts - Browse the stored chunks of a document
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { handleAuthAndRateLimit, createErrorResponse } from "@/lib/agent";
+import prismadb from "@/lib/prismadb";
+import type { DocumentVersion } from "@prisma/client";
+
+export const runtime = "nodejs";
+
+const QuerySchema = z.object({
+  // "3" or "3,4,7": exact chunks, e.g. the ones behind a citation
+  chunkIndex: z
+    .string()
+    .regex(/^\d+(,\d+)*$/)
+    .transform((v) => v.split(",").map(Number))
+    .optional(),
+  pageNumber: z.coerce.number().int().min(1).optional(),
+  // chunks of an earlier version; the latest one by default
+  version: z.coerce.number().int().min(1).optional(),
+  // sections only exist for hierarchically chunked documents
+  level: z.enum(["chunk", "section"]).default("chunk"),
+  offset: z.coerce.number().int().min(0).default(0),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+/**
+ * GET /api/document/:documentId/chunks
+ * Chunks in reading order, with the text that was embedded for each. Filter
+ * by `chunkIndex` or `pageNumber`, list sections with `level=section`; page
+ * through with `offset` / `limit`. Chunks are those of the latest version, or
+ * of `version`; a `chunkIndex` lookup without one finds chunks of any version.
+ */
+export async function GET(request: NextRequest, { params }: { params: { documentId: string } }) {
+  try {
+    const authResult = await handleAuthAndRateLimit(request);
+    if (!authResult.success || !authResult.user) return authResult.error!;
+
+    const parsed = QuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Invalid query", details: parsed.error.flatten() }, { status: 400 });
+    }
+    const { chunkIndex, pageNumber, level, version, offset, limit } = parsed.data;
+
+    // same access rule as document chat: any signed-in user can read a document
+    const document = await prismadb.document.findUnique({
+      where: { id: params.documentId },
+      select: { id: true, title: true, status: true, chunkingStrategy: true, currentVersion: true },
+    });
+    if (!document) return NextResponse.json({ error: "Document not found" }, { status: 404 });
+
+    // sections are not versioned; a version's chunks are listed in its reading order
+    const listed = level === "chunk" ? version ?? (chunkIndex ? undefined : document.currentVersion) : undefined;
+    let order: number[] | null = null;
+    if (listed !== undefined) {
+      const row: Pick<DocumentVersion, "chunkIndexes"> | null = await prismadb.documentVersion.findUnique({
+        where: { documentId_version: { documentId: document.id, version: listed } },
+        select: { chunkIndexes: true },
+      });
+      if (row) order = row.chunkIndexes;
+      else if (version !== undefined) return NextResponse.json({ error: "Version not found" }, { status: 404 });
+    }
+    const indexes = order && chunkIndex ? order.filter((i) => chunkIndex.includes(i)) : order ?? chunkIndex;
+
+    const where = {
+      documentId: document.id,
+      level,
+      ...(indexes ? { chunkIndex: { in: indexes } } : {}),
+      ...(pageNumber ? { pageNumber } : {}),
+    };
+    const [total, rows] = await Promise.all([
+      prismadb.documentChunk.count({ where }),
+      prismadb.documentChunk.findMany({
+        where,
+        orderBy: { chunkIndex: "asc" },
+        ...(order ? {} : { skip: offset, take: limit }),
+        select: {
+          id: true,
+          chunkIndex: true,
+          pageNumber: true,
+          chunkType: true,
+          wordCount: true,
+          tokenEstimate: true,
+          vectorId: true,
+          level: true,
+          parentChunkId: true,
+          sectionTitle: true,
+          content: true,
+          versionFrom: true,
+          versionTo: true,
+          usageCount: true,
+          citedCount: true,
+          createdAt: true,
+        },
+      }),
+    ]);
+    const chunks = order
+      ? rows
+        .sort((a: { chunkIndex: number }, b: { chunkIndex: number }) => order!.indexOf(a.chunkIndex) - order!.indexOf(b.chunkIndex))
+        .slice(offset, offset + limit)
+      : rows;
+
+    return NextResponse.json({ success: true, document, version: listed ?? null, total, offset, limit, chunks });
+  } catch (error) {
+    console.error("[DOCUMENT_CHUNKS_GET]", error);
+    return createErrorResponse(error);
+  }
+}
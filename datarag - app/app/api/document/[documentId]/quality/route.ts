@@ -0,0 +1,38 @@
+// app/api/document/[documentId]/quality/route.ts - Chunks that are never retrieved, or retrieved but never cited
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { handleAuthAndRateLimit, createErrorResponse } from "@/lib/agent";
+import { chunkQualityReport } from "@/lib/chunk-quality";
+
+export const runtime = "nodejs";
+
+const QuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+/**
+ * GET /api/document/:documentId/quality
+ * Usage report for the current version: "dead" chunks no answer has
+ * retrieved, and "noisy" chunks retrieved often but never cited, each with
+ * its counters and quality score.
+ */
+export async function GET(request: NextRequest, { params }: { params: { documentId: string } }) {
+  try {
+    const authResult = await handleAuthAndRateLimit(request);
+    if (!authResult.success || !authResult.user) return authResult.error!;
+
+    const parsed = QuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Invalid query", details: parsed.error.flatten() }, { status: 400 });
+    }
+
+    // same access rule as the chunks route: any signed-in user can read a document
+    const report = await chunkQualityReport(params.documentId, parsed.data.limit);
+    if (!report) return NextResponse.json({ error: "Document not found" }, { status: 404 });
+
+    return NextResponse.json({ success: true, ...report });
+  } catch (error) {
+    console.error("[DOCUMENT_QUALITY_GET]", error);
+    return createErrorResponse(error);
+  }
+}
@@ -1,6 +1,8 @@
 // app/api/documents/[id]/route.ts
 import { NextResponse } from "next/server";
 import prismadb from "@/lib/prismadb";
+import { invalidateResponseCache } from "@/lib/response-cache";
+import { deleteDocument } from "@/lib/document-cleanup";
 import { z } from "zod";
 
 // If you use Clerk:
@@ -126,6 +128,11 @@ export async function PATCH(
       },
     });
 
+    // title and description are part of the document chat prompt
+    if (data.title !== undefined || data.description !== undefined) {
+      await invalidateResponseCache({ documentId: params.documentId });
+    }
+
     return NextResponse.json(updated);
   } catch (err: any) {
     console.error("[DOCUMENT_PATCH]", err);
@@ -144,18 +151,18 @@ export async function DELETE(
 
     const existing = await prismadb.document.findUnique({
       where: { id: params.documentId },
-      select: { id: true, userId: true },
+      select: { id: true, userId: true, fileUrl: true },
     });
     if (!existing) return new NextResponse("Not found", { status: 404 });
     if (existing.userId !== userId) {
       return new NextResponse("Forbidden", { status: 403 });
     }
 
-    // Relations (DocumentMessage, DocumentChunk) have onDelete: Cascade in schema,
-    // so a direct delete will cascade in the DB.
-    await prismadb.document.delete({ where: { id: params.documentId } });
+    // Vectors, history, cached answers and the file are removed too; whatever
+    // failed is listed in removed.errors and left for the orphan sweep.
+    const removed = await deleteDocument(existing);
 
-    return NextResponse.json({ ok: true });
+    return NextResponse.json({ ok: true, removed });
   } catch (err: any) {
     console.error("[DOCUMENT_DELETE]", err);
     return new NextResponse(err?.message || "Server error", { status: 500 });
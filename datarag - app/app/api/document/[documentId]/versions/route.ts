@@ -0,0 +1,94 @@
+// app/api/document/[documentId]/versions/route.ts - Upload, list and compare document versions
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { handleAuthAndRateLimit, createErrorResponse, MemoryManager } from "@/lib/agent";
+import { diffVersions, listVersions } from "@/lib/document-versions";
+import prismadb from "@/lib/prismadb";
+
+export const runtime = "nodejs";
+
+const DiffQuerySchema = z.object({
+  from: z.coerce.number().int().min(1),
+  to: z.coerce.number().int().min(1),
+});
+
+const VersionBodySchema = z.object({
+  fileUrl: z.string().url(),
+  note: z.string().max(1000).optional(),
+});
+
+/**
+ * GET /api/document/:documentId/versions
+ * Every version, latest first. With `from` and `to`, the chunk-level diff
+ * between two versions instead.
+ */
+export async function GET(request: NextRequest, { params }: { params: { documentId: string } }) {
+  try {
+    const authResult = await handleAuthAndRateLimit(request);
+    if (!authResult.success || !authResult.user) return authResult.error!;
+
+    // same access rule as the chunks route: any signed-in user can read a document
+    const document = await prismadb.document.findUnique({
+      where: { id: params.documentId },
+      select: { id: true, title: true, currentVersion: true },
+    });
+    if (!document) return NextResponse.json({ error: "Document not found" }, { status: 404 });
+
+    const search = request.nextUrl.searchParams;
+    if (search.has("from") || search.has("to")) {
+      const parsed = DiffQuerySchema.safeParse(Object.fromEntries(search));
+      if (!parsed.success) {
+        return NextResponse.json({ error: "Invalid query", details: parsed.error.flatten() }, { status: 400 });
+      }
+      const diff = await diffVersions(document.id, parsed.data.from, parsed.data.to);
+      if (!diff) return NextResponse.json({ error: "Version not found" }, { status: 404 });
+      return NextResponse.json({ success: true, diff });
+    }
+
+    return NextResponse.json({ success: true, document, versions: await listVersions(document.id) });
+  } catch (error) {
+    console.error("[DOCUMENT_VERSIONS_GET]", error);
+    return createErrorResponse(error);
+  }
+}
+
+/**
+ * POST /api/document/:documentId/versions
+ * Make an uploaded file the next version of the document. Only chunks whose
+ * text changed are embedded; chats follow the new version unless pinned.
+ */
+export async function POST(request: NextRequest, { params }: { params: { documentId: string } }) {
+  try {
+    const authResult = await handleAuthAndRateLimit(request);
+    if (!authResult.success || !authResult.user) return authResult.error!;
+
+    const parsed = VersionBodySchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Invalid request", details: parsed.error.flatten() }, { status: 400 });
+    }
+
+    const document = await prismadb.document.findFirst({
+      where: { id: params.documentId, userId: authResult.user.id },
+      select: { id: true, status: true, chunkingStrategy: true },
+    });
+    if (!document) return NextResponse.json({ error: "Document not found" }, { status: 404 });
+    if (document.status !== "COMPLETED") {
+      return NextResponse.json({ error: "Only processed documents can be revised" }, { status: 409 });
+    }
+
+    const mm = await MemoryManager.getInstance();
+    const version = await mm.addDocumentVersion(parsed.data.fileUrl, document.id, {
+      chunkingStrategy: document.chunkingStrategy,
+      createdBy: authResult.user.id,
+      note: parsed.data.note,
+    });
+    if (!version) {
+      return NextResponse.json({ error: "Another version of this document is being processed" }, { status: 409 });
+    }
+
+    return NextResponse.json({ success: true, version });
+  } catch (error) {
+    console.error("[DOCUMENT_VERSIONS_POST]", error);
+    return createErrorResponse(error);
+  }
+}
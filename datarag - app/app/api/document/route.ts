@@ -1,5 +1,7 @@
-import { ModernEmbeddingIntegration } from "@/lib/agent";
+import { MemoryManager, ModernEmbeddingIntegration } from "@/lib/agent";
+import { isChunkingStrategy } from "@/lib/chunking/chunker";
 import prismadb from "@/lib/prismadb";
+import { invalidateResponseCache } from "@/lib/response-cache";
 import { currentUser } from "@clerk/nextjs";
 import { NextResponse } from "next/server";
 
@@ -8,7 +10,7 @@ export async function POST(req: Request) {
         const body = await req.json();
         const user = await currentUser();
 
-        const { title, description, fileUrl, categoryId } = body;
+        const { title, description, fileUrl, categoryId, chunkingStrategy } = body;
 
         if (!user || !user.id || !user.firstName) {
             return new NextResponse("Unauthorized", { status: 401 });
@@ -18,6 +20,10 @@ export async function POST(req: Request) {
             return new NextResponse("Missing required fields", { status: 400 });
         }
 
+        if (chunkingStrategy != null && !isChunkingStrategy(chunkingStrategy)) {
+            return new NextResponse("Invalid chunking strategy", { status: 400 });
+        }
+
         // Verify category exists
         const category = await prismadb.category.findUnique({
             where: { id: categoryId }
@@ -35,6 +41,7 @@ export async function POST(req: Request) {
                 categoryId,
                 fileUrl,
                 userId: user.id,
+                chunkingStrategy: chunkingStrategy ?? null,
                 status: "PROCESSING" // Set initial status
             }
         });
@@ -42,7 +49,9 @@ export async function POST(req: Request) {
         // Start embedding processing asynchronously
         try {
             const integration = new ModernEmbeddingIntegration();
-            const embedResult = await integration.processFile(fileUrl, document.id);
+            const embedResult = await integration.processFile(fileUrl, document.id, {
+                chunkingStrategy: document.chunkingStrategy
+            });
             console.log("Embed file result:", embedResult);
 
             // Update document status to COMPLETED
@@ -117,22 +126,41 @@ export async function PATCH(
             }
         }
 
-        // Update document
-        const updatedDocument = await prismadb.document.update({
+        // A processed document keeps its history: a new file becomes its next version.
+        // Only a document whose first file failed is processed from scratch.
+        const fileChanged = !!fileUrl && fileUrl !== existingDocument.fileUrl;
+        const reprocess = fileChanged && existingDocument.status === "ERROR" && existingDocument.currentVersion <= 1;
+        if (fileChanged && !reprocess && existingDocument.status !== "COMPLETED") {
+            return new NextResponse("Only processed documents can be revised", { status: 409 });
+        }
+
+        // Update document; a new version stores its own file
+        let updatedDocument = await prismadb.document.update({
             where: { id: params.documentId },
             data: {
                 ...(title && { title }),
                 ...(description && { description }),
                 ...(categoryId && { categoryId }),
-                ...(fileUrl && { fileUrl, status: "PROCESSING" }), // Reset status if new file
+                ...(reprocess && { fileUrl, status: "PROCESSING" }),
             }
         });
 
-        // If file URL changed, reprocess embeddings
-        if (fileUrl && fileUrl !== existingDocument.fileUrl) {
+        if (fileChanged && !reprocess) {
+            const memoryManager = await MemoryManager.getInstance();
+            const version = await memoryManager.addDocumentVersion(fileUrl, updatedDocument.id, {
+                chunkingStrategy: updatedDocument.chunkingStrategy,
+                createdBy: user.id
+            });
+            if (!version) {
+                return new NextResponse("Another version of this document is being processed", { status: 409 });
+            }
+            updatedDocument = await prismadb.document.findUnique({ where: { id: updatedDocument.id } });
+        } else if (reprocess) {
             try {
                 const integration = new ModernEmbeddingIntegration();
-                await integration.processFile(fileUrl, updatedDocument.id);
+                await integration.processFile(fileUrl, updatedDocument.id, {
+                    chunkingStrategy: updatedDocument.chunkingStrategy
+                });
 
                 // Update status to completed
                 await prismadb.document.update({
@@ -203,6 +231,9 @@ export async function DELETE(
             console.warn("Failed to clean up knowledge base entries:", kbError);
         }
 
+        await invalidateResponseCache({ documentId: params.documentId });
+        await invalidateResponseCache({ knowledge: true });
+
         return new NextResponse(null, { status: 204 });
 
     } catch (error) {
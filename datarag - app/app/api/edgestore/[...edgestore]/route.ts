@@ -1,14 +1,5 @@
-import { initEdgeStore } from '@edgestore/server';
 import { createEdgeStoreNextHandler } from '@edgestore/server/adapters/next/app';
- 
-const es = initEdgeStore.create();
- 
-/**
- * This is the main router for the Edge Store buckets.
- */
-const edgeStoreRouter = es.router({
-  MyDocuments: es.fileBucket(),
-});
+import { edgeStoreRouter } from '@/lib/edgestore-server';
  
 const handler = createEdgeStoreNextHandler({
   router: edgeStoreRouter,
@@ -0,0 +1,44 @@
+// app/api/embedding-cache/route.ts - Embedding cache hit rates
+import { NextRequest, NextResponse } from "next/server";
+import { handleAuthAndRateLimit, createErrorResponse } from "@/lib/agent";
+import { EmbeddingCache } from "@/lib/embedding-cache";
+import { isIndexAdmin } from "@/lib/reindex";
+
+export const runtime = "nodejs";
+
+/**
+ * GET /api/embedding-cache
+ * Hits and misses of the embedding cache, overall and per model.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await handleAuthAndRateLimit(request);
+    if (!authResult.success || !authResult.user) return authResult.error!;
+
+    const stats = await EmbeddingCache.getInstance().stats();
+    return NextResponse.json({ success: true, enabled: EmbeddingCache.enabled(), ...stats });
+  } catch (error) {
+    console.error("[EMBEDDING_CACHE_GET]", error);
+    return createErrorResponse(error);
+  }
+}
+
+/**
+ * DELETE /api/embedding-cache
+ * Reset the hit counters (cached vectors are kept).
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const authResult = await handleAuthAndRateLimit(request);
+    if (!authResult.success || !authResult.user) return authResult.error!;
+    if (!isIndexAdmin(authResult.user.id)) {
+      return NextResponse.json({ error: "Only index admins can reset cache stats" }, { status: 403 });
+    }
+
+    await EmbeddingCache.getInstance().resetStats();
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[EMBEDDING_CACHE_DELETE]", error);
+    return createErrorResponse(error);
+  }
+}
@@ -1,8 +1,8 @@
 // app/api/evaluate/route.ts - Enhanced version with better database integration
 import { NextRequest, NextResponse } from "next/server";
-import { handleAuthAndRateLimit, createErrorResponse, createChatAgent } from "@/lib/agent";
+import { handleAuthAndRateLimit, createErrorResponse, createChatAgent, loadUserReranker, loadUserStageModels } from "@/lib/agent";
 import prismadb from "@/lib/prismadb";
-import { EvaluationEngine, DEFAULT_EVALUATION_DATASET, EvaluationConfig } from "@/lib/eval/engine";
+import { EvaluationEngine, DEFAULT_EVALUATION_DATASET, EvaluationConfig, promptVersionsOf, usageTotals } from "@/lib/eval/engine";
 
 export const runtime = "nodejs";
 
@@ -25,7 +25,7 @@ export async function POST(request: NextRequest) {
       testAugmentation = true,
       testGeneration = true,
       useJudgeLLM = true,
-      judgeModel = "groq/llama-3.1-8b-instant",
+      judgeModel,
       topK = 5,
       temperature = 0.2,
       maxTokens = 2000,
@@ -57,6 +57,10 @@ export async function POST(request: NextRequest) {
       evaluationDataset = dataset;
     }
 
+    // Stages the request doesn't pin follow the user's model settings
+    const stageModels = await loadUserStageModels(user.id);
+    const reranker = await loadUserReranker(user.id);
+
     const config: EvaluationConfig = {
       models,
       embeddingModel,
@@ -64,13 +68,14 @@ export async function POST(request: NextRequest) {
       testAugmentation,
       testGeneration,
       useJudgeLLM,
-      judgeModel,
+      judgeModel: judgeModel || stageModels.judge || "groq/llama-3.1-8b-instant",
       topK,
       temperature,
       maxTokens,
       enablePerformanceTracking,
       saveDetailedMetrics,
       enableAnalytics,
+      stageModels,
     };
 
     // --- STREAMING BRANCH (Enhanced) -----------------------------------------------
@@ -123,6 +128,7 @@ export async function POST(request: NextRequest) {
             try {
               const avg = allResults.reduce((s, r) => s + (r?.scores?.overall ?? 0), 0) / Math.max(1, allResults.length);
               const totalExec = allResults.reduce((s, r) => s + (r?.executionTime ?? 0), 0);
+              const runUsage = usageTotals(allResults);
 
               await prismadb.evaluationRun.update({
                 where: { id: run.id },
@@ -130,6 +136,9 @@ export async function POST(request: NextRequest) {
                   results: JSON.stringify(allResults),
                   avgScore: isFinite(avg) ? avg : 0,
                   executionTime: totalExec,
+                  totalTokensUsed: runUsage.totalTokens,
+                  estimatedCost: runUsage.estimatedCost,
+                  promptVersions: JSON.stringify(promptVersionsOf(allResults)),
                 },
               });
 
@@ -139,6 +148,12 @@ export async function POST(request: NextRequest) {
                 if (modelResults.length > 0) {
                   const modelAvgScore = modelResults.reduce((s, r) => s + r.scores.overall, 0) / modelResults.length;
                   const modelAvgTime = modelResults.reduce((s, r) => s + r.executionTime, 0) / modelResults.length;
+                  const modelUsage = usageTotals(modelResults);
+                  const costFields = {
+                    totalTokensUsed: modelUsage.totalTokens,
+                    estimatedCost: modelUsage.estimatedCost,
+                    costPerToken: modelUsage.totalTokens > 0 ? modelUsage.estimatedCost / modelUsage.totalTokens : null,
+                  };
 
                   await prismadb.modelPerformance.upsert({
                     where: {
@@ -159,6 +174,7 @@ export async function POST(request: NextRequest) {
                       accuracyScore: modelResults.reduce((s, r) => s + r.scores.accuracy, 0) / modelResults.length,
                       completenessScore: modelResults.reduce((s, r) => s + r.scores.completeness, 0) / modelResults.length,
                       coherenceScore: modelResults.reduce((s, r) => s + r.scores.coherence, 0) / modelResults.length,
+                      ...costFields,
                     },
                     create: {
                       userId: user.id,
@@ -175,6 +191,7 @@ export async function POST(request: NextRequest) {
                       accuracyScore: modelResults.reduce((s, r) => s + r.scores.accuracy, 0) / modelResults.length,
                       completenessScore: modelResults.reduce((s, r) => s + r.scores.completeness, 0) / modelResults.length,
                       coherenceScore: modelResults.reduce((s, r) => s + r.scores.coherence, 0) / modelResults.length,
+                      ...costFields,
                     },
                   });
                 }
@@ -227,6 +244,9 @@ export async function POST(request: NextRequest) {
                 useKnowledgeBase: true,
                 useDatabase: true,
                 useReranking: true,
+                reranker,
+                recordUsage: false, // usage is saved per test case by the engine
+                stageModels,
               });
 
               for (const testCase of evaluationDataset) {
@@ -373,6 +393,9 @@ export async function POST(request: NextRequest) {
           totalTests: results.length,
           avgScore: results.reduce((s, r) => s + r.scores.overall, 0) / Math.max(1, results.length),
           executionTime: results.reduce((s, r) => s + r.executionTime, 0),
+          totalTokensUsed: usageTotals(results).totalTokens,
+          estimatedCost: usageTotals(results).estimatedCost,
+          promptVersions: JSON.stringify(promptVersionsOf(results)),
         },
       });
       runId = run.id;
@@ -479,6 +502,7 @@ export async function GET(request: NextRequest) {
         totalTests: run.totalTests,
         avgScore: run.avgScore,
         executionTime: run.executionTime,
+        promptVersions: run.promptVersions ? JSON.parse(run.promptVersions) : null,
         config: {
           models: config.models || [],
           modelCount: (config.models || []).length,
@@ -4,6 +4,8 @@ import { currentUser } from "@clerk/nextjs";
 import prismadb from "@/lib/prismadb";
 import * as z from "zod";
 import { DEFAULT_EMBEDDING_CONFIG, MemoryManager } from "@/lib/agent";
+import { invalidateResponseCache } from "@/lib/response-cache";
+import { knowledgeEmbeddingInput, knowledgeVectorId } from "@/lib/knowledge-embedding";
 
 // ---- Enhanced Validation Schema ----
 const payloadSchema = z.object({
@@ -188,21 +190,10 @@ export async function POST(req: Request) {
     });
 
     // ---- NEW: embed into vector KB using MemoryManager ----
-    const textForEmbedding = [parse.data.title, parse.data.content].filter(Boolean).join("\n\n");
-
-    const embedMeta: Record<string, any> = {
-      kbEntryId: result.id,
-      userId: user.id,
-      title: parse.data.title,
-      category: parse.data.category ?? null,
-      tags: (result.tags || []).map((t: any) => t.name),
-      sourceUrl: parse.data.sourceUrl,
-      // namespace doc id for vector store – ties all chunks to this entry
-      documentId: parse.data.documentId || `kb:${result.id}`,
-      chunkIndex: parse.data.chunkIndex,
-      chunkCount: parse.data.chunkCount,
-      isPublic: parse.data.isPublic ?? true,
-    };
+    const { text: textForEmbedding, metadata: embedMeta } = knowledgeEmbeddingInput(
+      result,
+      (result.tags || []).map((t: any) => t.name)
+    );
 
     let embeddingOk = false;
     try {
@@ -401,7 +392,23 @@ export async function PUT(req: Request) {
       },
     });
 
-    return NextResponse.json(updatedEntry);
+    // same vector id as on create, so the old vector is overwritten; unchanged
+    // text comes out of the embedding cache
+    const { text, metadata } = knowledgeEmbeddingInput(
+      updatedEntry,
+      (updatedEntry.tags || []).map((t: any) => t.name)
+    );
+    let embeddingOk = false;
+    try {
+      const memoryManager = await MemoryManager.getInstance(DEFAULT_EMBEDDING_CONFIG);
+      embeddingOk = await memoryManager.addToKnowledgeBase(text, metadata);
+    } catch (embErr) {
+      console.error("Re-embedding failed:", embErr);
+    }
+
+    await invalidateResponseCache({ knowledge: true });
+
+    return NextResponse.json({ ...updatedEntry, _embedding: { ok: embeddingOk, namespace: "knowledge_base" } });
   } catch (err: any) {
     console.error("[Knowledge.PUT] Error:", err);
     return NextResponse.json(
@@ -436,6 +443,16 @@ export async function DELETE(req: Request) {
       );
     }
 
+    // the vector (in every generation) and its keyword entry; a failure leaves an orphan for the sweep
+    try {
+      const memoryManager = await MemoryManager.getInstance(DEFAULT_EMBEDDING_CONFIG);
+      await memoryManager.deleteKnowledgeVectors({ ids: [knowledgeVectorId(id)] });
+    } catch (vecErr) {
+      console.error("[Knowledge.DELETE] Vector delete failed:", vecErr);
+    }
+
+    await invalidateResponseCache({ knowledge: true });
+
     return new NextResponse(null, { status: 204 });
   } catch (err: any) {
     console.error("[Knowledge.DELETE] Error:", err);
@@ -0,0 +1,44 @@
+// app/api/maintenance/keywords/route.ts - Backfill the keyword index
+import { NextRequest, NextResponse } from "next/server";
+import { handleAuthAndRateLimit, createErrorResponse } from "@/lib/agent";
+import { backfillKeywords, isIndexAdmin } from "@/lib/reindex";
+
+export const runtime = "nodejs";
+
+function forbidden() {
+  return NextResponse.json({ error: "Only index admins can backfill the keyword index" }, { status: 403 });
+}
+
+/**
+ * GET /api/maintenance/keywords
+ * Dry run: document chunks and knowledge base entries missing from the keyword index.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await handleAuthAndRateLimit(request);
+    if (!authResult.success || !authResult.user) return authResult.error!;
+    if (!isIndexAdmin(authResult.user.id)) return forbidden();
+
+    return NextResponse.json({ success: true, ...(await backfillKeywords({ dryRun: true })) });
+  } catch (error) {
+    console.error("[KEYWORDS_GET]", error);
+    return createErrorResponse(error);
+  }
+}
+
+/**
+ * POST /api/maintenance/keywords
+ * Write keyword entries for every document chunk and knowledge base entry missing one.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await handleAuthAndRateLimit(request);
+    if (!authResult.success || !authResult.user) return authResult.error!;
+    if (!isIndexAdmin(authResult.user.id)) return forbidden();
+
+    return NextResponse.json({ success: true, ...(await backfillKeywords()) });
+  } catch (error) {
+    console.error("[KEYWORDS_POST]", error);
+    return createErrorResponse(error);
+  }
+}
@@ -0,0 +1,25 @@
+// app/api/maintenance/knowledge-dates/route.ts - Backfill creation dates on knowledge base vectors
+import { NextRequest, NextResponse } from "next/server";
+import { handleAuthAndRateLimit, createErrorResponse } from "@/lib/agent";
+import { backfillKnowledgeDates, isIndexAdmin } from "@/lib/reindex";
+
+export const runtime = "nodejs";
+
+/**
+ * POST /api/maintenance/knowledge-dates
+ * Write each knowledge base entry's creation time onto its vector, so date-scoped chats find it.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await handleAuthAndRateLimit(request);
+    if (!authResult.success || !authResult.user) return authResult.error!;
+    if (!isIndexAdmin(authResult.user.id)) {
+      return NextResponse.json({ error: "Only index admins can backfill knowledge base dates" }, { status: 403 });
+    }
+
+    return NextResponse.json({ success: true, entries: await backfillKnowledgeDates() });
+  } catch (error) {
+    console.error("[KNOWLEDGE_DATES_POST]", error);
+    return createErrorResponse(error);
+  }
+}
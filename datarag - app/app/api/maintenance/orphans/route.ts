@@ -0,0 +1,46 @@
+// app/api/maintenance/orphans/route.ts - Find and purge vectors of deleted documents
+import { NextRequest, NextResponse } from "next/server";
+import { handleAuthAndRateLimit, createErrorResponse } from "@/lib/agent";
+import { sweepOrphans } from "@/lib/document-cleanup";
+import { isIndexAdmin } from "@/lib/reindex";
+
+export const runtime = "nodejs";
+
+function forbidden() {
+  return NextResponse.json({ error: "Only index admins can purge orphaned vectors" }, { status: 403 });
+}
+
+/**
+ * GET /api/maintenance/orphans
+ * Dry run: the namespaces and knowledge base vectors a purge would delete.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await handleAuthAndRateLimit(request);
+    if (!authResult.success || !authResult.user) return authResult.error!;
+    if (!isIndexAdmin(authResult.user.id)) return forbidden();
+
+    return NextResponse.json({ success: true, ...(await sweepOrphans()) });
+  } catch (error) {
+    console.error("[ORPHANS_GET]", error);
+    return createErrorResponse(error);
+  }
+}
+
+/**
+ * POST /api/maintenance/orphans
+ * Delete orphaned vectors with their keyword entries, history and cached answers.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await handleAuthAndRateLimit(request);
+    if (!authResult.success || !authResult.user) return authResult.error!;
+    if (!isIndexAdmin(authResult.user.id)) return forbidden();
+
+    const report = await sweepOrphans({ purge: true });
+    return NextResponse.json({ success: !report.errors.length, ...report });
+  } catch (error) {
+    console.error("[ORPHANS_POST]", error);
+    return createErrorResponse(error);
+  }
+}
@@ -0,0 +1,157 @@
+// app/api/prompts/route.ts - Versioned prompt templates (global + per-user overrides)
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import type { PromptTemplate } from "@prisma/client";
+import { handleAuthAndRateLimit, createErrorResponse } from "@/lib/agent";
+import prismadb from "@/lib/prismadb";
+import { PROMPT_DEFAULTS, PROMPT_KEYS, isPromptKey } from "@/lib/prompts/defaults";
+import {
+  activatePromptVersion,
+  isPromptAdmin,
+  promptVersionLabel,
+  resolvePrompt,
+  savePromptVersion,
+} from "@/lib/prompts/registry";
+
+export const runtime = "nodejs";
+
+const PromptKeySchema = z.string().refine(isPromptKey, { message: "Unknown prompt key" });
+const ScopeSchema = z.enum(["global", "user"]).default("user");
+
+const CreateSchema = z
+  .object({
+    key: PromptKeySchema,
+    content: z.string().min(1).max(50_000),
+    description: z.string().max(500).nullable().optional(),
+    scope: ScopeSchema,
+    activate: z.boolean().optional(),
+  })
+  .strict();
+
+const ActivateSchema = z
+  .object({
+    key: PromptKeySchema,
+    scope: ScopeSchema,
+    // 0 = no saved version, fall back to the global template / built-in
+    version: z.number().int().min(0),
+  })
+  .strict();
+
+function forbidden() {
+  return NextResponse.json({ error: "Only prompt admins can change global templates" }, { status: 403 });
+}
+
+/**
+ * GET /api/prompts
+ * Every prompt key with its built-in default, global and personal versions,
+ * and the version currently in effect for the caller.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await handleAuthAndRateLimit(request);
+    if (!authResult.success || !authResult.user) return authResult.error!;
+    const userId = authResult.user.id;
+
+    const rows = await prismadb.promptTemplate.findMany({
+      where: { OR: [{ userId: null }, { userId }] },
+      orderBy: [{ key: "asc" }, { version: "desc" }],
+    });
+
+    const prompts = await Promise.all(
+      PROMPT_KEYS.map(async (key) => {
+        const effective = await resolvePrompt(key, userId);
+        const versions = rows.filter((r: PromptTemplate) => r.key === key);
+        const toVersion = (r: PromptTemplate) => ({
+          id: r.id,
+          version: r.version,
+          content: r.content,
+          description: r.description,
+          isActive: r.isActive,
+          createdBy: r.createdBy,
+          createdAt: r.createdAt,
+        });
+        return {
+          key,
+          description: PROMPT_DEFAULTS[key].description,
+          variables: ["currentDate", ...PROMPT_DEFAULTS[key].variables],
+          builtin: PROMPT_DEFAULTS[key].content,
+          effective: { version: effective.version, source: effective.source, label: promptVersionLabel(effective) },
+          global: versions.filter((r: PromptTemplate) => !r.userId).map(toVersion),
+          user: versions.filter((r: PromptTemplate) => r.userId).map(toVersion),
+        };
+      })
+    );
+
+    return NextResponse.json({ success: true, canEditGlobal: isPromptAdmin(userId), prompts });
+  } catch (error) {
+    console.error("[PROMPTS_GET]", error);
+    return createErrorResponse(error);
+  }
+}
+
+/**
+ * POST /api/prompts
+ * Save a new version of a template; it becomes active unless `activate` is false.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await handleAuthAndRateLimit(request);
+    if (!authResult.success || !authResult.user) return authResult.error!;
+    const userId = authResult.user.id;
+
+    const parsed = CreateSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Invalid payload", details: parsed.error.flatten() }, { status: 400 });
+    }
+    const { key, content, description, scope, activate } = parsed.data;
+    if (scope === "global" && !isPromptAdmin(userId)) return forbidden();
+
+    const saved = await savePromptVersion({
+      key,
+      content,
+      description,
+      activate,
+      userId: scope === "global" ? null : userId,
+      createdBy: userId,
+    });
+
+    return NextResponse.json({ success: true, template: saved }, { status: 201 });
+  } catch (error) {
+    console.error("[PROMPTS_POST]", error);
+    return createErrorResponse(error);
+  }
+}
+
+/**
+ * PATCH /api/prompts
+ * Activate an existing version (rollback / roll forward).
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const authResult = await handleAuthAndRateLimit(request);
+    if (!authResult.success || !authResult.user) return authResult.error!;
+    const userId = authResult.user.id;
+
+    const parsed = ActivateSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Invalid payload", details: parsed.error.flatten() }, { status: 400 });
+    }
+    const { key, scope, version } = parsed.data;
+    if (scope === "global" && !isPromptAdmin(userId)) return forbidden();
+
+    try {
+      await activatePromptVersion(key, scope === "global" ? null : userId, version);
+    } catch (e: any) {
+      return NextResponse.json({ error: e?.message || "Version not found" }, { status: 404 });
+    }
+
+    const effective = await resolvePrompt(key, userId);
+    return NextResponse.json({
+      success: true,
+      effective: { version: effective.version, source: effective.source, label: promptVersionLabel(effective) },
+    });
+  } catch (error) {
+    console.error("[PROMPTS_PATCH]", error);
+    return createErrorResponse(error);
+  }
+}
@@ -0,0 +1,127 @@
+// app/api/reindex/route.ts - Re-embed the corpus with a new model and switch over
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import type { EmbeddingGeneration as EmbeddingGenerationRow } from "@prisma/client";
+import { handleAuthAndRateLimit, createErrorResponse } from "@/lib/agent";
+import prismadb from "@/lib/prismadb";
+import { DEFAULT_EMBEDDING_BACKEND } from "@/lib/embeddings";
+import { LEGACY_GENERATION, activateGeneration, currentGenerations, toGeneration } from "@/lib/embedding-generations";
+import { isIndexAdmin, resumeReindex, startReindex } from "@/lib/reindex";
+
+export const runtime = "nodejs";
+
+const StartSchema = z
+  .object({
+    // not needed to resume: the generation keeps its model
+    model: z.string().min(1).max(200).optional(),
+    backend: z.enum(["huggingface", "local"]).default(DEFAULT_EMBEDDING_BACKEND),
+    // cut over automatically once every item was re-embedded
+    activate: z.boolean().default(true),
+    // build this failed generation again instead of starting a new one
+    resume: z.number().int().min(1).optional(),
+  })
+  .strict()
+  .refine((body) => body.resume !== undefined || body.model !== undefined, {
+    message: "model is required to start a re-index",
+    path: ["model"],
+  });
+
+const ActivateSchema = z
+  .object({
+    // 0 = the original, unsuffixed namespaces
+    generation: z.number().int().min(0),
+  })
+  .strict();
+
+function forbidden() {
+  return NextResponse.json({ error: "Only index admins can re-index" }, { status: 403 });
+}
+
+/**
+ * GET /api/reindex
+ * Every embedding generation with its build progress, and the one serving queries.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await handleAuthAndRateLimit(request);
+    if (!authResult.success || !authResult.user) return authResult.error!;
+
+    const rows: EmbeddingGenerationRow[] = await prismadb.embeddingGeneration.findMany({ orderBy: { id: "desc" } });
+    const { active } = await currentGenerations();
+
+    return NextResponse.json({
+      success: true,
+      canReindex: isIndexAdmin(authResult.user.id),
+      activeGeneration: active?.id ?? LEGACY_GENERATION,
+      generations: rows.map((r) => {
+        const g = toGeneration(r);
+        return { ...g, progress: g.total ? Math.round((g.processed / g.total) * 100) : 100 };
+      }),
+    });
+  } catch (error) {
+    console.error("[REINDEX_GET]", error);
+    return createErrorResponse(error);
+  }
+}
+
+/**
+ * POST /api/reindex
+ * Start building a generation with `model`, or with `resume` build a failed
+ * one again; returns at once, poll GET for progress.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await handleAuthAndRateLimit(request);
+    if (!authResult.success || !authResult.user) return authResult.error!;
+    if (!isIndexAdmin(authResult.user.id)) return forbidden();
+
+    const parsed = StartSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Invalid payload", details: parsed.error.flatten() }, { status: 400 });
+    }
+    const { model, backend, activate, resume } = parsed.data;
+
+    try {
+      const generation = resume
+        ? await resumeReindex(resume, activate)
+        : await startReindex({ model: model!, backend, activate, userId: authResult.user.id });
+      return NextResponse.json({ success: true, generation }, { status: 202 });
+    } catch (e: any) {
+      return NextResponse.json({ error: e?.message || "Could not start re-index" }, { status: 409 });
+    }
+  } catch (error) {
+    console.error("[REINDEX_POST]", error);
+    return createErrorResponse(error);
+  }
+}
+
+/**
+ * PATCH /api/reindex
+ * Switch queries to a built generation (cut-over or rollback). New content is
+ * written to every kept generation, but a write that failed for one that was
+ * not serving is only logged: after such a warning, re-index rather than roll
+ * back to it.
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const authResult = await handleAuthAndRateLimit(request);
+    if (!authResult.success || !authResult.user) return authResult.error!;
+    if (!isIndexAdmin(authResult.user.id)) return forbidden();
+
+    const parsed = ActivateSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Invalid payload", details: parsed.error.flatten() }, { status: 400 });
+    }
+
+    try {
+      await activateGeneration(parsed.data.generation);
+    } catch (e: any) {
+      return NextResponse.json({ error: e?.message || "Generation not found" }, { status: 409 });
+    }
+
+    return NextResponse.json({ success: true, activeGeneration: parsed.data.generation });
+  } catch (error) {
+    console.error("[REINDEX_PATCH]", error);
+    return createErrorResponse(error);
+  }
+}
@@ -3,9 +3,22 @@ import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import prismadb from "@/lib/prismadb";
 import { z } from "zod";
+import { resolveModel } from "@/lib/llm/providers";
+import { QUERY_TRANSFORMS } from "@/lib/query-transform";
+import { RERANKER_KINDS } from "@/lib/reranking/reranker";
 
 export const runtime = "nodejs";
 
+// A stage model is stored as-is and used exactly, so it must be routable and able to chat.
+const StageModel = z
+    .string()
+    .min(1)
+    .refine((id) => !!resolveModel(id)?.capabilities.includes("chat"), {
+        message: "Unknown model, or not a chat model",
+    })
+    .nullable()
+    .optional();
+
 const PatchSchema = z
     .object({
         id: z.string().optional(),
@@ -22,6 +35,16 @@ const PatchSchema = z
         maxContextLength: z.number().int().min(512).max(32000).optional(),
         rerankingThreshold: z.number().min(0).max(1).optional(),
         enableReranking: z.boolean().optional(),
+        sqlModel: StageModel,
+        rerankModel: StageModel,
+        intentModel: StageModel,
+        judgeModel: StageModel,
+        reranker: z.enum(RERANKER_KINDS as [string, ...string[]]).nullable().optional(),
+        queryTransforms: z.array(z.enum(QUERY_TRANSFORMS as [string, ...string[]])).optional(),
+        evaluationPreferences: z.string().nullable().optional(),
+        autoEvaluate: z.boolean().optional(),
+        evaluationFrequency: z.string().nullable().optional(),
+        notificationSettings: z.string().nullable().optional(),
         createdAt: z.string().optional(),
         updatedAt: z.string().optional(),
     })
@@ -0,0 +1,52 @@
+// app/api/transcribe/route.ts - Speech-to-text for voice questions
+import { NextRequest, NextResponse } from "next/server";
+import { handleAuthAndRateLimit, createErrorResponse } from "@/lib/agent";
+import { transcribeAudio } from "@/lib/llm/providers";
+
+export const runtime = "nodejs";
+
+// Whisper endpoints reject uploads above 25 MB
+const MAX_AUDIO_BYTES = 25 * 1024 * 1024;
+
+/**
+ * POST /api/transcribe (multipart/form-data)
+ * - file: recorded audio (webm, ogg, mp3, wav, m4a)
+ * - model, language, prompt: optional
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await handleAuthAndRateLimit(request);
+    if (!authResult.success || !authResult.user) return authResult.error!;
+
+    const form = await request.formData().catch(() => null);
+    const file = form?.get("file");
+    if (!(file instanceof Blob) || file.size === 0) {
+      return NextResponse.json({ error: "Audio file is required" }, { status: 400 });
+    }
+    if (file.size > MAX_AUDIO_BYTES) {
+      return NextResponse.json({ error: "Audio file is too large (max 25 MB)" }, { status: 413 });
+    }
+
+    const field = (name: string) => {
+      const v = form?.get(name);
+      return typeof v === "string" && v.trim() ? v.trim() : undefined;
+    };
+
+    const start = Date.now();
+    const result = await transcribeAudio(file, {
+      model: field("model"),
+      language: field("language"),
+      prompt: field("prompt"),
+    });
+
+    return NextResponse.json({
+      text: result.text,
+      model: result.model,
+      provider: result.provider,
+      executionTime: Date.now() - start,
+    });
+  } catch (error) {
+    console.error("[TRANSCRIBE_ERROR]", error);
+    return createErrorResponse(error);
+  }
+}
@@ -0,0 +1,110 @@
+// app/api/usage/route.ts - Token usage and estimated cost per user
+import { NextRequest, NextResponse } from "next/server";
+import { handleAuthAndRateLimit, createErrorResponse } from "@/lib/agent";
+import prismadb from "@/lib/prismadb";
+import type { ModelUsage } from "@/types/models";
+
+export const runtime = "nodejs";
+
+type Bucket = { requests: number; promptTokens: number; completionTokens: number; totalTokens: number; estimatedCost: number };
+
+const emptyBucket = (): Bucket => ({ requests: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, estimatedCost: 0 });
+
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await handleAuthAndRateLimit(request);
+    if (!authResult.success || !authResult.user) return authResult.error!;
+
+    const { searchParams } = new URL(request.url);
+    const timeRange = searchParams.get("timeRange") || "30d";
+
+    const now = new Date();
+    const startDate = new Date(now);
+    switch (timeRange) {
+      case "1d": startDate.setDate(now.getDate() - 1); break;
+      case "7d": startDate.setDate(now.getDate() - 7); break;
+      case "30d": startDate.setDate(now.getDate() - 30); break;
+      case "90d": startDate.setDate(now.getDate() - 90); break;
+      case "1y": startDate.setFullYear(now.getFullYear() - 1); break;
+      default: startDate.setDate(now.getDate() - 30);
+    }
+
+    const rows = await prismadb.queryHistory.findMany({
+      where: { userId: authResult.user.id, createdAt: { gte: startDate } },
+      select: {
+        queryType: true,
+        promptTokens: true,
+        completionTokens: true,
+        totalTokensUsed: true,
+        estimatedCost: true,
+        usageBreakdown: true,
+        createdAt: true,
+      },
+      orderBy: { createdAt: "asc" },
+    });
+
+    const totals = emptyBucket();
+    const byQueryType: Record<string, Bucket> = {};
+    const byDay: Record<string, Bucket> = {};
+    const byModel: Record<string, Bucket> = {};
+
+    const add = (b: Bucket, p: number, c: number, t: number, cost: number) => {
+      b.requests += 1;
+      b.promptTokens += p;
+      b.completionTokens += c;
+      b.totalTokens += t;
+      b.estimatedCost += cost;
+    };
+
+    for (const row of rows) {
+      const p = row.promptTokens ?? 0;
+      const c = row.completionTokens ?? 0;
+      const t = row.totalTokensUsed ?? p + c;
+      const cost = row.estimatedCost ?? 0;
+      const day = row.createdAt.toISOString().split("T")[0];
+
+      add(totals, p, c, t, cost);
+      add((byQueryType[row.queryType] ??= emptyBucket()), p, c, t, cost);
+      add((byDay[day] ??= emptyBucket()), p, c, t, cost);
+
+      if (!row.usageBreakdown) continue;
+      try {
+        const models: ModelUsage[] = JSON.parse(row.usageBreakdown);
+        for (const m of models) {
+          add((byModel[m.modelId] ??= emptyBucket()), m.inputTokens, m.outputTokens, m.totalTokens, m.cost);
+          // one row can call a model several times
+          byModel[m.modelId].requests += m.requests - 1;
+        }
+      } catch {
+        // rows written before usage tracking have no breakdown
+      }
+    }
+
+    const evaluationRuns = await prismadb.evaluationRun.aggregate({
+      where: { userId: authResult.user.id, createdAt: { gte: startDate } },
+      _sum: { totalTokensUsed: true, estimatedCost: true },
+      _count: { _all: true },
+    });
+
+    return NextResponse.json({
+      success: true,
+      usage: {
+        timeRange: { start: startDate, end: now },
+        totals,
+        byQueryType,
+        byModel: Object.entries(byModel)
+          .map(([model, b]) => ({ model, ...b }))
+          .sort((a, b) => b.estimatedCost - a.estimatedCost),
+        daily: Object.entries(byDay).map(([date, b]) => ({ date, ...b })),
+        evaluations: {
+          runs: evaluationRuns._count._all,
+          totalTokens: evaluationRuns._sum.totalTokensUsed ?? 0,
+          estimatedCost: evaluationRuns._sum.estimatedCost ?? 0,
+        },
+      },
+    });
+  } catch (error) {
+    console.error("[USAGE_GET]", error);
+    return createErrorResponse(error);
+  }
+}
@@ -20,9 +20,18 @@ import {
   FileText,
   MessageSquare,
   Zap,
+  Filter,
+  Files,
+  History,
+  ThumbsUp,
+  ThumbsDown,
 } from 'lucide-react';
 import MessageRenderer from './MessageRenderer';
 import SettingsPanel from "@/components/SettingsPanel";
+import RetrievalScopePanel, { scopeSize } from "@/components/RetrievalScopePanel";
+import DocumentSetPanel from "@/components/DocumentSetPanel";
+import DocumentVersionsPanel from "@/components/DocumentVersionsPanel";
+import PushToTalk from "@/components/push-to-talk";
 import { useUserSettings } from "@/hooks/useChat";
 
 // Enhanced message type to include sources
@@ -36,6 +45,8 @@ interface EnhancedChatMessage {
   dbQueryUsed?: boolean;
   contextSources?: string;
   sources?: SourceReference[];
+  isStreaming?: boolean;
+  feedback?: 'helpful' | 'unhelpful' | null;
 }
 
 interface SourceReference {
@@ -70,6 +81,9 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ chat, settings }) => {
   const [copiedText, setCopiedText] = useState<string>('');
 
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isScopeOpen, setIsScopeOpen] = useState(false);
+  const [isDocumentSetOpen, setIsDocumentSetOpen] = useState(false);
+  const [isVersionsOpen, setIsVersionsOpen] = useState(false);
 
   // get the updater (we’ll keep your existing `settings` prop for initial render)
   const { updateSettings: updateUserSettings, fetchSettings: fetchUserSettings } = useUserSettings();
@@ -101,6 +115,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ chat, settings }) => {
     fetchSession,
     sendMessage,
     updateSession,
+    rateMessage,
     deleteSession,
     createNewSession,
   } = chat;
@@ -151,12 +166,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ chat, settings }) => {
     return () => clearTimeout(timeoutId);
   }, [showArchived, fetchSessions]);
 
-  const handleSendMessage = useCallback(async () => {
-    if (!inputMessage.trim() || isLoading) return;
-
-    const message = inputMessage.trim();
-    setInputMessage('');
-
+  const sendText = useCallback(async (message: string) => {
     try {
       const result = await sendMessage(message, currentSession?.id);
 
@@ -166,7 +176,24 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ chat, settings }) => {
     } catch (error) {
       console.error('Failed to send message:', error);
     }
-  }, [inputMessage, isLoading, sendMessage, currentSession?.id, fetchSession]);
+  }, [sendMessage, currentSession?.id, fetchSession]);
+
+  const handleSendMessage = useCallback(async () => {
+    if (!inputMessage.trim() || isLoading) return;
+
+    const message = inputMessage.trim();
+    setInputMessage('');
+    await sendText(message);
+  }, [inputMessage, isLoading, sendText]);
+
+  // Push-to-talk: a spoken question is sent as soon as it is transcribed
+  const handleVoiceQuestion = useCallback((text: string) => {
+    if (isLoading) {
+      setInputMessage((prev) => (prev ? `${prev} ${text}` : text));
+      return;
+    }
+    void sendText(text);
+  }, [isLoading, sendText]);
 
   const handleKeyPress = useCallback((e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
@@ -404,13 +431,22 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ chat, settings }) => {
             <>
               <div className="flex items-center justify-between mb-4">
                 <h1 className="text-xl font-semibold text-gray-900 dark:text-gray-100">Chats</h1>
-                <button
-                  onClick={createNewSession}
-                  className="p-2 rounded-lg bg-gray-900 text-white hover:bg-black dark:bg-gray-100 dark:text-gray-900 dark:hover:bg-white transition-colors"
-                  title="New Chat"
-                >
-                  <Plus size={16} />
-                </button>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => setIsDocumentSetOpen(true)}
+                    className="p-2 rounded-lg text-gray-600 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-neutral-800 transition-colors"
+                    title="New chat with documents"
+                  >
+                    <Files size={16} />
+                  </button>
+                  <button
+                    onClick={createNewSession}
+                    className="p-2 rounded-lg bg-gray-900 text-white hover:bg-black dark:bg-gray-100 dark:text-gray-900 dark:hover:bg-white transition-colors"
+                    title="New Chat"
+                  >
+                    <Plus size={16} />
+                  </button>
+                </div>
               </div>
 
               <div className="relative mb-3">
@@ -595,17 +631,41 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ chat, settings }) => {
                       <span className="w-2 h-2 bg-gray-400 dark:bg-gray-500 rounded-full"></span>
                       {currentSession.modelKey}
                     </span>
-                    {currentSession.useDatabase && (
-                      <span className="flex items-center gap-1">
-                        <Database size={12} />
-                        Database
+                    {currentSession.documentIds?.length > 0 ? (
+                      <span
+                        className="flex items-center gap-1"
+                        title={(currentSession.documents || []).map((d: { title: string }) => d.title).join('\n')}
+                      >
+                        <Files size={12} />
+                        {currentSession.documentIds.length === 1 ? '1 document' : `${currentSession.documentIds.length} documents`}
                       </span>
+                    ) : (
+                      <>
+                        {currentSession.useDatabase && (
+                          <span className="flex items-center gap-1">
+                            <Database size={12} />
+                            Database
+                          </span>
+                        )}
+                        {currentSession.useKnowledgeBase && (
+                          <span className="flex items-center gap-1">
+                            <Book size={12} />
+                            Knowledge
+                          </span>
+                        )}
+                      </>
                     )}
-                    {currentSession.useKnowledgeBase && (
-                      <span className="flex items-center gap-1">
-                        <Book size={12} />
-                        Knowledge
-                      </span>
+                    {currentSession.documentIds?.length > 0 && Object.keys(currentSession.documentVersions || {}).length > 0 && (
+                      <button onClick={() => setIsVersionsOpen(true)} className="flex items-center gap-1 hover:underline">
+                        <History size={12} />
+                        Pinned versions ({Object.keys(currentSession.documentVersions).length})
+                      </button>
+                    )}
+                    {!currentSession.documentIds?.length && currentSession.useKnowledgeBase && scopeSize(currentSession.retrievalScope) > 0 && (
+                      <button onClick={() => setIsScopeOpen(true)} className="flex items-center gap-1 hover:underline">
+                        <Filter size={12} />
+                        Scoped ({scopeSize(currentSession.retrievalScope)})
+                      </button>
                     )}
                     <span className="text-gray-300 dark:text-gray-600">•</span>
                     <span>{currentSession.chatMessages.length} messages</span>
@@ -623,6 +683,26 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ chat, settings }) => {
                   >
                     <Pin size={16} />
                   </button>
+                  {!currentSession.documentIds?.length && <button
+                    onClick={() => setIsScopeOpen(true)}
+                    className={`p-2 rounded-lg transition-colors ${scopeSize(currentSession.retrievalScope) > 0
+                      ? 'bg-gray-200 text-gray-900 dark:bg-neutral-800 dark:text-gray-100'
+                      : 'text-gray-500 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-neutral-800'
+                      }`}
+                    title="Retrieval scope"
+                  >
+                    <Filter size={16} />
+                  </button>}
+                  {currentSession.documentIds?.length > 0 && <button
+                    onClick={() => setIsVersionsOpen(true)}
+                    className={`p-2 rounded-lg transition-colors ${Object.keys(currentSession.documentVersions || {}).length > 0
+                      ? 'bg-gray-200 text-gray-900 dark:bg-neutral-800 dark:text-gray-100'
+                      : 'text-gray-500 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-neutral-800'
+                      }`}
+                    title="Document versions"
+                  >
+                    <History size={16} />
+                  </button>}
                   <button
                     className="p-2 text-gray-500 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-neutral-800 rounded-lg transition-colors"
                     title="Chat settings"
@@ -651,6 +731,26 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ chat, settings }) => {
                   {Array.isArray(message.sources) && message.sources.length > 0 && (
                     <SourceReferences sources={message.sources} messageId={message.id} />
                   )}
+
+                  {/* Ratings count for the document chunks an answer cited; only stored answers can be rated */}
+                  {message.role === 'ASSISTANT' && !message.isStreaming && !/^a-\d+$/.test(message.id)
+                    && message.sources?.some((s: SourceReference) => s.type === 'document') && (
+                    <div className="mt-1 ml-10 flex items-center gap-1">
+                      {(['helpful', 'unhelpful'] as const).map((rating) => (
+                        <button
+                          key={rating}
+                          onClick={() => rateMessage(message.id, message.feedback === rating ? null : rating).catch(() => { })}
+                          className={`p-1 rounded transition-colors ${message.feedback === rating
+                            ? 'bg-gray-200 text-gray-900 dark:bg-neutral-800 dark:text-gray-100'
+                            : 'text-gray-400 hover:bg-gray-100 dark:text-gray-500 dark:hover:bg-neutral-800'
+                            }`}
+                          title={rating === 'helpful' ? 'Helpful answer' : 'Unhelpful answer'}
+                        >
+                          {rating === 'helpful' ? <ThumbsUp size={14} /> : <ThumbsDown size={14} />}
+                        </button>
+                      ))}
+                    </div>
+                  )}
                 </div>
               ))}
 
@@ -684,6 +784,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ chat, settings }) => {
                       disabled={isLoading}
                     />
                   </div>
+                  <PushToTalk onTranscript={handleVoiceQuestion} disabled={isLoading} />
                   <button
                     onClick={handleSendMessage}
                     disabled={!inputMessage.trim() || isLoading}
@@ -697,7 +798,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ chat, settings }) => {
                 {/* Quick actions */}
                 <div className="flex items-center justify-between mt-3 text-xs text-gray-500 dark:text-gray-400">
                   <div className="flex items-center gap-4">
-                    <span>Press Enter to send, Shift+Enter for new line</span>
+                    <span>Press Enter to send, Shift+Enter for new line, hold the mic to ask by voice</span>
                   </div>
                   <div className="flex items-center gap-2">
                     {currentSession.useDatabase && (
@@ -759,6 +860,28 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ chat, settings }) => {
       </div>
 
       <SettingsPanel open={isSettingsOpen} onClose={() => setIsSettingsOpen(false)} />
+      <DocumentSetPanel
+        open={isDocumentSetOpen}
+        onClose={() => setIsDocumentSetOpen(false)}
+        onStart={(documents) => createNewSession({ documents })}
+      />
+      {currentSession && (
+        <RetrievalScopePanel
+          open={isScopeOpen}
+          scope={currentSession.retrievalScope}
+          onClose={() => setIsScopeOpen(false)}
+          onSave={(retrievalScope) => updateSession(currentSession.id, { retrievalScope })}
+        />
+      )}
+      {currentSession?.documentIds?.length > 0 && (
+        <DocumentVersionsPanel
+          open={isVersionsOpen}
+          documents={currentSession.documents || []}
+          pins={currentSession.documentVersions || {}}
+          onClose={() => setIsVersionsOpen(false)}
+          onSave={(documentVersions) => updateSession(currentSession.id, { documentVersions })}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,135 @@
+// components/DocumentSetPanel.tsx
+import React, { useEffect, useState } from "react";
+import { X, Loader2, FileText } from "lucide-react";
+
+type DocumentOption = { id: string; title: string };
+
+type Props = {
+  open: boolean;
+  onClose: () => void;
+  /** Start a chat over the chosen documents. */
+  onStart: (documents: DocumentOption[]) => Promise<unknown>;
+};
+
+// keep in line with MAX_SESSION_DOCUMENTS in app/api/chat/route.ts
+const MAX_DOCUMENTS = 10;
+
+export default function DocumentSetPanel({ open, onClose, onStart }: Props) {
+  const [documents, setDocuments] = useState<DocumentOption[] | null>(null);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [filter, setFilter] = useState("");
+  const [starting, setStarting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setSelected([]);
+    setError(null);
+    fetch("/api/chat?action=scope-options")
+      .then((res) => (res.ok ? res.json() : Promise.reject(new Error(res.statusText))))
+      .then((data) => setDocuments(data.documents || []))
+      .catch((e) => setError(`Failed to load documents: ${e.message}`));
+  }, [open]);
+
+  async function handleStart() {
+    setStarting(true);
+    setError(null);
+    try {
+      await onStart((documents || []).filter((d) => selected.includes(d.id)));
+      onClose();
+    } catch (e: any) {
+      setError(e?.message || "Failed to start the chat");
+    } finally {
+      setStarting(false);
+    }
+  }
+
+  if (!open) return null;
+
+  const visible = (documents || []).filter((d) => d.title.toLowerCase().includes(filter.toLowerCase()));
+
+  return (
+    <div className="fixed inset-0 z-50">
+      <div className="absolute inset-0 bg-black/30" onClick={onClose} />
+      <div className="absolute right-0 top-0 h-full w-full sm:w-[560px] bg-white dark:bg-neutral-950 border-l border-gray-200 dark:border-neutral-800 shadow-xl flex flex-col">
+        {/* Header */}
+        <div className="p-4 border-b border-gray-200 dark:border-neutral-800 flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Chat with documents</h3>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Answers search every selected document and cite the document and page they come from.
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 rounded hover:bg-gray-100 dark:hover:bg-neutral-800 text-gray-600 dark:text-gray-300"
+            aria-label="Close document selection"
+          >
+            <X size={18} />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {!documents && !error && (
+            <div className="flex items-center gap-2 text-gray-500 dark:text-gray-400">
+              <Loader2 className="animate-spin" size={16} /> Loading…
+            </div>
+          )}
+          {error && <div className="text-sm text-red-600 dark:text-red-400">{error}</div>}
+
+          {documents && (
+            <>
+              <input
+                type="text"
+                placeholder="Filter documents..."
+                value={filter}
+                onChange={(e) => setFilter(e.target.value)}
+                className="w-full rounded-lg border border-gray-300 dark:border-neutral-700 bg-white dark:bg-neutral-900 px-3 py-2 text-sm"
+              />
+              {visible.length ? (
+                <div className="space-y-2">
+                  {visible.map((d) => {
+                    const checked = selected.includes(d.id);
+                    return (
+                      <label key={d.id} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-200">
+                        <input
+                          type="checkbox"
+                          className="h-4 w-4"
+                          checked={checked}
+                          disabled={!checked && selected.length >= MAX_DOCUMENTS}
+                          onChange={(e) =>
+                            setSelected((s) => (e.target.checked ? [...s, d.id] : s.filter((id) => id !== d.id)))
+                          }
+                        />
+                        <FileText size={14} className="flex-shrink-0 text-gray-500 dark:text-gray-400" />
+                        <span className="truncate">{d.title}</span>
+                      </label>
+                    );
+                  })}
+                </div>
+              ) : (
+                <p className="text-xs text-gray-500 dark:text-gray-400">No processed documents.</p>
+              )}
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-gray-200 dark:border-neutral-800 flex items-center justify-between">
+          <span className="text-xs text-gray-500 dark:text-gray-400">
+            {selected.length} of at most {MAX_DOCUMENTS} selected
+          </span>
+          <button
+            onClick={handleStart}
+            disabled={starting || selected.length === 0}
+            className="px-4 py-2 rounded-lg text-sm bg-gray-900 text-white hover:bg-black disabled:bg-gray-300 dark:bg-gray-100 dark:text-gray-900 dark:hover:bg-white flex items-center gap-2"
+          >
+            {starting ? <Loader2 size={16} className="animate-spin" /> : <FileText size={16} />}
+            Start chat
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
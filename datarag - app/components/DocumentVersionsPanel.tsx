@@ -0,0 +1,136 @@
+// components/DocumentVersionsPanel.tsx
+import React, { useEffect, useState } from "react";
+import { X, Loader2, History, Save } from "lucide-react";
+
+import type { DocumentVersionInfo } from "@/types/document";
+
+type Props = {
+  open: boolean;
+  documents: { id: string; title: string }[];
+  /** Document id -> pinned version; the others follow their latest version. */
+  pins: Record<string, number>;
+  onClose: () => void;
+  onSave: (pins: Record<string, number> | null) => Promise<unknown>;
+};
+
+export default function DocumentVersionsPanel({ open, documents, pins, onClose, onSave }: Props) {
+  const [versions, setVersions] = useState<Record<string, DocumentVersionInfo[]> | null>(null);
+  const [draft, setDraft] = useState<Record<string, number>>({});
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setDraft(pins);
+    setError(null);
+    setVersions(null);
+    Promise.all(
+      documents.map((d) =>
+        fetch(`/api/document/${d.id}/versions`)
+          .then((res) => (res.ok ? res.json() : Promise.reject(new Error(res.statusText))))
+          .then((data) => [d.id, data.versions || []] as const)
+      )
+    )
+      .then((entries) => setVersions(Object.fromEntries(entries)))
+      .catch((e) => setError(`Failed to load versions: ${e.message}`));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  async function handleSave() {
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave(Object.keys(draft).length ? draft : null);
+      onClose();
+    } catch (e: any) {
+      setError(e?.message || "Failed to save versions");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (!open) return null;
+
+  return (
+    <div className="fixed inset-0 z-50">
+      <div className="absolute inset-0 bg-black/30" onClick={onClose} />
+      <div className="absolute right-0 top-0 h-full w-full sm:w-[560px] bg-white dark:bg-neutral-950 border-l border-gray-200 dark:border-neutral-800 shadow-xl flex flex-col">
+        {/* Header */}
+        <div className="p-4 border-b border-gray-200 dark:border-neutral-800 flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Document versions</h3>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Pin a document to an earlier version, or let the chat follow its latest one.
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 rounded hover:bg-gray-100 dark:hover:bg-neutral-800 text-gray-600 dark:text-gray-300"
+            aria-label="Close document versions"
+          >
+            <X size={18} />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {!versions && !error && (
+            <div className="flex items-center gap-2 text-gray-500 dark:text-gray-400">
+              <Loader2 className="animate-spin" size={16} /> Loading…
+            </div>
+          )}
+          {error && <div className="text-sm text-red-600 dark:text-red-400">{error}</div>}
+
+          {versions &&
+            documents.map((d) => {
+              const list = versions[d.id] || [];
+              return (
+                <div key={d.id} className="space-y-1">
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-200 truncate">{d.title}</label>
+                  <select
+                    value={draft[d.id] ?? ""}
+                    disabled={list.length < 2}
+                    onChange={(e) =>
+                      setDraft((prev) => {
+                        const next = { ...prev };
+                        if (e.target.value) next[d.id] = Number(e.target.value);
+                        else delete next[d.id];
+                        return next;
+                      })
+                    }
+                    className="w-full rounded-lg border border-gray-300 dark:border-neutral-700 bg-white dark:bg-neutral-900 px-3 py-2 text-sm"
+                  >
+                    <option value="">Latest version</option>
+                    {list
+                      .filter((v) => !v.current)
+                      .map((v) => (
+                        <option key={v.version} value={v.version}>
+                          Version {v.version} · {new Date(v.createdAt).toLocaleDateString()}
+                          {v.note ? ` · ${v.note}` : ""}
+                        </option>
+                      ))}
+                  </select>
+                </div>
+              );
+            })}
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-gray-200 dark:border-neutral-800 flex items-center justify-between">
+          <span className="flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400">
+            <History size={12} />
+            {Object.keys(draft).length} pinned
+          </span>
+          <button
+            onClick={handleSave}
+            disabled={saving || !versions}
+            className="px-4 py-2 rounded-lg text-sm bg-gray-900 text-white hover:bg-black disabled:bg-gray-300 dark:bg-gray-100 dark:text-gray-900 dark:hover:bg-white flex items-center gap-2"
+          >
+            {saving ? <Loader2 size={16} className="animate-spin" /> : <Save size={16} />}
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
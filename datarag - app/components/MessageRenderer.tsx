@@ -2,7 +2,7 @@
 import React, { useMemo, useState } from 'react';
 import {
   Brain, ChevronDown, ChevronUp, Copy, Check, Database, FileText, Book,
-  MessageSquare, MessageCircle, ExternalLink, Clock, Zap, Link as LinkIcon
+  MessageSquare, MessageCircle, ExternalLink, Clock, Zap, Link as LinkIcon, Loader2
 } from 'lucide-react';
 import { Streamdown } from 'streamdown';
 
@@ -21,6 +21,17 @@ interface SourceReference {
 
 interface ParsedMessage { thinking?: string; content: string; }
 
+type ChunkText = { loading: boolean; content?: string; error?: string };
+
+// Document sources carry the chunk they were cut from; the full text lives in DocumentChunk
+const chunkLocation = (s: SourceReference) => {
+  const documentId = s.metadata?.documentId;
+  const chunkIndex = s.metadata?.chunkIndex;
+  return s.type === 'document' && typeof documentId === 'string' && typeof chunkIndex === 'number'
+    ? { documentId, chunkIndex }
+    : null;
+};
+
 interface MessageRendererProps {
   message: {
     id: string;
@@ -41,6 +52,9 @@ const MessageRenderer: React.FC<MessageRendererProps> = ({ message, className =
   const [showThinking, setShowThinking] = useState(false);
   const [hoveredCitation, setHoveredCitation] = useState<number | null>(null);
   const [copiedText, setCopiedText] = useState<string>("");
+  // kept here rather than in SourcesFooter, which is re-created on every render
+  const [openChunk, setOpenChunk] = useState<string | null>(null);
+  const [chunkTexts, setChunkTexts] = useState<Record<string, ChunkText>>({});
 
   const isUser = message.role === 'USER';
   const isAssistant = message.role === 'ASSISTANT';
@@ -91,6 +105,34 @@ const MessageRenderer: React.FC<MessageRendererProps> = ({ message, className =
     }
   };
 
+  const toggleChunk = async (s: SourceReference) => {
+    const loc = chunkLocation(s);
+    if (!loc) return;
+    if (openChunk === s.id) return setOpenChunk(null);
+    setOpenChunk(s.id);
+    if (chunkTexts[s.id]?.content) return;
+
+    setChunkTexts((prev) => ({ ...prev, [s.id]: { loading: true } }));
+    try {
+      const res = await fetch(
+        `/api/document/${encodeURIComponent(loc.documentId)}/chunks?chunkIndex=${loc.chunkIndex}`,
+        { cache: 'no-store' }
+      );
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.error || `Failed to load chunk (${res.status})`);
+      const content: string | undefined = data.chunks?.[0]?.content;
+      setChunkTexts((prev) => ({
+        ...prev,
+        [s.id]: content ? { loading: false, content } : { loading: false, error: 'Chunk text is not stored for this document' },
+      }));
+    } catch (e) {
+      setChunkTexts((prev) => ({
+        ...prev,
+        [s.id]: { loading: false, error: e instanceof Error ? e.message : 'Failed to load chunk' },
+      }));
+    }
+  };
+
   // Renders inline citations if [#] markers are present in the text
   const renderContentWithCitations = (text: string, sources: SourceReference[] = []) => {
     if (!sources.length) return <Streamdown>{text}</Streamdown>;
@@ -176,6 +218,29 @@ const MessageRenderer: React.FC<MessageRendererProps> = ({ message, className =
                   )}
                 </div>
                 <div className="text-xs text-gray-600 dark:text-gray-400 line-clamp-2">{s.snippet}</div>
+                {chunkLocation(s) && (
+                  <button
+                    type="button"
+                    onClick={() => void toggleChunk(s)}
+                    className="mt-0.5 inline-flex items-center gap-1 text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                  >
+                    {openChunk === s.id ? <ChevronUp size={12} /> : <ChevronDown size={12} />}
+                    {openChunk === s.id ? 'Hide chunk' : 'Show chunk'}
+                  </button>
+                )}
+                {openChunk === s.id && chunkTexts[s.id] && (
+                  <div className="mt-1 max-h-64 overflow-y-auto rounded border border-gray-200 dark:border-neutral-800 bg-white dark:bg-neutral-950 p-2 text-xs leading-relaxed text-gray-700 dark:text-gray-300 whitespace-pre-wrap">
+                    {chunkTexts[s.id].loading ? (
+                      <span className="inline-flex items-center gap-1 text-gray-500 dark:text-gray-400">
+                        <Loader2 size={12} className="animate-spin" /> Loading chunk…
+                      </span>
+                    ) : chunkTexts[s.id].error ? (
+                      <span className="text-red-600 dark:text-red-400">{chunkTexts[s.id].error}</span>
+                    ) : (
+                      chunkTexts[s.id].content
+                    )}
+                  </div>
+                )}
                 {s.url && (
                   <a
                     href={s.url}
@@ -0,0 +1,214 @@
+// components/RetrievalScopePanel.tsx
+import React, { useEffect, useState } from "react";
+import { X, Loader2, Save } from "lucide-react";
+import type { RetrievalScope } from "@/types/chat";
+
+type Props = {
+  open: boolean;
+  scope: RetrievalScope | null | undefined;
+  onClose: () => void;
+  /** Persist the scope; null searches the whole knowledge base again. */
+  onSave: (scope: RetrievalScope | null) => Promise<unknown>;
+};
+
+type ScopeOptions = {
+  categories: { id: string; name: string }[];
+  documents: { id: string; title: string; categoryId: string }[];
+  tags: string[];
+};
+
+const toggle = (list: string[] | undefined, value: string, on: boolean) => {
+  const rest = (list || []).filter((v) => v !== value);
+  return on ? [...rest, value] : rest;
+};
+
+/** Number of restrictions in a scope, for the header badge. */
+export function scopeSize(scope: RetrievalScope | null | undefined): number {
+  if (!scope) return 0;
+  return (
+    (scope.categoryIds?.length || 0) +
+    (scope.documentIds?.length || 0) +
+    (scope.tags?.length || 0) +
+    (scope.dateFrom || scope.dateTo ? 1 : 0)
+  );
+}
+
+export default function RetrievalScopePanel({ open, scope, onClose, onSave }: Props) {
+  const [options, setOptions] = useState<ScopeOptions | null>(null);
+  const [local, setLocal] = useState<RetrievalScope>(scope || {});
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setLocal(scope || {});
+    setError(null);
+    fetch("/api/chat?action=scope-options")
+      .then((res) => (res.ok ? res.json() : Promise.reject(new Error(res.statusText))))
+      .then(setOptions)
+      .catch((e) => setError(`Failed to load scope options: ${e.message}`));
+  }, [open, scope]);
+
+  async function handleSave(next: RetrievalScope | null) {
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave(next && scopeSize(next) ? next : null);
+      onClose();
+    } catch (e: any) {
+      setError(e?.message || "Failed to save scope");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (!open) return null;
+
+  // with categories chosen, only their documents are offered
+  const documents = (options?.documents || []).filter(
+    (d) => !local.categoryIds?.length || local.categoryIds.includes(d.categoryId)
+  );
+
+  return (
+    <div className="fixed inset-0 z-50">
+      <div className="absolute inset-0 bg-black/30" onClick={onClose} />
+      <div className="absolute right-0 top-0 h-full w-full sm:w-[560px] bg-white dark:bg-neutral-950 border-l border-gray-200 dark:border-neutral-800 shadow-xl flex flex-col">
+        {/* Header */}
+        <div className="p-4 border-b border-gray-200 dark:border-neutral-800 flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Retrieval scope</h3>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Answers in this chat only use knowledge base entries matching every selection below.
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 rounded hover:bg-gray-100 dark:hover:bg-neutral-800 text-gray-600 dark:text-gray-300"
+            aria-label="Close retrieval scope"
+          >
+            <X size={18} />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-6">
+          {!options && !error && (
+            <div className="flex items-center gap-2 text-gray-500 dark:text-gray-400">
+              <Loader2 className="animate-spin" size={16} /> Loading…
+            </div>
+          )}
+          {error && <div className="text-sm text-red-600 dark:text-red-400">{error}</div>}
+
+          {options && (
+            <>
+              <section>
+                <h4 className="text-sm font-semibold text-gray-800 dark:text-gray-200 mb-3">Categories</h4>
+                <div className="grid grid-cols-2 gap-2">
+                  {options.categories.map((c) => (
+                    <label key={c.id} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-200">
+                      <input
+                        type="checkbox"
+                        className="h-4 w-4"
+                        checked={!!local.categoryIds?.includes(c.id)}
+                        onChange={(e) => setLocal((s) => ({ ...s, categoryIds: toggle(s.categoryIds, c.id, e.target.checked) }))}
+                      />
+                      {c.name}
+                    </label>
+                  ))}
+                </div>
+              </section>
+
+              <section>
+                <h4 className="text-sm font-semibold text-gray-800 dark:text-gray-200 mb-3">Documents</h4>
+                {documents.length ? (
+                  <div className="space-y-2 max-h-60 overflow-y-auto">
+                    {documents.map((d) => (
+                      <label key={d.id} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-200">
+                        <input
+                          type="checkbox"
+                          className="h-4 w-4"
+                          checked={!!local.documentIds?.includes(d.id)}
+                          onChange={(e) =>
+                            setLocal((s) => ({ ...s, documentIds: toggle(s.documentIds, d.id, e.target.checked) }))
+                          }
+                        />
+                        <span className="truncate">{d.title}</span>
+                      </label>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-xs text-gray-500 dark:text-gray-400">No processed documents.</p>
+                )}
+              </section>
+
+              <section>
+                <h4 className="text-sm font-semibold text-gray-800 dark:text-gray-200 mb-3">Tags</h4>
+                <div className="flex flex-wrap gap-2">
+                  {options.tags.map((tag) => {
+                    const on = !!local.tags?.includes(tag);
+                    return (
+                      <button
+                        key={tag}
+                        onClick={() => setLocal((s) => ({ ...s, tags: toggle(s.tags, tag, !on) }))}
+                        className={`px-2 py-1 rounded-full text-xs border ${on
+                          ? "bg-gray-900 text-white border-gray-900 dark:bg-gray-100 dark:text-gray-900 dark:border-gray-100"
+                          : "border-gray-300 text-gray-700 dark:border-neutral-700 dark:text-gray-200"
+                          }`}
+                      >
+                        {tag}
+                      </button>
+                    );
+                  })}
+                </div>
+              </section>
+
+              <section>
+                <h4 className="text-sm font-semibold text-gray-800 dark:text-gray-200 mb-3">Added between</h4>
+                <div className="grid grid-cols-2 gap-3">
+                  <label className="block">
+                    <span className="text-xs text-gray-600 dark:text-gray-400">From</span>
+                    <input
+                      type="date"
+                      className="mt-1 w-full rounded-lg border border-gray-300 dark:border-neutral-700 bg-white dark:bg-neutral-900 px-3 py-2 text-sm"
+                      value={local.dateFrom || ""}
+                      onChange={(e) => setLocal((s) => ({ ...s, dateFrom: e.target.value || undefined }))}
+                    />
+                  </label>
+                  <label className="block">
+                    <span className="text-xs text-gray-600 dark:text-gray-400">To</span>
+                    <input
+                      type="date"
+                      className="mt-1 w-full rounded-lg border border-gray-300 dark:border-neutral-700 bg-white dark:bg-neutral-900 px-3 py-2 text-sm"
+                      value={local.dateTo || ""}
+                      onChange={(e) => setLocal((s) => ({ ...s, dateTo: e.target.value || undefined }))}
+                    />
+                  </label>
+                </div>
+              </section>
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-gray-200 dark:border-neutral-800 flex items-center justify-between">
+          <button
+            onClick={() => handleSave(null)}
+            disabled={saving}
+            className="px-3 py-2 rounded-lg text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-neutral-800"
+          >
+            Search everything
+          </button>
+
+          <button
+            onClick={() => handleSave(local)}
+            disabled={saving}
+            className="px-4 py-2 rounded-lg text-sm bg-gray-900 text-white hover:bg-black disabled:bg-gray-300 dark:bg-gray-100 dark:text-gray-900 dark:hover:bg-white flex items-center gap-2"
+          >
+            {saving ? <Loader2 size={16} className="animate-spin" /> : <Save size={16} />}
+            Save scope
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
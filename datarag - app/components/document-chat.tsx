@@ -29,13 +29,17 @@ import {
   Link as LinkIcon,
   X,
   Check,
+  ThumbsUp,
+  ThumbsDown,
 } from "lucide-react";
 import { Streamdown } from "streamdown";
+import PushToTalk from "@/components/push-to-talk";
 
 /* ------------------------------------------------------------------ */
 /* Minimal local types                                                 */
 /* ------------------------------------------------------------------ */
 type Role = "SYSTEM" | "USER" | "ASSISTANT";
+type Rating = "helpful" | "unhelpful";
 
 interface DocLike {
   id: string;
@@ -52,6 +56,8 @@ interface DocMessageLike {
   timestamp?: string;
   userId?: string | null;
   documentId?: string;
+  sources?: Array<{ type: string }>;
+  feedback?: Rating | null;
 }
 
 /* ------------------------------------------------------------------ */
@@ -144,6 +150,15 @@ async function apiDeleteDocument(id: string): Promise<void> {
   if (!res.ok) throw new Error(await res.text());
 }
 
+async function apiRateMessage(messageId: string, rating: Rating | null): Promise<void> {
+  const res = await fetch("/api/chat/feedback", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ messageId, rating }),
+  });
+  if (!res.ok) throw new Error(await res.text());
+}
+
 /* ------------------------------------------------------------------ */
 /* Subcomponents                                                       */
 /* ------------------------------------------------------------------ */
@@ -390,7 +405,9 @@ const Bubble: React.FC<{
   role: Role;
   content?: string;
   isLoading?: boolean;
-}> = ({ role, content = "", isLoading }) => {
+  feedback?: Rating | null;
+  onRate?: (rating: Rating | null) => void;
+}> = ({ role, content = "", isLoading, feedback, onRate }) => {
   const { think, reply } = useMemo(() => splitThink(content), [content]);
   const [showThink, setShowThink] = useState(false);
 
@@ -469,6 +486,28 @@ const Bubble: React.FC<{
             <Copy className="h-4 w-4" />
           </button>
         )}
+
+        {/* Ratings count for the document chunks the answer cited */}
+        {!isLoading && onRate && (
+          <div className="mt-2 flex items-center gap-1">
+            {(["helpful", "unhelpful"] as const).map((rating) => (
+              <button
+                key={rating}
+                onClick={() => onRate(feedback === rating ? null : rating)}
+                className={cx(
+                  "rounded-md p-1 transition",
+                  feedback === rating
+                    ? "bg-muted text-foreground"
+                    : "text-muted-foreground hover:bg-muted/70 hover:text-foreground"
+                )}
+                title={rating === "helpful" ? "Helpful answer" : "Unhelpful answer"}
+                type="button"
+              >
+                {rating === "helpful" ? <ThumbsUp className="h-3.5 w-3.5" /> : <ThumbsDown className="h-3.5 w-3.5" />}
+              </button>
+            ))}
+          </div>
+        )}
       </div>
 
       {role === "USER" && (
@@ -485,7 +524,8 @@ const Messages: React.FC<{
   messages: DocMessageLike[];
   isLoading: boolean;
   streamingAssistant?: string;
-}> = ({ document, messages, isLoading, streamingAssistant }) => {
+  onRate: (messageId: string, rating: Rating | null) => void;
+}> = ({ document, messages, isLoading, streamingAssistant, onRate }) => {
   const endRef = useRef<ElementRef<"div">>(null);
 
   useEffect(() => {
@@ -511,6 +551,13 @@ const Messages: React.FC<{
             role={m.role}
             content={m.content}
             isLoading={false}
+            feedback={m.feedback}
+            // only stored answers that cited the document can be rated
+            onRate={
+              m.id && m.role !== "USER" && m.sources?.some((s) => s.type === "document")
+                ? (rating) => onRate(m.id!, rating)
+                : undefined
+            }
           />
         ))}
 
@@ -533,7 +580,8 @@ const Composer: React.FC<{
   disabled: boolean;
   onChange: (e: ChangeEvent<HTMLTextAreaElement>) => void;
   onSubmit: (e: FormEvent<HTMLFormElement>) => void;
-}> = ({ value, disabled, onChange, onSubmit }) => {
+  onVoiceQuestion: (text: string) => void;
+}> = ({ value, disabled, onChange, onSubmit, onVoiceQuestion }) => {
   return (
     <div className="sticky bottom-0 z-20 border-t border-border/60 bg-background/80 backdrop-blur">
       <form
@@ -560,6 +608,8 @@ const Composer: React.FC<{
           </div>
         </div>
 
+        <PushToTalk onTranscript={onVoiceQuestion} disabled={disabled} className="h-11 rounded-2xl" />
+
         <button
           className={cx(
             "inline-flex h-11 items-center gap-2 rounded-2xl px-4 text-sm font-medium transition",
@@ -607,6 +657,7 @@ export default function ChatUnified({
     handleInputChange,
     handleSubmit: completionSubmit,
     setInput,
+    complete,
   } = useCompletion({
     api: `/api/chat/${document.id}`,
     streamProtocol: 'text',
@@ -676,6 +727,31 @@ export default function ChatUnified({
     completionSubmit(e);
   };
 
+  async function handleRate(messageId: string, rating: Rating | null) {
+    try {
+      await apiRateMessage(messageId, rating);
+      setMessages((prev) => prev.map((m) => (m.id === messageId ? { ...m, feedback: rating } : m)));
+    } catch (e) {
+      console.error("Rating failed:", e);
+    }
+  }
+
+  // Push-to-talk: ask the transcribed question right away
+  const onVoiceQuestion = (text: string) => {
+    if (isLoading) return;
+    setMessages((prev) => [
+      ...prev,
+      {
+        role: "USER",
+        content: text,
+        documentId: document.id,
+        userId: document.userId,
+        timestamp: new Date().toISOString(),
+      },
+    ]);
+    void complete(text);
+  };
+
   return (
     <div className="flex h-[90vh] w-full flex-col bg-gradient-to-b from-background to-background">
       <Header
@@ -690,6 +766,7 @@ export default function ChatUnified({
         messages={orderedMessages}
         isLoading={isLoading}
         streamingAssistant={completion}
+        onRate={handleRate}
       />
 
       <Composer
@@ -697,6 +774,7 @@ export default function ChatUnified({
         disabled={isLoading}
         onChange={(e) => handleInputChange(e as ChangeEvent<HTMLTextAreaElement>)}
         onSubmit={onSubmit}
+        onVoiceQuestion={onVoiceQuestion}
       />
 
       {/* Edit and Delete Modals */}
@@ -0,0 +1,150 @@
+// components/push-to-talk.tsx
+"use client";
+
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { Loader2, Mic } from "lucide-react";
+
+type Status = "idle" | "recording" | "transcribing";
+
+async function transcribe(audio: Blob): Promise<string> {
+  const form = new FormData();
+  const ext = audio.type.includes("ogg") ? "ogg" : audio.type.includes("mp4") ? "m4a" : "webm";
+  form.append("file", audio, `question.${ext}`);
+
+  const res = await fetch("/api/transcribe", { method: "POST", body: form });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data?.error || `Transcription failed (${res.status})`);
+  return String(data?.text || "").trim();
+}
+
+/**
+ * Hold to record, release to transcribe. The recognised text is handed to
+ * `onTranscript`; nothing is sent when the recording is empty or silent.
+ */
+export default function PushToTalk({
+  onTranscript,
+  disabled,
+  className,
+}: {
+  onTranscript: (text: string) => void;
+  disabled?: boolean;
+  className?: string;
+}) {
+  const [status, setStatus] = useState<Status>("idle");
+  const [error, setError] = useState<string | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+  // released before the microphone was ready
+  const releasedRef = useRef(false);
+  // gone: a transcription still under way is dropped
+  const unmountedRef = useRef(false);
+
+  const start = useCallback(async () => {
+    if (disabled || status !== "idle") return;
+    setError(null);
+    releasedRef.current = false;
+
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch {
+      setError("Microphone unavailable");
+      return;
+    }
+    if (releasedRef.current) {
+      stream.getTracks().forEach((t) => t.stop());
+      return;
+    }
+
+    const recorder = new MediaRecorder(stream);
+    chunksRef.current = [];
+    recorder.ondataavailable = (e) => {
+      if (e.data.size) chunksRef.current.push(e.data);
+    };
+    recorder.onstop = async () => {
+      stream.getTracks().forEach((t) => t.stop());
+      const audio = new Blob(chunksRef.current, { type: recorder.mimeType || "audio/webm" });
+      if (!audio.size) {
+        setStatus("idle");
+        return;
+      }
+      setStatus("transcribing");
+      try {
+        const text = await transcribe(audio);
+        if (text && !unmountedRef.current) onTranscript(text);
+      } catch (e) {
+        if (!unmountedRef.current) setError(e instanceof Error ? e.message : "Transcription failed");
+      } finally {
+        if (!unmountedRef.current) setStatus("idle");
+      }
+    };
+
+    recorderRef.current = recorder;
+    recorder.start();
+    setStatus("recording");
+  }, [disabled, status, onTranscript]);
+
+  const stop = useCallback(() => {
+    releasedRef.current = true;
+    const recorder = recorderRef.current;
+    recorderRef.current = null;
+    if (recorder && recorder.state !== "inactive") recorder.stop();
+  }, []);
+
+  // release the microphone if the component goes away mid-recording, without
+  // transcribing what was recorded
+  useEffect(
+    () => () => {
+      unmountedRef.current = true;
+      releasedRef.current = true;
+      const recorder = recorderRef.current;
+      recorderRef.current = null;
+      if (!recorder) return;
+      recorder.ondataavailable = null;
+      recorder.onstop = null;
+      if (recorder.state !== "inactive") recorder.stop();
+      recorder.stream.getTracks().forEach((t) => t.stop());
+    },
+    []
+  );
+
+  const label =
+    status === "recording" ? "Release to send" : status === "transcribing" ? "Transcribing…" : "Hold to talk";
+
+  return (
+    <button
+      type="button"
+      onPointerDown={(e) => {
+        e.preventDefault();
+        void start();
+      }}
+      onPointerUp={stop}
+      onPointerLeave={stop}
+      onKeyDown={(e) => {
+        if ((e.key === " " || e.key === "Enter") && !e.repeat) {
+          e.preventDefault();
+          void start();
+        }
+      }}
+      onKeyUp={(e) => {
+        if (e.key === " " || e.key === "Enter") stop();
+      }}
+      disabled={disabled || status === "transcribing"}
+      aria-pressed={status === "recording"}
+      aria-label={label}
+      title={error || label}
+      className={[
+        "inline-flex items-center justify-center rounded-lg p-3 transition-colors select-none touch-none",
+        status === "recording"
+          ? "bg-red-600 text-white animate-pulse"
+          : error
+            ? "border border-red-300 text-red-600 dark:border-red-800 dark:text-red-400"
+            : "border border-gray-300 text-gray-700 hover:bg-gray-50 dark:border-neutral-700 dark:text-gray-200 dark:hover:bg-neutral-900",
+        "disabled:opacity-60 disabled:cursor-not-allowed",
+        className || "",
+      ].join(" ")}
+    >
+      {status === "transcribing" ? <Loader2 size={20} className="animate-spin" /> : <Mic size={20} />}
+    </button>
+  );
+}
@@ -1,7 +1,7 @@
 "use client";
 
 import { cn } from "@/lib/utils";
-import {Database, FileStack, Plus,Bot, Settings2 ,TestTube} from "lucide-react";
+import {Database, FileStack, Plus,Bot, Settings2 ,TestTube, ScrollText} from "lucide-react";
 import { usePathname, useRouter } from "next/navigation";
 
 export const Sidebar = () => {
@@ -33,6 +33,11 @@ export const Sidebar = () => {
             icon: Settings2,
             href: "/settings",
             label: "Settings",
+        },
+        {
+            icon: ScrollText,
+            href: "/prompts",
+            label: "Prompts",
         },
          {
             icon: TestTube,
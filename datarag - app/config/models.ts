@@ -1,4 +1,5 @@
 // config/models.ts
+import type { ModelPricing } from "@/types/models";
 
 // ✅ GroqCloud text/STT models available today (you’re actively using these)
 export const AVAILABLE_MODELS_LIST = [
@@ -17,39 +18,128 @@ export const AVAILABLE_MODELS_LIST = [
   "whisper-large-v3-turbo",
 ] as const;
 
+// LLM providers. A model id is routed to a provider by its prefix
+// ("ollama/llama3.1:8b"), or by the `provider` of its catalog entry below.
+export const MODEL_PROVIDERS = {
+  groq: {
+    name: "GroqCloud",
+    prefix: "groq/",
+    apiKeyEnv: "GROQ_API_KEY",
+    baseUrlEnv: "GROQ_BASE_URL",
+  },
+  ollama: {
+    name: "Ollama (self-hosted)",
+    prefix: "ollama/",
+    apiKeyEnv: null,
+    baseUrlEnv: "OLLAMA_BASE_URL",
+  },
+  "openai-compatible": {
+    name: "OpenAI-compatible endpoint",
+    prefix: "openai-compatible/",
+    apiKeyEnv: "OPENAI_COMPATIBLE_API_KEY",
+    baseUrlEnv: "OPENAI_COMPATIBLE_BASE_URL",
+  },
+  // Offline, rule-based responses (lib/llm/fake.ts). Select with LLM_PROVIDER=fake.
+  fake: {
+    name: "Fake (offline)",
+    prefix: "fake/",
+    apiKeyEnv: null,
+    baseUrlEnv: null,
+  },
+} as const;
+
+export type ModelProviderId = keyof typeof MODEL_PROVIDERS;
+
+export type ModelCapability = "chat" | "json" | "tools" | "reasoning" | "transcription";
+
 export const AVAILABLE_MODELS = {
   "llama-3.1-8b-instant": {
     name: "Llama 3.1 8B (Instant)",
+    provider: "groq",
+    capabilities: ["chat", "json", "tools"],
     temperature: 0.2,
     contextWindow: 131072,
   },
   "deepseek-r1-distill-llama-70b": {
     name: "DeepSeek R1 Distill Llama 70B",
+    provider: "groq",
+    capabilities: ["chat", "reasoning"],
     temperature: 0.2,
     contextWindow: 131072,
   },
   "openai/gpt-oss-120b": {
     name: "GPT-OSS 120B",
+    provider: "groq",
+    capabilities: ["chat", "json", "tools", "reasoning"],
     temperature: 0.2,
     contextWindow: 131072,
   },
   "openai/gpt-oss-20b": {
     name: "GPT-OSS 20B",
+    provider: "groq",
+    capabilities: ["chat", "json", "tools", "reasoning"],
     temperature: 0.2,
     contextWindow: 131072,
   },
   "whisper-large-v3": {
     name: "Whisper Large V3",
+    provider: "groq",
+    capabilities: ["transcription"],
     temperature: 0.2,
     contextWindow: 0,
   },
   "whisper-large-v3-turbo": {
     name: "Whisper Large V3 Turbo",
+    provider: "groq",
+    capabilities: ["transcription"],
     temperature: 0.2,
     contextWindow: 0,
   },
+} as const satisfies Record<string, {
+  name: string;
+  provider: ModelProviderId;
+  capabilities: readonly ModelCapability[];
+  temperature: number;
+  contextWindow: number;
+}>;
+
+// Published GroqCloud list prices (USD per 1000 tokens). Models without an
+// entry (Ollama, fake, unknown ids) are treated as free.
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  "llama-3.1-8b-instant":          { currency: "USD", inputTokenPrice: 0.00005, outputTokenPrice: 0.00008 },
+  "deepseek-r1-distill-llama-70b": { currency: "USD", inputTokenPrice: 0.00075, outputTokenPrice: 0.00099 },
+  "openai/gpt-oss-120b":           { currency: "USD", inputTokenPrice: 0.00015, outputTokenPrice: 0.00075 },
+  "openai/gpt-oss-20b":            { currency: "USD", inputTokenPrice: 0.0001,  outputTokenPrice: 0.0005 },
+};
+
+// Model used for each pipeline stage when the caller's model id is unknown
+// or lacks the needed capability. Override with LLM_<PURPOSE>_MODEL.
+export const DEFAULT_PURPOSE_MODELS = {
+  chat: "openai/gpt-oss-20b",
+  sql: "openai/gpt-oss-120b",
+  rerank: "openai/gpt-oss-20b",
+  intent: "llama-3.1-8b-instant",
+  judge: "llama-3.1-8b-instant",
+  fast: "openai/gpt-oss-20b",
 } as const;
 
+export type ModelPurpose = keyof typeof DEFAULT_PURPOSE_MODELS;
+
+// Speech-to-text model for voice questions. Override with LLM_TRANSCRIPTION_MODEL.
+export const DEFAULT_TRANSCRIPTION_MODEL = "whisper-large-v3-turbo";
+
+// Tried in order when a model fails with a rate-limit / server error. A request
+// for a model in the chain continues from the next entry; other models fall
+// back to the whole chain. Override with LLM_<PURPOSE>_FALLBACKS="a,b,c".
+export const MODEL_FALLBACK_CHAINS: Record<ModelPurpose, readonly string[]> = {
+  chat: ["openai/gpt-oss-120b", "openai/gpt-oss-20b", "llama-3.1-8b-instant"],
+  sql: ["openai/gpt-oss-120b", "openai/gpt-oss-20b", "llama-3.1-8b-instant"],
+  rerank: ["openai/gpt-oss-20b", "llama-3.1-8b-instant"],
+  intent: ["llama-3.1-8b-instant", "openai/gpt-oss-20b"],
+  judge: ["llama-3.1-8b-instant", "openai/gpt-oss-20b"],
+  fast: ["openai/gpt-oss-20b", "llama-3.1-8b-instant"],
+};
+
 // ✅ Pinecone index is 768-dim → keep only 768-dim embedding models
 export const EMBEDDING_MODELS = {
   "intfloat/e5-base-v2":          { dimensions: 768, contextLength: 512, description: "E5 base (adds query/passages prefixes)", chunkSize: 256 },
@@ -57,6 +147,13 @@ export const EMBEDDING_MODELS = {
   "BAAI/bge-base-en-v1.5":        { dimensions: 768, contextLength: 512, description: "BGE base (solid baseline)",              chunkSize: 256 },
 } as const;
 
+// ONNX builds for the local embedding backend, with the pooling each model was trained with
+export const LOCAL_EMBEDDING_MODELS: Record<keyof typeof EMBEDDING_MODELS, { model: string; pooling: "mean" | "cls" }> = {
+  "intfloat/e5-base-v2":          { model: "Xenova/e5-base-v2",            pooling: "mean" },
+  "Alibaba-NLP/gte-base-en-v1.5": { model: "Alibaba-NLP/gte-base-en-v1.5", pooling: "cls" },
+  "BAAI/bge-base-en-v1.5":        { model: "Xenova/bge-base-en-v1.5",      pooling: "cls" },
+};
+
 // Used by your evaluation UI: keep base text models and 768-dim embedding models only
 const EVAL_MODELS = {
   base: [
@@ -3,10 +3,12 @@ import { useState, useCallback, useRef, useMemo, useEffect } from 'react';
 import type {
   ChatMessage,
   ChatSession,
+  RetrievalScope,
   SessionDetail,
   SourceReference,
   UserSettings
 } from '@/types/chat';
+import type { ChunkFeedback } from '@/types/document';
 import type { UseChatOptions } from '@/types/ui';
 
 // Re-export types for backward compatibility
@@ -35,6 +37,12 @@ const DEFAULT_USER_SETTINGS: UserSettings = {
   maxContextLength: 6000,
   rerankingThreshold: 0.5,
   enableReranking: true,
+  sqlModel: null,
+  rerankModel: null,
+  intentModel: null,
+  judgeModel: null,
+  reranker: null,
+  queryTransforms: [],
 };
 
 type FetchOpts = { force?: boolean };
@@ -228,7 +236,7 @@ export const useChat = (options: UseChatOptions = {}) => {
     }
   }
 
-  function parseJsonFrame(raw: string): { content?: string; thinking?: string; sources?: SourceReference[] } | null {
+  function parseJsonFrame(raw: string): { content?: string; thinking?: string; sources?: SourceReference[]; messageId?: string } | null {
     const trimmed = raw.trim();
     if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) return null;
     try {
@@ -238,6 +246,7 @@ export const useChat = (options: UseChatOptions = {}) => {
           content: obj.content ?? obj.answer,
           thinking: obj.thinking,
           sources: Array.isArray(obj.sources) ? obj.sources : undefined,
+          messageId: typeof obj.metadata?.messageId === 'string' ? obj.metadata.messageId : undefined,
         };
       }
       return null;
@@ -503,6 +512,8 @@ export const useChat = (options: UseChatOptions = {}) => {
                 m.id === asstId
                   ? {
                     ...m,
+                    // the stored message's id, so the answer can be rated
+                    id: frame.messageId ?? m.id,
                     content: finalContent,
                     thinking: finalThinking || undefined,
                     sources: frame.sources?.length ? frame.sources : (headerSources || []),
@@ -585,6 +596,8 @@ export const useChat = (options: UseChatOptions = {}) => {
       temperature: number;
       useDatabase: boolean;
       useKnowledgeBase: boolean;
+      retrievalScope: RetrievalScope | null;
+      documentVersions: Record<string, number> | null;
     }>
   ) => {
     try {
@@ -593,7 +606,10 @@ export const useChat = (options: UseChatOptions = {}) => {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ sessionId, ...updates }),
       });
-      if (!res.ok) throw new Error(`Failed to update session: ${res.statusText}`);
+      if (!res.ok) {
+        const detail = await res.json().catch(() => null);
+        throw new Error(detail?.error || `Failed to update session: ${res.statusText}`);
+      }
       const data = await res.json();
 
       setSessions(prev => prev.map(s => (s.id === sessionId ? { ...s, ...updates } : s)));
@@ -607,6 +623,28 @@ export const useChat = (options: UseChatOptions = {}) => {
     }
   }, [currentSession, onError]);
 
+  // ---------------- Rate an answer ----------------
+
+  const rateMessage = useCallback(async (messageId: string, feedback: ChunkFeedback | null) => {
+    try {
+      const res = await fetch('/api/chat/feedback', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ messageId, rating: feedback }),
+      });
+      if (!res.ok) {
+        const detail = await res.json().catch(() => null);
+        throw new Error(detail?.error || `Failed to rate message: ${res.statusText}`);
+      }
+      setCurrentSession(prev => prev
+        ? { ...prev, chatMessages: prev.chatMessages.map(m => (m.id === messageId ? { ...m, feedback } : m)) }
+        : prev);
+    } catch (err) {
+      onError?.(err as Error);
+      throw err;
+    }
+  }, [onError]);
+
   // ---------------- Delete / archive ----------------
 
   const deleteSession = useCallback(async (sessionId: string, archive = false) => {
@@ -647,8 +685,11 @@ export const useChat = (options: UseChatOptions = {}) => {
     useKnowledgeBase?: boolean;
     enableDatabaseQueries?: boolean;
     temperature?: number;
+    /** Start a multi-document chat over these documents. */
+    documents?: { id: string; title: string }[];
   }) => {
     try {
+      const documents = Array.isArray(opts?.documents) ? opts!.documents : [];
       const body = {
         action: 'create',
         title: opts?.title || 'New Chat',
@@ -656,18 +697,22 @@ export const useChat = (options: UseChatOptions = {}) => {
         useKnowledgeBase: (opts?.useKnowledgeBase ?? DEFAULTS.useKnowledgeBase),
         useDatabase: (opts?.enableDatabaseQueries ?? DEFAULTS.useDatabase),
         temperature: (typeof opts?.temperature === 'number' ? opts.temperature : DEFAULTS.temperature),
+        ...(documents.length ? { documentIds: documents.map((d) => d.id) } : {}),
       };
       const res = await fetch('/api/chat', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(body),
       });
-      if (!res.ok) throw new Error(`Failed to create session: ${res.statusText}`);
+      if (!res.ok) {
+        const detail = await res.json().catch(() => null);
+        throw new Error(detail?.error || `Failed to create session: ${res.statusText}`);
+      }
       const data = await res.json();
       const newSession = data.session;
 
       setSessions(prev => [newSession, ...prev]);
-      setCurrentSession({ ...newSession, chatMessages: [] });
+      setCurrentSession({ ...newSession, chatMessages: [], documents });
       requestTrackingRef.current.lastSessionFetch = newSession.id;
       onSessionCreated?.(newSession.id);
       return newSession.id;
@@ -803,6 +848,7 @@ export const useChat = (options: UseChatOptions = {}) => {
     fetchSession,
     sendMessage,
     updateSession,
+    rateMessage,
     deleteSession,
     cancelRequest,
     createNewSession,
@@ -818,6 +864,7 @@ export const useChat = (options: UseChatOptions = {}) => {
     fetchSession,
     sendMessage,
     updateSession,
+    rateMessage,
     deleteSession,
     cancelRequest,
     createNewSession,
@@ -16,6 +16,8 @@ type GetChatResponse = {
     content: string;
     timestamp: string;
     userId: string | null;
+    sources?: Array<{ type: string }>;
+    feedback?: "helpful" | "unhelpful" | null;
   }>;
   conversation_stats: {
     total_messages: number;
@@ -1,34 +1,70 @@
-import { ChatGroq } from "@langchain/groq";
-import { InferenceClient } from "@huggingface/inference";
-
 import { HumanMessage, SystemMessage } from "@langchain/core/messages";
 import { Document } from "@langchain/core/documents";
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
 import { currentUser } from "@clerk/nextjs";
 import { NextResponse } from "next/server";
 import { v4 as uuidv4 } from "uuid";
+import md5 from "md5";
 import { Redis } from "@upstash/redis";
-import { Pinecone } from "@pinecone-database/pinecone";
-import { PineconeStore } from "@langchain/pinecone";
 import { PDFLoader } from "@langchain/community/document_loaders/fs/pdf";
-import { RecursiveCharacterTextSplitter } from "@pinecone-database/doc-splitter";
 import prismadb from "@/lib/prismadb";
 import { rateLimit } from "@/lib/rate-limit";
 
 import { EMBEDDING_MODELS } from "@/config/models";
+import { DEFAULT_EMBEDDING_BACKEND, HuggingFaceEmbeddings, createEmbeddings, uncached, type Embedder } from "@/lib/embeddings";
+import { DEFAULT_VECTOR_STORE, createVectorStore } from "@/lib/vector-store/providers";
+import { createChunker, defaultChunkingStrategy } from "@/lib/chunking/chunker";
+import {
+  LEGACY_GENERATION,
+  baseNamespace,
+  currentGenerations,
+  generationNamespace,
+  storedGenerations,
+  stripGeneration,
+} from "@/lib/embedding-generations";
+import { knowledgeEmbeddingInput, knowledgeVectorId } from "@/lib/knowledge-embedding";
+import {
+  DEFAULT_HYBRID_SEARCH,
+  deleteKeywords,
+  indexKeywords,
+  listKeywordEntries,
+  reciprocalRankFusion,
+  searchKeywords,
+  updateKeywordMetadata,
+} from "@/lib/hybrid-search";
+import { OPEN_VERSION, matchChunks, versionFilters } from "@/lib/document-versions";
+import { DEFAULT_DIVERSITY, diversify } from "@/lib/diversify";
+import { CHUNK_QUALITY_WEIGHT, loadChunkQuality, metadataChunkRef, recordChunkUsage, refKey } from "@/lib/chunk-quality";
 
 // DB tools (must return JSON-able results if used as Tools)
 import {
   executeSql,
   generateQueryPrompt,
   DATABASE_SCHEMA,
-  listTables,
-  describeTable,
   initTools,
 } from "@/lib/database-tools";
 
 // App config
 import { AVAILABLE_MODELS, type ModelKey } from "@/config/models";
+import { createChatModel, defaultModelFor, resolveModelForPurpose, type ModelPurpose } from "@/lib/llm/providers";
+import { withModelFallback, type FallbackAttempt } from "@/lib/llm/fallback";
+import { estimateTokens, saveUsageHistory, servedModels, summarizeUsage, trackUsage } from "@/lib/llm/usage";
+import { allocateContextBudget, type ContextItem } from "@/lib/context-budget";
 import { isDatabaseQuery } from "@/lib/database-detection";
+import { getPrompt, withPromptScope } from "@/lib/prompts/registry";
+import {
+  DEFAULT_RESPONSE_CACHE_THRESHOLD,
+  RESPONSE_CACHE_NAMESPACE,
+  ResponseCache,
+  invalidateResponseCache,
+  type CachedAnswer,
+  type CacheKind,
+  type ResponseCacheIndex,
+  type ResponseCacheScope,
+} from "@/lib/response-cache";
+import { DEFAULT_SQL_AGENT_MAX_STEPS, runSqlAgent } from "@/lib/sql-agent";
+import { DEFAULT_RERANKER, createReranker, isRerankerKind, rerank } from "@/lib/reranking/reranker";
+import { DEFAULT_QUERY_TRANSFORMS, isQueryTransform, mergeRankedLists, transformQuery } from "@/lib/query-transform";
 import { User } from "@clerk/nextjs/server";
 import type {
   AgentConfig,
@@ -37,15 +73,43 @@ import type {
   EnhancedAgentResponse,
   SourceReference,
   RerankingResult,
+  RerankerKind,
+  RerankRun,
+  QueryTransform,
+  QueryTransformReport,
+  FusionBreakdown,
   DocumentKey,
-  GeneralChatKey
+  GeneralChatKey,
+  ContextBudgetReport,
+  PromptVersions,
+  ResponseCacheStatus,
+  StageModels
 } from "@/types/chat";
-import type { EmbeddingConfig } from "@/types/document";
+import type {
+  Document as DocumentRow,
+  DocumentChunk,
+  DocumentVersion as DocumentVersionRow,
+  KnowledgeBaseEntry,
+} from "@prisma/client";
+import type { LLMCallUsage } from "@/types/models";
+import type {
+  ChunkingStrategy,
+  EmbeddingBackend,
+  EmbeddingConfig,
+  EmbeddingGeneration,
+  SourcePage,
+} from "@/types/document";
+import type { MetadataUpdate, VectorFilter, VectorFilterValue, VectorStore } from "@/types/vector";
+import type { SqlAgentStep } from "@/types/database";
 
 
 
 export const DEFAULT_EMBEDDING_CONFIG: EmbeddingConfig = {
   model: "intfloat/e5-base-v2",
+  backend: DEFAULT_EMBEDDING_BACKEND,
+  vectorStore: DEFAULT_VECTOR_STORE,
+  hybridSearch: DEFAULT_HYBRID_SEARCH,
+  diversity: DEFAULT_DIVERSITY,
   chunkSize: 512,
   chunkOverlap: 128,
   batchSize: 10,
@@ -55,107 +119,11 @@ export const DEFAULT_EMBEDDING_CONFIG: EmbeddingConfig = {
 };
 
 
-/* -----------------------------------------------------------------------------
- * Prompts
- * -------------------------------------------------------------------------- */
-const SYSTEM_PROMPTS = {
-  chat: `
-You are an intelligent AI assistant with specialized knowledge in aviation, airport operations, and flight data.
-
-RESPONSE GUIDELINES:
-- Be accurate and helpful
-- When database results are provided, present them in clear, well-formatted tables
-- Use simple, business-friendly language
-- Use concrete numbers when available
-- Be honest about limits
-- Keep a professional, approachable tone
-- Focus on insights and actionable information
-
-DATABASE RESULT HANDLING:
-- Always present database results in table format
-- Include column headers and properly aligned data
-- Show row counts and highlight key findings
-- Provide business context and insights
-- Never show SQL queries to users - focus on results
-- Format data appropriately (dates, numbers, currencies)
-
-CRITICAL: When database results are available, create tables and provide insights based on the actual data.
-  `.trim(),
-
-  documentChat: `
-You analyze and answer questions about uploaded documents.
-
-GUIDELINES:
-- Base answers on provided document context
-- Point to specific sections/pages when possible
-- If info is missing, say so clearly
-- Be concise but complete
-- Keep conversation context
-- Use reranked results when available
-  `.trim(),
-
-  databaseExpert: `
-You are Querymancer, a MySQL specialist focused on generating clean, efficient queries.
-
-APPROACH:
-1) Understand user intent clearly
-2) Inspect available tables and columns
-3) Build correct, efficient SQL with proper JOINs
-4) Validate logic and add appropriate filters
-5) Return results that enable clear business insights
-
-PRINCIPLES:
-- Use indexed columns in WHERE clauses (airport_iata, airline_iata, date_key)
-- Join tables properly with clear relationships
-- Add appropriate LIMIT clauses (default 50, max 100)
-- Handle NULL values appropriately
-- Prefer specific codes (country_code) over text fields
-- date_key format is YYYYMMDD
-- Focus on queries that provide actionable business insights
-
-QUERY STRUCTURE:
-- Always include relevant columns for business analysis
-- Add meaningful ORDER BY clauses
-- Use appropriate aggregation when needed
-- Ensure queries can be easily understood by business users
-
-Current date: ${new Date().toISOString().slice(0, 10)}
-Target audience: business analysts and data scientists who need actionable insights.
-  `.trim(),
-
-  reranking: `Return 0.0-1.0 relevance scores. Be precise and consistent.`.trim(),
-};
+// A document hit from a hierarchical chunk brings its whole section up to this size
+const SECTION_EXPANSION_MAX_TOKENS = Number(process.env.SECTION_EXPANSION_MAX_TOKENS ?? 1200);
 
 /* -----------------------------------------------------------------------------
- * Groq model helpers
- * -------------------------------------------------------------------------- */
-// Map to actual Groq models
-const GROQ_DEFAULT = "openai/gpt-oss-20b";
-const GROQ_FAST = "openai/gpt-oss-20b";
-const GROQ_LONG = "openai/gpt-oss-120b";
-
-function toGroqModel(modelKey?: string, opts?: { purpose?: "chat" | "sql" | "rerank" | "fast" }): string {
-  const raw = (modelKey || "").toLowerCase();
-
-  // caller passed a Groq hint like "groq/llama-3.1-8b-instant"
-  if (raw.startsWith("groq/")) return raw.replace(/^groq\//, "");
-
-  // tolerate "openai/gpt-oss-*" aliases by mapping to Groq models
-  if (raw.includes("openai/gpt-oss-120b")) return GROQ_DEFAULT;
-  if (raw.includes("openai/gpt-oss-20b")) return GROQ_FAST;
-
-  // known direct names (already valid)
-  if (/llama|mixtral/.test(raw)) return modelKey!;
-
-  // choose by purpose
-  if (opts?.purpose === "sql") return GROQ_LONG;
-  if (opts?.purpose === "rerank") return GROQ_FAST;
-  if (opts?.purpose === "fast") return GROQ_FAST;
-  return GROQ_DEFAULT;
-}
-
-/* -----------------------------------------------------------------------------
- * Default agent config (now pointing to Groq by default)
+ * Default agent config (model ids are routed by lib/llm/providers)
  * -------------------------------------------------------------------------- */
 const DEFAULT_CONFIG: Required<AgentConfig> = {
   modelKey: "llama-3.1-8b-instant",
@@ -166,10 +134,19 @@ const DEFAULT_CONFIG: Required<AgentConfig> = {
   useDatabase: false,
   useKnowledgeBase: false,
   useReranking: true,
+  reranker: DEFAULT_RERANKER,
+  queryTransforms: DEFAULT_QUERY_TRANSFORMS,
+  knowledgeFilter: {},
+  scopeDocuments: [],
   contextWindow: 32768,
   timeout: 60000,
   rerankingThreshold: 0.5,
   maxContextLength: 6000,
+  recordUsage: true,
+  sqlAgentMaxSteps: DEFAULT_SQL_AGENT_MAX_STEPS,
+  stageModels: {},
+  useResponseCache: true,
+  responseCacheThreshold: DEFAULT_RESPONSE_CACHE_THRESHOLD,
 };
 
 /* -----------------------------------------------------------------------------
@@ -196,134 +173,35 @@ export async function checkHuggingFaceHealth(model = "sentence-transformers/BAAI
 }
 
 
-class HuggingFaceEmbeddings {
-  private client: InferenceClient;
-  private model: string;
-  private normalize: boolean;
-  private maxRetries: number;
-  private waitForModel: boolean;
-
-  constructor(options: { model?: string; token?: string; normalize?: boolean; maxRetries?: number; waitForModel?: boolean } = {}) {
-    const token =
-      options.token ||
-      process.env.HUGGING_FACE_ACCESS_TOKEN ||
-      process.env.HUGGINGFACE_API_KEY ||
-      process.env.HUGGINGFACEHUB_API_KEY ||
-      process.env.HUGGINGFACEHUB_API_TOKEN ||
-      process.env.HF_ACCESS_TOKEN;
-
-    this.client = new InferenceClient(token || undefined);
-    this.model = options.model || "sentence-transformers/BAAI/bge-base-en-v1.5";
-    this.normalize = options.normalize ?? true;
-    this.maxRetries = Math.max(0, options.maxRetries ?? 3);
-    this.waitForModel = options.waitForModel ?? true;
-  }
-
-  async embedQuery(text: string): Promise<number[]> {
-    const [v] = await this._embed([this.prefixForModel(text, true)]);
-    return v;
-  }
-
-  async embedDocuments(texts: string[]): Promise<number[][]> {
-    return this._embed(texts.map(t => this.prefixForModel(t, false)));
-  }
-
-  // ---- internals ---------------------------------------------------
-  private async _embed(texts: string[]): Promise<number[][]> {
-    if (!texts.length) return [];
-    let attempt = 0;
-
-    while (true) {
-      try {
-        const inputs = texts.length === 1 ? texts[0] : texts;
-        const out = await this.client.featureExtraction(
-          { model: this.model, inputs }
-        );
-        const vectors = this.to2D(out, texts.length);
-        return this.normalize ? vectors.map(this.l2norm) : vectors;
-      } catch (e: unknown) {
-        const error = e as Error & { status?: number; cause?: { status?: number }; message?: string };
-        const status = error?.status ?? error?.cause?.status;
-        if ((status === 429 || status === 503) && attempt < this.maxRetries) {
-          await new Promise(r => setTimeout(r, 500 * (attempt + 1) ** 2));
-          attempt++;
-          continue;
-        }
-        if (status === 404) throw new Error(`Model not found or access denied: ${this.model}`);
-        throw new Error(`Embedding failed: ${error?.message || String(e)}`);
-      }
-    }
-  }
-
-  /** Coerce output into [batch][dim], mean-pooling when token vectors are returned. */
-  private to2D(output: unknown, count: number): number[][] {
-    if (!Array.isArray(output)) throw new Error("Unexpected embedding response format.");
-
-    // [dim]
-    if (typeof output[0] === "number") return [output as number[]];
-
-    // [N][dim] or [tokens][dim]
-    if (Array.isArray(output[0]) && typeof output[0][0] === "number") {
-      if (count === 1 && output.length > 1) return [this.meanPool(output as number[][])];
-      return output as number[][];
-    }
-
-    // [N][tokens][dim]
-    if (Array.isArray(output[0]) && Array.isArray(output[0][0]) && typeof output[0][0][0] === "number") {
-      return (output as number[][][]).map(m => this.meanPool(m));
-    }
-
-    throw new Error("Unexpected embedding response shape.");
-  }
-
-  private meanPool(mat: number[][]): number[] {
-    const rows = mat.length;
-    const cols = rows ? mat[0].length : 0;
-    const sum = new Array(cols).fill(0);
-    for (let r = 0; r < rows; r++) for (let c = 0; c < cols; c++) sum[c] += mat[r][c] || 0;
-    for (let c = 0; c < cols; c++) sum[c] /= rows || 1;
-    return sum;
-  }
-
-  private l2norm = (v: number[]): number[] => {
-    let s = 0;
-    for (let i = 0; i < v.length; i++) s += v[i] * v[i];
-    s = Math.sqrt(s) || 1;
-    return v.map(x => x / s);
-  };
-
-  /** Add recommended prefixes for certain families (E5 / GTE). */
-  private prefixForModel(text: string, isQuery: boolean): string {
-    const id = this.model.toLowerCase();
-    if (id.includes("e5") || id.includes("gte")) {
-      return `${isQuery ? "query:" : "passage:"} ${text}`;
-    }
-    return text;
-  }
-}
-
-
-
 /* -----------------------------------------------------------------------------
  * Memory Manager (consolidated)
  * -------------------------------------------------------------------------- */
+/** The vectors of one embedding generation and the model that reads and writes them. */
+type VectorIndex = {
+  generation: number;
+  model: string;
+  backend: EmbeddingBackend;
+  embeddings: Embedder;
+  vectors: VectorStore;
+};
+
 class MemoryManager {
   private static instance: MemoryManager;
   private redis: Redis;
-  private pinecone: Pinecone;
-  private embeddings: HuggingFaceEmbeddings;
+  // configured model; serves generation 0
+  private embeddings: Embedder;
+  private vectors: VectorStore;
+  private indexes = new Map<number, VectorIndex>();
   private cfg: EmbeddingConfig;
 
-  private static readonly NS_KB = "knowledge_base";
+  static readonly NS_KB = "knowledge_base";
   private static readonly NS_CHAT_PREFIX = "general_chat";
 
   constructor(override?: Partial<EmbeddingConfig>) {
     this.redis = Redis.fromEnv();
-    this.pinecone = new Pinecone({ apiKey: process.env.PINECONE_API_KEY! });
     this.cfg = { ...DEFAULT_EMBEDDING_CONFIG, ...override };
-    this.embeddings = new HuggingFaceEmbeddings({
-      model: this.cfg.model
-    });
+    this.embeddings = createEmbeddings(this.cfg);
+    this.vectors = createVectorStore(this.embeddings, this.cfg.vectorStore);
   }
 
   static async getInstance(override?: Partial<EmbeddingConfig>) {
@@ -335,14 +213,6 @@ class MemoryManager {
   }
 
   /* ---------- helpers ---------- */
-  private index() {
-    const name = process.env.PINECONE_INDEX;
-    if (!name) throw new Error("PINECONE_INDEX is not set");
-    return this.pinecone.Index(name);
-  }
-  private async store(namespace?: string) {
-    return PineconeStore.fromExistingIndex(this.embeddings, { pineconeIndex: this.index(), textKey: "text", namespace });
-  }
   private preprocess(text: string) {
     return text
       .replace(/\s+/g, " ")
@@ -377,10 +247,121 @@ class MemoryManager {
     });
   }
 
+  /** DocumentChunk row for a chunk written to the vector store as `vectorId`. */
+  private chunkRow(doc: Document, documentId: string, vectorId: string) {
+    const {
+      chunkIndex, pageNumber, chunkType, wordCount, tokenEstimate, sectionId, sectionTitle, versionFrom, versionTo, text: _text, ...rest
+    } = doc.metadata;
+    return {
+      documentId,
+      content: doc.pageContent,
+      chunkIndex: Number(chunkIndex),
+      pageNumber: typeof pageNumber === "number" ? pageNumber : null,
+      chunkType: typeof chunkType === "string" ? chunkType : null,
+      wordCount: typeof wordCount === "number" ? wordCount : null,
+      tokenEstimate: typeof tokenEstimate === "number" ? tokenEstimate : null,
+      vectorId,
+      level: "chunk",
+      parentChunkId: typeof sectionId === "string" ? sectionId : null,
+      sectionTitle: typeof sectionTitle === "string" ? sectionTitle : null,
+      versionFrom: typeof versionFrom === "number" ? versionFrom : 1,
+      versionTo: typeof versionTo === "number" && versionTo < OPEN_VERSION ? versionTo : null,
+      metadata: JSON.stringify(rest),
+    };
+  }
+
+  /** Whole sections behind hierarchical chunks (metadata.sectionId), by id. */
+  async loadSections(sectionIds: string[]): Promise<Map<string, { title: string | null; content: string }>> {
+    if (!sectionIds.length) return new Map();
+    const rows: Pick<DocumentChunk, "id" | "content" | "sectionTitle">[] = await prismadb.documentChunk.findMany({
+      where: { id: { in: sectionIds }, level: "section" },
+      select: { id: true, content: true, sectionTitle: true },
+    });
+    return new Map(rows.map((r) => [r.id, { title: r.sectionTitle, content: r.content }]));
+  }
+
+  /* ---------- embedding generations ---------- */
+  /** Index of `generation`; null is generation 0 with the configured model. */
+  private vectorIndex(generation: EmbeddingGeneration | null): VectorIndex {
+    const id = generation?.id ?? LEGACY_GENERATION;
+    let index = this.indexes.get(id);
+    if (!index) {
+      if (!generation) {
+        index = {
+          generation: LEGACY_GENERATION,
+          model: this.cfg.model,
+          backend: this.cfg.backend ?? DEFAULT_EMBEDDING_BACKEND,
+          embeddings: this.embeddings,
+          vectors: this.vectors,
+        };
+      } else {
+        const embeddings = createEmbeddings({ ...this.cfg, model: generation.model, backend: generation.backend });
+        index = {
+          generation: id,
+          model: generation.model,
+          backend: generation.backend,
+          embeddings,
+          vectors: createVectorStore(embeddings, this.cfg.vectorStore),
+        };
+      }
+      this.indexes.set(id, index);
+    }
+    return index;
+  }
+  /** The index queries go to; its model embeds the query. */
+  private async readIndex(): Promise<VectorIndex> {
+    return this.vectorIndex((await currentGenerations()).active);
+  }
+  /** Embed and upsert into one index, tagging every vector with its model and generation. */
+  private addVectors(index: VectorIndex, namespace: string, docs: Document[], ids: string[]) {
+    const tagged = docs.map(
+      (d) =>
+        new Document({
+          pageContent: d.pageContent,
+          metadata: { ...d.metadata, embeddingModel: index.model, embeddingGeneration: index.generation },
+        })
+    );
+    return index.vectors.addDocuments(generationNamespace(namespace, index.generation), tagged, { ids });
+  }
+  /**
+   * Write to the serving index and to every other generation that still holds
+   * vectors: one being built, a built one waiting for its cut-over, retired
+   * ones and generation 0, so a re-index misses nothing added while it runs
+   * and a rollback serves current content. Only the serving index failing
+   * fails the write.
+   */
+  private async writeVectors(namespace: string, docs: Document[], ids: string[] = docs.map(() => uuidv4())) {
+    const [{ active }, stored] = await Promise.all([currentGenerations(), storedGenerations()]);
+    const serving = active?.id ?? LEGACY_GENERATION;
+    await this.addVectors(this.vectorIndex(active), namespace, docs, ids);
+    for (const generation of [null, ...stored]) {
+      const id = generation?.id ?? LEGACY_GENERATION;
+      if (id === serving) continue;
+      try {
+        await this.addVectors(this.vectorIndex(generation), namespace, docs, ids);
+      } catch (e) {
+        console.warn(`Vector write to embedding generation ${id} failed:`, e);
+      }
+    }
+    return ids;
+  }
+
+  embedQuery(text: string): Promise<number[]> {
+    return this.readIndex().then((index) => index.embeddings.embedQuery(text));
+  }
+  /** Embed a question for the response cache, with the serving index its vector belongs in. */
+  async embedCacheQuery(text: string): Promise<{ embedding: number[]; index: ResponseCacheIndex }> {
+    const index = await this.readIndex();
+    return {
+      embedding: await index.embeddings.embedQuery(text),
+      index: { vectors: index.vectors, namespace: generationNamespace(RESPONSE_CACHE_NAMESPACE, index.generation) },
+    };
+  }
+
   /* ---------- health ---------- */
   async healthCheck(): Promise<boolean> {
     try {
-      const v = await this.embeddings.embedQuery("ping");
+      const v = await uncached(this.embeddings).embedQuery("ping");
       return Array.isArray(v) && v.length > 0;
     } catch (e) {
       console.warn("embeddings health check failed:", e);
@@ -388,51 +369,14 @@ class MemoryManager {
     }
   }
 
-  private async getPineconeIndexDimension(): Promise<number | null> {
-    const name = process.env.PINECONE_INDEX;
-    if (!name) throw new Error("PINECONE_INDEX is not set");
-
-    type IndexMeta = {
-      dimension?: number;
-      status?: { dimension?: number };
-      spec?: {
-        pod?: { spec?: { dimension?: number } };
-        serverless?: { spec?: { dimension?: number } };
-      };
-    };
-
-    try {
-      const meta = await (
-        this.pinecone as unknown as {
-          describeIndex: (options: { indexName: string }) => Promise<IndexMeta>;
-        }
-      ).describeIndex({ indexName: name });
-
-      const dim =
-        meta.dimension ??
-        meta.status?.dimension ??
-        meta.spec?.pod?.spec?.dimension ??
-        meta.spec?.serverless?.spec?.dimension;
-
-      if (typeof dim === "number") return dim;
-    } catch {
-      /* ignore, fallback below */
-    }
-
-    const envDim = Number(process.env.PINECONE_DIMENSION);
-    return Number.isFinite(envDim) ? envDim : null;
-  }
-
-
-  private async getModelDimension(modelId: string): Promise<number> {
+  private async getModelDimension(modelId: string, backend = this.cfg.backend): Promise<number> {
     // 1) from known table
     const known = (EMBEDDING_MODELS as Record<string, { dimensions: number }>)[modelId];
     if (known?.dimensions) return known.dimensions;
 
     // 2) dynamic probe (single embed) – robust if model is custom
     try {
-      const hf = new HuggingFaceEmbeddings({ model: modelId });
-      const vec = await hf.embedQuery("dimension probe");
+      const vec = await createEmbeddings({ ...this.cfg, model: modelId, backend }).embedQuery("dimension probe");
       if (Array.isArray(vec)) return vec.length;
     } catch (_) {
       // fall through
@@ -449,13 +393,13 @@ class MemoryManager {
       // If it's an HF model (contains "/"), no local pull is needed
       if (modelId.includes("/")) {
         const [indexDim, modelDim] = await Promise.all([
-          this.getPineconeIndexDimension(),
+          this.vectors.dimension(),
           this.getModelDimension(modelId),
         ]);
 
         if (indexDim && indexDim !== modelDim) {
           throw new Error(
-            `Embedding dimension mismatch: Pinecone index is ${indexDim} but model "${modelId}" outputs ${modelDim}. ` +
+            `Embedding dimension mismatch: ${this.vectors.backend} index is ${indexDim} but model "${modelId}" outputs ${modelDim}. ` +
             `Pick a ${indexDim}-dim model (e.g., intfloat/e5-base-v2, Alibaba-NLP/gte-base-en-v1.5, BAAI/bge-base-en-v1.5) ` +
             `or recreate the index with dimension ${modelDim}.`
           );
@@ -465,13 +409,13 @@ class MemoryManager {
       }
 
       const [indexDim, modelDim] = await Promise.all([
-        this.getPineconeIndexDimension(),
+        this.vectors.dimension(),
         this.getModelDimension(modelId),
       ]);
 
       if (indexDim && indexDim !== modelDim) {
         throw new Error(
-          `Embedding dimension mismatch: Pinecone index is ${indexDim} but local model "${modelId}" outputs ${modelDim}. ` +
+          `Embedding dimension mismatch: ${this.vectors.backend} index is ${indexDim} but local model "${modelId}" outputs ${modelDim}. ` +
           `Use a ${indexDim}-dim embedding model or recreate the index.`
         );
       }
@@ -485,155 +429,476 @@ class MemoryManager {
   getEmbeddingInfo() {
     return {
       model: this.cfg.model,
+      backend: this.cfg.backend,
+      vectorStore: this.vectors.backend,
+      hybridSearch: this.cfg.hybridSearch,
       config: this.cfg,
       modelDetails: EMBEDDING_MODELS[this.cfg.model as keyof typeof EMBEDDING_MODELS],
     };
   }
 
   /* ---------- ingest ---------- */
-  async processFile(
+  /**
+   * Parse and chunk a PDF. Chunks are numbered from `firstIndex`; sections are
+   * returned as rows named after `sectionPrefix` (kept apart per version).
+   */
+  private async chunkFile(
     fileUrl: string,
     documentId: string,
-    options: { chunkSize?: number; chunkOverlap?: number } = {}
-  ): Promise<string[]> {
+    { chunkSize, chunkOverlap, chunkingStrategy, firstIndex = 0, version = 1, sectionPrefix = "" }: {
+      chunkSize?: number;
+      chunkOverlap?: number;
+      chunkingStrategy?: ChunkingStrategy | null;
+      firstIndex?: number;
+      version?: number;
+      sectionPrefix?: string;
+    }
+  ) {
     if (!fileUrl) throw new Error("fileUrl is required");
 
+    // items on one line are joined with a space, so line breaks are real ones (headings)
     let loader: PDFLoader;
     if (/^https?:\/\//i.test(fileUrl)) {
       const res = await fetch(fileUrl, { headers: { Accept: "application/pdf" } });
       if (!res.ok) throw new Error(`Failed to fetch PDF: ${res.status} ${res.statusText}`);
       const ab = await res.arrayBuffer();
-      loader = new PDFLoader(new Blob([ab], { type: "application/pdf" }), { parsedItemSeparator: "\n\n" });
+      loader = new PDFLoader(new Blob([ab], { type: "application/pdf" }), { parsedItemSeparator: " " });
     } else {
-      loader = new PDFLoader(fileUrl, { parsedItemSeparator: "\n\n" });
+      loader = new PDFLoader(fileUrl, { parsedItemSeparator: " " });
     }
 
-    const pages = await loader.load();
-    const chunkSize = options.chunkSize ?? this.cfg.chunkSize;
-    const chunkOverlap = options.chunkOverlap ?? this.cfg.chunkOverlap;
-
-    const baseDocs = pages.map(
-      (p, i) =>
-        new Document({
-          pageContent: this.preprocess(p.pageContent.replace(/\n/g, " ").trim()),
-          metadata: { pageNumber: p.metadata?.loc?.pageNumber || i + 1, documentId },
-        })
-    );
-
-    const splitter = new RecursiveCharacterTextSplitter({
-      chunkSize,
-      chunkOverlap,
-      separators: ["\n\n", "\n", ".", "!", "?", ";", ",", " ", ""],
+    const pages: SourcePage[] = (await loader.load()).map((p, i) => ({
+      pageNumber: p.metadata?.loc?.pageNumber || i + 1,
+      text: p.pageContent,
+    }));
+
+    const chunker = createChunker(chunkingStrategy ?? defaultChunkingStrategy(this.cfg), {
+      chunkSize: chunkSize ?? this.cfg.chunkSize,
+      chunkOverlap: chunkOverlap ?? this.cfg.chunkOverlap,
+      // sentence windows are never embedded again: keep them out of the embedding cache
+      embeddings: uncached((await this.readIndex()).embeddings),
+      batchSize: this.cfg.batchSize,
     });
-
-    const chunks = await splitter.splitDocuments(baseDocs);
-    const docs = chunks.map((c, idx) => this.makeDoc(c.pageContent, { ...c.metadata, chunkIndex: idx, documentId }));
-
-    const store = await this.store(documentId);
+    const chunks = await chunker.chunk(pages);
+
+    // sections are kept for context expansion only; chunks are what gets embedded
+    const sectionId = (key: number) => `${documentId}_${sectionPrefix}section_${key}`;
+    const sections = chunks
+      .filter((c) => c.level === "section")
+      .map((c, idx) => ({
+        id: sectionId(c.key),
+        documentId,
+        content: c.content,
+        chunkIndex: idx,
+        pageNumber: c.pageNumber,
+        chunkType: "section",
+        level: "section",
+        sectionTitle: c.sectionTitle ?? null,
+        wordCount: c.content.split(/\s+/).length,
+        tokenEstimate: estimateTokens(c.content),
+        versionFrom: version,
+      }));
+    const docs: Document[] = chunks
+      .filter((c) => c.level === "chunk")
+      .map((c, idx) =>
+        this.makeDoc(c.content, {
+          pageNumber: c.pageNumber,
+          chunkIndex: firstIndex + idx,
+          documentId,
+          chunkingStrategy: chunker.strategy,
+          versionFrom: version,
+          versionTo: OPEN_VERSION,
+          ...(c.parentKey !== undefined ? { sectionId: sectionId(c.parentKey) } : {}),
+          ...(c.sectionTitle ? { sectionTitle: c.sectionTitle } : {}),
+        })
+      );
+    return { sections, docs };
+  }
+  /** Embed chunks into every generation being written, index their keywords and store their rows. */
+  private async writeChunks(documentId: string, docs: Document[]): Promise<string[]> {
     const ids: string[] = [];
     for (let i = 0; i < docs.length; i += this.cfg.batchSize) {
       const batch = docs.slice(i, i + this.cfg.batchSize);
-      const idList = batch.map((_, j) => `${documentId}_chunk_${i + j}`);
-      await store.addDocuments(batch, { ids: idList });  // addDocuments returns void
+      const idList = batch.map((d) => `${documentId}_chunk_${d.metadata.chunkIndex}`);
+      await this.writeVectors(documentId, batch, idList);
+      await indexKeywords(documentId, batch, idList);
+      await prismadb.documentChunk.createMany({
+        data: batch.map((doc, j) => this.chunkRow(doc, documentId, idList[j])),
+      });
       ids.push(...idList);
       if (i > 0) await new Promise((r) => setTimeout(r, 250));
     }
     return ids;
   }
+  /** Ingest a file as version 1 of the document, replacing any earlier chunks and versions. */
+  async processFile(
+    fileUrl: string,
+    documentId: string,
+    options: { chunkSize?: number; chunkOverlap?: number; chunkingStrategy?: ChunkingStrategy | null } = {}
+  ): Promise<string[]> {
+    const { sections, docs } = await this.chunkFile(fileUrl, documentId, options);
+
+    // re-processing replaces the chunk rows and vectors of the previous file
+    const previous: Pick<DocumentChunk, "vectorId">[] = await prismadb.documentChunk.findMany({
+      where: { documentId, level: "chunk", vectorId: { not: null } },
+      select: { vectorId: true },
+    });
+    await prismadb.documentChunk.deleteMany({ where: { documentId } });
+    const fresh = new Set(docs.map((d) => `${documentId}_chunk_${d.metadata.chunkIndex}`));
+    const stale = previous.map((r) => r.vectorId!).filter((id) => !fresh.has(id));
+    if (stale.length) await this.deleteVectors(documentId, { ids: stale });
+    if (sections.length) await prismadb.documentChunk.createMany({ data: sections });
+
+    const ids = await this.writeChunks(documentId, docs);
+    await prismadb.$transaction([
+      prismadb.documentVersion.deleteMany({ where: { documentId } }),
+      prismadb.documentVersion.create({
+        data: { documentId, version: 1, fileUrl, chunkIndexes: docs.map((_, i) => i), unchanged: docs.length },
+      }),
+      prismadb.document.update({ where: { id: documentId }, data: { currentVersion: 1 } }),
+    ]);
+    await invalidateResponseCache({ documentId });
+    return ids;
+  }
+  /**
+   * Ingest a file as the next version of the document. Chunks whose text is
+   * unchanged keep their rows and vectors (moved ones only get their page
+   * updated); new chunks are embedded; removed ones are closed at the new
+   * version and stay searchable for chats pinned to an older one. Null when
+   * the document is not processed or another version is being added.
+   */
+  async addDocumentVersion(
+    fileUrl: string,
+    documentId: string,
+    options: { chunkingStrategy?: ChunkingStrategy | null; createdBy?: string; note?: string } = {}
+  ): Promise<DocumentVersionRow | null> {
+    const document: Pick<DocumentRow, "currentVersion"> | null = await prismadb.document.findUnique({
+      where: { id: documentId },
+      select: { currentVersion: true },
+    });
+    if (!document) throw new Error("Document not found");
+    const previous = document.currentVersion;
+
+    // PROCESSING until the version commits; a second upload finds no COMPLETED row at this version
+    const { count } = await prismadb.document.updateMany({
+      where: { id: documentId, currentVersion: previous, status: "COMPLETED" },
+      data: { status: "PROCESSING" },
+    });
+    if (!count) return null;
+    try {
+      return await this.writeDocumentVersion(fileUrl, documentId, previous, options);
+    } catch (e) {
+      await prismadb.document
+        .update({ where: { id: documentId }, data: { status: "COMPLETED" } })
+        .catch(console.error);
+      throw e;
+    }
+  }
+  /** addDocumentVersion once the document is locked; a failure removes what it wrote. */
+  private async writeDocumentVersion(
+    fileUrl: string,
+    documentId: string,
+    previous: number,
+    options: { chunkingStrategy?: ChunkingStrategy | null; createdBy?: string; note?: string }
+  ): Promise<DocumentVersionRow> {
+    const version = previous + 1;
+    const [current, last] = await Promise.all([
+      prismadb.documentChunk.findMany({
+        where: { documentId, level: "chunk", versionTo: null },
+        orderBy: { chunkIndex: "asc" },
+      }) as Promise<DocumentChunk[]>,
+      prismadb.documentChunk.aggregate({ where: { documentId, level: "chunk" }, _max: { chunkIndex: true } }),
+    ]);
+    const firstIndex = (last._max.chunkIndex ?? -1) + 1;
+
+    const { sections, docs } = await this.chunkFile(fileUrl, documentId, {
+      chunkingStrategy: options.chunkingStrategy,
+      firstIndex,
+      version,
+      sectionPrefix: `v${version}_`,
+    });
+    const { matched, removed } = matchChunks<DocumentChunk>(current, docs.map((d) => ({ content: d.pageContent })));
+
+    // only new chunks take new indexes, so chunkIndex (and vector ids) stay unique per document
+    const added: Document[] = [];
+    const chunkIndexes = docs.map((doc, i) => {
+      const row = matched[i];
+      if (row) return row.chunkIndex;
+      doc.metadata = { ...doc.metadata, chunkIndex: firstIndex + added.length };
+      added.push(doc);
+      return firstIndex + added.length - 1;
+    });
+
+    // vectors written before versioning carry no range: the first revision tags them
+    const updates: { row: DocumentChunk; metadata: Record<string, VectorFilterValue> }[] = [];
+    matched.forEach((row, i) => {
+      if (!row) return;
+      const metadata: Record<string, VectorFilterValue> = previous === 1 ? { versionFrom: 1, versionTo: OPEN_VERSION } : {};
+      const pageNumber = docs[i].metadata.pageNumber;
+      if (typeof pageNumber === "number" && pageNumber !== row.pageNumber) metadata.pageNumber = pageNumber;
+      if (Object.keys(metadata).length) updates.push({ row, metadata });
+    });
+    removed.forEach((row) => updates.push({ row, metadata: { versionFrom: row.versionFrom, versionTo: version } }));
+
+    const usedSections = new Set(added.map((d) => d.metadata.sectionId));
+    const newSections = sections.filter((s) => usedSections.has(s.id));
+    const vectorUpdates = updates.filter((u) => u.row.vectorId);
+    let versionRow: DocumentVersionRow;
+    try {
+      if (newSections.length) await prismadb.documentChunk.createMany({ data: newSections });
+      await this.writeChunks(documentId, added);
+      await this.updateVectorMetadata(
+        documentId,
+        vectorUpdates.map((u) => ({ id: u.row.vectorId!, metadata: u.metadata }))
+      );
+      const moved = updates.filter((u) => typeof u.metadata.pageNumber === "number");
+      [versionRow] = await prismadb.$transaction([
+        prismadb.documentVersion.create({
+          data: {
+            documentId,
+            version,
+            fileUrl,
+            chunkIndexes,
+            added: added.length,
+            removed: removed.length,
+            unchanged: chunkIndexes.length - added.length,
+            note: options.note ?? null,
+            createdBy: options.createdBy ?? null,
+          },
+        }),
+        prismadb.documentChunk.updateMany({
+          where: { id: { in: removed.map((r) => r.id) } },
+          data: { versionTo: version },
+        }),
+        ...moved.map((u) =>
+          prismadb.documentChunk.update({ where: { id: u.row.id }, data: { pageNumber: u.metadata.pageNumber as number } })
+        ),
+        prismadb.document.update({
+          where: { id: documentId },
+          data: { currentVersion: version, fileUrl, status: "COMPLETED" },
+        }),
+      ]);
+    } catch (e) {
+      // nothing of the failed version stays: its rows, vectors and keywords go, closed and moved chunks reopen
+      await Promise.all([
+        prismadb.documentChunk.deleteMany({
+          where: {
+            documentId,
+            OR: [{ level: "chunk", chunkIndex: { gte: firstIndex } }, { id: { in: newSections.map((s) => s.id) } }],
+          },
+        }),
+        added.length
+          ? this.deleteVectors(documentId, { ids: added.map((d) => `${documentId}_chunk_${d.metadata.chunkIndex}`) })
+          : undefined,
+        this.updateVectorMetadata(
+          documentId,
+          vectorUpdates.map((u) => ({
+            id: u.row.vectorId!,
+            metadata: {
+              ...u.metadata,
+              versionTo: OPEN_VERSION,
+              ...(typeof u.metadata.pageNumber === "number" && typeof u.row.pageNumber === "number"
+                ? { pageNumber: u.row.pageNumber }
+                : {}),
+            },
+          }))
+        ),
+      ]).catch((cleanupError) => console.error("Failed to clean up document version:", cleanupError));
+      throw e;
+    }
+    await invalidateResponseCache({ documentId });
+    return versionRow;
+  }
 
   /* ---------- search (single path, many wrappers) ---------- */
   private async searchCore(
-    namespace: string,
+    namespace: string | string[],
     query: string,
     {
       topK = 5,
       filters,
       useReranking,
+      reranker = DEFAULT_RERANKER,
       modelKey,
       threshold,
-    }: { topK?: number; filters?: Record<string, unknown>; useReranking?: boolean; modelKey?: ModelKey; threshold?: number } = {}
+      keyword = false,
+      variants = [],
+      namespaceFilters = {},
+      quality = false,
+    }: {
+      topK?: number;
+      filters?: VectorFilter;
+      useReranking?: boolean;
+      reranker?: RerankerKind;
+      modelKey?: ModelKey;
+      threshold?: number;
+      /** Fuse in full-text matches; only namespaces written through indexKeywords have any. */
+      keyword?: boolean;
+      /** More queries to retrieve with (query transformations); reranking still uses `query`. */
+      variants?: string[];
+      /** Extra filter for one namespace only, e.g. the version of one document in a set. */
+      namespaceFilters?: Record<string, VectorFilter>;
+      /** Weigh document chunks by their usage signals (lib/chunk-quality). */
+      quality?: boolean;
+    } = {}
   ) {
-    const store = await this.store(namespace);
-    const filter = this.cfg.enableMetadataFiltering ? filters : undefined;
-    const k = Math.min(useReranking ? topK * 2 : topK, 20);
-    const scored = await store.similaritySearchWithScore(query, k, filter);
+    // the wrappers decide which filters enableMetadataFiltering may drop
+    const filterFor = (ns: string) => {
+      const merged = { ...filters, ...namespaceFilters[ns] };
+      return Object.keys(merged).length ? merged : undefined;
+    };
+    // "none" keeps retrieval order, so there is nothing to over-fetch for
+    const reranking = !!useReranking && reranker !== "none";
+    const weighing = quality && CHUNK_QUALITY_WEIGHT > 0;
+    const diversifying = (this.cfg.diversity ?? DEFAULT_DIVERSITY).enabled;
+    const k = Math.min(reranking || weighing || diversifying ? topK * 2 : topK, 20);
+    const index = await this.readIndex();
+
+    const queries = [query, ...variants.filter((v) => v && v !== query)];
+    const namespaces = Array.isArray(namespace) ? namespace : [namespace];
+    // one ranked list per namespace and query; several are fused by rank
+    const lists = await Promise.all(
+      namespaces.flatMap((ns) => queries.map((q) => this.retrieve(index, ns, q, k, filterFor(ns), keyword)))
+    );
+    const merged = lists.length > 1 ? mergeRankedLists(lists, k) : lists[0] || [];
+    const docs = weighing ? await this.weighByQuality(merged) : merged;
+
+    if (reranking && docs.length > 1) {
+      const { results, run } = await this.rerankDocuments(query, docs, { reranker, modelKey, threshold });
+      const rer = results.map((r) => ({
+        ...r,
+        fusion: (r.document.metadata as { fusion?: FusionBreakdown }).fusion,
+      }));
+      // the reranker scores text only; quality moves its order the same way
+      const weighed = (r: RerankingResult) =>
+        r.relevanceScore * (1 + (weighing ? CHUNK_QUALITY_WEIGHT * (Number(r.document.metadata?.chunkQuality) || 0) : 0));
+      if (weighing) rer.sort((a, b) => weighed(b) - weighed(a));
+      const picked = this.diversify(rer, topK, (r) => r.document, weighed);
+      picked.forEach((r, i) => (r.newRank = i));
+      return { documents: picked.map((r) => r.document), rerankingResults: picked, rerankRun: run };
+    }
+    const picked = this.diversify(docs, topK, (d) => d, (d) => Number(d.metadata.searchScore));
+    return { documents: picked, rerankingResults: [] as RerankingResult[], rerankRun: undefined };
+  }
+
+  /**
+   * The best `topK` of ranked `items` once near-duplicates are dropped and the
+   * rest picked by MMR under the per-document cap (lib/diversify). Candidates
+   * are compared by their words.
+   */
+  private diversify<T>(items: T[], topK: number, doc: (item: T) => Document, relevance: (item: T) => number): T[] {
+    const cfg = this.cfg.diversity ?? DEFAULT_DIVERSITY;
+    if (!cfg.enabled || items.length <= 1) return items.slice(0, topK);
+    const order = diversify(
+      items.map((item, i) => {
+        const score = relevance(item);
+        const { documentId, kbEntryId } = doc(item).metadata ?? {};
+        // entries added without a source document all carry the namespace as documentId
+        const group = typeof documentId === "string" && documentId !== MemoryManager.NS_KB ? documentId : kbEntryId;
+        return {
+          text: doc(item).pageContent,
+          // results without a score keep their rank as relevance
+          relevance: Number.isFinite(score) ? score : 1 - i / items.length,
+          group: typeof group === "string" ? group : undefined,
+        };
+      }),
+      topK,
+      cfg
+    );
+    return order.map((i) => items[i]);
+  }
 
-    const docs = scored.map(([doc, score]) => {
+  /**
+   * Scale the search score of document chunks by 1 + CHUNK_QUALITY_WEIGHT *
+   * quality and re-sort; the quality is kept as metadata.chunkQuality. Chunks
+   * without usage history, and anything that is not a chunk, keep their score.
+   */
+  private async weighByQuality<D extends Document & { metadata: Record<string, unknown> }>(docs: D[]): Promise<D[]> {
+    let qualities: Map<string, number>;
+    try {
+      qualities = await loadChunkQuality(
+        docs.map((d) => metadataChunkRef(d.metadata)).filter((r): r is NonNullable<typeof r> => !!r)
+      );
+    } catch (e) {
+      console.warn("Failed to load chunk quality; keeping retrieval order", e);
+      return docs;
+    }
+    if (!qualities.size) return docs;
+    return docs
+      .map((d) => {
+        const ref = metadataChunkRef(d.metadata);
+        const q = ref ? qualities.get(refKey(ref)) : undefined;
+        if (q === undefined) return d;
+        const score = typeof d.metadata.searchScore === "number" ? d.metadata.searchScore : 0;
+        d.metadata = { ...d.metadata, searchScore: score * (1 + CHUNK_QUALITY_WEIGHT * q), chunkQuality: q };
+        return d;
+      })
+      .sort((a, b) => Number(b.metadata.searchScore ?? 0) - Number(a.metadata.searchScore ?? 0));
+  }
+
+  /** One retrieval pass: dense search, fused with full-text matches when `keyword` is set. */
+  private async retrieve(
+    index: VectorIndex,
+    namespace: string,
+    query: string,
+    k: number,
+    filter: VectorFilter | undefined,
+    keyword: boolean
+  ): Promise<Array<Document & { metadata: Record<string, unknown> }>> {
+    const hybrid = this.cfg.hybridSearch ?? DEFAULT_HYBRID_SEARCH;
+    const vectorNamespace = generationNamespace(namespace, index.generation);
+
+    if (keyword && hybrid.enabled) {
+      const [dense, sparse] = await Promise.all([
+        index.vectors.similaritySearch(vectorNamespace, query, k, filter),
+        searchKeywords(namespace, query, k, filter),
+      ]);
+      const fused = reciprocalRankFusion(dense, sparse, hybrid).slice(0, k);
+      // searchScore stays on a 0..1 scale: fused score relative to the best one
+      const top = fused[0]?.fusion.score || 1;
+      return fused.map(({ document, fusion }) => {
+        const docWithMetadata = document as Document & { metadata: Record<string, unknown> };
+        docWithMetadata.metadata = { ...docWithMetadata.metadata, searchScore: fusion.score / top, fusion };
+        return docWithMetadata;
+      });
+    }
+    const scored = await index.vectors.similaritySearch(vectorNamespace, query, k, filter);
+    return scored.map(([doc, score]) => {
       const docWithMetadata = doc as Document & { metadata: Record<string, unknown> };
       docWithMetadata.metadata = { ...docWithMetadata.metadata, searchScore: score };
       return docWithMetadata;
     });
-
-    if (useReranking && docs.length > 1) {
-      const rer = await this.rerankDocuments(query, docs, modelKey, threshold);
-      return { documents: rer.slice(0, topK).map((r) => r.document), rerankingResults: rer.slice(0, topK) };
-    }
-    return { documents: docs.slice(0, topK), rerankingResults: [] as RerankingResult[] };
   }
-  knowledgeBaseSearch(query: string, topK = 5, filters?: Record<string, unknown>, useReranking?: boolean, modelKey?: ModelKey, threshold?: number) {
-    return this.searchCore(MemoryManager.NS_KB, query, { topK, filters, useReranking, modelKey, threshold });
+  knowledgeBaseSearch(query: string, topK = 5, filters?: VectorFilter, useReranking?: boolean, modelKey?: ModelKey, threshold?: number, reranker?: RerankerKind, variants?: string[]) {
+    // `filters` is a chat's retrieval scope: enforced even without enableMetadataFiltering
+    return this.searchCore(MemoryManager.NS_KB, query, { topK, filters, useReranking, reranker, modelKey, threshold, keyword: true, variants });
   }
-  vectorSearch(query: string, documentNamespace: string, filterUserMessages: boolean, useReranking?: boolean, modelKey?: ModelKey, threshold?: number) {
+  /** Search one document, or several at once (multi-document chat) reranked as one list. */
+  vectorSearch(query: string, documentNamespace: string | string[], filterUserMessages: boolean, useReranking?: boolean, modelKey?: ModelKey, threshold?: number, reranker?: RerankerKind, variants?: string[], versionFilters?: Record<string, VectorFilter>) {
     const filters = filterUserMessages && this.cfg.enableMetadataFiltering ? { userMsg: true } : undefined;
-    return this.searchCore(documentNamespace, query, { topK: 10, filters, useReranking, modelKey, threshold });
+    // conversation turns share the document namespace but are never keyword-indexed;
+    // version filters (enforced like a scope) leave them out as they carry no version,
+    // so they only apply once nothing restricts the search to turns
+    return this.searchCore(documentNamespace, query, { topK: 10, filters, useReranking, reranker, modelKey, threshold, keyword: !filterUserMessages, variants, namespaceFilters: filters ? undefined : versionFilters, quality: !filterUserMessages });
   }
-  searchSimilarConversations(query: string, userId: string, topK = 3, useReranking?: boolean, modelKey?: ModelKey, threshold?: number) {
+  searchSimilarConversations(query: string, userId: string, topK = 3, useReranking?: boolean, modelKey?: ModelKey, threshold?: number, reranker?: RerankerKind) {
     const ns = `${MemoryManager.NS_CHAT_PREFIX}-${userId}`;
     const filters = this.cfg.enableMetadataFiltering ? { userId } : undefined;
-    return this.searchCore(ns, query, { topK, filters, useReranking, modelKey, threshold });
+    return this.searchCore(ns, query, { topK, filters, useReranking, reranker, modelKey, threshold });
   }
 
-  /* ---------- reranking (via Groq) ---------- */
+  /* ---------- reranking ---------- */
+  /** Rescore `documents` with the chosen reranker; `modelKey` is the model the "llm" reranker asks. */
   async rerankDocuments(
     query: string,
     documents: Document[],
-    modelKey: ModelKey = "llama-3.1-8b-instant",
-    threshold = 0.5
-  ): Promise<RerankingResult[]> {
-    if (!documents.length) return [];
-    try {
-      const modelName = toGroqModel(String(modelKey), { purpose: "rerank" });
-      const model = new ChatGroq({
-        apiKey: process.env.GROQ_API_KEY,
-        model: modelName,
-        temperature: 0.1,
-        maxTokens: 1024,
-      });
-
-      const results: RerankingResult[] = [];
-      const B = 5;
-
-      for (let i = 0; i < documents.length; i += B) {
-        const batch = documents.slice(i, i + B);
-        const prompt =
-          `Query: "${query}"\n\nRate each document 0.0-1.0\n` +
-          batch
-            .map((doc, j) => `Document ${i + j + 1}:\n${String(doc.pageContent).slice(0, 700)}\n`)
-            .join("\n") +
-          `\nReply with lines "Document N: 0.X"`;
-
-        const resp = await model.invoke([new SystemMessage(SYSTEM_PROMPTS.reranking), new HumanMessage(prompt)]);
-        const scores = String(resp.content)
-          .trim()
-          .split(/\n+/)
-          .map((l) => parseFloat(l.split(":").pop()!.trim()))
-          .filter((n) => !Number.isNaN(n));
-
-        batch.forEach((doc, j) => {
-          const s = scores[j] ?? 0.5;
-          if (s >= threshold) {
-            results.push({ document: doc, relevanceScore: s, originalRank: i + j, newRank: -1 });
-          }
-        });
-      }
-
-      results.sort((a, b) => b.relevanceScore - a.relevanceScore);
-      results.forEach((r, idx) => (r.newRank = idx));
-      return results;
-    } catch (e) {
-      console.warn("Reranking failed; returning neutral ranks", e);
-      return documents.map((d, i) => ({ document: d, relevanceScore: 0.5, originalRank: i, newRank: i }));
-    }
+    {
+      reranker = DEFAULT_RERANKER,
+      modelKey = "llama-3.1-8b-instant",
+      threshold = 0.5,
+    }: { reranker?: RerankerKind; modelKey?: ModelKey; threshold?: number } = {}
+  ): Promise<{ results: RerankingResult[]; run: RerankRun }> {
+    return rerank(createReranker(reranker, { modelKey: String(modelKey) }), query, documents, threshold);
   }
 
   /* ---------- chat history (Redis + vectors) ---------- */
@@ -646,9 +911,8 @@ class MemoryManager {
   async writeToHistory(text: string, key: DocumentKey) {
     await this.redis.zadd(this.docKey(key), { score: Date.now(), member: text });
     try {
-      const store = await this.store(key.documentName);
       const doc = this.makeDoc(text, { userMsg: text.startsWith("User:"), documentId: key.documentName, userId: key.userId, modelName: key.modelName });
-      await store.addDocuments([doc]);
+      await this.writeVectors(key.documentName, [doc]);
     } catch (e) {
       console.warn("Vector add failed (doc history):", e);
     }
@@ -656,26 +920,181 @@ class MemoryManager {
   async writeToGeneralChatHistory(text: string, key: GeneralChatKey) {
     await this.redis.zadd(this.chatKey(key), { score: Date.now(), member: text });
     try {
-      const store = await this.store(`${MemoryManager.NS_CHAT_PREFIX}-${key.userId}`);
       const doc = this.makeDoc(text, { userMsg: text.startsWith("User:"), chatSession: key.sessionId || "default", userId: key.userId, modelName: key.modelName, timestamp: Date.now() });
-      await store.addDocuments([doc]);
+      await this.writeVectors(`${MemoryManager.NS_CHAT_PREFIX}-${key.userId}`, [doc]);
     } catch (e) {
       console.warn("Vector add failed (chat history):", e);
     }
   }
   async readLatestHistory(key: DocumentKey) {
-    const res = await this.redis.zrange(this.docKey(key), 0, Date.now(), { byScore: true });
-    return res.slice(-30).reverse().join("\n");
+    return (await this.readLatestHistoryEntries(key)).join("\n");
   }
   async readLatestGeneralChatHistory(key: GeneralChatKey) {
-    const res = await this.redis.zrange(this.chatKey(key), 0, Date.now(), { byScore: true });
-    return res.slice(-30).reverse().join("\n");
+    return (await this.readLatestGeneralChatHistoryEntries(key)).join("\n");
+  }
+  /** The last 30 history entries, newest first. */
+  async readLatestHistoryEntries(key: DocumentKey): Promise<string[]> {
+    const res = await this.redis.zrange<string[]>(this.docKey(key), 0, Date.now(), { byScore: true });
+    return res.slice(-30).reverse();
+  }
+  async readLatestGeneralChatHistoryEntries(key: GeneralChatKey): Promise<string[]> {
+    const res = await this.redis.zrange<string[]>(this.chatKey(key), 0, Date.now(), { byScore: true });
+    return res.slice(-30).reverse();
+  }
+  /* ---------- vector maintenance ---------- */
+  /**
+   * Delete vectors (in every stored generation) and their keyword entries in
+   * `namespace` by ids or metadata filter; neither clears the namespace.
+   */
+  async deleteVectors(namespace: string, options?: { ids?: string[]; filter?: VectorFilter }) {
+    const indexes = [this.vectorIndex(null), ...(await storedGenerations()).map((g) => this.vectorIndex(g))];
+    await Promise.all([
+      ...indexes.map((index) => index.vectors.delete(generationNamespace(namespace, index.generation), options)),
+      deleteKeywords(namespace, options),
+    ]);
+  }
+  /** Merge metadata into vectors of `namespace` in every stored generation, and into their keyword entries. */
+  async updateVectorMetadata(namespace: string, updates: MetadataUpdate[]) {
+    if (!updates.length) return;
+    const indexes = [this.vectorIndex(null), ...(await storedGenerations()).map((g) => this.vectorIndex(g))];
+    await Promise.all([
+      ...indexes.map((index) => index.vectors.updateMetadata(generationNamespace(namespace, index.generation), updates)),
+      updateKeywordMetadata(namespace, updates),
+    ]);
+  }
+  /** Question vectors of cached answers by id, in every stored generation. */
+  async deleteResponseCacheVectors(ids: string[]) {
+    // no ids would clear the namespace
+    if (ids.length) await this.deleteVectors(RESPONSE_CACHE_NAMESPACE, { ids });
+  }
+  /** Knowledge base vectors by id or metadata filter, with their keyword entries. */
+  deleteKnowledgeVectors(options: { ids?: string[]; filter?: VectorFilter }) {
+    return this.deleteVectors(MemoryManager.NS_KB, options);
+  }
+  /**
+   * Knowledge base vectors as the keyword index knows them (the vector stores
+   * cannot list ids); entries written while it was unavailable are missing.
+   */
+  listKnowledgeVectors(filter?: VectorFilter) {
+    return listKeywordEntries(MemoryManager.NS_KB, filter);
+  }
+  /** Delete the Redis history of a document (or document set) conversation, for every model and user. */
+  async deleteHistory(documentName: string): Promise<number> {
+    const keys: string[] = [];
+    let cursor = "0";
+    do {
+      const [next, batch] = await this.redis.scan(cursor, { match: `${documentName}-*`, count: 500 });
+      cursor = String(next);
+      keys.push(...batch);
+    } while (cursor !== "0");
+    if (keys.length) await this.redis.del(...keys);
+    return keys.length;
+  }
+  /** Namespaces of every generation (failed builds included), without their generation suffix. */
+  async listStoredNamespaces(): Promise<string[]> {
+    return Array.from(new Set((await this.vectors.listNamespaces()).map(stripGeneration)));
+  }
+  /** Namespaces of the serving generation, without their generation suffix. */
+  async listNamespaces() {
+    const index = await this.readIndex();
+    return (await index.vectors.listNamespaces())
+      .map((ns) => baseNamespace(ns, index.generation))
+      .filter((ns): ns is string => ns !== null);
+  }
+
+  /* ---------- re-index ---------- */
+  /** Throw unless `model` fits the vector store, which keeps one dimension for all generations. */
+  async assertModelFitsStore(model: string, backend?: EmbeddingBackend) {
+    const [storeDim, modelDim] = await Promise.all([this.vectors.dimension(), this.getModelDimension(model, backend)]);
+    if (storeDim && storeDim !== modelDim) {
+      throw new Error(
+        `Embedding dimension mismatch: ${this.vectors.backend} index is ${storeDim} but model "${model}" outputs ${modelDim}.`
+      );
+    }
+  }
+  /**
+   * Re-embed a document's stored chunks into `generation`. Returns false when
+   * the document has no stored chunks (ingested before chunks were persisted).
+   */
+  async reembedDocument(documentId: string, generation: EmbeddingGeneration): Promise<boolean> {
+    const rows: DocumentChunk[] = await prismadb.documentChunk.findMany({
+      where: { documentId, level: "chunk" },
+      orderBy: { chunkIndex: "asc" },
+    });
+    if (!rows.length) return false;
+
+    const index = this.vectorIndex(generation);
+    for (let i = 0; i < rows.length; i += this.cfg.batchSize) {
+      const batch = rows.slice(i, i + this.cfg.batchSize);
+      await this.addVectors(
+        index,
+        documentId,
+        batch.map((r) => this.chunkDocument(r)),
+        batch.map((r) => r.vectorId ?? `${documentId}_chunk_${r.chunkIndex}`)
+      );
+    }
+    return true;
+  }
+  async reembedKnowledgeEntry(entry: KnowledgeBaseEntry, tags: string[], generation: EmbeddingGeneration) {
+    const doc = this.knowledgeDocument(entry, tags);
+    await this.addVectors(this.vectorIndex(generation), MemoryManager.NS_KB, [doc], [knowledgeVectorId(entry.id)]);
+  }
+  /* ---------- keyword backfill ---------- */
+  /** Keyword entries for stored chunk rows, under the ids their vectors were written with. */
+  async indexChunkKeywords(rows: DocumentChunk[]) {
+    const byDocument = new Map<string, DocumentChunk[]>();
+    for (const row of rows) byDocument.set(row.documentId, [...(byDocument.get(row.documentId) || []), row]);
+    for (const [documentId, chunks] of Array.from(byDocument)) {
+      await indexKeywords(
+        documentId,
+        chunks.map((r) => this.chunkDocument(r)),
+        chunks.map((r) => r.vectorId ?? `${documentId}_chunk_${r.chunkIndex}`)
+      );
+    }
+  }
+  /** Keyword entry of a knowledge base entry, as written alongside its vector. */
+  async indexKnowledgeKeywords(entry: KnowledgeBaseEntry, tags: string[]) {
+    await indexKeywords(MemoryManager.NS_KB, [this.knowledgeDocument(entry, tags)], [knowledgeVectorId(entry.id)]);
+  }
+  private knowledgeDocument(entry: KnowledgeBaseEntry, tags: string[]): Document {
+    const { text, metadata } = knowledgeEmbeddingInput(entry, tags);
+    return this.makeDoc(text, { ...metadata, addedAt: entry.createdAt.getTime() });
+  }
+  /** Vector document of a stored chunk row; the inverse of chunkRow. */
+  private chunkDocument(row: DocumentChunk): Document {
+    let stored: Record<string, unknown> = {};
+    try {
+      stored = row.metadata ? JSON.parse(row.metadata) : {};
+    } catch {
+      // rows are written by chunkRow, but older ones may hold anything
+    }
+    const metadata: Record<string, unknown> = {
+      ...stored,
+      documentId: row.documentId,
+      chunkIndex: row.chunkIndex,
+      text: truncateStringByBytes(row.content, 36000),
+    };
+    if (row.pageNumber !== null) metadata.pageNumber = row.pageNumber;
+    if (row.chunkType) metadata.chunkType = row.chunkType;
+    if (row.wordCount !== null) metadata.wordCount = row.wordCount;
+    if (row.tokenEstimate !== null) metadata.tokenEstimate = row.tokenEstimate;
+    if (row.parentChunkId) metadata.sectionId = row.parentChunkId;
+    if (row.sectionTitle) metadata.sectionTitle = row.sectionTitle;
+    metadata.versionFrom = row.versionFrom;
+    metadata.versionTo = row.versionTo ?? OPEN_VERSION;
+    return new Document({ pageContent: row.content, metadata });
   }
   /* ---------- convenience ---------- */
   async addToKnowledgeBase(content: string, metadata: Record<string, unknown> = {}) {
     try {
-      const store = await this.store(MemoryManager.NS_KB);
-      await store.addDocuments([this.makeDoc(content, { ...metadata, documentId: metadata.documentId || "knowledge_base", addedAt: Date.now() })]);
+      const doc = this.makeDoc(content, { ...metadata, documentId: metadata.documentId || "knowledge_base", addedAt: Date.now() });
+      const ids = await this.writeVectors(
+        MemoryManager.NS_KB,
+        [doc],
+        typeof metadata.kbEntryId === "string" ? [knowledgeVectorId(metadata.kbEntryId)] : undefined
+      );
+      await indexKeywords(MemoryManager.NS_KB, [doc], ids);
+      await invalidateResponseCache({ knowledge: true });
       return true;
     } catch (e) {
       console.error("KB add failed:", e);
@@ -685,15 +1104,18 @@ class MemoryManager {
 }
 
 /* -----------------------------------------------------------------------------
- * Database Query Executor (generation via Groq) - FIXED VERSION
+ * Database Query Executor (SQL generation via the "sql" model) - FIXED VERSION
  * -------------------------------------------------------------------------- */
 class DatabaseQueryExecutor {
-  constructor(private modelKey: ModelKey, private withPerf = false) { }
+  constructor(
+    private modelKey: ModelKey,
+    private withPerf = false,
+    private maxSteps = DEFAULT_SQL_AGENT_MAX_STEPS
+  ) { }
 
   private model(temp = 0.0) {
-    return new ChatGroq({
-      apiKey: process.env.GROQ_API_KEY,
-      model: toGroqModel(String(this.modelKey), { purpose: "sql" }),
+    return createChatModel(String(this.modelKey), {
+      purpose: "sql",
       temperature: temp,
       maxTokens: 1024,
     });
@@ -792,78 +1214,6 @@ class DatabaseQueryExecutor {
     }
   }
 
-  private normalizeTableList(input: any): string[] {
-    // Accept: string[], {name}, {table}, {table_name}, {TABLE_NAME}, or JSON string of the same
-    const raw = typeof input === "string" ? (() => { try { return JSON.parse(input); } catch { return []; } })() : input;
-    const arr: any[] = Array.isArray(raw) ? raw : [];
-    const names = arr.map((t) => {
-      if (typeof t === "string") return t;
-      if (t && typeof t === "object") {
-        const obj = t as any;
-        return obj.name || obj.table || obj.table_name || obj.TABLE_NAME || Object.values(obj).find(v => typeof v === "string");
-      }
-      return undefined;
-    }).filter((v): v is string => typeof v === "string");
-    // unique, lower-cased base for matching but store original
-    const dedup: string[] = [];
-    const seen = new Set<string>();
-    for (const n of names) {
-      const k = n.toLowerCase();
-      if (!seen.has(k)) { seen.add(k); dedup.push(n); }
-    }
-    return dedup;
-  }
-
-  private async buildToolSQL(userMessage: string): Promise<{ table: string; sql: string }> {
-    // 1) tables
-    const tablesRaw: any = await listTables.invoke({ reasoning: `User asks: "${userMessage}"` });
-    const tables = this.normalizeTableList(tablesRaw);
-
-    if (!tables.length) throw new Error("No tables available");
-
-    const tryKw = (...kws: string[]) => tables.find((t) => {
-      const tl = t.toLowerCase();
-      return kws.some(kw => tl.includes(kw));
-    });
-
-    const table =
-      tryKw("flight", "flights") ||
-      tryKw("airline", "airlines", "carrier") ||
-      tryKw("airport", "airports") ||
-      tables[0];
-
-    // 2) describe
-    const descRaw: any = await describeTable.invoke({ table_name: table, include_indexes: false });
-    const desc = typeof descRaw === "string" ? descRaw : JSON.stringify(descRaw, null, 2);
-
-    // 3) generate SQL
-    const m = this.model(0.1);
-    const prompt = `Generate a MySQL SELECT query for: "${userMessage}"
-
-Table: ${table}
-Structure (use ONLY real columns that exist in the structure below):
-${desc}
-
-Requirements:
-- Valid MySQL syntax only
-- Use proper JOINs if needed
-- Add appropriate WHERE conditions
-- Include ORDER BY for logical sorting
-- Always add LIMIT 50
-- Output ONLY the SQL query (no markdown, no explanation, no JSON)
-
-SQL Query:`;
-
-    const out = await m.invoke([new HumanMessage(prompt)]);
-    const sql = this.extractSQL(String(out.content));
-
-    if (!sql || !/^(SELECT|WITH)\s/i.test(sql)) {
-      throw new Error("Failed to generate valid SQL query");
-    }
-
-    return { table, sql };
-  }
-
   async executeQuery(userMessage: string): Promise<DatabaseQueryResult> {
     const started = Date.now();
 
@@ -871,45 +1221,37 @@ SQL Query:`;
       console.log(`[DEBUG] DatabaseQueryExecutor.executeQuery called with:`, userMessage);
     }
 
+    let steps: SqlAgentStep[] = [];
     try {
-      // Try tool path first
-      const { sql } = await this.buildToolSQL(userMessage);
+      const run = await runSqlAgent(userMessage, this.model(0.0), { maxSteps: this.maxSteps });
+      steps = run.steps;
 
       if (process.env.SQL_TOOL_DEBUG === "true") {
-        console.log(`[DEBUG] Generated SQL:`, sql);
+        console.log(`[DEBUG] SQL agent finished after ${run.steps.length} steps:`, run.sql);
       }
 
-      const execRaw: any = await executeSql.invoke({
-        sql_query: sql,
-        explain_plan: false,
-        reasoning: `Executing query for: ${userMessage}`,
-        user_question: userMessage
-      });
-
-      const result = typeof execRaw === "string" ? JSON.parse(execRaw) : execRaw;
-
-      if (result?.success && result.data) {
-        const summary = await this.summarize(userMessage, result.data);
+      if (run.success && run.sql && run.data) {
+        const summary = run.answer || await this.summarize(userMessage, run.data);
         return {
           success: true,
-          data: result.data,
-          sqlQuery: sql,
+          data: run.data,
+          sqlQuery: run.sql,
           summary,
+          steps,
           performance: this.withPerf
-            ? { executionTime: Date.now() - started, rowCount: result.data.length, queryComplexity: this.complexity(sql) }
+            ? { executionTime: Date.now() - started, rowCount: run.data.length, queryComplexity: this.complexity(run.sql) }
             : undefined,
         };
       }
 
-      console.warn("Tool execution failed:", result?.error);
-      throw new Error(result?.error || "Tool execution failed");
+      throw new Error(run.error || "SQL agent failed");
 
-    } catch (toolError) {
-      console.warn("Tool path failed, trying legacy generation:", toolError);
+    } catch (agentError) {
+      console.warn("SQL agent failed, trying single-shot generation:", agentError);
 
       try {
         const m = this.model(0.0);
-        const prompt = `${generateQueryPrompt(userMessage)}
+        const prompt = `${generateQueryPrompt(userMessage, { syntaxGuide: await getPrompt("mysqlSyntaxGuide") })}
 
 CONTEXT: "${userMessage}"
 REQUIREMENTS:
@@ -923,7 +1265,7 @@ REQUIREMENTS:
 SQL:`;
 
         const resp = await m.invoke([
-          new SystemMessage(SYSTEM_PROMPTS.databaseExpert),
+          new SystemMessage(await getPrompt("databaseExpert", { schema: DATABASE_SCHEMA })),
           new HumanMessage(prompt)
         ]);
 
@@ -933,7 +1275,8 @@ SQL:`;
           return {
             success: false,
             error: "Unable to generate valid SQL query",
-            sqlQuery: String(resp.content).substring(0, 200) + "..."
+            sqlQuery: String(resp.content).substring(0, 200) + "...",
+            steps,
           };
         }
 
@@ -954,7 +1297,8 @@ SQL:`;
           return {
             success: false,
             sqlQuery: sql,
-            error: parsed?.error || "No data returned"
+            error: parsed?.error || "No data returned",
+            steps,
           };
         }
 
@@ -966,15 +1310,17 @@ SQL:`;
           data,
           sqlQuery: sql,
           summary,
+          steps,
           performance: this.withPerf
             ? { executionTime: Date.now() - started, rowCount: data.length, queryComplexity: this.complexity(sql) }
             : undefined,
         };
       } catch (err: any) {
-        console.error("Both tool and legacy paths failed:", err);
+        console.error("Both SQL agent and single-shot generation failed:", err);
         return {
           success: false,
           error: `Database query failed: ${err.message}`,
+          steps,
           performance: this.withPerf ? { executionTime: Date.now() - started, rowCount: 0, queryComplexity: "medium" } : undefined,
         };
       }
@@ -983,7 +1329,7 @@ SQL:`;
 }
 
 /* -----------------------------------------------------------------------------
- * AIAgent (Groq-powered)
+ * AIAgent
  * -------------------------------------------------------------------------- */
 export class AIAgent {
   private cfg: Required<AgentConfig>;
@@ -991,12 +1337,25 @@ export class AIAgent {
   private debugMode: boolean;
   private analytics: RerankingAnalytics;
   private logger: (level: string, message: string, data?: any) => void;
+  /** Model that served the most recent response (set before streaming starts). */
+  lastModelUsed: {
+    model: string;
+    requestedModel: string;
+    fallbacks: FallbackAttempt[];
+    stageModels?: StageModels;
+    promptVersions?: PromptVersions;
+    cache?: ResponseCacheStatus;
+    contextBudget?: ContextBudgetReport;
+    queryTransforms?: QueryTransformReport;
+    /** Sources numbered as the prompt cites them; validateCitations maps an answer to the ones it cited. */
+    citableSources?: SourceReference[];
+  } | null = null;
 
   constructor(cfg: Partial<AgentConfig> = {}) {
     this.cfg = { ...DEFAULT_CONFIG, ...cfg };
     this.debugMode = process.env.AGENT_DEBUG === "true";
     console.log("DebugMode: ", this.debugMode)
-    initTools(this.cfg.modelKey);
+    initTools(this.stageModel("sql"));
 
     this.analytics = RerankingAnalytics.getInstance();
 
@@ -1036,23 +1395,203 @@ export class AIAgent {
     }
   }
 
-  private model(opts?: { forceStreaming?: boolean; purpose?: "chat" | "sql" | "rerank" | "fast" }) {
+  /**
+   * Model configured for a pipeline stage. SQL and reranking follow the chat
+   * model unless set; intent and judging default to their small models.
+   */
+  stageModel(purpose: ModelPurpose): string {
+    const chosen = this.cfg.stageModels?.[purpose];
+    if (chosen) return chosen;
+    return purpose === "chat" || purpose === "sql" || purpose === "rerank"
+      ? String(this.cfg.modelKey)
+      : defaultModelFor(purpose);
+  }
+
+  private model(opts?: { forceStreaming?: boolean; purpose?: ModelPurpose }) {
     const streaming = opts?.forceStreaming ?? this.cfg.streaming;
-    const chosen = toGroqModel(String(this.cfg.modelKey), { purpose: opts?.purpose ?? "chat" });
+    const purpose = opts?.purpose ?? "chat";
+    const chosen = resolveModelForPurpose(this.stageModel(purpose), purpose);
 
-    this.logger('debug', 'Creating Groq model instance', {
-      model: chosen,
+    this.logger('debug', 'Creating model instance', {
+      model: chosen.id,
+      provider: chosen.provider,
       temperature: this.cfg.temperature,
       streaming,
       contextWindow: this.cfg.contextWindow,
     });
 
-    return new ChatGroq({
-      apiKey: process.env.GROQ_API_KEY,
-      model: chosen,
+    return createChatModel(chosen.id, {
+      purpose,
+      temperature: this.cfg.temperature,
+      maxTokens: this.cfg.maxTokens,
+    });
+  }
+
+  /** Run a chat call over the "chat" fallback chain and remember which model answered. */
+  private async chatWithFallback<T>(call: (model: BaseChatModel) => Promise<T>) {
+    const result = await withModelFallback(this.stageModel("chat"), "chat", call, {
       temperature: this.cfg.temperature,
       maxTokens: this.cfg.maxTokens,
     });
+
+    if (result.attempts.length) {
+      this.logger('warn', 'Chat served by fallback model', {
+        requested: result.requestedModel,
+        used: result.model.id,
+        attempts: result.attempts,
+      });
+    }
+    this.lastModelUsed = { model: result.model.id, requestedModel: result.requestedModel, fallbacks: result.attempts };
+    return result;
+  }
+
+  private stageModelsServed(records: LLMCallUsage[], chatModel: string): StageModels {
+    return { ...servedModels(records), chat: chatModel };
+  }
+
+  private modelMeta(result: { requestedModel: string; attempts: FallbackAttempt[] }) {
+    return result.attempts.length
+      ? { requestedModel: result.requestedModel, modelFallbacks: result.attempts }
+      : {};
+  }
+
+  /* ---------- response cache ---------- */
+  private cacheScope(ctx: AgentContext): ResponseCacheScope {
+    return {
+      userId: ctx.userId,
+      scope: ctx.documentId
+        ? `doc:${ctx.documentId}`
+        : `chat:db${Number(this.cfg.useDatabase)}:kb${Number(this.cfg.useKnowledgeBase)}${this.scopeSuffix()}`,
+      model: this.stageModel("chat"),
+      documentId: ctx.documentId,
+    };
+  }
+
+  // answers from a scoped chat are only reused inside the same scope, and
+  // while its documents stay at the same version
+  private scopeSuffix(): string {
+    const filter = this.cfg.knowledgeFilter;
+    const documents = this.cfg.scopeDocuments?.map((d) => `${d.id}@${d.currentVersion}`);
+    if (!(filter && Object.keys(filter).length) && !documents?.length) return "";
+    return `:scope${md5(JSON.stringify({ filter, documents }))}`;
+  }
+
+  /** Whether the conversation already has turns; such a question is read in their light. */
+  private async hasConversation(ctx: AgentContext): Promise<boolean> {
+    if (!this.cfg.useMemory || !this.mm) return false;
+    const modelName = String(this.cfg.modelKey);
+    const entries = ctx.documentId
+      ? await this.mm.readLatestHistoryEntries({ documentName: ctx.documentId, userId: ctx.userId, modelName })
+      : ctx.sessionId
+        ? await this.mm.readLatestGeneralChatHistoryEntries({ userId: ctx.userId, modelName, sessionId: ctx.sessionId })
+        : [];
+    return entries.length > 0;
+  }
+
+  /**
+   * Embed the question and look it up; the embedding is reused to store the
+   * answer on a miss. Follow-ups skip the cache both ways.
+   */
+  private async lookupCachedAnswer(message: string, scope: ResponseCacheScope, ctx: AgentContext) {
+    if (!this.cfg.useResponseCache || !ResponseCache.enabled()) return null;
+    try {
+      if (await this.hasConversation(ctx)) return null;
+      const mm = this.mm ?? (await MemoryManager.getInstance());
+      const { embedding, index } = await mm.embedCacheQuery(message);
+      const hit = await ResponseCache.getInstance().lookup(index, scope, embedding, this.cfg.responseCacheThreshold);
+      if (hit) this.logger('info', 'Response cache hit', { ...hit.status, scope: scope.scope });
+      return { embedding, index, hit };
+    } catch (e: any) {
+      this.logger('warn', 'Response cache lookup failed', { error: e?.message });
+      return null;
+    }
+  }
+
+  private async storeCachedAnswer(
+    scope: ResponseCacheScope,
+    message: string,
+    lookup: { embedding: number[]; index: ResponseCacheIndex } | null,
+    answer: CachedAnswer,
+    kind: CacheKind
+  ) {
+    if (!lookup || !answer.content.trim()) return;
+    try {
+      await ResponseCache.getInstance().store(lookup.index, scope, message, lookup.embedding, answer, kind);
+    } catch (e: any) {
+      this.logger('warn', 'Response cache store failed', { error: e?.message });
+    }
+  }
+
+  private toCachedAnswer(response: EnhancedAgentResponse): CachedAnswer {
+    const m = response.metadata;
+    return {
+      content: response.content,
+      model: response.model,
+      sources: response.sources,
+      database: response.contexts.database,
+      metadata: {
+        dbQueryDetected: m.dbQueryDetected,
+        dbQueryConfidence: m.dbQueryConfidence,
+        contextSources: m.contextSources,
+        rerankingApplied: m.rerankingApplied,
+        stageModels: m.stageModels,
+        promptVersions: m.promptVersions,
+      },
+    };
+  }
+
+  /** Serve a cached answer: still written to conversation memory and usage history. */
+  private async serveCachedAnswer(
+    message: string,
+    ctx: AgentContext,
+    answer: CachedAnswer,
+    status: ResponseCacheStatus,
+    started: number
+  ): Promise<EnhancedAgentResponse> {
+    if (this.cfg.useMemory && this.mm) {
+      if (ctx.documentId) {
+        const dk: DocumentKey = { documentName: ctx.documentId, userId: ctx.userId, modelName: String(this.cfg.modelKey) };
+        await this.mm.writeToHistory(`User: ${message}\n`, dk);
+        await this.mm.writeToHistory(`System: ${answer.content}`, dk);
+      } else {
+        const gk: GeneralChatKey = { userId: ctx.userId, modelName: String(this.cfg.modelKey), sessionId: ctx.sessionId };
+        await this.mm.writeToGeneralChatHistory(`User: ${message}\n`, gk);
+        await this.mm.writeToGeneralChatHistory(`Assistant: ${answer.content}`, gk);
+      }
+    }
+
+    const usage = summarizeUsage([]);
+    const executionTime = Date.now() - started;
+    if (this.cfg.recordUsage) {
+      await saveUsageHistory({
+        userId: ctx.userId,
+        sessionId: ctx.sessionId || ctx.documentId,
+        query: message,
+        queryType: ctx.documentId ? "document" : "chat",
+        success: true,
+        modelUsed: answer.model,
+        executionTime,
+        resultCount: answer.sources.length,
+        sqlGenerated: answer.database?.sqlQuery,
+        usage,
+      });
+    }
+
+    return {
+      content: answer.content,
+      model: answer.model,
+      executionTime,
+      sources: answer.sources,
+      contexts: answer.database ? { database: answer.database } : {},
+      metadata: {
+        ...answer.metadata,
+        sessionId: ctx.sessionId || ctx.documentId || "",
+        usage,
+        sourceCount: answer.sources.length,
+        sourceTypes: Array.from(new Set(answer.sources.map((src) => src.type))),
+        cache: status,
+      },
+    };
   }
 
   /* ---------- auth ---------- */
@@ -1091,6 +1630,10 @@ export class AIAgent {
     sessionId?: string;
     additionalContext?: string;
     documentMeta?: { id: string; title: string; description?: string };
+    /** Documents searched in document chat; defaults to `documentMeta` alone. */
+    documents?: { id: string; title: string }[];
+    /** Per document, the filter selecting the version the chat reads. */
+    versionFilters?: Record<string, VectorFilter>;
     enableDB: boolean;
   }) {
     const buildStart = Date.now();
@@ -1103,11 +1646,14 @@ export class AIAgent {
       enableDB: opts.enableDB
     });
 
-    const { message, userName, sessionId, additionalContext, documentMeta, enableDB } = opts;
+    const { message, userName, sessionId, additionalContext, documentMeta, documents, enableDB } = opts;
+
+    // Query transformations run alongside intent detection; searches await them
+    const queryPlan = this.planQuery(message, { userName, sessionId, documentMeta });
 
     // Database detection
     const dbDetectionStart = Date.now();
-    const dbDetection = await isDatabaseQuery(message);
+    const dbDetection = await isDatabaseQuery(message, this.stageModel("intent"));
     this.logger('debug', 'Database query detection completed', {
       isDbQuery: dbDetection.isDbQuery,
       confidence: dbDetection.confidence,
@@ -1117,10 +1663,15 @@ export class AIAgent {
     const shouldQueryDB = this.cfg.useDatabase && enableDB && dbDetection.isDbQuery;
 
     const ctxs: EnhancedAgentResponse["contexts"] = {};
-    const sources: SourceReference[] = [];
-    const citableSources: SourceReference[] = [];
+    let sources: SourceReference[] = [];
+    let citableSources: SourceReference[] = [];
     let rerankingApplied = false;
     const allReranked: RerankingResult[] = [];
+    const rerankRuns: RerankRun[] = [];
+    // context items, fitted into the token budget once every task is done
+    const knowledgeChunks: ContextItem[] = [];
+    const similarChunks: ContextItem[] = [];
+    let conversationEntries: string[] = [];
 
     const tasks: Promise<void>[] = [];
     const taskTimings: Record<string, number> = {};
@@ -1133,7 +1684,7 @@ export class AIAgent {
           const taskStart = Date.now();
           try {
             this.logger('debug', 'Executing database query...');
-            const exec = new DatabaseQueryExecutor(this.cfg.modelKey as ModelKey, false);
+            const exec = new DatabaseQueryExecutor(this.stageModel("sql") as ModelKey, false, this.cfg.sqlAgentMaxSteps);
             const dbResult = await exec.executeQuery(message);
             (ctxs as any).database = dbResult;
 
@@ -1185,13 +1736,16 @@ export class AIAgent {
               rerankingThreshold: this.cfg.rerankingThreshold
             });
 
+            const plan = await queryPlan;
             const search = await this.mm!.knowledgeBaseSearch(
               message,
               5,
-              {},
+              this.cfg.knowledgeFilter,
               this.cfg.useReranking,
-              this.cfg.modelKey as ModelKey,
-              this.cfg.rerankingThreshold
+              this.stageModel("rerank") as ModelKey,
+              this.cfg.rerankingThreshold,
+              this.cfg.reranker,
+              plan?.variants.slice(1).map((v) => v.text)
             );
 
             this.logger('info', 'Knowledge base search completed', {
@@ -1201,9 +1755,6 @@ export class AIAgent {
             });
 
             if (search.documents.length > 0) {
-              const contextContent = search.documents.map((d: any) => d.pageContent).join("\n---\n").slice(0, 4000);
-              (ctxs as any).knowledge = contextContent;
-
               search.documents.forEach((doc: any, index: any) => {
                 const sourceRef: SourceReference = {
                   id: `kb-${Date.now()}-${index}`,
@@ -1222,8 +1773,10 @@ export class AIAgent {
                 };
                 sources.push(sourceRef);
                 citableSources.push(sourceRef);
+                knowledgeChunks.push({ id: sourceRef.id, text: (doc as any).pageContent, relevance: sourceRef.relevanceScore });
               });
 
+              if (search.rerankRun) rerankRuns.push(search.rerankRun);
               if (search.rerankingResults.length) {
                 allReranked.push(...search.rerankingResults);
                 rerankingApplied = true;
@@ -1238,6 +1791,64 @@ export class AIAgent {
       );
     }
 
+    // Documents in a scoped general chat's categories / document list - CITABLE
+    const scopeDocuments = documentMeta ? [] : this.cfg.scopeDocuments || [];
+    if (this.cfg.useKnowledgeBase && this.mm && scopeDocuments.length) {
+      this.logger('info', 'Queuing scoped document search task', { documents: scopeDocuments.length });
+      tasks.push(
+        (async () => {
+          const taskStart = Date.now();
+          try {
+            const titles = new Map(scopeDocuments.map((d) => [d.id, d.title]));
+            const plan = await queryPlan;
+            const rel = await this.mm!.vectorSearch(
+              message,
+              scopeDocuments.map((d) => d.id),
+              false,
+              this.cfg.useReranking,
+              this.stageModel("rerank") as ModelKey,
+              this.cfg.rerankingThreshold,
+              this.cfg.reranker,
+              plan?.variants.slice(1).map((v) => v.text),
+              versionFilters(scopeDocuments)
+            );
+
+            rel.documents.slice(0, 5).forEach((doc: Document & { metadata: Record<string, any> }, index: number) => {
+              const documentId: string = doc.metadata.documentId;
+              if (!titles.has(documentId)) return;
+              const sourceRef: SourceReference = {
+                id: `scope-${Date.now()}-${index}`,
+                type: "document",
+                title: titles.get(documentId)!,
+                section: doc.metadata.sectionTitle || doc.metadata.chunkType || "Section",
+                pageNumber: doc.metadata.pageNumber,
+                snippet: doc.pageContent.slice(0, 200) + "...",
+                relevanceScore: doc.metadata.searchScore || 0.7,
+                metadata: {
+                  documentId,
+                  chunkIndex: doc.metadata.chunkIndex,
+                  processingTimestamp: doc.metadata.processingTimestamp,
+                },
+              };
+              sources.push(sourceRef);
+              citableSources.push(sourceRef);
+              knowledgeChunks.push({ id: sourceRef.id, text: doc.pageContent, relevance: sourceRef.relevanceScore });
+            });
+
+            if (rel.rerankRun) rerankRuns.push(rel.rerankRun);
+            if (rel.rerankingResults.length) {
+              allReranked.push(...rel.rerankingResults);
+              rerankingApplied = true;
+            }
+          } catch (e: any) {
+            this.logger('error', 'Scoped document search failed', { error: e.message, stack: e.stack });
+          } finally {
+            taskTimings.scopedDocuments = Date.now() - taskStart;
+          }
+        })()
+      );
+    }
+
     // Document and conversation search
     if (this.cfg.useMemory && this.mm) {
       this.logger('info', 'Queuing memory search task', {
@@ -1256,7 +1867,8 @@ export class AIAgent {
                 sessionId: sessionId || "default",
               };
 
-              (ctxs as any).conversation = await this.mm!.readLatestGeneralChatHistory(gk);
+              conversationEntries = await this.mm!.readLatestGeneralChatHistoryEntries(gk);
+              (ctxs as any).conversation = conversationEntries.join("\n");
 
               if ((ctxs as any).conversation) {
                 const sourceRef: SourceReference = {
@@ -1280,18 +1892,11 @@ export class AIAgent {
                 gk.userId,
                 3,
                 this.cfg.useReranking,
-                this.cfg.modelKey as ModelKey,
-                this.cfg.rerankingThreshold
+                this.stageModel("rerank") as ModelKey,
+                this.cfg.rerankingThreshold,
+                this.cfg.reranker
               );
 
-              const similarConvs = similar.documents
-                ?.filter((d: any) => d.metadata?.chatSession !== gk.sessionId)
-                .map((d: any) => d.pageContent)
-                .join("\n---\n")
-                .slice(0, 1500);
-
-              (ctxs as any).similar = similarConvs || "";
-
               similar.documents?.forEach((doc: any, index: any) => {
                 if ((doc as any).metadata?.chatSession !== gk.sessionId) {
                   const sourceRef: SourceReference = {
@@ -1307,9 +1912,11 @@ export class AIAgent {
                     },
                   };
                   sources.push(sourceRef);
+                  similarChunks.push({ id: sourceRef.id, text: (doc as any).pageContent, relevance: sourceRef.relevanceScore });
                 }
               });
 
+              if (similar.rerankRun) rerankRuns.push(similar.rerankRun);
               if (similar.rerankingResults.length) {
                 allReranked.push(...similar.rerankingResults);
                 rerankingApplied = true;
@@ -1322,40 +1929,69 @@ export class AIAgent {
                 modelName: String(this.cfg.modelKey),
               };
 
-              (ctxs as any).conversation = await this.mm!.readLatestHistory(dk);
+              conversationEntries = await this.mm!.readLatestHistoryEntries(dk);
+              (ctxs as any).conversation = conversationEntries.join("\n");
 
               // Document content search - CITABLE
+              const searched = documents?.length ? documents : [documentMeta];
+              const titles = new Map(searched.map((d) => [d.id, d.title]));
+              const plan = await queryPlan;
               const rel = await this.mm!.vectorSearch(
                 message,
-                documentMeta.id,
+                searched.length > 1 ? searched.map((d) => d.id) : searched[0].id,
                 false,
                 this.cfg.useReranking,
-                this.cfg.modelKey as ModelKey,
-                this.cfg.rerankingThreshold
+                this.stageModel("rerank") as ModelKey,
+                this.cfg.rerankingThreshold,
+                this.cfg.reranker,
+                plan?.variants.slice(1).map((v) => v.text),
+                opts.versionFilters
               );
 
               if (rel.documents.length > 0) {
-                (ctxs as any).knowledge = rel.documents?.map((d: any) => d.pageContent).join("\n") || "";
+                // hierarchical chunks are widened to their section while it stays small
+                const sectionIds = Array.from(
+                  new Set(rel.documents.map((d: any) => d.metadata?.sectionId).filter((id: unknown): id is string => typeof id === "string"))
+                );
+                const sections = await this.mm!.loadSections(sectionIds).catch((e) => {
+                  this.logger('warn', 'Section lookup failed', { error: e?.message });
+                  return new Map<string, { title: string | null; content: string }>();
+                });
+                const expanded = new Set<string>();
 
                 rel.documents?.forEach((doc: any, index: number) => {
+                  // chunks name their document; the citation names it back
+                  const documentId: string = titles.has(doc.metadata?.documentId) ? doc.metadata.documentId : searched[0].id;
                   const sourceRef: SourceReference = {
                     id: `doc-${Date.now()}-${index}`,
                     type: "document",
-                    title: documentMeta.title,
-                    section: doc.metadata?.chunkType || "Section",
+                    title: titles.get(documentId)!,
+                    section: doc.metadata?.sectionTitle || doc.metadata?.chunkType || "Section",
                     pageNumber: doc.metadata?.pageNumber,
                     snippet: doc.pageContent.slice(0, 200) + "...",
                     relevanceScore: doc.metadata?.searchScore || 0.7,
                     metadata: {
-                      documentId: documentMeta.id,
+                      documentId,
                       chunkIndex: doc.metadata?.chunkIndex,
                       processingTimestamp: doc.metadata?.processingTimestamp,
                     },
                   };
                   sources.push(sourceRef);
                   citableSources.push(sourceRef);
+
+                  const sectionId: string | undefined = doc.metadata?.sectionId;
+                  const section = sectionId ? sections.get(sectionId) : undefined;
+                  const widen =
+                    !!section && !expanded.has(sectionId!) && estimateTokens(section.content) <= SECTION_EXPANSION_MAX_TOKENS;
+                  if (widen) expanded.add(sectionId!);
+                  knowledgeChunks.push({
+                    id: sourceRef.id,
+                    text: widen ? section!.content : doc.pageContent,
+                    relevance: sourceRef.relevanceScore,
+                  });
                 });
 
+                if (rel.rerankRun) rerankRuns.push(rel.rerankRun);
                 if (rel.rerankingResults.length) {
                   allReranked.push(...rel.rerankingResults);
                   rerankingApplied = true;
@@ -1368,13 +2004,18 @@ export class AIAgent {
                 documentMeta.id,
                 true,
                 this.cfg.useReranking,
-                this.cfg.modelKey as ModelKey,
-                this.cfg.rerankingThreshold
+                this.stageModel("rerank") as ModelKey,
+                this.cfg.rerankingThreshold,
+                this.cfg.reranker,
+                undefined,
+                opts.versionFilters
               );
 
-              const simText = sim.documents?.map((d: any) => d.pageContent).join("\n") || "";
-              (ctxs as any).similar = simText;
+              sim.documents?.forEach((d: any, index: number) => {
+                similarChunks.push({ id: `docsim-${index}`, text: d.pageContent, relevance: d.metadata?.searchScore });
+              });
 
+              if (sim.rerankRun) rerankRuns.push(sim.rerankRun);
               if (sim.rerankingResults.length) {
                 allReranked.push(...sim.rerankingResults);
               }
@@ -1396,62 +2037,62 @@ export class AIAgent {
       totalTaskTime: Math.max(...Object.values(taskTimings))
     });
 
-    // Truncate contexts
-    const truncated = this.truncateContexts(ctxs, this.cfg.maxContextLength);
-
-    if (allReranked.length) (truncated as any).rerankedResults = allReranked;
+    if (allReranked.length) (ctxs as any).rerankedResults = allReranked;
 
     // Build system prompt
     const promptStart = Date.now();
+    const documentSet =
+      documents && documents.length > 1
+        ? `\nDocuments: ${documents.map((d) => d.title).join("; ")}\nSeveral documents are searched: name the document and page each claim comes from, and say where they disagree.`
+        : "";
     const header = documentMeta
-      ? `${SYSTEM_PROMPTS.documentChat}\nTitle: ${documentMeta.title}\nDescription: ${documentMeta.description || ""
-      }\nUser: ${userName || "User"}\nReranking: ${rerankingApplied ? "Yes" : "No"}`
-      : `${SYSTEM_PROMPTS.chat}\nUser: ${userName || "User"}\nDetection: ${(
+      ? `${await getPrompt("documentChat")}\nTitle: ${documentMeta.title}\nDescription: ${documentMeta.description || ""
+      }${documentSet}\nUser: ${userName || "User"}\nReranking: ${rerankingApplied ? "Yes" : "No"}`
+      : `${await getPrompt("chat")}\nUser: ${userName || "User"}\nDetection: ${(
         dbDetection.confidence * 100
       ).toFixed(1)}% db-related\nReranking: ${rerankingApplied ? "Yes" : "No"}`;
 
-    let systemPrompt = header;
+    const citationBlock = (list: SourceReference[]) => {
+      if (!list.length) return `\n\nNO CITABLE SOURCES AVAILABLE - Answer based on your knowledge without citations.\n`;
 
-    // Add potential citable sources
-    if (citableSources.length > 0) {
-      systemPrompt += `\n\nPOTENTIAL CITABLE SOURCE REFERENCES (ONLY CITE IF USED IN RESPONSE):\n`;
-      citableSources.forEach((source, index) => {
-        systemPrompt += `[${index + 1}] ${source.type.toUpperCase()}: ${source.title}`;
-        if (source.section) systemPrompt += ` - ${source.section}`;
-        if (source.pageNumber) systemPrompt += ` (Page ${source.pageNumber})`;
-        systemPrompt += `\n`;
+      let block = `\n\nPOTENTIAL CITABLE SOURCE REFERENCES (ONLY CITE IF USED IN RESPONSE):\n`;
+      list.forEach((source, index) => {
+        block += `[${index + 1}] ${source.type.toUpperCase()}: ${source.title}`;
+        if (source.section) block += ` - ${source.section}`;
+        if (source.pageNumber) block += ` (Page ${source.pageNumber})`;
+        block += `\n`;
       });
 
-      systemPrompt += `\nCITATION REQUIREMENTS:
+      return block + `\nCITATION REQUIREMENTS:
 - Use [1], [2], [3], etc. to cite the numbered sources above
 - ONLY cite knowledge base entries and document content when they are directly used to form your response
 - DO NOT cite conversation history, chat context, or database results
 - Each factual claim should reference the appropriate numbered source
 - If no citable sources are used in your response, do not include any citations
 - Ensure citations are accurate and correspond to the specific source content used\n`;
-    } else {
-      systemPrompt += `\n\nNO CITABLE SOURCES AVAILABLE - Answer based on your knowledge without citations.\n`;
-    }
+    };
 
-    if (!documentMeta) {
-      if ((truncated as any).database?.success && (truncated as any).database.data?.length) {
-        const data = (truncated as any).database.data;
-        const sqlQuery = (truncated as any).database.sqlQuery;
-        const summary = String((truncated as any).database.summary || "").slice(0, 1200);
+    // Database rows go in after their summary; both come out of the budget
+    const database = documentMeta ? undefined : ((ctxs as any).database as DatabaseQueryResult | undefined);
+    const dbRows = database?.success && database.data?.length ? database.data : [];
+    const databaseItems: ContextItem[] = dbRows.length
+      ? [
+        ...(database!.summary ? [{ id: "db-summary", text: String(database!.summary) }] : []),
+        ...dbRows.slice(0, 10).map((row, i) => ({ id: `db-row-${i}`, text: JSON.stringify(row) })),
+      ]
+      : [];
 
-        const columns = data.length > 0 ? Object.keys(data[0]) : [];
-        const sampleRows = data.slice(0, 3);
+    const databaseBlock = (summary: string, rows: string[]) => {
+      if (!dbRows.length) return "";
+      const columns = Object.keys(dbRows[0]);
 
-        systemPrompt += `
+      return `
 
 LIVE DATABASE RESULTS (PRESENT AS TABLE - DO NOT CITE):
-SQL Query Executed: ${sqlQuery}
-Total Rows: ${data.length}
+SQL Query Executed: ${database!.sqlQuery}
+Total Rows: ${dbRows.length}
 Columns: ${columns.join(', ')}
 
-Sample Data:
-${JSON.stringify(sampleRows, null, 2)}
-
 Business Summary: ${summary}
 
 IMPORTANT INSTRUCTIONS FOR DATABASE RESULTS:
@@ -1464,27 +2105,73 @@ IMPORTANT INSTRUCTIONS FOR DATABASE RESULTS:
 7. Format numbers appropriately (currencies, percentages, etc.)
 8. Highlight key findings or patterns in the data
 
-Raw Data Available: ${JSON.stringify(data.slice(0, 10), null, 2)}`;
-      }
-    }
+Raw Data Available (${rows.length} of ${dbRows.length} rows):
+${rows.join("\n")}`;
+    };
 
-    if ((truncated as any).knowledge) {
-      systemPrompt += `\n\nRELEVANT KNOWLEDGE CONTENT${rerankingApplied ? " (RERANKED)" : ""} (CITABLE WITH [#]):\n${(truncated as any).knowledge}`;
+    const reranked = rerankingApplied ? " (RERANKED)" : "";
+    const knowledgeHeading = `\n\nRELEVANT KNOWLEDGE CONTENT${reranked} (CITABLE WITH [#]):\n`;
+    const similarHeading = `\n\nRELATED CONTENT${reranked} (CONTEXT ONLY - DO NOT CITE):\n`;
+    const conversationHeading = `\n\nCONVERSATION HISTORY (CONTEXT ONLY - DO NOT CITE):\n`;
+    const footer =
+      (additionalContext ? `\n\nADDITIONAL CONTEXT (DO NOT CITE):\n${additionalContext}` : "") +
+      `\n\nQuestion: ${message.trim()}`;
+
+    // Fit the contexts into what the instructions, source list and question leave
+    const fixed = [
+      header,
+      citationBlock(citableSources),
+      databaseBlock("", []),
+      knowledgeChunks.length ? knowledgeHeading : "",
+      similarChunks.length ? similarHeading : "",
+      conversationEntries.length ? conversationHeading : "",
+      footer,
+    ].join("");
+
+    const { kept, report: contextBudget } = allocateContextBudget(this.contextTokenBudget(), fixed, [
+      { name: "database", items: databaseItems, dropOrder: "last" },
+      { name: "knowledge", items: knowledgeChunks, dropOrder: "relevance" },
+      // entries are newest first
+      { name: "conversation", items: conversationEntries.map((text, i) => ({ id: `conv-${i}`, text })), dropOrder: "last" },
+      { name: "similar", items: similarChunks, dropOrder: "relevance" },
+    ]);
+
+    if (contextBudget.dropped.length || contextBudget.truncated.length) {
+      this.logger('info', 'Context trimmed to token budget', {
+        budget: contextBudget.budget,
+        usedTokens: contextBudget.usedTokens,
+        dropped: contextBudget.dropped.length,
+        truncated: contextBudget.truncated.length,
+      });
     }
 
-    if ((truncated as any).similar) {
-      systemPrompt += `\n\nRELATED CONTENT${rerankingApplied ? " (RERANKED)" : ""} (CONTEXT ONLY - DO NOT CITE):\n${(truncated as any).similar}`;
-    }
+    // Dropped chunks are neither shown to the model nor offered as sources
+    const droppedIds = new Set(contextBudget.dropped.map((d) => d.id));
+    sources = sources.filter((s) => !droppedIds.has(s.id));
+    citableSources = citableSources.filter((s) => !droppedIds.has(s.id));
 
-    if ((truncated as any).conversation) {
-      systemPrompt += `\n\nCONVERSATION HISTORY (CONTEXT ONLY - DO NOT CITE):\n${(truncated as any).conversation}`;
-    }
+    const joinItems = (items: ContextItem[] | undefined, separator: string) =>
+      (items || []).map((item) => item.text).join(separator);
+
+    const truncated: EnhancedAgentResponse["contexts"] = { ...ctxs };
+    truncated.knowledge = joinItems(kept.knowledge, "\n---\n") || undefined;
+    truncated.similar = joinItems(kept.similar, "\n---\n") || undefined;
+    truncated.conversation = joinItems(kept.conversation, "\n") || undefined;
 
-    if (additionalContext) {
-      systemPrompt += `\n\nADDITIONAL CONTEXT (DO NOT CITE):\n${additionalContext}`;
+    let systemPrompt = header + citationBlock(citableSources);
+
+    if (dbRows.length) {
+      const keptDb = kept.database || [];
+      const summary = keptDb.find((item) => item.id === "db-summary")?.text ?? "";
+      const rows = keptDb.filter((item) => item.id !== "db-summary").map((item) => item.text);
+      systemPrompt += databaseBlock(summary, rows);
     }
 
-    systemPrompt += `\n\nQuestion: ${message.trim()}`;
+    if (truncated.knowledge) systemPrompt += knowledgeHeading + truncated.knowledge;
+    if (truncated.similar) systemPrompt += similarHeading + truncated.similar;
+    if (truncated.conversation) systemPrompt += conversationHeading + truncated.conversation;
+
+    systemPrompt += footer;
 
     const sourceTypes = Array.from(new Set(sources.map((s) => s.type)));
 
@@ -1498,25 +2185,22 @@ Raw Data Available: ${JSON.stringify(data.slice(0, 10), null, 2)}`;
       totalSources: sources.length,
       citableSources: citableSources.length,
       sourceTypes,
-      tokenCountEst: systemPrompt.length
+      tokenCountEst: estimateTokens(systemPrompt),
+      contextBudget: contextBudget.usedTokens,
     });
 
-    const rerankExecTime =
-      (taskTimings.knowledgeBase || 0) +
-      (taskTimings.memory || 0);
-
     try {
       if (rerankingApplied && allReranked.length && (opts.userName || "").trim()) {
         await this.analytics.record(
           opts.userName!,               // userId
           message,                      // query
           allReranked,                  // RerankingResult[]
-          rerankExecTime                // ms (best-effort)
+          rerankRuns                    // one per reranked search
         );
         this.logger('debug', 'Reranking analytics recorded from context builder', {
           userId: opts.userName,
           results: allReranked.length,
-          execMs: rerankExecTime
+          runs: rerankRuns,
         });
       }
     } catch (e: any) {
@@ -1532,10 +2216,56 @@ Raw Data Available: ${JSON.stringify(data.slice(0, 10), null, 2)}`;
       sources,
       citableSources,
       sourceTypes,
-      tokenCountEst: systemPrompt.length,
+      tokenCountEst: estimateTokens(systemPrompt),
+      contextBudget,
+      queryTransforms: (await queryPlan) ?? undefined,
     };
   }
 
+  /**
+   * Retrieval variants of `message` per `cfg.queryTransforms`, or null when
+   * none are enabled or nothing would search with them. Never throws.
+   */
+  private async planQuery(
+    message: string,
+    { userName, sessionId, documentMeta }: { userName?: string; sessionId?: string; documentMeta?: { id: string } }
+  ): Promise<QueryTransformReport | null> {
+    const transforms = (this.cfg.queryTransforms || []).filter(isQueryTransform);
+    if (!transforms.length || !this.mm) return null;
+    // only knowledge base and document search take variants
+    if (!documentMeta && !this.cfg.useKnowledgeBase) return null;
+
+    try {
+      let conversation = "";
+      if (transforms.includes("rewrite")) {
+        const entries = documentMeta
+          ? await this.mm.readLatestHistoryEntries({
+              documentName: documentMeta.id,
+              userId: userName || "user",
+              modelName: String(this.cfg.modelKey),
+            })
+          : await this.mm.readLatestGeneralChatHistoryEntries({
+              userId: userName || "user",
+              modelName: String(this.cfg.modelKey),
+              sessionId: sessionId || "default",
+            });
+        conversation = entries.join("\n");
+      }
+
+      const report = await transformQuery(message, { transforms, conversation, modelKey: this.stageModel("fast") });
+      this.logger('info', 'Query transformations completed', {
+        transforms,
+        variants: report.variants.length,
+        failed: report.failed,
+        latencyMs: report.latencyMs,
+      });
+      return report;
+    } catch (e: any) {
+      this.logger('warn', 'Query transformations failed; searching with the question as typed', { error: e?.message });
+      return null;
+    }
+  }
+
   // inside class AIAgent
   async getRerankingStats(userId: string) {
     try {
@@ -1546,41 +2276,11 @@ Raw Data Available: ${JSON.stringify(data.slice(0, 10), null, 2)}`;
     }
   }
 
-  /* ---------- truncation ---------- */
-  private truncateContexts(contexts: any, maxLength: number) {
-    this.logger('debug', 'Starting context truncation', { maxLength });
-
-    const t = { ...contexts };
-    let total = 0;
-
-    Object.entries(t).forEach(([_key, value]: [string, any]) => {
-      if (typeof value === "string") total += value.length;
-      else if (value?.summary) total += String(value.summary).length;
-    });
-
-    if (total <= maxLength) return t;
-
-    const priorities = ["database", "knowledge", "conversation", "similar"] as const;
-    const target = Math.floor(maxLength * 0.9);
-
-    for (const k of priorities) {
-      if (typeof (t as any)[k] === "string") {
-        const text = (t as any)[k] as string;
-        const allowance = Math.max(200, Math.floor(target * 0.3));
-
-        if (text.length > allowance) {
-          const sentences = text.split(/[.!?]+/);
-          let acc = "";
-
-          for (const s of sentences) {
-            if ((acc + s + ".").length <= allowance) acc += s + ".";
-            else break;
-          }
-          (t as any)[k] = acc || text.slice(0, allowance);
-        }
-      }
-    }
-    return t;
+  /* ---------- context budget ---------- */
+  /** Prompt token budget: `maxContextLength`, capped by what the chat model's window leaves for the answer. */
+  private contextTokenBudget(): number {
+    const window = resolveModelForPurpose(this.stageModel("chat"), "chat").contextWindow || this.cfg.contextWindow;
+    return Math.max(0, Math.min(this.cfg.maxContextLength, window - this.cfg.maxTokens));
   }
 
   /* ---------- responses ---------- */
@@ -1599,24 +2299,34 @@ Raw Data Available: ${JSON.stringify(data.slice(0, 10), null, 2)}`;
 
     await this.initMemory();
 
-    const prep = await this.buildContextsAndPrompt({
+    const cacheScope = this.cacheScope(ctx);
+    const cached = await this.lookupCachedAnswer(message, cacheScope, ctx);
+    if (cached?.hit) return this.serveCachedAnswer(message, ctx, cached.hit.answer, cached.hit.status, totalStart);
+
+    const prepTracked = await trackUsage(() => withPromptScope(ctx.userId, () => this.buildContextsAndPrompt({
       message,
       userName: ctx.userId,
       sessionId: ctx.sessionId || uuidv4(),
       additionalContext,
       enableDB: true,
-    });
+    })));
+    const { value: prep, versions: promptVersions } = prepTracked.value;
 
     const modelStart = Date.now();
-    const model = this.model({ purpose: "chat" });
-    const resp = await model.invoke([new SystemMessage(prep.systemPrompt), new HumanMessage(message)]);
-    const content = String(resp.content || "");
+    const chatTracked = await trackUsage(() => this.chatWithFallback((model) =>
+      model.invoke([new SystemMessage(prep.systemPrompt), new HumanMessage(message)])
+    ));
+    const served = chatTracked.value;
+    const content = String(served.value.content || "");
+    const usage = summarizeUsage([...prepTracked.records, ...chatTracked.records]);
     void modelStart; // (retain for debugging if needed)
 
     const citationValidation = this.validateCitations(content, prep.citableSources);
     this.logCitationDebug(prep, content);
 
     const citedSources = citationValidation.citedSourceIndices.map(index => prep.citableSources[index]);
+    // scoped documents' chunks count like those of a document chat
+    void recordChunkUsage(message, prep.citableSources, citedSources);
 
     // Save to memory
     if (this.cfg.useMemory && this.mm) {
@@ -1638,9 +2348,24 @@ Raw Data Available: ${JSON.stringify(data.slice(0, 10), null, 2)}`;
 
     const totalTime = Date.now() - totalStart;
 
-    return {
+    if (this.cfg.recordUsage) {
+      await saveUsageHistory({
+        userId: ctx.userId,
+        sessionId: ctx.sessionId,
+        query: message,
+        queryType: "chat",
+        success: true,
+        modelUsed: served.model.id,
+        executionTime: totalTime,
+        resultCount: citedSources.length,
+        sqlGenerated: (prep.truncated as any).database?.sqlQuery,
+        usage,
+      });
+    }
+
+    const response: EnhancedAgentResponse = {
       content,
-      model: toGroqModel(String(this.cfg.modelKey), { purpose: "chat" }),
+      model: served.model.id,
       executionTime: totalTime,
       sources: citedSources,
       contexts: prep.truncated,
@@ -1650,12 +2375,28 @@ Raw Data Available: ${JSON.stringify(data.slice(0, 10), null, 2)}`;
         dbQueryConfidence: prep.dbConfidence,
         contextSources: prep.sourceTypes,
         rerankingApplied: prep.rerankingApplied,
-        totalContextTokens: prep.tokenCountEst + content.length,
+        totalContextTokens: chatTracked.usage.totalTokens,
+        usage,
+        stageModels: this.stageModelsServed(prepTracked.records, served.model.id),
+        promptVersions,
+        ...this.modelMeta(served),
         sourceCount: citedSources.length,
         sourceTypes: Array.from(new Set(citedSources.map((s) => s.type))),
         citationValidation,
+        cache: { hit: false },
+        contextBudget: prep.contextBudget,
+        queryTransforms: prep.queryTransforms,
       },
     };
+
+    await this.storeCachedAnswer(
+      cacheScope,
+      message,
+      cached,
+      this.toCachedAnswer(response),
+      (prep.truncated as any).database?.success ? "database" : "knowledge"
+    );
+    return response;
   }
 
   validateCitations(content: string, citableSources: SourceReference[]): {
@@ -1732,52 +2473,84 @@ Raw Data Available: ${JSON.stringify(data.slice(0, 10), null, 2)}`;
     });
 
     await this.initMemory();
-    if (!ctx.documentId) {
+    const documentIds = Array.from(new Set(ctx.documentIds?.length ? ctx.documentIds : ctx.documentId ? [ctx.documentId] : []));
+    if (!documentIds.length) {
       this.logger('error', 'Document ID missing');
       throw new Error("Document ID required");
     }
 
     const docLoadStart = Date.now();
-    const doc = await prismadb.document.findUnique({
-      where: { id: ctx.documentId },
-      include: { messages: true },
+    const found: Pick<DocumentRow, "id" | "title" | "description" | "currentVersion">[] = await prismadb.document.findMany({
+      where: { id: { in: documentIds } },
+      select: { id: true, title: true, description: true, currentVersion: true },
     });
-
-    if (!doc) {
-      this.logger('error', 'Document not found', { documentId: ctx.documentId });
+    const docs = documentIds.map((id) => found.find((d) => d.id === id));
+    if (docs.some((d) => !d)) {
+      this.logger('error', 'Document not found', { documentIds: documentIds.filter((_, i) => !docs[i]) });
       throw new Error("Document not found");
     }
+    const documents = docs as Pick<DocumentRow, "id" | "title" | "description" | "currentVersion">[];
+    const filters = versionFilters(documents, ctx.documentVersions);
 
-    this.logger('info', 'Document loaded', {
-      documentId: doc.id,
-      title: doc.title,
-      messageCount: doc.messages.length,
+    this.logger('info', 'Documents loaded', {
+      documentIds,
+      titles: documents.map((d) => d.title),
       loadTime: Date.now() - docLoadStart
     });
 
-    const prep = await this.buildContextsAndPrompt({
+    // A document set answers from its own history key. Its answers are not
+    // cached: an entry could not follow the version of every member.
+    const isSet = documents.length > 1;
+    const documentMeta = isSet
+      ? { id: documentSetKey(documentIds), title: `${documents.length} documents`, description: "" }
+      : { id: documents[0].id, title: documents[0].title, description: documents[0].description || "" };
+    // chats opened on documentIds keep their messages in their chat session, saved by the caller
+    const saveMessages = !ctx.documentIds?.length;
+
+    const docCtx: AgentContext = { ...ctx, documentId: documentMeta.id };
+    // an answer about a pinned version is only reused for that version
+    const pinned = ctx.documentVersions?.[documentMeta.id];
+    const cacheScope = isSet
+      ? null
+      : { ...this.cacheScope(docCtx), ...(pinned ? { scope: `doc:${documentMeta.id}:v${pinned}` } : {}) };
+    const cached = cacheScope ? await this.lookupCachedAnswer(message, cacheScope, docCtx) : null;
+    if (cached?.hit) {
+      const response = await this.serveCachedAnswer(message, docCtx, cached.hit.answer, cached.hit.status, totalStart);
+      if (saveMessages) await this.saveDocumentMessages(ctx, message, response.content);
+      return response;
+    }
+
+    const prepTracked = await trackUsage(() => withPromptScope(ctx.userId, () => this.buildContextsAndPrompt({
       message,
       userName: ctx.userId,
       sessionId: ctx.sessionId,
       additionalContext: documentContext,
-      documentMeta: { id: doc.id, title: doc.title, description: (doc as any).description || "" },
+      documentMeta,
+      documents,
+      versionFilters: filters,
       enableDB: false,
-    });
+    })));
+    const { value: prep, versions: promptVersions } = prepTracked.value;
 
     const modelStart = Date.now();
-    const model = this.model({ purpose: "chat" });
-    const resp = await model.invoke([new SystemMessage(prep.systemPrompt), new HumanMessage(message)]);
-    const content = String(resp.content || "");
+    const chatTracked = await trackUsage(() => this.chatWithFallback((model) =>
+      model.invoke([new SystemMessage(prep.systemPrompt), new HumanMessage(message)])
+    ));
+    const served = chatTracked.value;
+    const content = String(served.value.content || "");
+    const usage = summarizeUsage([...prepTracked.records, ...chatTracked.records]);
     void modelStart;
 
     const citationValidation = this.validateCitations(content, prep.citableSources);
     this.logCitationDebug(prep, content);
 
     const citedSources = citationValidation.citedSourceIndices.map(index => prep.citableSources[index]);
+    // the chunks in the prompt count as retrieved, the cited ones as cited
+    void recordChunkUsage(message, prep.citableSources, citedSources);
 
     if (this.cfg.useMemory && this.mm) {
       const dk: DocumentKey = {
-        documentName: doc.id,
+        documentName: documentMeta.id,
         userId: ctx.userId,
         modelName: String(this.cfg.modelKey)
       };
@@ -1785,6 +2558,57 @@ Raw Data Available: ${JSON.stringify(data.slice(0, 10), null, 2)}`;
       await this.mm.writeToHistory(`System: ${content}`, dk);
     }
 
+    if (saveMessages) await this.saveDocumentMessages(ctx, message, content);
+
+    const totalTime = Date.now() - totalStart;
+
+    if (this.cfg.recordUsage) {
+      await saveUsageHistory({
+        userId: ctx.userId,
+        sessionId: ctx.sessionId || documentMeta.id,
+        query: message,
+        queryType: "document",
+        success: true,
+        modelUsed: served.model.id,
+        executionTime: totalTime,
+        resultCount: citedSources.length,
+        usage,
+      });
+    }
+
+    const response: EnhancedAgentResponse = {
+      content,
+      model: served.model.id,
+      executionTime: totalTime,
+      sources: citedSources,
+      contexts: prep.truncated,
+      metadata: {
+        sessionId: ctx.sessionId || documentMeta.id,
+        dbQueryDetected: false,
+        dbQueryConfidence: 0,
+        contextSources: prep.sourceTypes,
+        rerankingApplied: prep.rerankingApplied,
+        totalContextTokens: chatTracked.usage.totalTokens,
+        usage,
+        stageModels: this.stageModelsServed(prepTracked.records, served.model.id),
+        promptVersions,
+        ...this.modelMeta(served),
+        sourceCount: citedSources.length,
+        sourceTypes: Array.from(new Set(citedSources.map((s) => s.type))),
+        citationValidation,
+        cache: { hit: false },
+        contextBudget: prep.contextBudget,
+        queryTransforms: prep.queryTransforms,
+      },
+    };
+
+    if (cacheScope) {
+      await this.storeCachedAnswer(cacheScope, message, cached, this.toCachedAnswer(response), "knowledge");
+    }
+    return response;
+  }
+
+  private async saveDocumentMessages(ctx: AgentContext, message: string, content: string) {
     try {
       await prismadb.document.update({
         where: { id: ctx.documentId },
@@ -1806,27 +2630,6 @@ Raw Data Available: ${JSON.stringify(data.slice(0, 10), null, 2)}`;
       });
       console.warn("save messages to db failed", e);
     }
-
-    const totalTime = Date.now() - totalStart;
-
-    return {
-      content,
-      model: toGroqModel(String(this.cfg.modelKey), { purpose: "chat" }),
-      executionTime: totalTime,
-      sources: citedSources,
-      contexts: prep.truncated,
-      metadata: {
-        sessionId: ctx.sessionId || ctx.documentId!,
-        dbQueryDetected: false,
-        dbQueryConfidence: 0,
-        contextSources: prep.sourceTypes,
-        rerankingApplied: prep.rerankingApplied,
-        totalContextTokens: prep.tokenCountEst + content.length,
-        sourceCount: citedSources.length,
-        sourceTypes: Array.from(new Set(citedSources.map((s) => s.type))),
-        citationValidation,
-      },
-    };
   }
 
   /* ---------- streaming ---------- */
@@ -1845,29 +2648,89 @@ Raw Data Available: ${JSON.stringify(data.slice(0, 10), null, 2)}`;
 
     await this.initMemory();
 
-    const prep = await this.buildContextsAndPrompt({
+    const cacheScope = this.cacheScope(ctx);
+    const cached = await this.lookupCachedAnswer(message, cacheScope, ctx);
+    if (cached?.hit) {
+      const { answer, status } = cached.hit;
+      this.lastModelUsed = {
+        model: answer.model,
+        requestedModel: answer.model,
+        fallbacks: [],
+        stageModels: answer.metadata.stageModels,
+        promptVersions: answer.metadata.promptVersions,
+        cache: status,
+      };
+      await this.serveCachedAnswer(message, ctx, answer, status, streamStart);
+      return new ReadableStream({
+        start(controller) {
+          controller.enqueue(new TextEncoder().encode(answer.content));
+          controller.close();
+        },
+      });
+    }
+
+    // a single-document chat searches its document, at the version the chat reads
+    const document: Pick<DocumentRow, "id" | "title" | "description" | "currentVersion"> | null = ctx.documentId
+      ? await prismadb.document.findUnique({
+          where: { id: ctx.documentId },
+          select: { id: true, title: true, description: true, currentVersion: true },
+        })
+      : null;
+
+    const prepTracked = await trackUsage(() => withPromptScope(ctx.userId, () => this.buildContextsAndPrompt({
       message,
       userName: ctx.userId,
       sessionId: ctx.sessionId || uuidv4(),
       additionalContext,
-      enableDB: true,
-    });
-
-    const model = this.model({ forceStreaming: true, purpose: "chat" });
-    const stream = await model.stream([new SystemMessage(prep.systemPrompt), new HumanMessage(message)]);
+      ...(document && {
+        documentMeta: { id: document.id, title: document.title, description: document.description || "" },
+        documents: [document],
+        versionFilters: versionFilters([document], ctx.documentVersions ?? undefined),
+      }),
+      enableDB: !document,
+    })));
+    const { value: prep, versions: promptVersions } = prepTracked.value;
+
+    // Pull the first chunk inside the fallback so a failing model is swapped
+    // before anything reaches the client; later errors surface in the stream.
+    const chatTracked = await trackUsage(() => this.chatWithFallback(async (model) => {
+      const it = (await model.stream([new SystemMessage(prep.systemPrompt), new HumanMessage(message)]))[Symbol.asyncIterator]();
+      const first = await it.next();
+      return (async function* () {
+        if (first.done) return;
+        yield first.value;
+        for (let next = await it.next(); !next.done; next = await it.next()) yield next.value;
+      })();
+    }));
+    const served = chatTracked.value;
+    const stream = served.value;
+    this.lastModelUsed!.stageModels = this.stageModelsServed(prepTracked.records, served.model.id);
+    this.lastModelUsed!.promptVersions = promptVersions;
+    this.lastModelUsed!.contextBudget = prep.contextBudget;
+    this.lastModelUsed!.queryTransforms = prep.queryTransforms;
+    this.lastModelUsed!.citableSources = prep.citableSources;
+    this.lastModelUsed!.cache = { hit: false };
+    this.logger('info', 'Streaming model selected', { model: served.model.id, fallbacks: served.attempts.length });
 
     const mm = this.mm;
     const cfg = this.cfg;
     const logger = this.logger;
     const validateCitations = this.validateCitations.bind(this);
+    const storeCachedAnswer = this.storeCachedAnswer.bind(this);
+    const stageModels = this.lastModelUsed!.stageModels;
     const gk: GeneralChatKey = {
       userId: ctx.userId,
       modelName: String(this.cfg.modelKey),
       sessionId: ctx.sessionId
     };
+    // a document chat keeps its turns in the document's history, which its searches read
+    const remember = (text: string) =>
+      document
+        ? mm!.writeToHistory(text, { documentName: document.id, userId: ctx.userId, modelName: String(cfg.modelKey) })
+        : mm!.writeToGeneralChatHistory(text, gk);
 
     if (cfg.useMemory && mm) {
-      await mm.writeToGeneralChatHistory(`User: ${message}\n`, gk);
+      await remember(`User: ${message}\n`);
     }
 
     let chunkCount = 0;
@@ -1877,6 +2740,7 @@ Raw Data Available: ${JSON.stringify(data.slice(0, 10), null, 2)}`;
       async start(controller) {
         const encoder = new TextEncoder();
         let buffer = "";
+        let failed = false;
         const streamProcessStart = Date.now();
 
         logger('debug', 'Starting stream processing');
@@ -1908,6 +2772,7 @@ Raw Data Available: ${JSON.stringify(data.slice(0, 10), null, 2)}`;
             contentReceived: totalContentLength
           });
 
+          failed = true;
           const msg = `I hit an issue: ${err.message}. Please try again.`;
           controller.enqueue(encoder.encode(msg));
           buffer = msg;
@@ -1915,14 +2780,14 @@ Raw Data Available: ${JSON.stringify(data.slice(0, 10), null, 2)}`;
           controller.close();
 
           if (buffer.trim() && cfg.useMemory && mm) {
-            let toSave = `Assistant: ${buffer.trim()}`;
+            let toSave = `${document ? "System" : "Assistant"}: ${buffer.trim()}`;
             if ((prep.truncated as any).database?.success && (prep.truncated as any).database.sqlQuery) {
               toSave += `\n[Query: ${(prep.truncated as any).database.sqlQuery}]`;
             }
             if (prep.rerankingApplied) {
               toSave += `\n[Reranking applied: ${((prep.truncated as any).rerankedResults || []).length}]`;
             }
-            await mm.writeToGeneralChatHistory(toSave, gk);
+            await remember(toSave);
             logger('debug', 'Streaming response saved to memory', {
               savedContentLength: toSave.length
             });
@@ -1935,19 +2800,59 @@ Raw Data Available: ${JSON.stringify(data.slice(0, 10), null, 2)}`;
               responseLength: buffer.length,
               totalStreamTime: Date.now() - streamStart
             });
+
+            if (!failed) {
+              const cited = citationValidation.citedSourceIndices.map((idx) => prep.citableSources[idx]);
+              // the chunks in the prompt count as retrieved, the cited ones as cited
+              void recordChunkUsage(message, prep.citableSources, cited);
+              const database = (prep.truncated as any).database as DatabaseQueryResult | undefined;
+              await storeCachedAnswer(cacheScope, message, cached, {
+                content: buffer,
+                model: served.model.id,
+                sources: cited,
+                database,
+                metadata: {
+                  dbQueryDetected: prep.shouldQueryDB,
+                  dbQueryConfidence: prep.dbConfidence,
+                  contextSources: prep.sourceTypes,
+                  rerankingApplied: prep.rerankingApplied,
+                  stageModels,
+                  promptVersions,
+                },
+              }, database?.success ? "database" : "knowledge");
+            }
+          }
+
+          if (cfg.recordUsage) {
+            // the chat call's usage lands once the stream has been drained
+            await saveUsageHistory({
+              userId: ctx.userId,
+              sessionId: ctx.sessionId || ctx.documentId,
+              query: message,
+              queryType: ctx.documentId ? "document" : "chat",
+              success: !failed,
+              modelUsed: served.model.id,
+              executionTime: Date.now() - streamStart,
+              usage: summarizeUsage([...prepTracked.records, ...chatTracked.records]),
+            });
           }
         }
       },
     });
   }
   /* ---------- misc helpers ---------- */
-  async executeQuery(query: string): Promise<DatabaseQueryResult> {
+  /** `userId` selects that user's prompt template overrides. */
+  async executeQuery(query: string, userId?: string): Promise<DatabaseQueryResult> {
     this.logger('info', 'Executing database query', { queryLength: query.length });
     const queryStart = Date.now();
 
     try {
-      const exec = new DatabaseQueryExecutor(this.cfg.modelKey as ModelKey, true);
-      const result = await exec.executeQuery(query);
+      const exec = new DatabaseQueryExecutor(this.stageModel("sql") as ModelKey, true, this.cfg.sqlAgentMaxSteps);
+      const { value: scoped, usage, records } = await trackUsage(() => withPromptScope(userId, () => exec.executeQuery(query)));
+      const result = scoped.value;
+      result.usage = usage;
+      result.stageModels = servedModels(records);
+      result.promptVersions = scoped.versions;
 
       this.logger('info', 'Database query executed', {
         success: result.success,
@@ -1968,10 +2873,18 @@ Raw Data Available: ${JSON.stringify(data.slice(0, 10), null, 2)}`;
   }
 
   getModelInfo() {
-    const conf = AVAILABLE_MODELS[this.cfg.modelKey as ModelKey];
+    const resolved = resolveModelForPurpose(this.stageModel("chat"), "chat");
     const info = {
       id: String(this.cfg.modelKey),
-      name: conf?.name || toGroqModel(String(this.cfg.modelKey)),
+      name: resolved.name,
+      provider: resolved.provider,
+      resolvedModel: resolved.id,
+      stageModels: {
+        chat: this.stageModel("chat"),
+        sql: this.stageModel("sql"),
+        rerank: this.stageModel("rerank"),
+        intent: this.stageModel("intent"),
+      },
       temperature: this.cfg.temperature,
       contextWindow: this.cfg.contextWindow,
       capabilities: {
@@ -2017,15 +2930,15 @@ Raw Data Available: ${JSON.stringify(data.slice(0, 10), null, 2)}`;
     );
 
     try {
-      const results = await this.mm!.rerankDocuments(
-        query,
-        docs,
-        this.cfg.modelKey as ModelKey,
-        threshold ?? this.cfg.rerankingThreshold
-      );
+      const { results, run } = await this.mm!.rerankDocuments(query, docs, {
+        reranker: this.cfg.reranker,
+        modelKey: this.stageModel("rerank") as ModelKey,
+        threshold: threshold ?? this.cfg.rerankingThreshold,
+      });
 
       const execMs = Date.now() - rerankStart;
       this.logger('info', 'Reranking completed', {
+        reranker: run.reranker,
         resultsCount: results.length,
         executionTime: execMs,
         avgRelevanceScore: results.length > 0
@@ -2036,7 +2949,7 @@ Raw Data Available: ${JSON.stringify(data.slice(0, 10), null, 2)}`;
       // NEW: record analytics (no-op if userId not provided)
       if (userId) {
         try {
-          await this.analytics.record(userId, query, results, execMs);
+          await this.analytics.record(userId, query, results, [run]);
         } catch (e: any) {
           this.logger('warn', 'Failed to record reranking analytics (explicit API)', { error: e?.message });
         }
@@ -2133,6 +3046,11 @@ Raw Data Available: ${JSON.stringify(data.slice(0, 10), null, 2)}`;
   }
 }
 
+/** History / vector namespace of a multi-document conversation; the same for any order of ids. */
+export function documentSetKey(documentIds: string[]): string {
+  return `docset-${md5(Array.from(new Set(documentIds)).sort().join(","))}`;
+}
+
 export const createChatAgent = (config?: Partial<AgentConfig>) =>
   new AIAgent({ useMemory: true, useKnowledgeBase: true, useDatabase: true, useReranking: true, ...config });
 
@@ -2142,6 +3060,69 @@ export const createDocumentAgent = (config?: Partial<AgentConfig>) =>
 export const createDatabaseAgent = (config?: Partial<AgentConfig>) =>
   new AIAgent({ useMemory: false, useDatabase: true, useKnowledgeBase: false, useReranking: false, temperature: 0.0, modelKey: "openai/gpt-oss-120b", ...config });
 
+/** Per-stage models from the user's settings, for `AgentConfig.stageModels`. */
+export async function loadUserStageModels(userId: string): Promise<StageModels> {
+  try {
+    const settings = await prismadb.userSettings.findUnique({
+      where: { userId },
+      select: { sqlModel: true, rerankModel: true, intentModel: true, judgeModel: true },
+    });
+    if (!settings) return {};
+    const out: StageModels = {};
+    if (settings.sqlModel) out.sql = settings.sqlModel;
+    if (settings.rerankModel) out.rerank = settings.rerankModel;
+    if (settings.intentModel) out.intent = settings.intentModel;
+    if (settings.judgeModel) out.judge = settings.judgeModel;
+    return out;
+  } catch (e) {
+    console.warn("Failed to load stage models from user settings", e);
+    return {};
+  }
+}
+
+/** The user's reranker setting, or the app default. */
+export async function loadUserReranker(userId: string): Promise<RerankerKind> {
+  try {
+    const settings = await prismadb.userSettings.findUnique({
+      where: { userId },
+      select: { reranker: true },
+    });
+    return isRerankerKind(settings?.reranker) ? settings.reranker : DEFAULT_RERANKER;
+  } catch (e) {
+    console.warn("Failed to load reranker from user settings", e);
+    return DEFAULT_RERANKER;
+  }
+}
+
+/** The user's query transformations; none chosen falls back to QUERY_TRANSFORMS. */
+export async function loadUserQueryTransforms(userId: string): Promise<QueryTransform[]> {
+  try {
+    const settings = await prismadb.userSettings.findUnique({
+      where: { userId },
+      select: { queryTransforms: true },
+    });
+    const chosen = ((settings?.queryTransforms as unknown[]) || []).filter(isQueryTransform);
+    return chosen.length ? chosen : DEFAULT_QUERY_TRANSFORMS;
+  } catch (e) {
+    console.warn("Failed to load query transformations from user settings", e);
+    return DEFAULT_QUERY_TRANSFORMS;
+  }
+}
+
+/** The user's prompt token budget (`maxContextLength` setting), if they have settings. */
+export async function loadUserMaxContextLength(userId: string): Promise<number | undefined> {
+  try {
+    const settings = await prismadb.userSettings.findUnique({
+      where: { userId },
+      select: { maxContextLength: true },
+    });
+    return settings?.maxContextLength ?? undefined;
+  } catch (e) {
+    console.warn("Failed to load max context length from user settings", e);
+    return undefined;
+  }
+}
+
 export class ModernEmbeddingIntegration {
   private mm: MemoryManager;
   constructor(cfg?: Partial<EmbeddingConfig>) {
@@ -2202,12 +3183,46 @@ function toAsciiHeaderValue(value: string): string {
     .slice(0, 200);
 }
 
+/** "rewrite,hyde (3 queries)" for the X-Query-Transforms header. */
+export function formatQueryTransforms(report: QueryTransformReport): string {
+  const ran = report.transforms.filter((t) => !report.failed?.includes(t));
+  return `${ran.join(",") || "none"} (${report.variants.length} ${report.variants.length === 1 ? "query" : "queries"})`;
+}
+
+/** "intent=llama-3.1-8b-instant,chat=openai/gpt-oss-120b" for the X-Stage-Models header. */
+export function formatStageModels(stageModels: StageModels): string {
+  return Object.entries(stageModels)
+    .map(([stage, model]) => `${stage}=${model}`)
+    .join(",");
+}
+
 export function setAgentResponseHeaders(response: any, agentResponse: EnhancedAgentResponse): void {
   const dev = process.env.NODE_ENV === "development";
 
   try {
     response.headers.set("X-Session-ID", toAsciiHeaderValue(agentResponse.metadata.sessionId));
     response.headers.set("X-Model-Used", toAsciiHeaderValue(agentResponse.model));
+    if (agentResponse.metadata.requestedModel) {
+      response.headers.set("X-Model-Requested", toAsciiHeaderValue(agentResponse.metadata.requestedModel));
+      response.headers.set(
+        "X-Model-Fallbacks",
+        toAsciiHeaderValue((agentResponse.metadata.modelFallbacks || []).map((f) => f.model).join(","))
+      );
+    }
+    if (agentResponse.metadata.stageModels) {
+      response.headers.set("X-Stage-Models", toAsciiHeaderValue(formatStageModels(agentResponse.metadata.stageModels)));
+    }
+    if (agentResponse.metadata.cache) {
+      response.headers.set("X-Cache", agentResponse.metadata.cache.hit ? "HIT" : "MISS");
+    }
+    if (agentResponse.metadata.contextBudget) {
+      const b = agentResponse.metadata.contextBudget;
+      response.headers.set("X-Context-Budget", `${b.usedTokens}/${b.budget}`);
+      response.headers.set("X-Context-Dropped", String(b.dropped.length));
+    }
+    if (agentResponse.metadata.queryTransforms) {
+      response.headers.set("X-Query-Transforms", formatQueryTransforms(agentResponse.metadata.queryTransforms));
+    }
     response.headers.set("X-Processing-Time", toAsciiHeaderValue(`${agentResponse.executionTime}ms`));
     response.headers.set("X-DB-Query-Detected", toAsciiHeaderValue(String(agentResponse.metadata.dbQueryDetected)));
     response.headers.set("X-DB-Confidence", toAsciiHeaderValue(`${(agentResponse.metadata.dbQueryConfidence * 100).toFixed(1)}%`));
@@ -2282,7 +3297,7 @@ export const validateChatRequest = (body: any) => {
 
   if (body.maxContextLength !== undefined) {
     const n = Number(body.maxContextLength);
-    if (Number.isNaN(n) || n < 1000 || n > 20000) errors.push("maxContextLength must be 1000..20000");
+    if (Number.isNaN(n) || n < 512 || n > 32000) errors.push("maxContextLength must be 512..32000");
   }
 
   return {
@@ -2340,7 +3355,8 @@ class RerankingAnalytics {
     for (let i = 0; i < rerankedTop.length; i++) improvements += Math.max(0, rerankedTop[i].originalRank - i);
     return improvements / Math.min(3, results.length);
   }
-  async record(userId: string, query: string, results: RerankingResult[], executionTime: number) {
+  /** `runs` are the reranker calls behind `results`; their latencies add up to the execution time. */
+  async record(userId: string, query: string, results: RerankingResult[], runs: RerankRun[]) {
     try {
       const event = {
         userId,
@@ -2348,9 +3364,10 @@ class RerankingAnalytics {
         timestamp: Date.now(),
         resultsCount: results.length,
         averageRelevanceScore: results.reduce((s, r) => s + r.relevanceScore, 0) / (results.length || 1),
-        executionTime,
+        executionTime: runs.reduce((s, r) => s + r.latencyMs, 0),
         topRelevanceScore: Math.max(...results.map((r) => r.relevanceScore)),
         improvementRatio: this.improvementRatio(results),
+        runs,
       };
       await this.redis.setex(`reranking_events:${userId}:${Date.now()}`, 60 * 60 * 24 * 7, JSON.stringify(event));
 
@@ -2364,6 +3381,16 @@ class RerankingAnalytics {
       stats.totalExecutionTime += event.executionTime;
       stats.averageRelevanceScore = ((stats.averageRelevanceScore * (stats.totalQueries - 1)) + event.averageRelevanceScore) / stats.totalQueries;
       stats.totalImprovements += event.improvementRatio;
+      // latency per reranker, so the LLM and cross-encoder can be compared
+      stats.byReranker ??= {};
+      for (const run of runs) {
+        const r = (stats.byReranker[run.reranker] ??= { runs: 0, documents: 0, totalLatencyMs: 0, failures: 0 });
+        r.runs += 1;
+        r.documents += run.documents;
+        r.totalLatencyMs += run.latencyMs;
+        if (run.failed) r.failures += 1;
+        r.averageLatencyMs = r.totalLatencyMs / r.runs;
+      }
       stats.lastUpdated = Date.now();
 
       await this.redis.setex(statsKey, 60 * 60 * 24 * 30, JSON.stringify(stats));
@@ -0,0 +1,220 @@
+// lib/chunk-quality.ts
+// Usage signals on document chunks. Every document answer counts the chunks
+// retrieved into its prompt and the ones it cited, and a rating of the answer
+// counts for the chunks it cited. From those counts each chunk gets a quality
+// score that nudges its rank in document search (CHUNK_QUALITY_WEIGHT, 0 turns
+// it off), and the report lists chunks nobody retrieves ("dead") or that are
+// retrieved but never cited ("noisy").
+import md5 from "md5";
+
+import prismadb from "@/lib/prismadb";
+import type { Document as DocumentRow, DocumentChunk, Prisma } from "@prisma/client";
+import type { SourceReference } from "@/types/chat";
+import type { ChunkFeedback, ChunkQualityReport, ChunkSignal } from "@/types/document";
+
+/** How far quality moves a chunk's search score: score * (1 + weight * quality). */
+export const CHUNK_QUALITY_WEIGHT = Math.max(0, Number(process.env.CHUNK_QUALITY_WEIGHT ?? 0.15) || 0);
+
+// retrievals before a chunk's citation rate counts in full
+const PRIOR_RETRIEVALS = 5;
+// share of retrievals cited that is neither good nor bad
+const BASE_CITE_RATE = 0.3;
+// queries kept in relevanceScores
+const RECENT_SCORES = 20;
+// "noisy": retrieved at least this often and never cited
+const NOISY_MIN_RETRIEVALS = Number(process.env.NOISY_CHUNK_MIN_RETRIEVALS ?? 5);
+
+type ChunkRef = { documentId: string; chunkIndex: number };
+type Signals = Pick<DocumentChunk, "usageCount" | "citedCount" | "helpfulCount" | "unhelpfulCount">;
+
+/** Key of a chunk in the map loadChunkQuality returns. */
+export const refKey = (r: ChunkRef) => `${r.documentId}:${r.chunkIndex}`;
+
+/** The chunk a retrieved document or a source's metadata points at, if any. */
+export function metadataChunkRef(metadata: Record<string, unknown> | undefined): ChunkRef | null {
+  const documentId = metadata?.documentId;
+  const chunkIndex = metadata?.chunkIndex;
+  return typeof documentId === "string" && typeof chunkIndex === "number" ? { documentId, chunkIndex } : null;
+}
+
+const chunkRef = (source: SourceReference) => (source.type === "document" ? metadataChunkRef(source.metadata) : null);
+
+function chunkRefs(sources: SourceReference[]): ChunkRef[] {
+  const refs = new Map<string, ChunkRef>();
+  for (const source of sources) {
+    const ref = chunkRef(source);
+    if (ref) refs.set(refKey(ref), ref);
+  }
+  return Array.from(refs.values());
+}
+
+/** Prisma filter for the chunk rows of `refs`. */
+function whereRefs(refs: ChunkRef[]) {
+  const byDocument = new Map<string, number[]>();
+  for (const r of refs) byDocument.set(r.documentId, [...(byDocument.get(r.documentId) || []), r.chunkIndex]);
+  return {
+    level: "chunk",
+    OR: Array.from(byDocument, ([documentId, indexes]) => ({ documentId, chunkIndex: { in: indexes } })),
+  };
+}
+
+/**
+ * -1..1 from how often a chunk is cited once retrieved, and how its answers
+ * were rated. A chunk with little history stays near 0.
+ */
+export function chunkQuality(s: Signals): number {
+  const citeRate = (s.citedCount + BASE_CITE_RATE * PRIOR_RETRIEVALS) / (s.usageCount + PRIOR_RETRIEVALS);
+  const citation = Math.max(-1, Math.min(1, (citeRate - BASE_CITE_RATE) / BASE_CITE_RATE));
+  const ratings = s.helpfulCount + s.unhelpfulCount;
+  const feedback = ratings ? (s.helpfulCount - s.unhelpfulCount) / (ratings + 2) : 0;
+  return (citation + feedback) / 2;
+}
+
+/** Quality of the chunks behind `refs`, keyed "documentId:chunkIndex"; chunks never retrieved are left out. */
+export async function loadChunkQuality(refs: ChunkRef[]): Promise<Map<string, number>> {
+  if (!refs.length) return new Map();
+  const rows: (Signals & ChunkRef)[] = await prismadb.documentChunk.findMany({
+    where: { ...whereRefs(refs), usageCount: { gt: 0 } },
+    select: { documentId: true, chunkIndex: true, usageCount: true, citedCount: true, helpfulCount: true, unhelpfulCount: true },
+  });
+  return new Map(rows.map((r) => [refKey(r), chunkQuality(r)]));
+}
+
+/**
+ * Count one answer: every chunk in `retrieved` was in its prompt, those in
+ * `cited` were cited. Their documents count a query. Never throws; a lost
+ * count only weakens the signal.
+ */
+export async function recordChunkUsage(
+  query: string,
+  retrieved: SourceReference[],
+  cited: SourceReference[]
+): Promise<void> {
+  try {
+    const refs = chunkRefs(retrieved);
+    if (!refs.length) return;
+    const citedKeys = new Set(chunkRefs(cited).map(refKey));
+    const scores = new Map<string, number>();
+    for (const source of retrieved) {
+      const ref = chunkRef(source);
+      if (ref && typeof source.relevanceScore === "number") {
+        scores.set(refKey(ref), Math.max(scores.get(refKey(ref)) ?? 0, source.relevanceScore));
+      }
+    }
+
+    const queryKey = md5(query.toLowerCase().replace(/\s+/g, " ").trim()).slice(0, 12);
+    const now = new Date();
+
+    await prismadb.$transaction(async (tx: Prisma.TransactionClient) => {
+      const ids: Pick<DocumentChunk, "id">[] = await tx.documentChunk.findMany({ where: whereRefs(refs), select: { id: true } });
+      // averages and score history are read under a row lock (taken in id order), so
+      // answers recorded at the same time add up instead of overwriting each other
+      const rows: Pick<DocumentChunk, "id" | "documentId" | "chunkIndex" | "usageCount" | "avgRelevance" | "relevanceScores">[] =
+        ids.length
+          ? await tx.$queryRawUnsafe(
+              `SELECT "id", "documentId", "chunkIndex", "usageCount", "avgRelevance", "relevanceScores"
+               FROM "public"."document_chunks" WHERE "id" = ANY($1::text[]) ORDER BY "id" FOR UPDATE`,
+              ids.map((r) => r.id)
+            )
+          : [];
+      for (const row of rows) {
+        const key = refKey(row);
+        const score = scores.get(key);
+        const data: Record<string, unknown> = {
+          usageCount: { increment: 1 },
+          lastRetrievedAt: now,
+          ...(citedKeys.has(key) ? { citedCount: { increment: 1 } } : {}),
+        };
+        if (score !== undefined) {
+          data.avgRelevance = ((row.avgRelevance ?? score) * row.usageCount + score) / (row.usageCount + 1);
+          data.relevanceScores = JSON.stringify(recentScores(row.relevanceScores, queryKey, score));
+        }
+        await tx.documentChunk.update({ where: { id: row.id }, data });
+      }
+      await tx.document.updateMany({
+        where: { id: { in: Array.from(new Set(refs.map((r) => r.documentId))) } },
+        data: { queryCount: { increment: 1 }, lastAccessed: now },
+      });
+    });
+  } catch (e) {
+    console.warn("Failed to record chunk usage:", e);
+  }
+}
+
+/** relevanceScores: query hash -> best score, the most recent RECENT_SCORES queries. */
+function recentScores(raw: string | null, queryKey: string, score: number): Record<string, number> {
+  let scores: Record<string, number> = {};
+  try {
+    const parsed = raw ? JSON.parse(raw) : {};
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) scores = parsed;
+  } catch {
+    // unreadable history starts over
+  }
+  const previous = scores[queryKey];
+  delete scores[queryKey];
+  scores[queryKey] = Math.max(previous ?? 0, score);
+  return Object.fromEntries(Object.entries(scores).slice(-RECENT_SCORES));
+}
+
+/** Move the rating of an answer from `from` to `to` on the chunks it cited; `db` may be a transaction. */
+export async function rateChunks(
+  cited: SourceReference[],
+  from: ChunkFeedback | null,
+  to: ChunkFeedback | null,
+  db: Prisma.TransactionClient = prismadb
+): Promise<number> {
+  const refs = chunkRefs(cited);
+  if (!refs.length || from === to) return 0;
+  const column = (f: ChunkFeedback) => (f === "helpful" ? "helpfulCount" : "unhelpfulCount");
+  const data = {
+    ...(from ? { [column(from)]: { decrement: 1 } } : {}),
+    ...(to ? { [column(to)]: { increment: 1 } } : {}),
+  };
+  const { count } = await db.documentChunk.updateMany({ where: whereRefs(refs), data });
+  return count;
+}
+
+const toSignal = (c: DocumentChunk): ChunkSignal => ({
+  chunkIndex: c.chunkIndex,
+  pageNumber: c.pageNumber,
+  sectionTitle: c.sectionTitle,
+  snippet: c.content.slice(0, 200),
+  usageCount: c.usageCount,
+  citedCount: c.citedCount,
+  helpfulCount: c.helpfulCount,
+  unhelpfulCount: c.unhelpfulCount,
+  avgRelevance: c.avgRelevance,
+  lastRetrievedAt: c.lastRetrievedAt,
+  quality: chunkQuality(c),
+});
+
+/** Dead and noisy chunks of the current version of a document; null when there is no such document. */
+export async function chunkQualityReport(documentId: string, limit = 50): Promise<ChunkQualityReport | null> {
+  const document: Pick<DocumentRow, "queryCount" | "lastAccessed"> | null = await prismadb.document.findUnique({
+    where: { id: documentId },
+    select: { queryCount: true, lastAccessed: true },
+  });
+  if (!document) return null;
+
+  const current = { documentId, level: "chunk", versionTo: null };
+  const dead = { ...current, usageCount: 0 };
+  const noisy = { ...current, usageCount: { gte: NOISY_MIN_RETRIEVALS }, citedCount: 0 };
+  const [chunks, deadTotal, deadRows, noisyTotal, noisyRows] = await Promise.all([
+    prismadb.documentChunk.count({ where: current }) as Promise<number>,
+    prismadb.documentChunk.count({ where: dead }) as Promise<number>,
+    prismadb.documentChunk.findMany({ where: dead, orderBy: { chunkIndex: "asc" }, take: limit }) as Promise<DocumentChunk[]>,
+    prismadb.documentChunk.count({ where: noisy }) as Promise<number>,
+    prismadb.documentChunk.findMany({ where: noisy, orderBy: { usageCount: "desc" }, take: limit }) as Promise<
+      DocumentChunk[]
+    >,
+  ]);
+
+  return {
+    documentId,
+    queryCount: document.queryCount,
+    lastAccessed: document.lastAccessed,
+    chunks,
+    dead: { total: deadTotal, chunks: deadRows.map(toSignal) },
+    noisy: { total: noisyTotal, minRetrievals: NOISY_MIN_RETRIEVALS, chunks: noisyRows.map(toSignal) },
+  };
+}
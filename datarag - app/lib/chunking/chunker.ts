@@ -0,0 +1,33 @@
+// lib/chunking/chunker.ts
+// Picks the chunking strategy for an upload. A document keeps the strategy it
+// was uploaded with; without one, the embedding config decides.
+import type { Embedder } from "@/lib/embeddings";
+import { FlatChunker } from "@/lib/chunking/flat";
+import { HierarchicalChunker } from "@/lib/chunking/hierarchical";
+import { SemanticChunker } from "@/lib/chunking/semantic";
+import type { Chunker, ChunkingStrategy, EmbeddingConfig } from "@/types/document";
+
+export const CHUNKING_STRATEGIES: ChunkingStrategy[] = ["flat", "hierarchical", "semantic"];
+
+export function isChunkingStrategy(v: unknown): v is ChunkingStrategy {
+  return typeof v === "string" && (CHUNKING_STRATEGIES as string[]).includes(v);
+}
+
+export function defaultChunkingStrategy(cfg: Pick<EmbeddingConfig, "useHierarchicalChunking" | "enableSemanticChunking">): ChunkingStrategy {
+  if (cfg.enableSemanticChunking) return "semantic";
+  return cfg.useHierarchicalChunking ? "hierarchical" : "flat";
+}
+
+export function createChunker(
+  strategy: ChunkingStrategy,
+  opts: { chunkSize: number; chunkOverlap: number; embeddings: Embedder; batchSize: number }
+): Chunker {
+  switch (strategy) {
+    case "hierarchical":
+      return new HierarchicalChunker(opts.chunkSize, opts.chunkOverlap);
+    case "semantic":
+      return new SemanticChunker(opts.embeddings, opts.chunkSize, opts.chunkOverlap, opts.batchSize);
+    default:
+      return new FlatChunker(opts.chunkSize, opts.chunkOverlap);
+  }
+}
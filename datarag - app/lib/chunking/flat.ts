@@ -0,0 +1,31 @@
+// lib/chunking/flat.ts
+// Fixed-size recursive splits, page by page. The original ingestion behaviour,
+// and the fallback of the other strategies.
+import { RecursiveCharacterTextSplitter } from "@pinecone-database/doc-splitter";
+
+import type { Chunker, SourcePage, TextChunk } from "@/types/document";
+
+const SEPARATORS = ["\n\n", "\n", ".", "!", "?", ";", ",", " ", ""];
+
+/** Split `text` into pieces of at most `chunkSize` characters. */
+export function splitText(text: string, chunkSize: number, chunkOverlap: number): Promise<string[]> {
+  return new RecursiveCharacterTextSplitter({ chunkSize, chunkOverlap, separators: SEPARATORS }).splitText(text);
+}
+
+export class FlatChunker implements Chunker {
+  readonly strategy = "flat" as const;
+
+  constructor(private chunkSize: number, private chunkOverlap: number) {}
+
+  async chunk(pages: SourcePage[]): Promise<TextChunk[]> {
+    const chunks: TextChunk[] = [];
+    for (const page of pages) {
+      const text = page.text.replace(/\s+/g, " ").trim();
+      if (!text) continue;
+      for (const content of await splitText(text, this.chunkSize, this.chunkOverlap)) {
+        chunks.push({ key: chunks.length, content, pageNumber: page.pageNumber, level: "chunk" });
+      }
+    }
+    return chunks;
+  }
+}
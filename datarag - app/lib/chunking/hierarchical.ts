@@ -0,0 +1,104 @@
+// lib/chunking/hierarchical.ts
+// Section → paragraph chunking. Headings are recognised from the PDF's text
+// lines (numbered, chapter/annex style or all caps); each section is stored
+// whole as a parent, and its body is split into paragraph-sized chunks that
+// point back to it, so a retrieved chunk can be widened to its section.
+import type { Chunker, SourcePage, TextChunk } from "@/types/document";
+import { splitText } from "@/lib/chunking/flat";
+
+type Line = { text: string; pageNumber: number };
+type Section = { title?: string; pageNumber: number; lines: Line[] };
+
+const NUMBERED_HEADING = /^(\d+(\.\d+)*\.?|[IVXLC]+\.|[A-Z]\.|(chapter|section|part|annex|appendix|article)\s+[\w.]+)\s+\S/i;
+
+function isHeading(line: string): boolean {
+  if (line.length > 100 || /[.,;:]$/.test(line)) return false;
+  if (NUMBERED_HEADING.test(line)) return line.split(/\s+/).length <= 14;
+  const words = line.split(/\s+/);
+  return words.length <= 12 && /[A-Z]{3}/.test(line) && line === line.toUpperCase();
+}
+
+export class HierarchicalChunker implements Chunker {
+  readonly strategy = "hierarchical" as const;
+
+  constructor(private chunkSize: number, private chunkOverlap: number) {}
+
+  private sections(pages: SourcePage[]): Section[] {
+    const sections: Section[] = [];
+    let current: Section | null = null;
+    for (const page of pages) {
+      for (const raw of page.text.split(/\n+/)) {
+        const text = raw.replace(/\s+/g, " ").trim();
+        if (!text) continue;
+        const heading = isHeading(text);
+        if (heading || !current) {
+          current = { title: heading ? text : undefined, pageNumber: page.pageNumber, lines: [] };
+          sections.push(current);
+          if (heading) continue;
+        }
+        current.lines.push({ text, pageNumber: page.pageNumber });
+      }
+    }
+
+    // A heading with next to no body is usually the parent heading of the next
+    // one ("CHAPTER 2" / "2.1 Scope") or a false positive: fold it forward.
+    const minBody = this.chunkSize / 4;
+    const merged: Section[] = [];
+    for (let i = 0; i < sections.length; i++) {
+      const s = sections[i];
+      const next = sections[i + 1];
+      const bodyLength = s.lines.reduce((n, l) => n + l.text.length + 1, 0);
+      if (next && bodyLength < minBody) {
+        next.lines.unshift(...s.lines);
+        next.title = [s.title, next.title].filter(Boolean).join(" — ") || undefined;
+        next.pageNumber = s.pageNumber;
+        continue;
+      }
+      merged.push(s);
+    }
+    return merged;
+  }
+
+  async chunk(pages: SourcePage[]): Promise<TextChunk[]> {
+    const chunks: TextChunk[] = [];
+    for (const section of this.sections(pages)) {
+      if (!section.lines.length) continue;
+
+      // page of every character offset range of the section body
+      let body = "";
+      const pageStarts: { at: number; pageNumber: number }[] = [];
+      for (const line of section.lines) {
+        if (!pageStarts.length || pageStarts[pageStarts.length - 1].pageNumber !== line.pageNumber) {
+          pageStarts.push({ at: body.length, pageNumber: line.pageNumber });
+        }
+        body += (body ? " " : "") + line.text;
+      }
+      const pageAt = (offset: number) =>
+        pageStarts.filter((p) => p.at <= offset).pop()?.pageNumber ?? section.pageNumber;
+
+      const parent: TextChunk = {
+        key: chunks.length,
+        content: section.title ? `${section.title}\n${body}` : body,
+        pageNumber: section.pageNumber,
+        level: "section",
+        sectionTitle: section.title,
+      };
+      chunks.push(parent);
+
+      let from = 0;
+      for (const content of await splitText(body, this.chunkSize, this.chunkOverlap)) {
+        const at = body.indexOf(content, from);
+        if (at >= 0) from = at + 1;
+        chunks.push({
+          key: chunks.length,
+          content,
+          pageNumber: pageAt(Math.max(at, 0)),
+          level: "chunk",
+          parentKey: parent.key,
+          sectionTitle: section.title,
+        });
+      }
+    }
+    return chunks;
+  }
+}
@@ -0,0 +1,100 @@
+// lib/chunking/semantic.ts
+// Breaks chunks where the topic shifts: every sentence is embedded together
+// with its neighbours, and a boundary goes wherever the distance between two
+// consecutive windows is in the top percentile of the document (or where the
+// chunk would outgrow chunkSize).
+import { cosineSimilarity, type Embedder } from "@/lib/embeddings";
+import { FlatChunker, splitText } from "@/lib/chunking/flat";
+import type { Chunker, SourcePage, TextChunk } from "@/types/document";
+
+type Sentence = { text: string; pageNumber: number };
+
+// distances above this percentile of the document become boundaries
+const BREAKPOINT_PERCENTILE = Number(process.env.SEMANTIC_CHUNK_BREAKPOINT_PERCENTILE ?? 90);
+// sentences on each side embedded with a sentence, to smooth out short ones
+const WINDOW = 1;
+
+function percentile(values: number[], p: number): number {
+  if (!values.length) return Infinity;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor((p / 100) * sorted.length))];
+}
+
+export class SemanticChunker implements Chunker {
+  readonly strategy = "semantic" as const;
+
+  constructor(
+    private embeddings: Embedder,
+    private chunkSize: number,
+    private chunkOverlap: number,
+    private batchSize: number
+  ) {}
+
+  private async sentences(pages: SourcePage[]): Promise<Sentence[]> {
+    const out: Sentence[] = [];
+    for (const page of pages) {
+      const text = page.text.replace(/\s+/g, " ").trim();
+      for (const raw of text.match(/[^.!?]+(?:[.!?]+["')\]]*|$)/g) ?? []) {
+        const sentence = raw.trim();
+        if (!sentence) continue;
+        // a run-on "sentence" (tables, lists) cannot be a unit on its own
+        const parts = sentence.length > this.chunkSize ? await splitText(sentence, this.chunkSize, 0) : [sentence];
+        parts.forEach((p) => out.push({ text: p, pageNumber: page.pageNumber }));
+      }
+    }
+    return out;
+  }
+
+  async chunk(pages: SourcePage[]): Promise<TextChunk[]> {
+    const sentences = await this.sentences(pages);
+    if (sentences.length < 3) return new FlatChunker(this.chunkSize, this.chunkOverlap).chunk(pages);
+
+    let vectors: number[][];
+    try {
+      const windows = sentences.map((_, i) =>
+        sentences
+          .slice(Math.max(0, i - WINDOW), i + WINDOW + 1)
+          .map((s) => s.text)
+          .join(" ")
+      );
+      // one request per batch, as for chunks; a whole document is too much for one
+      const batch = Math.max(1, this.batchSize);
+      vectors = [];
+      for (let i = 0; i < windows.length; i += batch) {
+        vectors.push(...(await this.embeddings.embedDocuments(windows.slice(i, i + batch))));
+      }
+    } catch (e) {
+      console.warn("Semantic chunking failed to embed sentences; using flat chunks:", e);
+      return new FlatChunker(this.chunkSize, this.chunkOverlap).chunk(pages);
+    }
+
+    const distances = vectors.slice(1).map((v, i) => 1 - cosineSimilarity(vectors[i], v));
+    const threshold = percentile(distances, BREAKPOINT_PERCENTILE);
+    // no boundary before a chunk has a reasonable size
+    const minSize = this.chunkSize / 5;
+
+    const chunks: TextChunk[] = [];
+    let current: Sentence[] = [];
+    let size = 0;
+    const flush = () => {
+      if (!current.length) return;
+      chunks.push({
+        key: chunks.length,
+        content: current.map((s) => s.text).join(" "),
+        pageNumber: current[0].pageNumber,
+        level: "chunk",
+      });
+      current = [];
+      size = 0;
+    };
+
+    sentences.forEach((sentence, i) => {
+      const shift = i > 0 && distances[i - 1] > threshold && size >= minSize;
+      if (shift || size + sentence.text.length + 1 > this.chunkSize) flush();
+      current.push(sentence);
+      size += sentence.text.length + 1;
+    });
+    flush();
+    return chunks;
+  }
+}
@@ -0,0 +1,136 @@
+// lib/context-budget.ts
+// Token budget for the assembled prompt. The fixed part (instructions, source
+// list, question) is always kept; the rest of the budget is shared between the
+// context sections by priority, and a section over its allowance sheds its
+// least useful items first.
+import { estimateTokens } from "@/lib/llm/usage";
+import type { ContextBudgetReport, ContextSectionName, DroppedContext } from "@/types/chat";
+
+export interface ContextItem {
+  id: string;
+  text: string;
+  /** Higher is more useful; only read by sections dropped by relevance. */
+  relevance?: number;
+}
+
+/**
+ * Which items a section gives up first: the least relevant chunks, or the
+ * last items of an ordered list (newest-first history, rows after a summary).
+ */
+export type DropOrder = "relevance" | "last";
+
+export interface ContextSection {
+  name: ContextSectionName;
+  items: ContextItem[];
+  dropOrder: DropOrder;
+}
+
+export interface ContextBudgetResult {
+  /** Kept items per section, in their original order. */
+  kept: Partial<Record<ContextSectionName, ContextItem[]>>;
+  report: ContextBudgetReport;
+}
+
+// Highest priority first: it gets its share first and any budget left over.
+export const CONTEXT_PRIORITY: ContextSectionName[] = ["database", "knowledge", "conversation", "similar"];
+
+// Share of the free budget each section can count on when all are present
+const SHARES: Record<ContextSectionName, number> = {
+  database: 0.35,
+  knowledge: 0.35,
+  conversation: 0.2,
+  similar: 0.1,
+};
+
+// An item that does not fit is cut down instead of dropped if this much room is left
+const MIN_PARTIAL_TOKENS = 64;
+
+// items are joined with a line break or "---"
+const itemTokens = (item: ContextItem) => estimateTokens(item.text) + 1;
+
+function cut(text: string, tokens: number): string {
+  const maxChars = tokens * 4;
+  const head = text.slice(0, maxChars);
+  // end on a sentence or line when one is reasonably close
+  const end = Math.max(head.lastIndexOf(". "), head.lastIndexOf("\n"));
+  return `${end > maxChars / 2 ? head.slice(0, end + 1) : head}…`;
+}
+
+/** Indexes of `items` in the order they should be kept. */
+function keepOrder(items: ContextItem[], dropOrder: DropOrder): number[] {
+  const idx = items.map((_, i) => i);
+  if (dropOrder === "relevance") return idx.sort((a, b) => (items[b].relevance ?? 0) - (items[a].relevance ?? 0));
+  return idx;
+}
+
+/**
+ * Fit `sections` into `budget` tokens next to the `fixed` prompt text.
+ * Each present section is allotted its share of what `fixed` leaves free, up
+ * to what it needs; unused budget then goes to sections still short of room,
+ * in priority order.
+ */
+export function allocateContextBudget(budget: number, fixed: string, sections: ContextSection[]): ContextBudgetResult {
+  const fixedTokens = estimateTokens(fixed);
+  const free = Math.max(0, budget - fixedTokens);
+
+  const present = CONTEXT_PRIORITY
+    .map((name) => sections.find((s) => s.name === name && s.items.length))
+    .filter((s): s is ContextSection => !!s);
+
+  const need = new Map(present.map((s) => [s.name, s.items.reduce((n, item) => n + itemTokens(item), 0)]));
+  const shareTotal = present.reduce((n, s) => n + SHARES[s.name], 0);
+
+  const allocated = new Map<ContextSectionName, number>();
+  for (const s of present) {
+    allocated.set(s.name, Math.min(need.get(s.name)!, Math.floor((free * SHARES[s.name]) / shareTotal)));
+  }
+  let left = free - Array.from(allocated.values()).reduce((n, v) => n + v, 0);
+  for (const s of present) {
+    const extra = Math.min(left, need.get(s.name)! - allocated.get(s.name)!);
+    allocated.set(s.name, allocated.get(s.name)! + extra);
+    left -= extra;
+  }
+
+  const kept: ContextBudgetResult["kept"] = {};
+  const report: ContextBudgetReport = { budget, fixedTokens, usedTokens: fixedTokens, sections: {}, dropped: [], truncated: [] };
+
+  for (const s of present) {
+    const allowance = allocated.get(s.name)!;
+    const keep = new Map<number, ContextItem>();
+    let used = 0;
+    let full = false;
+
+    for (const i of keepOrder(s.items, s.dropOrder)) {
+      const item = s.items[i];
+      const cost = itemTokens(item);
+      if (!full && used + cost <= allowance) {
+        keep.set(i, item);
+        used += cost;
+        continue;
+      }
+      // once something is dropped, nothing ranked below it is kept
+      if (!full && allowance - used >= MIN_PARTIAL_TOKENS) {
+        const partial = { ...item, text: cut(item.text, allowance - used - 1) };
+        keep.set(i, partial);
+        used += itemTokens(partial);
+        report.truncated.push(item.id);
+      } else {
+        const dropped: DroppedContext = { section: s.name, id: item.id, tokens: cost };
+        if (item.relevance !== undefined) dropped.relevance = item.relevance;
+        report.dropped.push(dropped);
+      }
+      full = true;
+    }
+
+    kept[s.name] = Array.from(keep.keys()).sort((a, b) => a - b).map((i) => keep.get(i)!);
+    report.sections[s.name] = {
+      allocated: allowance,
+      used,
+      kept: keep.size,
+      dropped: s.items.length - keep.size,
+    };
+    report.usedTokens += used;
+  }
+
+  return { kept, report };
+}
@@ -1,33 +1,15 @@
 // lib/database-detection.ts
-import { ChatGroq } from "@langchain/groq";
 import { HumanMessage, SystemMessage } from "@langchain/core/messages";
+import { createChatModel, defaultModelFor } from "@/lib/llm/providers";
+import { PROMPT_DEFAULTS } from "@/lib/prompts/defaults";
+import { getPrompt } from "@/lib/prompts/registry";
 
-export const DATABASE_INTENT_PROMPT = `
-You are an expert at classifying user queries related to aviation. Your task is to determine if the query intends a database lookup for specific aviation data, such as flights, airlines, airports, or metrics like passenger traffic, delays, rankings, or statistics.
+// Built-in version; the active template is read through getPrompt("databaseIntent").
+export const DATABASE_INTENT_PROMPT = PROMPT_DEFAULTS.databaseIntent.content;
 
-Key guidelines:
-- True if the query asks for specific factual data, lists, rankings, or statistics that would typically come from a database (e.g., "top airports by passengers", "flight delays at LAX", "airline routes").
-- False if it's general knowledge, principles, opinions, how-to guides, history, or non-data-driven questions (e.g., "how airplanes fly", "best travel tips", "future of aviation").
-- Consider context: Queries needing real-time or historical data points are likely DB queries.
-- Ambiguous cases: Lean towards true if it could involve data retrieval, but adjust confidence accordingly.
-- Output strictly valid JSON only: {"isDbQuery": boolean, "confidence": number between 0 and 1, "reasoning": string (brief explanation)}.
-
-Examples:
-- "Top 10 busiest airports": {"isDbQuery": true, "confidence": 0.95, "reasoning": "Requests a ranking based on passenger traffic metrics."}
-- "General principles of airport management": {"isDbQuery": false, "confidence": 0.8, "reasoning": "Asks for conceptual knowledge, not specific data."}
-- "What is the busiest airport in the world?": {"isDbQuery": true, "confidence": 1.0, "reasoning": "Seeks specific factual ranking from data."}
-- "How to book a flight online": {"isDbQuery": false, "confidence": 0.9, "reasoning": "Procedural advice, no data lookup needed."}
-- "History of Boeing airlines": {"isDbQuery": false, "confidence": 0.95, "reasoning": "Historical overview, not database metrics."}
-- "Average flight delays at JFK in 2023": {"isDbQuery": true, "confidence": 0.98, "reasoning": "Requires statistical data from records."}
-- "Best airlines for customer service": {"isDbQuery": true, "confidence": 0.7, "reasoning": "Could be based on metrics like ratings; lower confidence if subjective."}
-- "Explain turbulence in flights": {"isDbQuery": false, "confidence": 0.95, "reasoning": "Scientific explanation, not data query."}
-`;
-
-const model = new ChatGroq({
-  apiKey: process.env.GROQ_API_KEY,
-  model: "llama-3.1-8b-instant",
-  temperature: 0.2,
-});
+// Built per call so the "intent" model follows the current env / provider config
+const intentModel = (modelId?: string | null) =>
+  createChatModel(modelId || defaultModelFor("intent"), { purpose: "intent", temperature: 0.2 });
 
 // Helper to extract and parse JSON from content
 function extractJson(content: string): unknown {
@@ -49,10 +31,13 @@ function extractJson(content: string): unknown {
 }
 
 // Main detection function
-export async function isDatabaseQuery(message: string): Promise<{ isDbQuery: boolean; confidence: number }> {
+export async function isDatabaseQuery(
+  message: string,
+  modelId?: string | null
+): Promise<{ isDbQuery: boolean; confidence: number }> {
   try {
-    const response = await model.invoke([
-      new SystemMessage(DATABASE_INTENT_PROMPT),
+    const response = await intentModel(modelId).invoke([
+      new SystemMessage(await getPrompt("databaseIntent")),
       new HumanMessage(`Query: "${message}"`),
     ]);
     const parsed = extractJson(response.content as string);
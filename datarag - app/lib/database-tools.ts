@@ -8,7 +8,9 @@ import mysql, {
 import { z } from "zod";
 import { DynamicStructuredTool } from "@langchain/core/tools";
 import { ToolMessage } from "@langchain/core/messages";
-import { wireGroqSqlRegenerator } from "@/lib/sql-regenerator-groq";
+import { wireSqlRegenerator } from "@/lib/sql-regenerator";
+import { PROMPT_DEFAULTS } from "@/lib/prompts/defaults";
+import { getPrompt } from "@/lib/prompts/registry";
 import type {
   QueryGenerationOptions,
   ValidationResult,
@@ -59,7 +61,7 @@ const getPool = (): Pool => {
 };
 
 export function initTools(model: string) {
-  wireGroqSqlRegenerator(model);
+  wireSqlRegenerator(model);
 }
 
 
@@ -234,77 +236,8 @@ KEY OPTIMIZATION NOTES:
 // -----------------------------
 // MySQL 8.0 Syntax & Code Rules (Cheatsheet for the LLM)
 // -----------------------------
-export const MYSQL_SYNTAX_GUIDE = `
-IDENTIFIERS & LITERALS
-- Identifiers: use backticks \`like_this\` when colliding with reserved words; otherwise plain names are fine.
-- Strings use single quotes: 'text'. Escape single quote as ''.
-- Booleans: TRUE, FALSE (aliases for 1/0). NULL is a distinct value.
-- NULL-safe equality: a <=> b. a = NULL is NULL; use IS NULL / IS NOT NULL.
-
-JOINS & FILTERS
-- Use explicit JOIN ... ON ... (no comma joins).
-- Join on exact keys from schema (e.g., fact_flights.airline_iata = dim_airlines.airline_iata).
-- Avoid functions on indexed columns in WHERE (keeps indexes usable).
-- Prefer IN over multiple ORs on the same column when list is short/moderate.
-
-GROUP BY, HAVING, DISTINCT
-- ONLY_FULL_GROUP_BY may be enabled: every non-aggregated selected column must appear in GROUP BY.
-- HAVING filters aggregated results; WHERE filters base rows.
-- DISTINCT with ORDER BY: ORDER BY expressions must appear in SELECT list.
-
-ORDER BY & LIMIT
-- LIMIT n or LIMIT offset, count (preferred style here).
-- MySQL also allows LIMIT count OFFSET offset; we normalize to LIMIT offset, count.
-
-DATE/TIME
-- NOW(), CURRENT_DATE, CURRENT_TIME.
-- EXTRACT(YEAR FROM d), DATE_FORMAT(d,'%Y-%m-%d'), STR_TO_DATE(s,'%Y-%m-%d').
-- DATEDIFF(d1,d2) in days; TIMESTAMPDIFF(unit, start, end) for arbitrary units.
-- DATE_ADD(d, INTERVAL n unit), DATE_SUB(d, INTERVAL n unit).
-- Truncation:
-  - day: DATE(d)
-  - month: DATE_FORMAT(d, '%Y-%m-01')
-  - year:  DATE_FORMAT(d, '%Y-01-01')
-
-STRINGS & REGEX
-- CONCAT(a,b,...), CONCAT_WS(sep,a,b,...)
-- REPLACE, SUBSTRING, LEFT, RIGHT, LPAD, RPAD, LOCATE, INSTR, TRIM
-- LIKE / NOT LIKE; case-insensitive depends on collation. Portable: UPPER(col) LIKE UPPER('%x%').
-- REGEXP / NOT REGEXP; REGEXP_REPLACE, REGEXP_INSTR, REGEXP_SUBSTR.
-
-NUMERIC & CONDITIONALS
-- ROUND(x[,d]), FLOOR, CEIL, TRUNCATE(x,d)
-- Guard division by zero with NULLIF(den,0).
-- IF(cond,a,b), IFNULL(a,b), COALESCE(a,b,...)
-- CASE WHEN ... THEN ... ELSE ... END.
-
-JSON
-- JSON_EXTRACT(js, '$.path'), JSON_UNQUOTE()
-- JSON_ARRAYAGG(expr), JSON_OBJECTAGG(k,v), JSON_CONTAINS(js, candidate[, path])
-- JSON_TABLE(...) (advanced pivoting).
-
-WINDOW FUNCTIONS (OVER)
-- ROW_NUMBER, RANK, DENSE_RANK, LAG, LEAD, FIRST_VALUE, LAST_VALUE, NTH_VALUE, NTILE
-- SUM/AVG/etc OVER (PARTITION BY ... ORDER BY ... [frame]).
-
-CTEs
-- WITH and WITH RECURSIVE supported.
-
-AGGREGATION
-- COUNT(*), COUNT(col) ignores NULL, SUM/AVG/MIN/MAX.
-- GROUP_CONCAT(expr [ORDER BY ...] SEPARATOR ',') replaces STRING_AGG/ARRAY_AGG.
-
-MIGRATION MAPPINGS
-- STRING_AGG → GROUP_CONCAT
-- SPLIT_PART(s, delim, n) → SUBSTRING_INDEX(SUBSTRING_INDEX(s, delim, n), delim, -1)
-
-SECURITY & PERFORMANCE
-- Always parameterize in app code (use ? placeholders). This tool executes read-only by default.
-- Avoid SELECT *; project needed columns.
-- Avoid leading-wildcard LIKE '%x' on large tables.
-- Prefer EXISTS/NOT EXISTS over IN/NOT IN with subqueries that can yield NULL.
-- Use EXPLAIN FORMAT=JSON to analyze plans.
-`;
+// Built-in version; callers read the active template through getPrompt("mysqlSyntaxGuide").
+export const MYSQL_SYNTAX_GUIDE = PROMPT_DEFAULTS.mysqlSyntaxGuide.content;
 
 // -----------------------------
 // Enhanced Query Generation
@@ -314,7 +247,12 @@ export const generateQueryPrompt = (
   userQuestion: string,
   options: QueryGenerationOptions = {}
 ): string => {
-  const { enforceLimit = true, maxLimit = 100, includeBestPractices = true } = options;
+  const {
+    enforceLimit = true,
+    maxLimit = 100,
+    includeBestPractices = true,
+    syntaxGuide = MYSQL_SYNTAX_GUIDE,
+  } = options;
 
   const bestPracticesSection = includeBestPractices
     ? `
@@ -345,7 +283,7 @@ DATABASE SCHEMA:
 ${DATABASE_SCHEMA}
 
 COMPREHENSIVE MYSQL 8.0 GUIDE:
-${MYSQL_SYNTAX_GUIDE}
+${syntaxGuide}
 
 ABSOLUTE MYSQL DIALECT RULES:
 ❌ NEVER use other RDBMS features (PostgreSQL/SQL Server/Oracle/SQLite):
@@ -812,9 +750,10 @@ export const buildRegenerationPrompt = (
   userQuestion: string,
   attemptedQuery: string,
   validationResult: ValidationResult,
-  attemptNumber: number = 1
+  attemptNumber: number = 1,
+  syntaxGuide?: string
 ): string => {
-  const basePrompt = generateQueryPrompt(userQuestion);
+  const basePrompt = generateQueryPrompt(userQuestion, { syntaxGuide });
 
   const errorsSummary = validationResult.errors
     .map((err) => `- ${err.message}${err.suggestion ? ` (Fix: ${err.suggestion})` : ""}`)
@@ -1147,6 +1086,7 @@ export const executeSql = new DynamicStructuredTool({
             enforceLimit: true,
             maxLimit: 100,
             includeBestPractices: true,
+            syntaxGuide: await getPrompt("mysqlSyntaxGuide"),
           });
           const regenRaw = await _sqlRegenerator({
             prompt: regenPrompt,
@@ -1209,7 +1149,8 @@ export const executeSql = new DynamicStructuredTool({
                 user_question || reasoning,
                 currentQuery,
                 validationResult,
-                attempt
+                attempt,
+                await getPrompt("mysqlSyntaxGuide")
               );
 
               const regenRaw = await _sqlRegenerator({
@@ -0,0 +1,91 @@
+// lib/diversify.ts
+// Last stage of a search, before the list is cut to topK. Overlapping chunks
+// (the chunk overlap, repeated headers and footers) and chunks from one page
+// otherwise take every slot with the same passage. Near-identical candidates
+// are dropped, the rest are picked by maximal marginal relevance
+// (lambda * relevance - (1 - lambda) * similarity to what is already picked),
+// and a document at its cap only contributes again once the others run out.
+// Candidates are compared by their words, so no search pays for embedding its
+// results again.
+import { words } from "@/lib/hybrid-search";
+import type { DiversityConfig } from "@/types/document";
+
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+export const DEFAULT_DIVERSITY: DiversityConfig = {
+  enabled: process.env.DIVERSITY !== "false",
+  lambda: clamp01(Number(process.env.MMR_LAMBDA ?? 0.7)),
+  duplicateThreshold: Number(process.env.DUPLICATE_SIMILARITY ?? 0.8),
+  maxPerDocument: Number(process.env.MAX_CHUNKS_PER_DOCUMENT ?? 3),
+};
+
+export interface DiversityCandidate {
+  text: string;
+  /** Any scale; higher is better. */
+  relevance: number;
+  /** Source document (a knowledge base entry counts as one), for the per-document cap. */
+  group?: string;
+}
+
+function shingles(text: string): Set<string> {
+  const terms = words(text);
+  const out = new Set<string>();
+  for (let i = 0; i + 3 <= terms.length; i++) out.add(terms.slice(i, i + 3).join(" "));
+  if (!out.size && terms.length) out.add(terms.join(" "));
+  return out;
+}
+
+/** Jaccard similarity of word trigrams, in any script. */
+export function lexicalSimilarity(a: string, b: string): number {
+  const sa = shingles(a);
+  const sb = shingles(b);
+  if (!sa.size || !sb.size) return 0;
+  let shared = 0;
+  sa.forEach((s) => {
+    if (sb.has(s)) shared++;
+  });
+  return shared / (sa.size + sb.size - shared);
+}
+
+/** Indexes of `candidates` (best first) to keep, in pick order, at most `limit`. */
+export function diversify(candidates: DiversityCandidate[], limit: number, cfg: DiversityConfig): number[] {
+  const cache = new Map<string, number>();
+  const similarity = (i: number, j: number) => {
+    const key = i < j ? `${i}:${j}` : `${j}:${i}`;
+    if (!cache.has(key)) cache.set(key, lexicalSimilarity(candidates[i].text, candidates[j].text));
+    return cache.get(key)!;
+  };
+
+  // a near-duplicate of a better candidate never makes it in
+  const pool: number[] = [];
+  candidates.forEach((_, i) => {
+    if (!pool.some((j) => similarity(i, j) >= cfg.duplicateThreshold)) pool.push(i);
+  });
+
+  const top = Math.max(...candidates.map((c) => c.relevance), 0) || 1;
+  const perGroup = new Map<string, number>();
+  const capped = (i: number) => {
+    const group = candidates[i].group;
+    return cfg.maxPerDocument > 0 && !!group && (perGroup.get(group) || 0) >= cfg.maxPerDocument;
+  };
+
+  const order: number[] = [];
+  while (order.length < limit && pool.length) {
+    const open = pool.filter((i) => !capped(i));
+    let best = -1;
+    let bestScore = -Infinity;
+    for (const i of open.length ? open : pool) {
+      const redundancy = order.length ? Math.max(...order.map((j) => similarity(i, j))) : 0;
+      const score = cfg.lambda * (candidates[i].relevance / top) - (1 - cfg.lambda) * redundancy;
+      if (score > bestScore) {
+        best = i;
+        bestScore = score;
+      }
+    }
+    order.push(best);
+    pool.splice(pool.indexOf(best), 1);
+    const group = candidates[best].group;
+    if (group) perGroup.set(group, (perGroup.get(group) || 0) + 1);
+  }
+  return order;
+}
@@ -0,0 +1,206 @@
+// lib/document-cleanup.ts
+// Deleting a document removes everything derived from it: its vector namespace
+// in every embedding generation (with the keyword index), stored chunks and
+// messages, knowledge base entries made from it, conversation history in
+// Redis, cached answers, the multi-document chats it was part of, and the
+// uploaded file. The row goes first, so a failure half-way leaves orphans
+// rather than a listed document with nothing behind it; sweepOrphans finds
+// and purges those.
+import type { ChatSession, Document as DocumentRow, DocumentVersion, KnowledgeBaseEntry } from "@prisma/client";
+
+import { MemoryManager, documentSetKey } from "@/lib/agent";
+import { backendClient } from "@/lib/edgestore-server";
+import { knowledgeVectorId } from "@/lib/knowledge-embedding";
+import prismadb from "@/lib/prismadb";
+import { ResponseCache, invalidateResponseCache } from "@/lib/response-cache";
+import type { DocumentCleanupReport, OrphanReport } from "@/types/document";
+
+// document ids are cuids; other namespaces in the index are never touched
+const DOCUMENT_NAMESPACE = /^c[a-z0-9]{20,32}$/;
+const DOCUMENT_SET_NAMESPACE = /^docset-[0-9a-f]{32}$/;
+
+const message = (e: unknown) => (e instanceof Error ? e.message : String(e));
+
+/** Run one cleanup step; a failure is logged and reported, and the next step still runs. */
+async function attempt(errors: string[], step: string, run: () => Promise<void>) {
+  try {
+    await run();
+  } catch (e) {
+    console.error(`[DOCUMENT_CLEANUP] ${step} failed:`, e);
+    errors.push(`${step}: ${message(e)}`);
+  }
+}
+
+/** Remove an uploaded file unless another document or version still points at it. */
+async function deleteStoredFile(fileUrl: string | null): Promise<boolean> {
+  if (!fileUrl || !/^https:\/\/[^/]*edgestore\.dev\//i.test(fileUrl)) return false;
+  const [documents, versions] = await Promise.all([
+    prismadb.document.count({ where: { fileUrl } }),
+    prismadb.documentVersion.count({ where: { fileUrl } }),
+  ]);
+  if (documents || versions) return false;
+  return (await backendClient.MyDocuments.deleteFile({ url: fileUrl })).success;
+}
+
+/**
+ * Delete `document` and every derived artifact. Throws only when the row
+ * itself cannot be deleted; anything after that ends up in `errors`.
+ */
+export async function deleteDocument(
+  document: Pick<DocumentRow, "id" | "fileUrl">
+): Promise<DocumentCleanupReport> {
+  const id = document.id;
+  const report: DocumentCleanupReport = {
+    documentId: id,
+    chunks: 0,
+    messages: 0,
+    knowledgeEntries: 0,
+    knowledgeVectors: 0,
+    vectorNamespaces: [],
+    historyKeys: 0,
+    cachedAnswers: 0,
+    documentSessions: 0,
+    fileDeleted: false,
+    errors: [],
+  };
+
+  // counted first: chunks, messages and versions go with the row by cascade
+  const [chunks, messages, versions] = await Promise.all([
+    prismadb.documentChunk.count({ where: { documentId: id } }),
+    prismadb.documentMessage.count({ where: { documentId: id } }),
+    prismadb.documentVersion.findMany({ where: { documentId: id }, select: { fileUrl: true } }) as Promise<
+      Pick<DocumentVersion, "fileUrl">[]
+    >,
+  ]);
+  await prismadb.document.delete({ where: { id } });
+  report.chunks = chunks;
+  report.messages = messages;
+
+  const mm = await MemoryManager.getInstance();
+  const namespaces = [id];
+
+  await attempt(report.errors, "knowledge base", async () => {
+    const entries: Pick<KnowledgeBaseEntry, "id">[] = await prismadb.knowledgeBaseEntry.findMany({
+      where: { metadata: { contains: `"documentId":"${id}"` } },
+      select: { id: true },
+    });
+    if (entries.length) {
+      await prismadb.knowledgeBaseEntry.deleteMany({ where: { id: { in: entries.map((e) => e.id) } } });
+    }
+    report.knowledgeEntries = entries.length;
+
+    // vectors added for the document without an entry row are found by their metadata
+    const stray = (await mm.listKnowledgeVectors({ documentId: id })).map((v) => v.id);
+    const ids = Array.from(new Set([...entries.map((e) => knowledgeVectorId(e.id)), ...stray]));
+    if (ids.length) await mm.deleteKnowledgeVectors({ ids });
+    report.knowledgeVectors = ids.length;
+  });
+
+  // a set's history is keyed by all of its ids, so it goes with any one of them
+  await attempt(report.errors, "document sets", async () => {
+    const sessions: Pick<ChatSession, "id" | "documentIds">[] = await prismadb.chatSession.findMany({
+      where: { documentIds: { has: id } },
+      select: { id: true, documentIds: true },
+    });
+    for (const session of sessions) {
+      if (session.documentIds.length > 1) namespaces.push(documentSetKey(session.documentIds));
+      const rest = session.documentIds.filter((d: string) => d !== id);
+      // a chat left without documents is archived rather than turned into a general chat
+      await prismadb.chatSession.update({
+        where: { id: session.id },
+        data: { documentIds: rest, ...(rest.length ? {} : { isArchived: true }) },
+      });
+    }
+    report.documentSessions = sessions.length;
+  });
+
+  for (const namespace of namespaces) {
+    await attempt(report.errors, `vectors (${namespace})`, async () => {
+      await mm.deleteVectors(namespace);
+      report.vectorNamespaces.push(namespace);
+    });
+    await attempt(report.errors, `history (${namespace})`, async () => {
+      report.historyKeys += await mm.deleteHistory(namespace);
+    });
+  }
+
+  await attempt(report.errors, "cached answers", async () => {
+    const ids = await ResponseCache.getInstance().purgeDocument(id);
+    await mm.deleteResponseCacheVectors(ids);
+    report.cachedAnswers = ids.length;
+  });
+  // knowledge base answers may have quoted the document
+  if (report.knowledgeEntries || report.knowledgeVectors) await invalidateResponseCache({ knowledge: true });
+
+  await attempt(report.errors, "file", async () => {
+    report.fileDeleted = await deleteStoredFile(document.fileUrl);
+  });
+  // files of earlier versions
+  for (const fileUrl of Array.from(new Set<string | null>(versions.map((v: Pick<DocumentVersion, "fileUrl">) => v.fileUrl)))) {
+    if (fileUrl === document.fileUrl) continue;
+    await attempt(report.errors, `file (${fileUrl})`, async () => {
+      await deleteStoredFile(fileUrl);
+    });
+  }
+
+  return report;
+}
+
+/**
+ * Find vectors whose document, document set or knowledge base entry no longer
+ * exists, and with `purge` delete them along with their history and cached
+ * answers. Knowledge base vectors are found through the keyword index.
+ */
+export async function sweepOrphans({ purge = false }: { purge?: boolean } = {}): Promise<OrphanReport> {
+  const mm = await MemoryManager.getInstance();
+  const [namespaces, documents, sessions, entries, knowledgeVectors] = await Promise.all([
+    mm.listStoredNamespaces(),
+    prismadb.document.findMany({ select: { id: true } }) as Promise<Pick<DocumentRow, "id">[]>,
+    prismadb.chatSession.findMany({
+      where: { NOT: { documentIds: { isEmpty: true } } },
+      select: { documentIds: true },
+    }) as Promise<Pick<ChatSession, "documentIds">[]>,
+    prismadb.knowledgeBaseEntry.findMany({ select: { id: true } }) as Promise<Pick<KnowledgeBaseEntry, "id">[]>,
+    mm.listKnowledgeVectors(),
+  ]);
+
+  const liveDocuments = new Set(documents.map((d) => d.id));
+  const liveSets = new Set(sessions.filter((s) => s.documentIds.length > 1).map((s) => documentSetKey(s.documentIds)));
+  const liveEntries = new Set(entries.map((e) => knowledgeVectorId(e.id)));
+  const deadDocument = (id: string | null) => !!id && DOCUMENT_NAMESPACE.test(id) && !liveDocuments.has(id);
+
+  const report: OrphanReport = {
+    namespaces: namespaces.filter(
+      (ns) => deadDocument(ns) || (DOCUMENT_SET_NAMESPACE.test(ns) && !liveSets.has(ns))
+    ),
+    knowledgeVectorIds: knowledgeVectors
+      .filter((v) => (v.id.startsWith(knowledgeVectorId("")) && !liveEntries.has(v.id)) || deadDocument(v.documentId))
+      .map((v) => v.id),
+    purged: purge,
+    errors: [],
+  };
+  if (!purge) return report;
+
+  report.historyKeys = 0;
+  report.cachedAnswers = 0;
+  for (const namespace of report.namespaces) {
+    await attempt(report.errors, `vectors (${namespace})`, () => mm.deleteVectors(namespace));
+    await attempt(report.errors, `history (${namespace})`, async () => {
+      report.historyKeys! += await mm.deleteHistory(namespace);
+    });
+    if (DOCUMENT_NAMESPACE.test(namespace)) {
+      await attempt(report.errors, `cached answers (${namespace})`, async () => {
+        const ids = await ResponseCache.getInstance().purgeDocument(namespace);
+        await mm.deleteResponseCacheVectors(ids);
+        report.cachedAnswers! += ids.length;
+      });
+    }
+  }
+  if (report.knowledgeVectorIds.length) {
+    await attempt(report.errors, "knowledge base vectors", async () => {
+      await mm.deleteKnowledgeVectors({ ids: report.knowledgeVectorIds });
+      await invalidateResponseCache({ knowledge: true });
+    });
+  }
+  return report;
+}
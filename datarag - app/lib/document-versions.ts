@@ -0,0 +1,157 @@
+// lib/document-versions.ts
+// Document revisions. A new upload is compared with the current version chunk
+// by chunk (MemoryManager.addDocumentVersion): unchanged chunks keep their rows
+// and vectors, only new ones are embedded. Every chunk row and vector carries
+// the range of versions it belongs to, so a chat can follow the latest version
+// or stay pinned to an earlier one, and old versions stay browsable.
+import md5 from "md5";
+import { z } from "zod";
+
+import prismadb from "@/lib/prismadb";
+import type { Document as DocumentRow, DocumentChunk, DocumentVersion as DocumentVersionRow } from "@prisma/client";
+import type { DocumentVersionDiff, DocumentVersionInfo, VersionChunk } from "@/types/document";
+import type { VectorFilter } from "@/types/vector";
+
+/** versionTo of chunks still in the latest version. */
+export const OPEN_VERSION = 1_000_000;
+
+/** Vector filter for the chunks of `version`. */
+export function versionFilter(version: number): VectorFilter {
+  return { versionFrom: { $lte: version }, versionTo: { $gte: version + 1 } };
+}
+
+// re-extracted PDFs differ in whitespace more often than in text
+const chunkKey = (content: string) => md5(content.replace(/\s+/g, " ").trim());
+
+/**
+ * Pair each of `next` with a `current` chunk of the same text; repeated text
+ * pairs in order. `matched[i]` is the partner of `next[i]` or null (new), and
+ * `removed` is what is left of `current`.
+ */
+export function matchChunks<R extends { content: string }>(
+  current: R[],
+  next: { content: string }[]
+): { matched: (R | null)[]; removed: R[] } {
+  const pool = new Map<string, R[]>();
+  for (const row of current) {
+    const key = chunkKey(row.content);
+    pool.set(key, [...(pool.get(key) || []), row]);
+  }
+  const matched = next.map((chunk) => pool.get(chunkKey(chunk.content))?.shift() ?? null);
+  return { matched, removed: Array.from(pool.values()).flat() };
+}
+
+export async function listVersions(documentId: string): Promise<DocumentVersionInfo[]> {
+  const [document, rows] = await Promise.all([
+    prismadb.document.findUnique({ where: { id: documentId }, select: { currentVersion: true } }) as Promise<
+      Pick<DocumentRow, "currentVersion"> | null
+    >,
+    prismadb.documentVersion.findMany({ where: { documentId }, orderBy: { version: "desc" } }) as Promise<
+      DocumentVersionRow[]
+    >,
+  ]);
+  return rows.map((r) => ({
+    version: r.version,
+    fileUrl: r.fileUrl,
+    chunkCount: r.chunkIndexes.length,
+    added: r.added,
+    removed: r.removed,
+    unchanged: r.unchanged,
+    note: r.note,
+    createdBy: r.createdBy,
+    createdAt: r.createdAt,
+    current: r.version === document?.currentVersion,
+  }));
+}
+
+/** The embedded chunks of one version in reading order, or null when there is no such version. */
+export async function loadVersionChunks(documentId: string, version: number): Promise<DocumentChunk[] | null> {
+  const row: Pick<DocumentVersionRow, "chunkIndexes"> | null = await prismadb.documentVersion.findUnique({
+    where: { documentId_version: { documentId, version } },
+    select: { chunkIndexes: true },
+  });
+  if (!row) return null;
+  const chunks: DocumentChunk[] = await prismadb.documentChunk.findMany({
+    where: { documentId, level: "chunk", chunkIndex: { in: row.chunkIndexes } },
+  });
+  const byIndex = new Map(chunks.map((c) => [c.chunkIndex, c]));
+  return row.chunkIndexes
+    .map((i: number) => byIndex.get(i))
+    .filter((c: DocumentChunk | undefined): c is DocumentChunk => !!c);
+}
+
+const toVersionChunk = (c: DocumentChunk): VersionChunk => ({
+  chunkIndex: c.chunkIndex,
+  pageNumber: c.pageNumber,
+  sectionTitle: c.sectionTitle,
+  content: c.content,
+});
+
+/** Chunk-level difference between two versions; null when either does not exist. */
+export async function diffVersions(documentId: string, from: number, to: number): Promise<DocumentVersionDiff | null> {
+  const [before, after] = await Promise.all([loadVersionChunks(documentId, from), loadVersionChunks(documentId, to)]);
+  if (!before || !after) return null;
+  const { matched, removed } = matchChunks(before, after);
+  return {
+    documentId,
+    from,
+    to,
+    added: after.filter((_, i) => !matched[i]).map(toVersionChunk),
+    removed: removed.map(toVersionChunk),
+    unchanged: matched.filter(Boolean).length,
+  };
+}
+
+/* ------------------------------------------------------------------ */
+/* Chat pins                                                          */
+/* ------------------------------------------------------------------ */
+export const versionPinsSchema = z.record(z.string().min(1), z.number().int().min(1));
+
+/** The pins stored on a session ({ documentId: version }); unreadable ones pin nothing. */
+export function parseVersionPins(raw: string | null | undefined): Record<string, number> {
+  if (!raw) return {};
+  try {
+    const parsed = versionPinsSchema.safeParse(JSON.parse(raw));
+    if (parsed.success) return parsed.data;
+    console.warn("Ignoring invalid document version pins", parsed.error.flatten());
+  } catch (e) {
+    console.warn("Ignoring unreadable document version pins", e);
+  }
+  return {};
+}
+
+/** Problems with pins about to be saved on a chat over `documentIds`. */
+export async function validateVersionPins(pins: Record<string, number>, documentIds: string[]): Promise<string[]> {
+  const errors: string[] = [];
+  const outside = Object.keys(pins).filter((id) => !documentIds.includes(id));
+  if (outside.length) errors.push(`Documents not in this chat: ${outside.join(", ")}`);
+
+  const pinned = Object.keys(pins).filter((id) => documentIds.includes(id));
+  if (pinned.length) {
+    const found: Pick<DocumentVersionRow, "documentId" | "version">[] = await prismadb.documentVersion.findMany({
+      where: { documentId: { in: pinned } },
+      select: { documentId: true, version: true },
+    });
+    const missing = pinned.filter((id) => !found.some((v) => v.documentId === id && v.version === pins[id]));
+    if (missing.length) errors.push(`Unknown versions: ${missing.map((id) => `${id}@${pins[id]}`).join(", ")}`);
+  }
+  return errors;
+}
+
+/**
+ * Search filter per document for the version a chat reads: its pin, else the
+ * latest. Documents never revised need none, which keeps vectors written
+ * before versioning (they carry no range) searchable.
+ */
+export function versionFilters(
+  documents: Pick<DocumentRow, "id" | "currentVersion">[],
+  pins: Record<string, number> = {}
+): Record<string, VectorFilter> {
+  const filters: Record<string, VectorFilter> = {};
+  for (const d of documents) {
+    if (d.currentVersion <= 1) continue;
+    const pinned = pins[d.id];
+    filters[d.id] = versionFilter(pinned && pinned < d.currentVersion ? pinned : d.currentVersion);
+  }
+  return filters;
+}
@@ -0,0 +1,13 @@
+// lib/edgestore-server.ts
+// The Edge Store router, shared by the upload handler and the backend client
+// that removes files when their document is deleted.
+import { initEdgeStore } from "@edgestore/server";
+import { initEdgeStoreClient } from "@edgestore/server/core";
+
+const es = initEdgeStore.create();
+
+export const edgeStoreRouter = es.router({
+  MyDocuments: es.fileBucket(),
+});
+
+export const backendClient = initEdgeStoreClient({ router: edgeStoreRouter });
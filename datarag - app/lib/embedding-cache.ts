@@ -0,0 +1,127 @@
+// lib/embedding-cache.ts
+// Content-addressed embedding cache: a vector is stored under the backend that
+// ran the model (with its quantization), the model, the prefix mode it was
+// embedded with (query / passage / none) and the md5 of the text, so
+// re-uploading a PDF, re-saving a knowledge base entry or re-running an
+// evaluation embeds only text that was never embedded before. The cache
+// never fails an embedding: when Redis is unreachable every text is a miss.
+import md5 from "md5";
+import { Redis } from "@upstash/redis";
+
+export type PrefixMode = "query" | "passage" | "none";
+
+export interface EmbeddingCacheStats {
+  hits: number;
+  misses: number;
+  hitRate: number;
+  /** Per model; `hits` / `misses` above are the sum. */
+  byModel: Record<string, { hits: number; misses: number; hitRate: number }>;
+}
+
+const TTL_SECONDS = Number(process.env.EMBEDDING_CACHE_TTL_SECONDS ?? 30 * 24 * 60 * 60);
+const STATS_KEY = "embedding_cache:stats";
+
+const hitRate = (hits: number, misses: number) => (hits + misses ? hits / (hits + misses) : 0);
+
+// Float32 is what every vector store keeps; base64 is a quarter of the JSON size
+function encode(vector: number[]): string {
+  return Buffer.from(new Float32Array(vector).buffer).toString("base64");
+}
+
+function decode(value: string): number[] {
+  const buf = Buffer.from(value, "base64");
+  return Array.from(new Float32Array(buf.buffer, buf.byteOffset, buf.byteLength / 4));
+}
+
+export class EmbeddingCache {
+  private static instance: EmbeddingCache;
+  private redis: Redis | null = null;
+  private warned = false;
+
+  static getInstance() {
+    if (!EmbeddingCache.instance) EmbeddingCache.instance = new EmbeddingCache();
+    return EmbeddingCache.instance;
+  }
+
+  static enabled(): boolean {
+    return process.env.EMBEDDING_CACHE !== "false";
+  }
+
+  private key(variant: string, model: string, mode: PrefixMode, text: string) {
+    return `embedding_cache:${variant}:${model}:${mode}:${md5(text)}`;
+  }
+
+  private client(): Redis {
+    if (!this.redis) this.redis = Redis.fromEnv();
+    return this.redis;
+  }
+
+  private warn(e: unknown) {
+    if (this.warned) return;
+    this.warned = true;
+    console.warn("Embedding cache unavailable, embedding without it:", e);
+  }
+
+  /**
+   * Cached vectors in input order; null for a miss. `variant` is what besides
+   * the model decides the vectors (see embeddingVariant in lib/embeddings.ts).
+   */
+  async getMany(variant: string, model: string, mode: PrefixMode, texts: string[]): Promise<(number[] | null)[]> {
+    if (!texts.length) return [];
+    try {
+      const values = await this.client().mget<(string | null)[]>(...texts.map((t) => this.key(variant, model, mode, t)));
+      return values.map((v) => (typeof v === "string" && v ? decode(v) : null));
+    } catch (e) {
+      this.warn(e);
+      return texts.map(() => null);
+    }
+  }
+
+  async setMany(variant: string, model: string, mode: PrefixMode, entries: { text: string; vector: number[] }[]) {
+    if (!entries.length) return;
+    try {
+      const pipe = this.client().pipeline();
+      for (const { text, vector } of entries) {
+        pipe.setex(this.key(variant, model, mode, text), TTL_SECONDS, encode(vector));
+      }
+      await pipe.exec();
+    } catch (e) {
+      this.warn(e);
+    }
+  }
+
+  async recordLookup(model: string, hits: number, misses: number) {
+    if (!hits && !misses) return;
+    try {
+      const pipe = this.client().pipeline();
+      pipe.hincrby(STATS_KEY, "hits", hits);
+      pipe.hincrby(STATS_KEY, "misses", misses);
+      pipe.hincrby(STATS_KEY, `hits:${model}`, hits);
+      pipe.hincrby(STATS_KEY, `misses:${model}`, misses);
+      await pipe.exec();
+    } catch (e) {
+      this.warn(e);
+    }
+  }
+
+  /** Hit counts since the stats were last reset, across all server instances. */
+  async stats(): Promise<EmbeddingCacheStats> {
+    const raw = (await this.client().hgetall<Record<string, number | string>>(STATS_KEY)) || {};
+    const byModel: EmbeddingCacheStats["byModel"] = {};
+    for (const [field, value] of Object.entries(raw)) {
+      const m = field.match(/^(hits|misses):(.+)$/);
+      if (!m) continue;
+      const entry = (byModel[m[2]] ??= { hits: 0, misses: 0, hitRate: 0 });
+      entry[m[1] as "hits" | "misses"] = Number(value);
+    }
+    for (const entry of Object.values(byModel)) entry.hitRate = hitRate(entry.hits, entry.misses);
+
+    const hits = Number(raw.hits ?? 0);
+    const misses = Number(raw.misses ?? 0);
+    return { hits, misses, hitRate: hitRate(hits, misses), byModel };
+  }
+
+  async resetStats() {
+    await this.client().del(STATS_KEY);
+  }
+}
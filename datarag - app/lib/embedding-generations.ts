@@ -0,0 +1,132 @@
+// lib/embedding-generations.ts
+// Which vectors serve queries. Every re-index builds a new generation of
+// namespaces embedded with one model; exactly one generation is active, and
+// switching is a single transaction, so a query always embeds with the model
+// its namespaces were built with. Generation 0 is the unsuffixed namespaces.
+import type { Prisma, EmbeddingGeneration as EmbeddingGenerationRow } from "@prisma/client";
+
+import prismadb from "@/lib/prismadb";
+import { invalidateResponseCache } from "@/lib/response-cache";
+import type { EmbeddingBackend, EmbeddingGeneration } from "@/types/document";
+
+export const LEGACY_GENERATION = 0;
+
+// processes pick up a cut-over or a new build within this long
+const CACHE_TTL_MS = Number(process.env.EMBEDDING_GENERATION_CACHE_TTL_MS ?? 15_000);
+
+export function generationNamespace(namespace: string, generation: number): string {
+  return generation === LEGACY_GENERATION ? namespace : `${namespace}__g${generation}`;
+}
+
+/** Base namespace of `namespace` if it belongs to `generation`, else null. */
+export function baseNamespace(namespace: string, generation: number): string | null {
+  const m = namespace.match(/^(.*)__g(\d+)$/);
+  if (!m) return generation === LEGACY_GENERATION ? namespace : null;
+  return Number(m[2]) === generation ? m[1] : null;
+}
+
+/** `namespace` without its generation suffix, whichever generation it belongs to. */
+export function stripGeneration(namespace: string): string {
+  return namespace.replace(/__g\d+$/, "");
+}
+
+export function toGeneration(row: EmbeddingGenerationRow): EmbeddingGeneration {
+  return {
+    id: row.id,
+    model: row.model,
+    backend: row.backend as EmbeddingBackend,
+    status: row.status as EmbeddingGeneration["status"],
+    total: row.total,
+    processed: row.processed,
+    failed: row.failed,
+    error: row.error,
+    createdAt: row.createdAt,
+    completedAt: row.completedAt,
+    activatedAt: row.activatedAt,
+  };
+}
+
+/* ------------------------------------------------------------------ */
+/* Lookup                                                             */
+/* ------------------------------------------------------------------ */
+type Current = { active: EmbeddingGeneration | null; building: EmbeddingGeneration[] };
+
+let cached: { at: number; current: Current } | null = null;
+let warnedUnavailable = false;
+
+export function invalidateGenerationCache() {
+  cached = null;
+}
+
+/**
+ * The serving generation (null = generation 0) and the ones being built,
+ * which new content is written to as well.
+ */
+export async function currentGenerations(): Promise<Current> {
+  if (cached && Date.now() - cached.at < CACHE_TTL_MS) return cached.current;
+
+  let current: Current = { active: null, building: [] };
+  try {
+    const rows: EmbeddingGenerationRow[] = await prismadb.embeddingGeneration.findMany({
+      where: { status: { in: ["ACTIVE", "BUILDING"] } },
+      orderBy: { id: "asc" },
+    });
+    const active = rows.find((r) => r.status === "ACTIVE");
+    current = {
+      active: active ? toGeneration(active) : null,
+      building: rows.filter((r) => r.status === "BUILDING").map(toGeneration),
+    };
+  } catch (e) {
+    // no table yet or database down: keep serving generation 0
+    if (!warnedUnavailable) {
+      warnedUnavailable = true;
+      console.warn("Embedding generations unavailable, using the configured model:", e);
+    }
+  }
+
+  cached = { at: Date.now(), current };
+  return current;
+}
+
+/** Every generation that still holds vectors (deletes must reach all of them). */
+export async function storedGenerations(): Promise<EmbeddingGeneration[]> {
+  try {
+    const rows: EmbeddingGenerationRow[] = await prismadb.embeddingGeneration.findMany({
+      where: { status: { not: "FAILED" } },
+      orderBy: { id: "asc" },
+    });
+    return rows.map(toGeneration);
+  } catch {
+    return [];
+  }
+}
+
+/* ------------------------------------------------------------------ */
+/* Cut-over                                                           */
+/* ------------------------------------------------------------------ */
+/**
+ * Make `generation` the one serving queries; 0 goes back to the unsuffixed
+ * namespaces. The previous generation is retired, not deleted, and keeps
+ * receiving new content (MemoryManager.writeVectors), so this also rolls back.
+ */
+export async function activateGeneration(generation: number) {
+  await prismadb.$transaction(async (tx: Prisma.TransactionClient) => {
+    if (generation !== LEGACY_GENERATION) {
+      const target = await tx.embeddingGeneration.findUnique({ where: { id: generation } });
+      if (!target) throw new Error(`Embedding generation ${generation} does not exist`);
+      if (!["READY", "RETIRED", "ACTIVE"].includes(target.status)) {
+        throw new Error(`Embedding generation ${generation} is ${target.status.toLowerCase()} and cannot serve queries`);
+      }
+    }
+    await tx.embeddingGeneration.updateMany({ where: { status: "ACTIVE" }, data: { status: "RETIRED" } });
+    if (generation !== LEGACY_GENERATION) {
+      await tx.embeddingGeneration.update({
+        where: { id: generation },
+        data: { status: "ACTIVE", activatedAt: new Date() },
+      });
+    }
+  });
+  invalidateGenerationCache();
+  // cached answers were matched with the previous model's query embeddings
+  await invalidateResponseCache({ knowledge: true });
+}
@@ -0,0 +1,298 @@
+// lib/embeddings.ts
+// Embedding backends: the hosted Hugging Face Inference API, or the same
+// models run in-process on CPU through @xenova/transformers (no network once
+// the weights are cached, no rate limits). Both add the query/passage prefixes
+// the E5 / GTE families were trained with, so their vectors are interchangeable.
+import { InferenceClient } from "@huggingface/inference";
+import type { FeatureExtractionPipeline } from "@xenova/transformers";
+
+import { LOCAL_EMBEDDING_MODELS } from "@/config/models";
+import { EmbeddingCache, type PrefixMode } from "@/lib/embedding-cache";
+import type { EmbeddingBackend, EmbeddingConfig } from "@/types/document";
+
+export interface Embedder {
+  embedQuery(text: string): Promise<number[]>;
+  embedDocuments(texts: string[]): Promise<number[][]>;
+}
+
+export const DEFAULT_EMBEDDING_BACKEND: EmbeddingBackend =
+  process.env.EMBEDDING_BACKEND === "local" ? "local" : "huggingface";
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || !a.length) return 0;
+  let dot = 0, na = 0, nb = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    na += a[i] * a[i];
+    nb += b[i] * b[i];
+  }
+  return na && nb ? dot / Math.sqrt(na * nb) : 0;
+}
+
+/** Which prefix `model` puts on a query or passage; "none" when both embed the same. */
+export function prefixMode(model: string, isQuery: boolean): PrefixMode {
+  const id = model.toLowerCase();
+  if (id.includes("e5") || id.includes("gte")) return isQuery ? "query" : "passage";
+  return "none";
+}
+
+/** Add recommended prefixes for certain families (E5 / GTE). */
+export function prefixForModel(model: string, text: string, isQuery: boolean): string {
+  const mode = prefixMode(model, isQuery);
+  return mode === "none" ? text : `${mode}: ${text}`;
+}
+
+/* ------------------------------------------------------------------ */
+/* Hosted                                                             */
+/* ------------------------------------------------------------------ */
+/** Hosted Hugging Face Inference API. */
+export class HuggingFaceEmbeddings implements Embedder {
+  private client: InferenceClient;
+  private model: string;
+  private normalize: boolean;
+  private maxRetries: number;
+  private waitForModel: boolean;
+
+  constructor(options: { model?: string; token?: string; normalize?: boolean; maxRetries?: number; waitForModel?: boolean } = {}) {
+    const token =
+      options.token ||
+      process.env.HUGGING_FACE_ACCESS_TOKEN ||
+      process.env.HUGGINGFACE_API_KEY ||
+      process.env.HUGGINGFACEHUB_API_KEY ||
+      process.env.HUGGINGFACEHUB_API_TOKEN ||
+      process.env.HF_ACCESS_TOKEN;
+
+    this.client = new InferenceClient(token || undefined);
+    this.model = options.model || "sentence-transformers/BAAI/bge-base-en-v1.5";
+    this.normalize = options.normalize ?? true;
+    this.maxRetries = Math.max(0, options.maxRetries ?? 3);
+    this.waitForModel = options.waitForModel ?? true;
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    const [v] = await this._embed([prefixForModel(this.model, text, true)]);
+    return v;
+  }
+
+  async embedDocuments(texts: string[]): Promise<number[][]> {
+    return this._embed(texts.map(t => prefixForModel(this.model, t, false)));
+  }
+
+  // ---- internals ---------------------------------------------------
+  private async _embed(texts: string[]): Promise<number[][]> {
+    if (!texts.length) return [];
+    let attempt = 0;
+
+    while (true) {
+      try {
+        const inputs = texts.length === 1 ? texts[0] : texts;
+        const out = await this.client.featureExtraction(
+          { model: this.model, inputs }
+        );
+        const vectors = this.to2D(out, texts.length);
+        return this.normalize ? vectors.map(this.l2norm) : vectors;
+      } catch (e: unknown) {
+        const error = e as Error & { status?: number; cause?: { status?: number }; message?: string };
+        const status = error?.status ?? error?.cause?.status;
+        if ((status === 429 || status === 503) && attempt < this.maxRetries) {
+          await new Promise(r => setTimeout(r, 500 * (attempt + 1) ** 2));
+          attempt++;
+          continue;
+        }
+        if (status === 404) throw new Error(`Model not found or access denied: ${this.model}`);
+        throw new Error(`Embedding failed: ${error?.message || String(e)}`);
+      }
+    }
+  }
+
+  /** Coerce output into [batch][dim], mean-pooling when token vectors are returned. */
+  private to2D(output: unknown, count: number): number[][] {
+    if (!Array.isArray(output)) throw new Error("Unexpected embedding response format.");
+
+    // [dim]
+    if (typeof output[0] === "number") return [output as number[]];
+
+    // [N][dim] or [tokens][dim]
+    if (Array.isArray(output[0]) && typeof output[0][0] === "number") {
+      if (count === 1 && output.length > 1) return [this.meanPool(output as number[][])];
+      return output as number[][];
+    }
+
+    // [N][tokens][dim]
+    if (Array.isArray(output[0]) && Array.isArray(output[0][0]) && typeof output[0][0][0] === "number") {
+      return (output as number[][][]).map(m => this.meanPool(m));
+    }
+
+    throw new Error("Unexpected embedding response shape.");
+  }
+
+  private meanPool(mat: number[][]): number[] {
+    const rows = mat.length;
+    const cols = rows ? mat[0].length : 0;
+    const sum = new Array(cols).fill(0);
+    for (let r = 0; r < rows; r++) for (let c = 0; c < cols; c++) sum[c] += mat[r][c] || 0;
+    for (let c = 0; c < cols; c++) sum[c] /= rows || 1;
+    return sum;
+  }
+
+  private l2norm = (v: number[]): number[] => {
+    let s = 0;
+    for (let i = 0; i < v.length; i++) s += v[i] * v[i];
+    s = Math.sqrt(s) || 1;
+    return v.map(x => x / s);
+  };
+}
+
+/* ------------------------------------------------------------------ */
+/* Local (in-process)                                                 */
+/* ------------------------------------------------------------------ */
+/**
+ * transformers.js configured from the EMBEDDING_LOCAL_* env; shared with the
+ * local cross-encoder reranker, which loads weights from the same places.
+ */
+export async function loadTransformers() {
+  const transformers = await import("@xenova/transformers");
+  const { env } = transformers;
+  if (process.env.EMBEDDING_LOCAL_CACHE_DIR) env.cacheDir = process.env.EMBEDDING_LOCAL_CACHE_DIR;
+  if (process.env.EMBEDDING_LOCAL_MODEL_PATH) env.localModelPath = process.env.EMBEDDING_LOCAL_MODEL_PATH;
+  // offline deployments ship the weights and turn downloads off
+  env.allowRemoteModels = process.env.EMBEDDING_LOCAL_ALLOW_REMOTE !== "false";
+  return transformers;
+}
+
+export const LOCAL_QUANTIZED = process.env.EMBEDDING_LOCAL_QUANTIZED === "true";
+
+// one pipeline per ONNX model per process; loading takes seconds
+const pipelines = new Map<string, Promise<FeatureExtractionPipeline>>();
+
+function loadPipeline(model: string): Promise<FeatureExtractionPipeline> {
+  let pending = pipelines.get(model);
+  if (!pending) {
+    pending = (async () => {
+      const { pipeline } = await loadTransformers();
+      return pipeline("feature-extraction", model, { quantized: LOCAL_QUANTIZED });
+    })();
+    // a failed load (e.g. weights missing offline) is retried on the next call
+    pending.catch(() => pipelines.delete(model));
+    pipelines.set(model, pending);
+  }
+  return pending;
+}
+
+/**
+ * Runs an `EMBEDDING_MODELS` model on CPU via its ONNX build, pooled the way
+ * the model was trained (mean for E5, CLS for BGE / GTE).
+ */
+export class LocalEmbeddings implements Embedder {
+  private model: string;
+  private onnxModel: string;
+  private pooling: "mean" | "cls";
+  private normalize: boolean;
+  private batchSize: number;
+
+  constructor(options: { model?: string; normalize?: boolean; batchSize?: number } = {}) {
+    this.model = options.model || "intfloat/e5-base-v2";
+    const known = (LOCAL_EMBEDDING_MODELS as Record<string, { model: string; pooling: "mean" | "cls" }>)[this.model];
+    // anything outside the catalog is taken to be an ONNX repo id
+    this.onnxModel = known?.model ?? this.model;
+    this.pooling = known?.pooling ?? "mean";
+    this.normalize = options.normalize ?? true;
+    this.batchSize = Math.max(1, options.batchSize ?? 8);
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    const [v] = await this._embed([prefixForModel(this.model, text, true)]);
+    return v;
+  }
+
+  async embedDocuments(texts: string[]): Promise<number[][]> {
+    return this._embed(texts.map(t => prefixForModel(this.model, t, false)));
+  }
+
+  private async _embed(texts: string[]): Promise<number[][]> {
+    if (!texts.length) return [];
+    let extractor: FeatureExtractionPipeline;
+    try {
+      extractor = await loadPipeline(this.onnxModel);
+    } catch (e: unknown) {
+      throw new Error(`Local embedding model "${this.onnxModel}" could not be loaded: ${(e as Error)?.message || String(e)}`);
+    }
+
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i += this.batchSize) {
+      const output = await extractor(texts.slice(i, i + this.batchSize), {
+        pooling: this.pooling,
+        normalize: this.normalize,
+      });
+      vectors.push(...(output.tolist() as number[][]));
+    }
+    return vectors;
+  }
+}
+
+/* ------------------------------------------------------------------ */
+/* Cache                                                              */
+/* ------------------------------------------------------------------ */
+/** Embeds only the texts `model` has not embedded before (see lib/embedding-cache.ts). */
+export class CachedEmbeddings implements Embedder {
+  private cache = EmbeddingCache.getInstance();
+
+  constructor(readonly inner: Embedder, private model: string, private variant: string) {}
+
+  async embedQuery(text: string): Promise<number[]> {
+    const [v] = await this.embed([text], true);
+    return v;
+  }
+
+  async embedDocuments(texts: string[]): Promise<number[][]> {
+    return this.embed(texts, false);
+  }
+
+  private async embed(texts: string[], isQuery: boolean): Promise<number[][]> {
+    if (!texts.length) return [];
+    const mode = prefixMode(this.model, isQuery);
+    const cached = await this.cache.getMany(this.variant, this.model, mode, texts);
+    const misses = cached.filter((v) => !v).length;
+
+    // identical texts in one batch are embedded once
+    const missing = Array.from(new Set(texts.filter((_, i) => !cached[i])));
+    if (missing.length) {
+      const vectors = isQuery
+        ? await Promise.all(missing.map((t) => this.inner.embedQuery(t)))
+        : await this.inner.embedDocuments(missing);
+      const fresh = new Map(missing.map((t, i) => [t, vectors[i]]));
+      texts.forEach((t, i) => {
+        if (!cached[i]) cached[i] = fresh.get(t)!;
+      });
+      await this.cache.setMany(
+        this.variant,
+        this.model,
+        mode,
+        missing.map((text, i) => ({ text, vector: vectors[i] }))
+      );
+    }
+
+    await this.cache.recordLookup(this.model, texts.length - misses, misses);
+    return cached as number[][];
+  }
+}
+
+/** The backend running a model, and its quantization for local ONNX builds: the same model differs across them. */
+export function embeddingVariant(backend: EmbeddingBackend): string {
+  return backend === "local" && LOCAL_QUANTIZED ? "local-quantized" : backend;
+}
+
+/** The embedder behind the cache; health checks must reach the model. */
+export function uncached(embedder: Embedder): Embedder {
+  return embedder instanceof CachedEmbeddings ? embedder.inner : embedder;
+}
+
+/** Embedder for `cfg.model` on the configured backend, behind the embedding cache unless EMBEDDING_CACHE=false. */
+export function createEmbeddings(cfg: Pick<EmbeddingConfig, "model" | "backend" | "batchSize">): Embedder {
+  const backend = cfg.backend ?? DEFAULT_EMBEDDING_BACKEND;
+  const embedder =
+    backend === "local"
+      ? new LocalEmbeddings({ model: cfg.model, batchSize: cfg.batchSize })
+      : new HuggingFaceEmbeddings({ model: cfg.model });
+  return EmbeddingCache.enabled() ? new CachedEmbeddings(embedder, cfg.model, embeddingVariant(backend)) : embedder;
+}
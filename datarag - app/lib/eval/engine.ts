@@ -1,8 +1,13 @@
 // lib/eval/engine.ts
-import { ChatGroq } from "@langchain/groq";
 import { HumanMessage } from "@langchain/core/messages";
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
 import { createChatAgent, AIAgent, MemoryManager } from "@/lib/agent";
 import prismadb from "@/lib/prismadb";
+import { createChatModel } from "@/lib/llm/providers";
+import { saveUsageHistory, trackUsage } from "@/lib/llm/usage";
+import { getPrompt, mergePromptVersions, withPromptScope } from "@/lib/prompts/registry";
+import type { UsageSummary } from "@/types/models";
+import type { PromptVersions, StageModels } from "@/types/chat";
 
 /* ------------------------------------------------------------------ */
 /* Types                                                              */
@@ -33,6 +38,8 @@ export interface EvaluationConfig {
   enablePerformanceTracking: boolean;
   saveDetailedMetrics: boolean;
   enableAnalytics: boolean;
+  /** Models for the non-chat stages of the agents under test (SQL, rerank, intent). */
+  stageModels?: StageModels;
 }
 
 export interface EvaluationResult {
@@ -68,72 +75,9 @@ export interface EvaluationResult {
   }>;
 }
 
-/* ------------------------------------------------------------------ */
-/* LLM judge prompts                                                  */
-/* ------------------------------------------------------------------ */
-const JUDGE_PROMPTS: Record<string, string> = {
-  relevance: `You are an expert evaluator. Rate how relevant the generated answer is to the given question on a scale of 0.0 to 1.0.
-
-Question: {question}
-Generated Answer: {answer}
-Ground Truth: {groundTruth}
-
-Consider:
-- Does the answer address the question directly?
-- Is the information provided relevant and on-topic?
-- Are there irrelevant details that detract from the answer?
-
-Respond with only a number between 0.0 and 1.0:`,
-
-  accuracy: `You are an expert evaluator. Rate how accurate the generated answer is compared to the ground truth on a scale of 0.0 to 1.0.
-
-Question: {question}
-Generated Answer: {answer}
-Ground Truth: {groundTruth}
-
-Consider:
-- Are the facts stated correctly?
-- Is the information consistent with the ground truth?
-- Are there any factual errors or misleading statements?
-
-Respond with only a number between 0.0 and 1.0:`,
-
-  completeness: `You are an expert evaluator. Rate how complete the generated answer is on a scale of 0.0 to 1.0.
-
-Question: {question}
-Generated Answer: {answer}
-Ground Truth: {groundTruth}
-
-Consider:
-- Does the answer cover all important aspects mentioned in the ground truth?
-- Are there significant gaps or missing information?
-- Is the depth of information appropriate for the question?
-
-Respond with only a number between 0.0 and 1.0:`,
-
-  coherence: `You are an expert evaluator. Rate how coherent and well-structured the generated answer is on a scale of 0.0 to 1.0.
-
-Question: {question}
-Generated Answer: {answer}
-
-Consider:
-- Is the answer logically structured?
-- Does it flow well from one point to another?
-- Is the language clear and easy to understand?
-- Are there contradictions or confusing elements?
-
-Respond with only a number between 0.0 and 1.0:`,
-};
-
-
-
 /* ------------------------------------------------------------------ */
 /* Helpers: tokenization & classic metrics                             */
 /* ------------------------------------------------------------------ */
-function normalizeGroqModelId(id: string): string {
-  return id.startsWith("groq/") ? id.replace(/^groq\//, "") : id;
-}
-
 function safeParseScore(text: any, fallback = 0.7): number {
   const n = parseFloat(String(text).trim());
   if (Number.isNaN(n)) return fallback;
@@ -257,11 +201,29 @@ function boolish(s: string): "yes" | "no" | null {
   return null;
 }
 
+/** Sum the token usage recorded on evaluation results (`metadata.usage`). */
+export function usageTotals(results: EvaluationResult[]): { totalTokens: number; estimatedCost: number } {
+  return results.reduce(
+    (acc, r) => {
+      const u = r.metadata?.usage as UsageSummary | undefined;
+      acc.totalTokens += u?.totalTokens ?? 0;
+      acc.estimatedCost += u?.estimatedCost ?? 0;
+      return acc;
+    },
+    { totalTokens: 0, estimatedCost: 0 }
+  );
+}
+
+/** Prompt template versions used across evaluation results (`metadata.promptVersions`). */
+export function promptVersionsOf(results: EvaluationResult[]): PromptVersions {
+  return mergePromptVersions(results.map((r) => r.metadata?.promptVersions as PromptVersions | undefined));
+}
+
 /* ------------------------------------------------------------------ */
 /* Engine                                                              */
 /* ------------------------------------------------------------------ */
 export class EvaluationEngine {
-  private judgeModel: ChatGroq | null = null;
+  private judgeModel: BaseChatModel | null = null;
   private memoryManager: MemoryManager | null = null;
   private userId: string;
   private sessionId: string;
@@ -271,9 +233,8 @@ export class EvaluationEngine {
     this.sessionId = `eval-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 
     if (config.useJudgeLLM) {
-      this.judgeModel = new ChatGroq({
-        apiKey: process.env.GROQ_API_KEY,
-        model: normalizeGroqModelId(config.judgeModel),
+      this.judgeModel = createChatModel(config.judgeModel, {
+        purpose: "judge",
         temperature: 0.1,
         maxTokens: 100,
       });
@@ -299,6 +260,13 @@ export class EvaluationEngine {
     const avgScore = modelResults.reduce((s, r) => s + r.scores.overall, 0) / modelResults.length;
     const avgExecutionTime = modelResults.reduce((s, r) => s + r.executionTime, 0) / modelResults.length;
 
+    const { totalTokens, estimatedCost } = usageTotals(modelResults);
+    const costFields = {
+      totalTokensUsed: totalTokens,
+      estimatedCost,
+      costPerToken: totalTokens > 0 ? estimatedCost / totalTokens : null,
+    };
+
     const componentScores = {
       retrievalScore: modelResults.reduce((s, r) => s + r.scores.retrieval, 0) / modelResults.length,
       augmentationScore: modelResults.reduce((s, r) => s + r.scores.augmentation, 0) / modelResults.length,
@@ -324,6 +292,7 @@ export class EvaluationEngine {
           avgExecutionTime,
           lastEvaluated: new Date(),
           ...componentScores,
+          ...costFields,
         },
         create: {
           userId: this.userId,
@@ -334,6 +303,7 @@ export class EvaluationEngine {
           avgExecutionTime,
           lastEvaluated: new Date(),
           ...componentScores,
+          ...costFields,
         },
       });
     } catch (error) {
@@ -401,31 +371,29 @@ export class EvaluationEngine {
   }
 
   /**
-   * Save query history for evaluation queries
+   * Save query history (with token usage) for evaluation queries
    */
   private async saveQueryHistory(
     query: string,
     success: boolean,
     executionTime: number,
+    usage: UsageSummary,
+    modelUsed: string,
     resultCount?: number,
     errorMessage?: string
   ): Promise<void> {
-    try {
-      await prismadb.queryHistory.create({
-        data: {
-          userId: this.userId,
-          sessionId: this.sessionId,
-          query,
-          success,
-          executionTime,
-          resultCount: resultCount || 0,
-          errorMessage,
-          context: "evaluation",
-        },
-      });
-    } catch (error) {
-      console.warn("Failed to save query history:", error);
-    }
+    await saveUsageHistory({
+      userId: this.userId,
+      sessionId: this.sessionId,
+      query,
+      queryType: "evaluation",
+      success,
+      modelUsed,
+      executionTime,
+      resultCount: resultCount || 0,
+      errorMessage,
+      usage,
+    });
   }
 
   /**
@@ -677,12 +645,9 @@ export class EvaluationEngine {
 
     let rel = 0.8, acc = 0.8, comp = 0.8, coh = 0.8;
     if (this.config.testGeneration && this.config.useJudgeLLM && this.judgeModel) {
-      const ask = async (name: keyof typeof JUDGE_PROMPTS) => {
+      const ask = async (name: "relevance" | "accuracy" | "completeness" | "coherence") => {
         try {
-          const prompt = JUDGE_PROMPTS[name]
-            .replace("{question}", question)
-            .replace("{answer}", answer || "")
-            .replace("{groundTruth}", gold || "");
+          const prompt = await getPrompt(`judge.${name}`, { question, answer: answer || "", groundTruth: gold || "" });
           const res = await this.judgeModel!.invoke([new HumanMessage(prompt)]);
           return safeParseScore((res as any).content, 0.7);
         } catch {
@@ -700,10 +665,39 @@ export class EvaluationEngine {
   }
 
   /* ----------------------------- Orchestration ----------------------------- */
+  /**
+   * Evaluate one test case; token usage of the answer, reranking, intent and
+   * judge calls is attached as `metadata.usage` and saved to query history,
+   * the prompt template versions used as `metadata.promptVersions`.
+   */
   async evaluateTestCase(
     agent: AIAgent,
     test: EvaluationDataPoint,
     model: string
+  ): Promise<EvaluationResult> {
+    const { value: scoped, usage } = await trackUsage(() =>
+      withPromptScope(this.userId, () => this.runTestCase(agent, test, model))
+    );
+    const result = scoped.value;
+    result.metadata = { ...result.metadata, usage, promptVersions: scoped.versions };
+
+    await this.saveQueryHistory(
+      test.question,
+      !result.metadata.error,
+      result.executionTime,
+      usage,
+      result.metadata.modelUsed || model,
+      result.retrievedContexts?.length,
+      result.metadata.error
+    );
+
+    return result;
+  }
+
+  private async runTestCase(
+    agent: AIAgent,
+    test: EvaluationDataPoint,
+    model: string
   ): Promise<EvaluationResult> {
     const start = Date.now();
 
@@ -790,14 +784,6 @@ export class EvaluationEngine {
       const overall = (ret.score + aug.score + gen.score) / 3;
       const executionTime = Date.now() - start;
 
-      // Save query history
-      await this.saveQueryHistory(
-        test.question,
-        true,
-        executionTime,
-        retrievedContexts.length
-      );
-
       // Log successful completion
       await this.logAnalyticsEvent('evaluation_test_complete', {
         testId: test.id,
@@ -844,15 +830,6 @@ export class EvaluationEngine {
     } catch (err: any) {
       const executionTime = Date.now() - start;
 
-      // Save failed query
-      await this.saveQueryHistory(
-        test.question,
-        false,
-        executionTime,
-        0,
-        err?.message
-      );
-
       // Log error
       await this.logAnalyticsEvent('evaluation_test_error', {
         testId: test.id,
@@ -911,6 +888,9 @@ export class EvaluationEngine {
           useKnowledgeBase: true,
           useDatabase: true,
           useReranking: true,
+          recordUsage: false, // usage is saved per test case instead
+          useResponseCache: false, // every run must exercise the full pipeline
+          stageModels: this.config.stageModels,
         });
 
         const modelResults: EvaluationResult[] = [];
@@ -0,0 +1,212 @@
+// lib/hybrid-search.ts
+// Keyword side of retrieval. Document chunks and knowledge base entries are
+// also written to a Postgres full-text index, so exact tokens embeddings tend
+// to blur (ICAO codes, decision numbers, part numbers) still find their chunk.
+// Keyword and vector rankings are merged with weighted reciprocal rank fusion:
+// score = Σ weight / (k + rank), which needs no score calibration between the two.
+import { Document } from "@langchain/core/documents";
+
+import prismadb from "@/lib/prismadb";
+import { filterSql } from "@/lib/vector-store/filter";
+import type { FusionBreakdown } from "@/types/chat";
+import type { HybridSearchConfig } from "@/types/document";
+import type { MetadataUpdate, VectorFilter, VectorMatch } from "@/types/vector";
+
+const TABLE = `"public"."keyword_chunks"`;
+
+export const DEFAULT_HYBRID_SEARCH: HybridSearchConfig = {
+  enabled: process.env.HYBRID_SEARCH !== "false",
+  vectorWeight: Number(process.env.HYBRID_VECTOR_WEIGHT ?? 1),
+  keywordWeight: Number(process.env.HYBRID_KEYWORD_WEIGHT ?? 1),
+  rrfK: Number(process.env.HYBRID_RRF_K ?? 60),
+};
+
+// Too common to narrow anything down; the rest of the query is OR-ed together
+const STOPWORDS = new Set(
+  (
+    "a an and are as at be by can do does for from how i in is it me my no not of on or our " +
+    "show tell than that the their there these this to was we what when where which who why " +
+    "will with you your"
+  ).split(" ")
+);
+
+// letters and digits of any script; built at runtime since the compile target predates the u flag
+const WORD = new RegExp("[\\p{L}\\p{N}]+", "gu");
+
+/** Lowercased runs of letters and digits in `text`, whatever the script. */
+export function words(text: string): string[] {
+  return text.toLowerCase().match(WORD) ?? [];
+}
+
+/** tsquery matching any meaningful term of `query`, or null when none is left. */
+export function toKeywordQuery(query: string): string | null {
+  const terms = words(query).filter(
+    (t) => (t.length > 1 || /\d/.test(t)) && !STOPWORDS.has(t)
+  );
+  const unique = Array.from(new Set(terms));
+  // terms are letters and digits only, so quoting them is enough
+  return unique.length ? unique.map((t) => `'${t}'`).join(" | ") : null;
+}
+
+let warnedUnavailable = false;
+
+function warnOnce(action: string, e: unknown) {
+  // no table yet or database down: retrieval falls back to vectors only
+  if (warnedUnavailable) return;
+  warnedUnavailable = true;
+  console.warn(`Keyword index unavailable (${action}), using vector search only:`, e);
+}
+
+/* ------------------------------------------------------------------ */
+/* Index                                                              */
+/* ------------------------------------------------------------------ */
+/** Upsert `documents` under the same ids their vectors were written with. */
+export async function indexKeywords(namespace: string, documents: Document[], ids: string[]) {
+  if (!documents.length) return;
+  try {
+    await prismadb.$transaction(
+      documents.map((doc, i) =>
+        prismadb.$executeRawUnsafe(
+          `INSERT INTO ${TABLE} ("namespace", "id", "content", "metadata")
+           VALUES ($1, $2, $3, $4::jsonb)
+           ON CONFLICT ("namespace", "id") DO UPDATE
+           SET "content" = EXCLUDED."content", "metadata" = EXCLUDED."metadata"`,
+          namespace,
+          ids[i],
+          doc.pageContent,
+          JSON.stringify(doc.metadata ?? {})
+        )
+      )
+    );
+  } catch (e) {
+    warnOnce("write", e);
+  }
+}
+
+/** Best keyword matches in `namespace`, scored with ts_rank_cd (higher is better). */
+export async function searchKeywords(
+  namespace: string,
+  query: string,
+  k: number,
+  filter?: VectorFilter
+): Promise<VectorMatch[]> {
+  const tsquery = toKeywordQuery(query);
+  if (!tsquery) return [];
+  const params: unknown[] = [namespace, tsquery];
+  const where = filterSql(filter, params);
+  params.push(Math.max(1, Math.floor(k)));
+
+  try {
+    type Row = { id: string; content: string; metadata: Record<string, unknown>; score: number };
+    // normalization 1 divides by 1 + log(length) so long chunks do not win on size alone
+    const rows: Row[] = await prismadb.$queryRawUnsafe(
+      `SELECT "id", "content", "metadata", ts_rank_cd("search", q, 1) AS score
+       FROM ${TABLE}, to_tsquery('simple', $2) q
+       WHERE "namespace" = $1 AND "search" @@ q${where}
+       ORDER BY score DESC
+       LIMIT $${params.length}`,
+      ...params
+    );
+    return rows.map((r): VectorMatch => [new Document({ id: r.id, pageContent: r.content, metadata: r.metadata }), Number(r.score)]);
+  } catch (e) {
+    warnOnce("search", e);
+    return [];
+  }
+}
+
+/** Delete by ids, by metadata filter, or the whole namespace when neither is given. */
+export async function deleteKeywords(namespace: string, options: { ids?: string[]; filter?: VectorFilter } = {}) {
+  const params: unknown[] = [namespace];
+  let where = "";
+  if (options.ids?.length) {
+    params.push(options.ids);
+    where = ` AND "id" = ANY ($2::text[])`;
+  } else {
+    where = filterSql(options.filter, params);
+  }
+  try {
+    await prismadb.$executeRawUnsafe(`DELETE FROM ${TABLE} WHERE "namespace" = $1${where}`, ...params);
+  } catch (e) {
+    warnOnce("delete", e);
+  }
+}
+
+/** Merge fields into the metadata of indexed entries, as on their vectors. */
+export async function updateKeywordMetadata(namespace: string, updates: MetadataUpdate[]) {
+  if (!updates.length) return;
+  try {
+    await prismadb.$transaction(
+      updates.map(({ id, metadata }) =>
+        prismadb.$executeRawUnsafe(
+          `UPDATE ${TABLE} SET "metadata" = "metadata" || $3::jsonb WHERE "namespace" = $1 AND "id" = $2`,
+          namespace,
+          id,
+          JSON.stringify(metadata)
+        )
+      )
+    );
+  } catch (e) {
+    warnOnce("update", e);
+  }
+}
+
+/** Id of every entry in `namespace` (matching `filter`) and the document it came from, if any. */
+export async function listKeywordEntries(
+  namespace: string,
+  filter?: VectorFilter
+): Promise<{ id: string; documentId: string | null }[]> {
+  const params: unknown[] = [namespace];
+  const where = filterSql(filter, params);
+  try {
+    return await prismadb.$queryRawUnsafe(
+      `SELECT "id", "metadata"->>'documentId' AS "documentId" FROM ${TABLE} WHERE "namespace" = $1${where}`,
+      ...params
+    );
+  } catch (e) {
+    warnOnce("list", e);
+    return [];
+  }
+}
+
+/* ------------------------------------------------------------------ */
+/* Fusion                                                             */
+/* ------------------------------------------------------------------ */
+export interface FusedMatch {
+  document: Document;
+  fusion: FusionBreakdown;
+}
+
+/**
+ * Merge vector and keyword rankings with weighted reciprocal rank fusion.
+ * Results are matched on their text, since the two sides may not share ids
+ * (e.g. Pinecone ids of older chunks); the vector side's document is kept.
+ */
+export function reciprocalRankFusion(
+  vector: VectorMatch[],
+  keyword: VectorMatch[],
+  cfg: HybridSearchConfig = DEFAULT_HYBRID_SEARCH
+): FusedMatch[] {
+  const fused = new Map<string, FusedMatch>();
+  const entry = (doc: Document) => {
+    let m = fused.get(doc.pageContent);
+    if (!m) fused.set(doc.pageContent, (m = { document: doc, fusion: { score: 0 } }));
+    return m;
+  };
+
+  vector.forEach(([doc, score], i) => {
+    const m = entry(doc);
+    if (m.fusion.vectorRank) return;
+    m.fusion.vectorRank = i + 1;
+    m.fusion.vectorScore = score;
+    m.fusion.score += cfg.vectorWeight / (cfg.rrfK + i + 1);
+  });
+  keyword.forEach(([doc, score], i) => {
+    const m = entry(doc);
+    if (m.fusion.keywordRank) return;
+    m.fusion.keywordRank = i + 1;
+    m.fusion.keywordScore = score;
+    m.fusion.score += cfg.keywordWeight / (cfg.rrfK + i + 1);
+  });
+
+  return Array.from(fused.values()).sort((a, b) => b.fusion.score - a.fusion.score);
+}
@@ -0,0 +1,40 @@
+// lib/knowledge-embedding.ts
+// What a knowledge base entry is embedded as: the same text and vector
+// metadata whether the entry is being created or re-embedded by a re-index.
+import type { KnowledgeBaseEntry } from "@prisma/client";
+
+type EntryFields = Pick<KnowledgeBaseEntry, "id" | "title" | "content" | "category" | "userId" | "isPublic" | "metadata" | "createdAt">;
+
+/** Vector id of an entry; stable, so re-embedding overwrites instead of duplicating. */
+export const knowledgeVectorId = (entryId: string) => `kb_${entryId}`;
+
+export function knowledgeEmbeddingInput(entry: EntryFields, tags: string[]) {
+  let stored: Record<string, unknown> = {};
+  try {
+    stored = entry.metadata ? JSON.parse(entry.metadata) : {};
+  } catch {
+    // free-text metadata carries nothing for the vector
+  }
+
+  const metadata: Record<string, unknown> = {
+    kbEntryId: entry.id,
+    userId: entry.userId,
+    title: entry.title,
+    category: entry.category,
+    tags,
+    sourceUrl: stored.sourceUrl,
+    // namespace doc id for vector store – ties all chunks to this entry
+    documentId: stored.documentId || `kb:${entry.id}`,
+    chunkIndex: stored.chunkIndex,
+    chunkCount: stored.chunkCount,
+    isPublic: entry.isPublic,
+    // epoch ms, so date-scoped chats can range-filter on it
+    createdAt: new Date(entry.createdAt).getTime(),
+  };
+  // Pinecone rejects null metadata values
+  for (const key of Object.keys(metadata)) {
+    if (metadata[key] === null || metadata[key] === undefined) delete metadata[key];
+  }
+
+  return { text: [entry.title, entry.content].filter(Boolean).join("\n\n"), metadata };
+}
@@ -0,0 +1,203 @@
+// lib/llm/fake.ts
+// Deterministic offline chat model. Recognises the prompts the app sends
+// (intent detection, SQL generation, the SQL agent, reranking, eval judging)
+// and answers them with rule-based output, so pipelines run without any
+// provider key.
+import fs from "fs";
+import { SimpleChatModel, type BaseChatModelParams } from "@langchain/core/language_models/chat_models";
+import type { BaseMessage } from "@langchain/core/messages";
+import type { LLMProvider } from "@/lib/llm/providers";
+
+/* ------------------------------------------------------------------ */
+/* Scripted responses (FAKE_LLM_SCRIPT=path/to/script.json)           */
+/* ------------------------------------------------------------------ */
+// Script format: [{ "match": "<regex>", "response": "<text>" }, ...]
+type ScriptRule = { match: RegExp; response: string };
+
+let script: ScriptRule[] | null = null;
+
+function loadScript(): ScriptRule[] {
+  if (script) return script;
+  script = [];
+  const path = process.env.FAKE_LLM_SCRIPT;
+  if (!path) return script;
+  try {
+    const raw = JSON.parse(fs.readFileSync(path, "utf8"));
+    if (Array.isArray(raw)) {
+      script = raw
+        .filter((r) => r && typeof r.match === "string" && typeof r.response === "string")
+        .map((r) => ({ match: new RegExp(r.match, "i"), response: r.response }));
+    }
+  } catch (e) {
+    console.warn(`[fake-llm] could not load script ${path}:`, e);
+  }
+  return script;
+}
+
+/* ------------------------------------------------------------------ */
+/* Rules                                                              */
+/* ------------------------------------------------------------------ */
+const DB_KEYWORDS =
+  /\b(top|busiest|most|least|count|how many|average|avg|total|sum|rank|ranking|list|delay|delays|flights?|routes?|passengers?|statistics|stats|traffic|per (day|month|year))\b/i;
+
+const tokens = (s: string) =>
+  new Set(
+    s
+      .toLowerCase()
+      .replace(/[^a-z0-9\s]/g, " ")
+      .split(/\s+/)
+      .filter((w) => w.length > 2)
+  );
+
+/** Share of `a`'s terms that also appear in `b`, in [0, 1]. */
+function overlap(a: string, b: string): number {
+  const ta = tokens(a);
+  if (!ta.size) return 0;
+  const tb = tokens(b);
+  let hit = 0;
+  ta.forEach((w) => {
+    if (tb.has(w)) hit++;
+  });
+  return hit / ta.size;
+}
+
+const score = (n: number) => Math.max(0, Math.min(1, n)).toFixed(2);
+
+const field = (text: string, label: string) => {
+  const m = text.match(new RegExp(`${label}:\\s*([\\s\\S]*?)(?:\\n[A-Z][A-Za-z ]+:|$)`));
+  return m ? m[1].trim() : "";
+};
+
+function intentResponse(user: string): string {
+  const query = user.replace(/^Query:\s*/, "").replace(/^"|"$/g, "");
+  const isDbQuery = DB_KEYWORDS.test(query);
+  return JSON.stringify({
+    isDbQuery,
+    confidence: isDbQuery ? 0.9 : 0.8,
+    reasoning: isDbQuery ? "Mentions data-oriented terms." : "No data-oriented terms found.",
+  });
+}
+
+function rerankResponse(user: string): string {
+  const query = (user.match(/Query:\s*"([\s\S]*?)"/) || [])[1] || "";
+  const parts = user.split(/\n(?=Document \d+:)/).slice(1);
+  const scores = parts.map((part) => {
+    const n = Number((part.match(/^Document (\d+):/) || [])[1]);
+    const body = part.replace(/^Document \d+:\s*/, "");
+    return { document: n, score: Number(score(0.3 + 0.7 * overlap(query, body))) };
+  });
+  return JSON.stringify({ scores });
+}
+
+// Query transformations: the rewrite is the question itself, paraphrases and
+// the HyDE passage reword it deterministically
+function queryTransformResponse(system: string, user: string): string {
+  const query = ((user.match(/(?:Latest question|Query):\s*([\s\S]*)$/) || [])[1] || user).trim();
+  if (/alternative search queries/.test(system)) {
+    const count = Number((system.match(/(\d+)/) || [])[1]) || 3;
+    return JSON.stringify(
+      ["Information about", "Details on", "Overview of"].slice(0, count).map((lead) => `${lead} ${query}`)
+    );
+  }
+  if (/short passage/.test(system)) return `This document describes ${query}.`;
+  return query;
+}
+
+function sqlResponse(user: string): string {
+  const table = (user.match(/^Table:\s*`?(\w+)`?/m) || [])[1] || "dim_airports";
+  const sql = `SELECT * FROM ${table} LIMIT 50`;
+  return /\{"query"/.test(user) ? JSON.stringify({ query: sql }) : sql;
+}
+
+// Walks the SQL agent through list → describe → execute → answer
+function sqlAgentResponse(user: string): string {
+  const observations = user.split(/Observation \(step \d+\/\d+\):\n/).slice(1);
+  const act = (thought: string, action: string, input: Record<string, unknown>) =>
+    JSON.stringify({ thought, action, input });
+
+  if (observations.length === 0) return act("Find the available tables.", "list_tables", {});
+
+  if (observations.length === 1) {
+    let tables: string[] = [];
+    try {
+      tables = JSON.parse(observations[0]);
+    } catch {
+      // not a table list (e.g. a connection error)
+    }
+    const table =
+      tables.find((t) => /flight/i.test(t)) || tables.find((t) => /airline|airport/i.test(t)) || tables[0] || "dim_airports";
+    return act(`Inspect ${table}.`, "describe_table", { table_name: table });
+  }
+
+  if (observations.length === 2) {
+    const table = (observations[1].match(/"table":\s*"(\w+)"/) || [])[1] || "dim_airports";
+    return act(`Query ${table}.`, "execute_sql", { sql_query: `SELECT * FROM ${table} LIMIT 50` });
+  }
+
+  const rows = (observations[observations.length - 1].match(/"row_count":\s*(\d+)/) || [])[1];
+  return act("The query answered the question.", "final_answer", {
+    answer: rows ? `The query returned ${rows} rows.` : "No rows could be retrieved.",
+  });
+}
+
+function judgeResponse(user: string): string {
+  const answer = field(user, "Generated Answer") || field(user, "CHUNK") || field(user, "AUGMENTED CONTEXT");
+  const reference = field(user, "Ground Truth") || field(user, "Question") || field(user, "QUESTION");
+  if (!answer) return "0.50";
+  if (!reference) return "0.75";
+  return score(0.4 + 0.6 * overlap(reference, answer));
+}
+
+function chatResponse(user: string, modelName: string): string {
+  const question = user.trim().split("\n").pop() || "";
+  return `Offline response (${modelName}). You asked: "${question.slice(0, 200)}"`;
+}
+
+export function fakeRespond(messages: BaseMessage[], modelName = "fake"): string {
+  const system = messages
+    .filter((m) => m._getType() === "system")
+    .map((m) => String(m.content))
+    .join("\n");
+  const user = messages
+    .filter((m) => m._getType() !== "system")
+    .map((m) => String(m.content))
+    .join("\n");
+  const all = `${system}\n${user}`;
+
+  const scripted = loadScript().find((r) => r.match.test(all));
+  if (scripted) return scripted.response;
+
+  if (/You are a SQL agent/.test(system)) return sqlAgentResponse(user);
+  if (/classifying user queries/i.test(system)) return intentResponse(user);
+  if (/Reply with JSON only: \{"scores"/.test(user)) return rerankResponse(user);
+  if (/^You (rewrite search queries|write alternative search queries|write a short passage)/.test(system))
+    return queryTransformResponse(system, user);
+  if (/\{"query"|Generate a MySQL SELECT query/i.test(user)) return sqlResponse(user);
+  if (/(number between 0\.0 and 1\.0|Only the number|Number only)/i.test(user)) return judgeResponse(user);
+  return chatResponse(user, modelName);
+}
+
+/* ------------------------------------------------------------------ */
+/* Model + provider                                                   */
+/* ------------------------------------------------------------------ */
+export class FakeChatModel extends SimpleChatModel {
+  constructor(readonly modelName = "fake", fields: BaseChatModelParams = {}) {
+    super(fields);
+  }
+
+  _llmType() {
+    return "fake";
+  }
+
+  async _call(messages: BaseMessage[]): Promise<string> {
+    return fakeRespond(messages, this.modelName);
+  }
+}
+
+export const fakeProvider: LLMProvider = {
+  id: "fake",
+  isConfigured: () => true,
+  createChatModel: (model, opts) => new FakeChatModel(model, { callbacks: opts.callbacks }),
+  transcribe: async (model, audio) =>
+    process.env.FAKE_TRANSCRIPT || `Offline transcript (${model}, ${audio.size} bytes of audio)`,
+};
@@ -0,0 +1,139 @@
+// lib/llm/fallback.ts
+// Per-purpose model fallback chains with an in-process circuit breaker.
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+
+import { MODEL_FALLBACK_CHAINS, type ModelPurpose } from "@/config/models";
+import {
+  createChatModel,
+  resolveModelForPurpose,
+  type ChatModelOptions,
+  type ResolvedModel,
+} from "@/lib/llm/providers";
+
+/* ------------------------------------------------------------------ */
+/* Types                                                              */
+/* ------------------------------------------------------------------ */
+export interface FallbackAttempt {
+  model: string;
+  error: string;
+}
+
+export interface FallbackResult<T> {
+  value: T;
+  /** Model that actually produced `value`. */
+  model: ResolvedModel;
+  requestedModel: string;
+  /** Models that failed (or were skipped by the breaker) before `model`. */
+  attempts: FallbackAttempt[];
+}
+
+/* ------------------------------------------------------------------ */
+/* Circuit breaker                                                    */
+/* ------------------------------------------------------------------ */
+const FAILURE_THRESHOLD = 3;
+const COOLDOWN_MS = 60_000;
+
+type BreakerState = { failures: number; openUntil: number };
+const breakers = new Map<string, BreakerState>();
+
+function isOpen(modelId: string): boolean {
+  const b = breakers.get(modelId);
+  // after the cooldown the breaker is half-open: one call is let through
+  return !!b && b.failures >= FAILURE_THRESHOLD && Date.now() < b.openUntil;
+}
+
+function recordSuccess(modelId: string) {
+  breakers.delete(modelId);
+}
+
+function recordFailure(modelId: string) {
+  const b = breakers.get(modelId) ?? { failures: 0, openUntil: 0 };
+  b.failures += 1;
+  if (b.failures >= FAILURE_THRESHOLD) b.openUntil = Date.now() + COOLDOWN_MS;
+  breakers.set(modelId, b);
+}
+
+export function getCircuitBreakerStatus() {
+  return Array.from(breakers.entries()).map(([model, b]) => ({
+    model,
+    failures: b.failures,
+    open: isOpen(model),
+    openUntil: b.openUntil ? new Date(b.openUntil).toISOString() : null,
+  }));
+}
+
+/* ------------------------------------------------------------------ */
+/* Chains                                                             */
+/* ------------------------------------------------------------------ */
+function chainFor(purpose: ModelPurpose): string[] {
+  const override = process.env[`LLM_${purpose.toUpperCase()}_FALLBACKS`];
+  if (override) return override.split(",").map((s) => s.trim()).filter(Boolean);
+  return [...MODEL_FALLBACK_CHAINS[purpose]];
+}
+
+/** Ordered candidates for a request: the requested model, then its fallbacks. */
+export function fallbackCandidates(modelId: string | null | undefined, purpose: ModelPurpose): ResolvedModel[] {
+  const first = resolveModelForPurpose(modelId, purpose);
+  const chain = chainFor(purpose);
+  const at = chain.indexOf(first.id);
+  const rest = at >= 0 ? chain.slice(at + 1) : chain;
+
+  const seen = new Set<string>([first.id]);
+  const out = [first];
+  for (const id of rest) {
+    const r = resolveModelForPurpose(id, purpose);
+    if (seen.has(r.id)) continue;
+    seen.add(r.id);
+    out.push(r);
+  }
+  return out;
+}
+
+/** 429, 5xx and network failures are worth retrying on another model. */
+export function isRetryableModelError(err: unknown): boolean {
+  const e = err as { status?: number; statusCode?: number; response?: { status?: number }; message?: string };
+  const status = e?.status ?? e?.statusCode ?? e?.response?.status;
+  if (typeof status === "number") return status === 408 || status === 429 || status >= 500;
+  return /rate.?limit|timeout|timed out|overloaded|unavailable|ECONNREFUSED|ECONNRESET|ENOTFOUND|fetch failed|socket hang up/i.test(
+    String(e?.message ?? err)
+  );
+}
+
+/**
+ * Run `call` against the requested model, moving down the purpose's fallback
+ * chain on retryable errors. Models with an open breaker are skipped unless
+ * every candidate is open.
+ */
+export async function withModelFallback<T>(
+  modelId: string | null | undefined,
+  purpose: ModelPurpose,
+  call: (model: BaseChatModel, resolved: ResolvedModel) => Promise<T>,
+  opts: ChatModelOptions = {}
+): Promise<FallbackResult<T>> {
+  const candidates = fallbackCandidates(modelId, purpose);
+  const attempts: FallbackAttempt[] = [];
+
+  const healthy = candidates.filter((c) => !isOpen(c.id));
+  if (healthy.length) {
+    candidates.filter((c) => isOpen(c.id)).forEach((c) => attempts.push({ model: c.id, error: "circuit open" }));
+  }
+  const queue = healthy.length ? healthy : candidates;
+
+  let lastError: unknown = null;
+  for (const candidate of queue) {
+    try {
+      const model = createChatModel(candidate.id, { ...opts, purpose });
+      const value = await call(model, candidate);
+      recordSuccess(candidate.id);
+      return { value, model: candidate, requestedModel: String(modelId || candidate.id), attempts };
+    } catch (err) {
+      lastError = err;
+      if (!isRetryableModelError(err)) throw err;
+      recordFailure(candidate.id);
+      attempts.push({ model: candidate.id, error: String((err as Error)?.message ?? err).slice(0, 200) });
+      console.warn(`[llm] ${candidate.id} failed for ${purpose}; trying next model`, (err as Error)?.message);
+    }
+  }
+
+  throw lastError ?? new Error(`No model available for ${purpose}`);
+}
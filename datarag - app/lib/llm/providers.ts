@@ -0,0 +1,317 @@
+// lib/llm/providers.ts
+// LLM provider registry: routes a model id to Groq, Ollama or any
+// OpenAI-compatible endpoint and builds the matching LangChain chat model.
+import { ChatGroq } from "@langchain/groq";
+import { ChatOllama } from "@langchain/ollama";
+import { ChatOpenAI } from "@langchain/openai";
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import type { BaseCallbackHandler } from "@langchain/core/callbacks/base";
+import { fakeProvider } from "@/lib/llm/fake";
+import { UsageCallbackHandler } from "@/lib/llm/usage";
+
+import {
+  AVAILABLE_MODELS,
+  DEFAULT_PURPOSE_MODELS,
+  DEFAULT_TRANSCRIPTION_MODEL,
+  MODEL_PROVIDERS,
+  type ModelCapability,
+  type ModelPurpose,
+} from "@/config/models";
+
+export type { ModelPurpose } from "@/config/models";
+
+/* ------------------------------------------------------------------ */
+/* Types                                                              */
+/* ------------------------------------------------------------------ */
+// Callbacks as declared by the @langchain/core copy @langchain/openai is pinned to
+type OpenAICallbacks = NonNullable<ConstructorParameters<typeof ChatOpenAI>[0]>["callbacks"];
+
+export interface ChatModelOptions {
+  temperature?: number;
+  maxTokens?: number;
+  callbacks?: BaseCallbackHandler[];
+}
+
+export interface TranscriptionOptions {
+  /** ISO-639-1 hint, e.g. "en". */
+  language?: string;
+  /** Vocabulary hint (airport codes, airline names). */
+  prompt?: string;
+}
+
+export interface LLMProvider {
+  id: string;
+  /** True when the env has what this provider needs to serve requests. */
+  isConfigured(): boolean;
+  /** `model` is the provider-native name, with any routing prefix removed. */
+  createChatModel(model: string, opts: ChatModelOptions): BaseChatModel;
+  /** Speech-to-text; providers without it cannot serve transcription models. */
+  transcribe?(model: string, audio: Blob, opts: TranscriptionOptions): Promise<string>;
+}
+
+export interface ResolvedModel {
+  /** Model id as the app refers to it (catalog key or prefixed id). */
+  id: string;
+  provider: string;
+  /** Provider-native model name. */
+  model: string;
+  name: string;
+  capabilities: readonly ModelCapability[];
+  contextWindow: number | null;
+}
+
+/* ------------------------------------------------------------------ */
+/* Built-in providers                                                 */
+/* ------------------------------------------------------------------ */
+const env = (key: string | null) => (key ? process.env[key] || undefined : undefined);
+
+/** POST to an OpenAI-style /audio/transcriptions endpoint. */
+async function transcribeOpenAIStyle(
+  url: string,
+  apiKey: string | undefined,
+  model: string,
+  audio: Blob,
+  opts: TranscriptionOptions
+): Promise<string> {
+  const form = new FormData();
+  form.append("file", audio, (audio as File).name || "audio.webm");
+  form.append("model", model);
+  form.append("response_format", "json");
+  if (opts.language) form.append("language", opts.language);
+  if (opts.prompt) form.append("prompt", opts.prompt);
+
+  const res = await fetch(url, {
+    method: "POST",
+    headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+    body: form,
+  });
+  if (!res.ok) {
+    const detail = (await res.text().catch(() => "")).slice(0, 200);
+    // `status` lets callers tell rate limits from bad audio
+    throw Object.assign(new Error(`Transcription failed (${res.status}): ${detail}`), { status: res.status });
+  }
+  const data = await res.json();
+  return String(data?.text ?? "").trim();
+}
+
+const groqProvider: LLMProvider = {
+  id: "groq",
+  isConfigured: () => !!env(MODEL_PROVIDERS.groq.apiKeyEnv),
+  createChatModel: (model, opts) =>
+    new ChatGroq({
+      apiKey: env(MODEL_PROVIDERS.groq.apiKeyEnv),
+      baseUrl: env(MODEL_PROVIDERS.groq.baseUrlEnv),
+      model,
+      temperature: opts.temperature,
+      maxTokens: opts.maxTokens,
+      callbacks: opts.callbacks,
+    }),
+  transcribe: (model, audio, opts) =>
+    transcribeOpenAIStyle(
+      `${env(MODEL_PROVIDERS.groq.baseUrlEnv) || "https://api.groq.com"}/openai/v1/audio/transcriptions`,
+      env(MODEL_PROVIDERS.groq.apiKeyEnv),
+      model,
+      audio,
+      opts
+    ),
+};
+
+const ollamaProvider: LLMProvider = {
+  id: "ollama",
+  // Ollama needs no key; it defaults to the local daemon.
+  isConfigured: () => true,
+  createChatModel: (model, opts) =>
+    new ChatOllama({
+      baseUrl: env(MODEL_PROVIDERS.ollama.baseUrlEnv) || "http://localhost:11434",
+      model,
+      temperature: opts.temperature,
+      numPredict: opts.maxTokens,
+      callbacks: opts.callbacks,
+    }),
+};
+
+const openAICompatibleProvider: LLMProvider = {
+  id: "openai-compatible",
+  isConfigured: () =>
+    !!(env(MODEL_PROVIDERS["openai-compatible"].apiKeyEnv) ||
+      env(MODEL_PROVIDERS["openai-compatible"].baseUrlEnv) ||
+      process.env.OPENAI_API_KEY),
+  createChatModel: (model, opts) =>
+    // @langchain/openai is pinned to an older @langchain/core; the runtime
+    // interface is the same, only the declared types differ.
+    new ChatOpenAI({
+      apiKey: env(MODEL_PROVIDERS["openai-compatible"].apiKeyEnv) || process.env.OPENAI_API_KEY || "not-needed",
+      model,
+      temperature: opts.temperature,
+      maxTokens: opts.maxTokens,
+      configuration: { baseURL: env(MODEL_PROVIDERS["openai-compatible"].baseUrlEnv) },
+      callbacks: opts.callbacks as unknown as OpenAICallbacks,
+    }) as unknown as BaseChatModel,
+  transcribe: (model, audio, opts) =>
+    transcribeOpenAIStyle(
+      `${env(MODEL_PROVIDERS["openai-compatible"].baseUrlEnv) || "https://api.openai.com/v1"}/audio/transcriptions`,
+      env(MODEL_PROVIDERS["openai-compatible"].apiKeyEnv) || process.env.OPENAI_API_KEY,
+      model,
+      audio,
+      opts
+    ),
+};
+
+/* ------------------------------------------------------------------ */
+/* Registry                                                           */
+/* ------------------------------------------------------------------ */
+const providers = new Map<string, LLMProvider>();
+
+export function registerProvider(provider: LLMProvider) {
+  providers.set(provider.id, provider);
+}
+
+export function getProvider(id: string): LLMProvider | undefined {
+  return providers.get(id);
+}
+
+export function listProviders(): LLMProvider[] {
+  return Array.from(providers.values());
+}
+
+registerProvider(groqProvider);
+registerProvider(ollamaProvider);
+registerProvider(openAICompatibleProvider);
+registerProvider(fakeProvider);
+
+/** LLM_PROVIDER=<id> sends every call to one provider, e.g. "fake" for offline dev. */
+function forcedProviderId(): string | null {
+  const id = process.env.LLM_PROVIDER;
+  return id && providers.has(id) ? id : null;
+}
+
+function defaultProviderId(): string {
+  const id = process.env.LLM_DEFAULT_PROVIDER;
+  return id && providers.has(id) ? id : "groq";
+}
+
+function catalogEntry(id: string) {
+  return (AVAILABLE_MODELS as Record<string, (typeof AVAILABLE_MODELS)[keyof typeof AVAILABLE_MODELS]>)[id];
+}
+
+function splitPrefix(id: string): { provider: string; model: string } | null {
+  const slash = id.indexOf("/");
+  if (slash <= 0) return null;
+  const provider = id.slice(0, slash);
+  return providers.has(provider) ? { provider, model: id.slice(slash + 1) } : null;
+}
+
+/**
+ * Resolve a model id to its provider. Catalog ids win (so "openai/gpt-oss-20b"
+ * stays on Groq), then a registered provider prefix; anything else is null.
+ */
+export function resolveModel(modelId?: string | null): ResolvedModel | null {
+  const id = String(modelId || "").trim();
+  if (!id) return null;
+
+  const known = catalogEntry(id);
+  if (known) {
+    return {
+      id,
+      provider: known.provider,
+      model: id,
+      name: known.name,
+      capabilities: known.capabilities,
+      contextWindow: known.contextWindow,
+    };
+  }
+
+  const prefixed = splitPrefix(id);
+  if (!prefixed || !prefixed.model) return null;
+
+  // "groq/llama-3.1-8b-instant" → reuse the catalog entry's description
+  const inner = prefixed.provider === "groq" ? catalogEntry(prefixed.model) : undefined;
+  return {
+    id,
+    provider: prefixed.provider,
+    model: prefixed.model,
+    name: inner?.name ?? prefixed.model,
+    // Models outside the catalog are assumed to be plain chat models.
+    capabilities: inner?.capabilities ?? ["chat"],
+    contextWindow: inner?.contextWindow ?? null,
+  };
+}
+
+/** Default model id for a pipeline stage (env override, then config). */
+export function defaultModelFor(purpose: ModelPurpose): string {
+  return process.env[`LLM_${purpose.toUpperCase()}_MODEL`] || DEFAULT_PURPOSE_MODELS[purpose];
+}
+
+/**
+ * Pick the model a stage should use: the requested one when it is routable and
+ * can chat, otherwise the purpose default.
+ */
+export function resolveModelForPurpose(modelId?: string | null, purpose: ModelPurpose = "chat"): ResolvedModel {
+  const forced = forcedProviderId();
+  const requested = resolveModel(modelId);
+  const chosen =
+    requested && requested.capabilities.includes("chat")
+      ? requested
+      : resolveModel(defaultModelFor(purpose)) ?? {
+          id: defaultModelFor(purpose),
+          provider: defaultProviderId(),
+          model: defaultModelFor(purpose),
+          name: defaultModelFor(purpose),
+          capabilities: ["chat"] as const,
+          contextWindow: null,
+        };
+
+  return forced ? { ...chosen, provider: forced } : chosen;
+}
+
+export function isModelAvailable(modelId?: string | null, purpose: ModelPurpose = "chat"): boolean {
+  const resolved = resolveModelForPurpose(modelId, purpose);
+  return !!providers.get(resolved.provider)?.isConfigured();
+}
+
+/**
+ * Build a chat model for `modelId`, falling back to the purpose default. Token
+ * usage of every call is reported to lib/llm/usage.
+ */
+export function createChatModel(
+  modelId: string | null | undefined,
+  opts: ChatModelOptions & { purpose?: ModelPurpose } = {}
+): BaseChatModel {
+  const resolved = resolveModelForPurpose(modelId, opts.purpose ?? "chat");
+  const provider = providers.get(resolved.provider);
+  if (!provider) {
+    throw new Error(`No LLM provider registered for "${resolved.provider}" (model ${resolved.id})`);
+  }
+  // a forced provider (e.g. fake) serves the call, so don't bill it at catalog prices
+  const usageId =
+    resolveModel(resolved.id)?.provider === resolved.provider ? resolved.id : `${resolved.provider}/${resolved.model}`;
+  return provider.createChatModel(resolved.model, {
+    temperature: opts.temperature,
+    maxTokens: opts.maxTokens,
+    callbacks: [new UsageCallbackHandler(usageId, opts.purpose ?? "chat")],
+  });
+}
+
+/**
+ * Transcribe recorded audio. `modelId` must be a transcription model; anything
+ * else falls back to LLM_TRANSCRIPTION_MODEL / the config default.
+ */
+export async function transcribeAudio(
+  audio: Blob,
+  opts: TranscriptionOptions & { model?: string | null } = {}
+): Promise<{ text: string; model: string; provider: string }> {
+  const requested = resolveModel(opts.model);
+  const fallbackId = process.env.LLM_TRANSCRIPTION_MODEL || DEFAULT_TRANSCRIPTION_MODEL;
+  const chosen =
+    requested && requested.capabilities.includes("transcription")
+      ? requested
+      : resolveModel(fallbackId) ?? { id: fallbackId, provider: defaultProviderId(), model: fallbackId };
+
+  const providerId = forcedProviderId() ?? chosen.provider;
+  const provider = providers.get(providerId);
+  if (!provider?.transcribe) {
+    throw new Error(`LLM provider "${providerId}" cannot transcribe audio (model ${chosen.id})`);
+  }
+  const text = await provider.transcribe(chosen.model, audio, { language: opts.language, prompt: opts.prompt });
+  return { text, model: chosen.id, provider: providerId };
+}
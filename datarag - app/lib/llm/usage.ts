@@ -0,0 +1,196 @@
+// lib/llm/usage.ts
+// Token accounting: every chat model built by the provider registry carries a
+// UsageCallbackHandler, which reports into the innermost active usage scope.
+import { AsyncLocalStorage } from "async_hooks";
+import { BaseCallbackHandler } from "@langchain/core/callbacks/base";
+import type { Serialized } from "@langchain/core/load/serializable";
+import type { BaseMessage } from "@langchain/core/messages";
+import type { LLMResult } from "@langchain/core/outputs";
+
+import { MODEL_PRICING, type ModelPurpose } from "@/config/models";
+import prismadb from "@/lib/prismadb";
+import type { LLMCallUsage, ModelUsage, UsageSummary } from "@/types/models";
+
+/* ------------------------------------------------------------------ */
+/* Pricing                                                            */
+/* ------------------------------------------------------------------ */
+export function estimateTokens(text: string): number {
+  return Math.ceil((text || "").length / 4);
+}
+
+export function estimateCost(modelId: string, promptTokens: number, completionTokens: number): number {
+  const price = MODEL_PRICING[modelId] ?? MODEL_PRICING[modelId.replace(/^groq\//, "")];
+  if (!price) return 0;
+  return (promptTokens / 1000) * price.inputTokenPrice + (completionTokens / 1000) * price.outputTokenPrice;
+}
+
+/* ------------------------------------------------------------------ */
+/* Scopes                                                             */
+/* ------------------------------------------------------------------ */
+type Scope = { records: LLMCallUsage[]; parent: Scope | null };
+
+const scopes = new AsyncLocalStorage<Scope>();
+
+function record(scope: Scope | null | undefined, usage: LLMCallUsage) {
+  // nested scopes also count toward every enclosing scope
+  for (let s = scope; s; s = s.parent) s.records.push(usage);
+}
+
+/**
+ * Run `fn` and collect the usage of every LLM call made inside it. `records`
+ * keeps filling for calls that finish after `fn` resolves (a stream consumed
+ * later), so read it again once such work is done.
+ */
+export async function trackUsage<T>(fn: () => Promise<T>): Promise<{ value: T; usage: UsageSummary; records: LLMCallUsage[] }> {
+  const scope: Scope = { records: [], parent: scopes.getStore() ?? null };
+  const value = await scopes.run(scope, fn);
+  return { value, usage: summarizeUsage(scope.records), records: scope.records };
+}
+
+/* ------------------------------------------------------------------ */
+/* Callback handler                                                   */
+/* ------------------------------------------------------------------ */
+type PendingCall = { scope: Scope | undefined; promptChars: number; startedAt: number };
+
+export class UsageCallbackHandler extends BaseCallbackHandler {
+  name = "usage_tracker";
+  private pending = new Map<string, PendingCall>();
+
+  constructor(private modelId: string, private purpose: string) {
+    // awaited so the start hook runs in the caller's async context
+    super({ _awaitHandler: true });
+  }
+
+  async handleChatModelStart(_llm: Serialized, messages: BaseMessage[][], runId: string) {
+    const promptChars = messages.flat().reduce((n, m) => n + String(m.content ?? "").length, 0);
+    this.pending.set(runId, { scope: scopes.getStore(), promptChars, startedAt: Date.now() });
+  }
+
+  async handleLLMEnd(output: LLMResult, runId: string) {
+    const call = this.pending.get(runId);
+    this.pending.delete(runId);
+
+    const gen = output.generations?.[0]?.[0] as { text?: string; message?: { usage_metadata?: any } } | undefined;
+    const meta = gen?.message?.usage_metadata;
+    const llmUsage = output.llmOutput?.tokenUsage ?? output.llmOutput?.usage;
+
+    let promptTokens = Number(meta?.input_tokens ?? llmUsage?.promptTokens ?? llmUsage?.prompt_tokens ?? NaN);
+    let completionTokens = Number(meta?.output_tokens ?? llmUsage?.completionTokens ?? llmUsage?.completion_tokens ?? NaN);
+    const estimated = !Number.isFinite(promptTokens) || !Number.isFinite(completionTokens);
+    if (!Number.isFinite(promptTokens)) promptTokens = Math.ceil((call?.promptChars ?? 0) / 4);
+    if (!Number.isFinite(completionTokens)) completionTokens = estimateTokens(gen?.text ?? "");
+
+    record(call?.scope, {
+      modelId: this.modelId,
+      purpose: this.purpose,
+      promptTokens,
+      completionTokens,
+      totalTokens: promptTokens + completionTokens,
+      cost: estimateCost(this.modelId, promptTokens, completionTokens),
+      estimated,
+      duration: call ? Date.now() - call.startedAt : 0,
+    });
+  }
+
+  async handleLLMError(_err: Error, runId: string) {
+    this.pending.delete(runId);
+  }
+}
+
+/* ------------------------------------------------------------------ */
+/* Summaries                                                          */
+/* ------------------------------------------------------------------ */
+export function summarizeUsage(records: LLMCallUsage[]): UsageSummary {
+  const byModel = new Map<string, ModelUsage>();
+  const byPurpose: UsageSummary["byPurpose"] = {};
+
+  for (const r of records) {
+    const m = byModel.get(r.modelId) ?? {
+      modelId: r.modelId,
+      inputTokens: 0,
+      outputTokens: 0,
+      totalTokens: 0,
+      requests: 0,
+      cost: 0,
+      duration: 0,
+      timestamp: new Date().toISOString(),
+    };
+    m.inputTokens += r.promptTokens;
+    m.outputTokens += r.completionTokens;
+    m.totalTokens += r.totalTokens;
+    m.requests += 1;
+    m.cost += r.cost;
+    m.duration += r.duration;
+    byModel.set(r.modelId, m);
+
+    const p = (byPurpose[r.purpose] ??= { calls: 0, totalTokens: 0, cost: 0 });
+    p.calls += 1;
+    p.totalTokens += r.totalTokens;
+    p.cost += r.cost;
+  }
+
+  return {
+    calls: records.length,
+    promptTokens: records.reduce((s, r) => s + r.promptTokens, 0),
+    completionTokens: records.reduce((s, r) => s + r.completionTokens, 0),
+    totalTokens: records.reduce((s, r) => s + r.totalTokens, 0),
+    estimatedCost: records.reduce((s, r) => s + r.cost, 0),
+    estimated: records.some((r) => r.estimated),
+    byModel: Array.from(byModel.values()),
+    byPurpose,
+  };
+}
+
+/** Model that served each purpose; the last call wins when a stage ran twice. */
+export function servedModels(records: LLMCallUsage[]): Partial<Record<ModelPurpose, string>> {
+  const out: Partial<Record<ModelPurpose, string>> = {};
+  for (const r of records) out[r.purpose as ModelPurpose] = r.modelId;
+  return out;
+}
+
+/* ------------------------------------------------------------------ */
+/* Persistence                                                        */
+/* ------------------------------------------------------------------ */
+export interface UsageHistoryEntry {
+  userId: string;
+  sessionId?: string | null;
+  query: string;
+  queryType: "chat" | "document" | "database" | "evaluation" | "knowledge_base";
+  success: boolean;
+  modelUsed?: string;
+  executionTime?: number;
+  resultCount?: number;
+  errorMessage?: string;
+  sqlGenerated?: string;
+  evaluationRunId?: string;
+  usage: UsageSummary;
+}
+
+/** One QueryHistory row per request, with its token totals and cost. */
+export async function saveUsageHistory(entry: UsageHistoryEntry): Promise<void> {
+  try {
+    await prismadb.queryHistory.create({
+      data: {
+        userId: entry.userId,
+        sessionId: entry.sessionId ?? null,
+        query: entry.query,
+        queryType: entry.queryType,
+        context: entry.queryType,
+        success: entry.success,
+        modelUsed: entry.modelUsed,
+        executionTime: entry.executionTime,
+        resultCount: entry.resultCount,
+        errorMessage: entry.errorMessage,
+        sqlGenerated: entry.sqlGenerated,
+        evaluationRunId: entry.evaluationRunId,
+        promptTokens: entry.usage.promptTokens,
+        completionTokens: entry.usage.completionTokens,
+        totalTokensUsed: entry.usage.totalTokens,
+        estimatedCost: entry.usage.estimatedCost,
+        usageBreakdown: JSON.stringify(entry.usage.byModel),
+      },
+    });
+  } catch (e) {
+    console.warn("Failed to save usage history:", e);
+  }
+}
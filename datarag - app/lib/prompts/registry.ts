@@ -0,0 +1,211 @@
+// lib/prompts/registry.ts
+// Versioned prompt templates. A key resolves to the user's active override,
+// else the active global version, else the built-in default (version 0).
+// Every prompt read inside a prompt scope is recorded, so responses and
+// evaluation runs can say which versions produced them.
+import { AsyncLocalStorage } from "async_hooks";
+import type { Prisma, PromptTemplate } from "@prisma/client";
+
+import prismadb from "@/lib/prismadb";
+import { PROMPT_DEFAULTS, type PromptKey } from "@/lib/prompts/defaults";
+import type { PromptVersions } from "@/types/chat";
+
+export type PromptSource = "builtin" | "global" | "user";
+
+export interface ResolvedPrompt {
+  key: PromptKey;
+  content: string;
+  version: number;
+  source: PromptSource;
+  /** Row id; absent for built-in defaults. */
+  id?: string;
+}
+
+export type PromptVariables = Record<string, string | number | undefined>;
+
+const CACHE_TTL_MS = Number(process.env.PROMPT_CACHE_TTL_MS ?? 60_000);
+
+/* ------------------------------------------------------------------ */
+/* Scopes                                                             */
+/* ------------------------------------------------------------------ */
+type Scope = { userId: string | null; versions: PromptVersions; parent: Scope | null };
+
+const scopes = new AsyncLocalStorage<Scope>();
+
+/**
+ * Run `fn` with prompt overrides of `userId` and collect the version of every
+ * prompt it reads. Without a user id the enclosing scope's user is kept.
+ */
+export async function withPromptScope<T>(
+  userId: string | null | undefined,
+  fn: () => Promise<T>
+): Promise<{ value: T; versions: PromptVersions }> {
+  const parent = scopes.getStore() ?? null;
+  const scope: Scope = { userId: userId ?? parent?.userId ?? null, versions: {}, parent };
+  const value = await scopes.run(scope, fn);
+  return { value, versions: scope.versions };
+}
+
+export function promptVersionLabel(p: Pick<ResolvedPrompt, "source" | "version">): string {
+  if (p.source === "builtin") return "builtin";
+  return p.source === "user" ? `user-v${p.version}` : `v${p.version}`;
+}
+
+/** Merge version maps; a key seen with different versions lists them all. */
+export function mergePromptVersions(maps: Array<PromptVersions | undefined>): PromptVersions {
+  const seen: Record<string, string[]> = {};
+  for (const m of maps) {
+    for (const [key, label] of Object.entries(m ?? {})) {
+      for (const l of label.split(",")) {
+        const list = (seen[key] ??= []);
+        if (!list.includes(l)) list.push(l);
+      }
+    }
+  }
+  return Object.fromEntries(Object.entries(seen).map(([k, v]) => [k, v.join(",")]));
+}
+
+/* ------------------------------------------------------------------ */
+/* Resolution                                                         */
+/* ------------------------------------------------------------------ */
+const cache = new Map<string, { at: number; prompt: ResolvedPrompt }>();
+let warnedUnavailable = false;
+
+function builtin(key: PromptKey): ResolvedPrompt {
+  return { key, content: PROMPT_DEFAULTS[key].content, version: 0, source: "builtin" };
+}
+
+/** Drop cached resolutions, e.g. after a template was saved or activated. */
+export function invalidatePromptCache(key?: string) {
+  if (!key) return cache.clear();
+  for (const k of Array.from(cache.keys())) {
+    if (k.endsWith(`:${key}`)) cache.delete(k);
+  }
+}
+
+export async function resolvePrompt(key: PromptKey, userId?: string | null): Promise<ResolvedPrompt> {
+  const cacheKey = `${userId ?? "*"}:${key}`;
+  const hit = cache.get(cacheKey);
+  if (hit && Date.now() - hit.at < CACHE_TTL_MS) return hit.prompt;
+
+  let prompt = builtin(key);
+  try {
+    const rows = await prismadb.promptTemplate.findMany({
+      where: { key, isActive: true, OR: userId ? [{ userId }, { userId: null }] : [{ userId: null }] },
+      orderBy: { version: "desc" },
+    });
+    const row = rows.find((r: PromptTemplate) => r.userId) ?? rows[0];
+    if (row) {
+      prompt = { key, content: row.content, version: row.version, source: row.userId ? "user" : "global", id: row.id };
+    }
+  } catch (e) {
+    // no table yet or database down: built-in prompts keep the app working
+    if (!warnedUnavailable) {
+      warnedUnavailable = true;
+      console.warn("Prompt templates unavailable, using built-in prompts:", e);
+    }
+  }
+
+  cache.set(cacheKey, { at: Date.now(), prompt });
+  return prompt;
+}
+
+export function renderPrompt(content: string, vars: PromptVariables = {}): string {
+  const all: PromptVariables = { currentDate: new Date().toISOString().slice(0, 10), ...vars };
+  return content.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+    all[name] === undefined ? match : String(all[name])
+  );
+}
+
+/**
+ * Render the template for `key` for the current scope's user and record the
+ * version used in every enclosing scope.
+ */
+export async function getPrompt(key: PromptKey, vars?: PromptVariables): Promise<string> {
+  const scope = scopes.getStore();
+  const prompt = await resolvePrompt(key, scope?.userId);
+  for (let s = scope ?? null; s; s = s.parent) s.versions[key] = promptVersionLabel(prompt);
+  return renderPrompt(prompt.content, vars);
+}
+
+/* ------------------------------------------------------------------ */
+/* Management                                                         */
+/* ------------------------------------------------------------------ */
+// a concurrent save that took the same version number is retried with the next one
+const SAVE_ATTEMPTS = 3;
+
+/**
+ * Save `content` as the next version of `key` for `userId` (null = global).
+ * The new version becomes the active one unless `activate` is false.
+ */
+export async function savePromptVersion(opts: {
+  key: PromptKey;
+  content: string;
+  userId: string | null;
+  description?: string | null;
+  createdBy?: string;
+  activate?: boolean;
+}) {
+  const activate = opts.activate ?? true;
+  const save = () => prismadb.$transaction(async (tx: Prisma.TransactionClient) => {
+    const latest = await tx.promptTemplate.findFirst({
+      where: { key: opts.key, userId: opts.userId },
+      orderBy: { version: "desc" },
+      select: { version: true },
+    });
+    if (activate) {
+      await tx.promptTemplate.updateMany({
+        where: { key: opts.key, userId: opts.userId, isActive: true },
+        data: { isActive: false },
+      });
+    }
+    return tx.promptTemplate.create({
+      data: {
+        key: opts.key,
+        version: (latest?.version ?? 0) + 1,
+        content: opts.content,
+        description: opts.description ?? null,
+        userId: opts.userId,
+        isActive: activate,
+        createdBy: opts.createdBy ?? null,
+      },
+    });
+  });
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const saved = await save();
+      invalidatePromptCache(opts.key);
+      return saved;
+    } catch (e) {
+      // unique (key, userId, version)
+      if ((e as { code?: string })?.code !== "P2002" || attempt >= SAVE_ATTEMPTS) throw e;
+    }
+  }
+}
+
+/**
+ * Make `version` the active template of `key` for `userId`. Version 0 turns
+ * off all saved versions, falling back to the global template / built-in.
+ */
+export async function activatePromptVersion(key: PromptKey, userId: string | null, version: number) {
+  await prismadb.$transaction(async (tx: Prisma.TransactionClient) => {
+    if (version > 0) {
+      const target = await tx.promptTemplate.findFirst({ where: { key, userId, version } });
+      if (!target) throw new Error(`Prompt "${key}" has no version ${version}`);
+    }
+    await tx.promptTemplate.updateMany({ where: { key, userId, isActive: true }, data: { isActive: false } });
+    if (version > 0) {
+      await tx.promptTemplate.updateMany({ where: { key, userId, version }, data: { isActive: true } });
+    }
+  });
+  invalidatePromptCache(key);
+}
+
+/** Global templates are editable by the users listed in PROMPT_ADMIN_USER_IDS. */
+export function isPromptAdmin(userId: string): boolean {
+  return (process.env.PROMPT_ADMIN_USER_IDS || "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean)
+    .includes(userId);
+}
@@ -0,0 +1,166 @@
+// lib/query-transform.ts
+// Optional stage before retrieval for short, acronym-heavy questions that
+// embed poorly: rewrite the question into a standalone query, add
+// paraphrases, and/or write a hypothetical answer (HyDE) to search with.
+// Every variant is retrieved on its own and the lists are merged by rank;
+// reranking still scores against the question as typed.
+import { HumanMessage, SystemMessage } from "@langchain/core/messages";
+import type { Document } from "@langchain/core/documents";
+
+import { createChatModel } from "@/lib/llm/providers";
+import { getPrompt } from "@/lib/prompts/registry";
+import type { QueryTransform, QueryTransformReport, QueryVariant } from "@/types/chat";
+
+export const QUERY_TRANSFORMS: QueryTransform[] = ["rewrite", "multi-query", "hyde"];
+
+export function isQueryTransform(v: unknown): v is QueryTransform {
+  return typeof v === "string" && (QUERY_TRANSFORMS as string[]).includes(v);
+}
+
+/** QUERY_TRANSFORMS="rewrite,hyde"; off unless set. */
+export const DEFAULT_QUERY_TRANSFORMS: QueryTransform[] = (process.env.QUERY_TRANSFORMS || "")
+  .split(",")
+  .map((s) => s.trim())
+  .filter(isQueryTransform);
+
+// paraphrases asked for by "multi-query"
+const EXPANSION_COUNT = Number(process.env.QUERY_EXPANSION_COUNT ?? 3);
+// conversation handed to "rewrite"
+const REWRITE_HISTORY_CHARS = 2000;
+const HYDE_MAX_CHARS = 1200;
+// rank constant of the merge, as in hybrid search
+const MERGE_RRF_K = 60;
+
+/** Model output without reasoning blocks, code fences and wrapping quotes. */
+function cleanReply(content: unknown): string {
+  return String(content)
+    .replace(/<think>[\s\S]*?<\/think>/gi, "")
+    .replace(/```(?:json)?/g, "")
+    .trim()
+    .replace(/^["'`]+|["'`]+$/g, "")
+    .trim();
+}
+
+function parseQueryList(reply: string): string[] {
+  const json = reply.match(/\[[\s\S]*\]/);
+  if (json) {
+    try {
+      const parsed = JSON.parse(json[0]);
+      if (Array.isArray(parsed)) return parsed.filter((q): q is string => typeof q === "string");
+    } catch {
+      // fall through to one query per line
+    }
+  }
+  return reply
+    .split("\n")
+    .map((l) => l.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, "").replace(/^["']|["'],?$/g, "").trim())
+    .filter(Boolean);
+}
+
+/**
+ * Run `transforms` on `query` and return every query to retrieve with, the
+ * original first. A failing transformation is skipped and reported; it never
+ * fails retrieval.
+ */
+export async function transformQuery(
+  query: string,
+  { transforms, conversation, modelKey }: { transforms: QueryTransform[]; conversation?: string; modelKey: string }
+): Promise<QueryTransformReport> {
+  const start = Date.now();
+  const model = createChatModel(modelKey, { purpose: "fast", temperature: 0.2, maxTokens: 512 });
+  const ask = async (system: string, user: string) =>
+    cleanReply((await model.invoke([new SystemMessage(system), new HumanMessage(user)])).content);
+
+  const variants: QueryVariant[] = [{ kind: "original", text: query }];
+  const failed: QueryTransform[] = [];
+  const attempt = async (kind: QueryTransform, run: () => Promise<string[]>) => {
+    try {
+      for (const text of await run()) if (text) variants.push({ kind, text });
+    } catch (e) {
+      console.warn(`Query transformation "${kind}" failed; skipping it`, e);
+      failed.push(kind);
+    }
+  };
+
+  // the rewrite, when there is one, is what paraphrases and HyDE start from
+  let base = query;
+  if (transforms.includes("rewrite")) {
+    await attempt("rewrite", async () => {
+      const history = (conversation || "").slice(-REWRITE_HISTORY_CHARS);
+      const rewritten = (
+        await ask(
+          await getPrompt("queryRewrite"),
+          `${history ? `Conversation:\n${history}\n\n` : ""}Latest question: ${query}`
+        )
+      ).split("\n")[0];
+      if (rewritten) base = rewritten;
+      return [rewritten];
+    });
+  }
+
+  await Promise.all([
+    transforms.includes("multi-query") &&
+      attempt("multi-query", async () =>
+        parseQueryList(await ask(await getPrompt("queryExpansion", { count: EXPANSION_COUNT }), `Query: ${base}`)).slice(
+          0,
+          EXPANSION_COUNT
+        )
+      ),
+    transforms.includes("hyde") &&
+      attempt("hyde", async () => [(await ask(await getPrompt("hyde"), `Query: ${base}`)).slice(0, HYDE_MAX_CHARS)]),
+  ]);
+
+  // a variant that only repeats another one adds nothing but a search
+  const seen = new Set<string>();
+  const unique = variants.filter((v) => {
+    const key = v.text.toLowerCase().replace(/\s+/g, " ").trim();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  return {
+    transforms,
+    variants: unique,
+    latencyMs: Date.now() - start,
+    ...(failed.length ? { failed } : {}),
+  };
+}
+
+/**
+ * Merge ranked result lists (one per query variant, or per namespace in a
+ * multi-document search) by reciprocal rank fusion, keyed on source document
+ * and page content, so the same passage in two documents stays two results. A
+ * document keeps the metadata of its best placement; searchScore becomes the
+ * fused score relative to the top one and `variantHits` counts the lists that
+ * found it.
+ */
+export function mergeRankedLists<D extends Document>(lists: D[][], limit: number): D[] {
+  const merged = new Map<string, { doc: D; score: number; bestRank: number; hits: number }>();
+  const key = (doc: D) => `${String(doc.metadata?.documentId ?? "")}\n${doc.pageContent}`;
+  lists.forEach((list) =>
+    list.forEach((doc, rank) => {
+      const entry = merged.get(key(doc));
+      const add = 1 / (MERGE_RRF_K + rank + 1);
+      if (!entry) {
+        merged.set(key(doc), { doc, score: add, bestRank: rank, hits: 1 });
+        return;
+      }
+      entry.score += add;
+      entry.hits += 1;
+      if (rank < entry.bestRank) {
+        entry.doc = doc;
+        entry.bestRank = rank;
+      }
+    })
+  );
+
+  const ranked = Array.from(merged.values())
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+  const top = ranked[0]?.score || 1;
+  return ranked.map(({ doc, score, hits }) => {
+    doc.metadata = { ...doc.metadata, searchScore: score / top, variantHits: hits };
+    return doc;
+  });
+}
@@ -0,0 +1,248 @@
+// lib/reindex.ts
+// Re-embeds every document and knowledge base entry with a new model into a
+// fresh embedding generation while the current one keeps serving. Progress is
+// kept on the generation row; the cut-over happens only once the build is
+// complete. Chat history is not re-embedded: conversation memory starts over
+// in the new generation.
+//
+// Maintenance of what a re-index does not rewrite: backfillKeywords fills in
+// the keyword index (not per generation) for content stored before it existed,
+// backfillKnowledgeDates the dates date-scoped chats filter on.
+import type { Document as DocumentRow, DocumentChunk, KnowledgeBaseEntry, KnowledgeBaseTag } from "@prisma/client";
+
+import { MemoryManager } from "@/lib/agent";
+import prismadb from "@/lib/prismadb";
+import { activateGeneration, invalidateGenerationCache, toGeneration } from "@/lib/embedding-generations";
+import { isChunkingStrategy } from "@/lib/chunking/chunker";
+import { knowledgeVectorId } from "@/lib/knowledge-embedding";
+import type { EmbeddingBackend, EmbeddingGeneration, KeywordBackfillReport } from "@/types/document";
+
+const KB_PAGE_SIZE = 100;
+const CHUNK_PAGE_SIZE = 200;
+
+/** Re-indexing is run by the users listed in INDEX_ADMIN_USER_IDS. */
+export function isIndexAdmin(userId: string): boolean {
+  return (process.env.INDEX_ADMIN_USER_IDS || "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean)
+    .includes(userId);
+}
+
+/**
+ * Create a generation for `model` and build it in the background. With
+ * `activate` it becomes the serving generation as soon as every item was
+ * re-embedded; otherwise it waits as READY for a manual cut-over.
+ */
+export async function startReindex(opts: {
+  model: string;
+  backend: EmbeddingBackend;
+  activate?: boolean;
+  userId: string;
+}): Promise<EmbeddingGeneration> {
+  const running = await prismadb.embeddingGeneration.findFirst({ where: { status: "BUILDING" } });
+  if (running) throw new Error(`Embedding generation ${running.id} is still being built`);
+
+  const mm = await MemoryManager.getInstance();
+  await mm.assertModelFitsStore(opts.model, opts.backend);
+
+  const [documents, entries] = await Promise.all([
+    prismadb.document.count({ where: { status: "COMPLETED" } }),
+    prismadb.knowledgeBaseEntry.count(),
+  ]);
+  const row = await prismadb.embeddingGeneration.create({
+    data: { model: opts.model, backend: opts.backend, total: documents + entries, createdBy: opts.userId },
+  });
+  // new content is written to the building generation from now on
+  invalidateGenerationCache();
+
+  const generation = toGeneration(row);
+  void runReindex(generation, opts.activate ?? true);
+  return generation;
+}
+
+/**
+ * Build a failed generation again from the start; every write is an upsert,
+ * so items that made it the first time are simply overwritten. Any other
+ * generation is left alone: rebuilding the active one would send every query
+ * back to generation 0 until it is done.
+ */
+export async function resumeReindex(id: number, activate = true): Promise<EmbeddingGeneration> {
+  const running = await prismadb.embeddingGeneration.findFirst({ where: { status: "BUILDING", id: { not: id } } });
+  if (running) throw new Error(`Embedding generation ${running.id} is still being built`);
+
+  const { count } = await prismadb.embeddingGeneration.updateMany({
+    where: { id, status: "FAILED" },
+    data: { status: "BUILDING", processed: 0, failed: 0, error: null, completedAt: null },
+  });
+  if (!count) throw new Error(`Embedding generation ${id} is not a failed build`);
+  invalidateGenerationCache();
+
+  const row = await prismadb.embeddingGeneration.findUniqueOrThrow({ where: { id } });
+
+  const generation = toGeneration(row);
+  void runReindex(generation, activate);
+  return generation;
+}
+
+async function runReindex(generation: EmbeddingGeneration, activate: boolean) {
+  const mm = await MemoryManager.getInstance();
+  let processed = 0;
+  let failed = 0;
+  const progress = () =>
+    prismadb.embeddingGeneration.update({ where: { id: generation.id }, data: { processed, failed } });
+
+  try {
+    const documents: Pick<DocumentRow, "id" | "fileUrl" | "chunkingStrategy">[] = await prismadb.document.findMany({
+      where: { status: "COMPLETED" },
+      select: { id: true, fileUrl: true, chunkingStrategy: true },
+      orderBy: { createdAt: "asc" },
+    });
+    for (const doc of documents) {
+      try {
+        const reembedded = await mm.reembedDocument(doc.id, generation);
+        // ingested before chunks were stored: parse the file again
+        if (!reembedded) {
+          if (!doc.fileUrl) throw new Error("no stored chunks and no file to parse");
+          await mm.processFile(doc.fileUrl, doc.id, {
+            chunkingStrategy: isChunkingStrategy(doc.chunkingStrategy) ? doc.chunkingStrategy : null,
+          });
+        }
+      } catch (e) {
+        failed++;
+        console.error(`[REINDEX] generation ${generation.id}: document ${doc.id} failed:`, e);
+      }
+      processed++;
+      await progress();
+    }
+
+    for (let skip = 0; ; skip += KB_PAGE_SIZE) {
+      const entries: (KnowledgeBaseEntry & { tags: Pick<KnowledgeBaseTag, "name">[] })[] =
+        await prismadb.knowledgeBaseEntry.findMany({
+          include: { tags: { select: { name: true } } },
+          orderBy: { createdAt: "asc" },
+          skip,
+          take: KB_PAGE_SIZE,
+        });
+      if (!entries.length) break;
+      for (const entry of entries) {
+        try {
+          const tags = entry.tags.map((t: Pick<KnowledgeBaseTag, "name">) => t.name);
+          await mm.reembedKnowledgeEntry(entry, tags, generation);
+        } catch (e) {
+          failed++;
+          console.error(`[REINDEX] generation ${generation.id}: knowledge entry ${entry.id} failed:`, e);
+        }
+        processed++;
+      }
+      await progress();
+    }
+
+    await prismadb.embeddingGeneration.update({
+      where: { id: generation.id },
+      data: { status: "READY", processed, failed, completedAt: new Date() },
+    });
+    invalidateGenerationCache();
+    // a partial generation would silently drop content from answers
+    if (activate && failed === 0) await activateGeneration(generation.id);
+  } catch (e: any) {
+    console.error(`[REINDEX] generation ${generation.id} failed:`, e);
+    await prismadb.embeddingGeneration
+      .update({
+        where: { id: generation.id },
+        data: { status: "FAILED", processed, failed, error: String(e?.message ?? e).slice(0, 2000) },
+      })
+      .catch(() => undefined);
+    invalidateGenerationCache();
+  }
+}
+
+// chunk rows and knowledge base entries without a keyword entry under their vector id
+const MISSING_CHUNKS = `FROM "public"."document_chunks" c
+  WHERE c."level" = 'chunk' AND NOT EXISTS (
+    SELECT 1 FROM "public"."keyword_chunks" k
+    WHERE k."namespace" = c."documentId"
+      AND k."id" = COALESCE(c."vectorId", c."documentId" || '_chunk_' || c."chunkIndex")
+  )`;
+const MISSING_ENTRIES = `FROM "public"."knowledge_base_entries" e
+  WHERE NOT EXISTS (
+    SELECT 1 FROM "public"."keyword_chunks" k
+    WHERE k."namespace" = $1 AND k."id" = $2 || e."id"
+  )`;
+
+/**
+ * Write keyword entries for document chunks and knowledge base entries that
+ * have none, e.g. ingested before the keyword index existed or while it was
+ * unavailable. With `dryRun` they are only counted.
+ */
+export async function backfillKeywords({ dryRun = false }: { dryRun?: boolean } = {}): Promise<KeywordBackfillReport> {
+  const kb = [MemoryManager.NS_KB, knowledgeVectorId("")];
+  if (dryRun) {
+    const [chunks, entries]: [{ n: number }[], { n: number }[]] = await Promise.all([
+      prismadb.$queryRawUnsafe(`SELECT COUNT(*)::int AS n ${MISSING_CHUNKS}`),
+      prismadb.$queryRawUnsafe(`SELECT COUNT(*)::int AS n ${MISSING_ENTRIES}`, ...kb),
+    ]);
+    return { chunks: chunks[0]?.n ?? 0, knowledgeEntries: entries[0]?.n ?? 0, backfilled: false };
+  }
+
+  const mm = await MemoryManager.getInstance();
+  const report: KeywordBackfillReport = { chunks: 0, knowledgeEntries: 0, backfilled: true };
+
+  // keyset pages: a row the index fails to take is not picked up again
+  for (let after = ""; ; ) {
+    const rows: DocumentChunk[] = await prismadb.$queryRawUnsafe(
+      `SELECT c.* ${MISSING_CHUNKS} AND c."id" > $1 ORDER BY c."id" LIMIT ${CHUNK_PAGE_SIZE}`,
+      after
+    );
+    if (!rows.length) break;
+    await mm.indexChunkKeywords(rows);
+    report.chunks += rows.length;
+    after = rows[rows.length - 1].id;
+  }
+
+  for (let after = ""; ; ) {
+    const ids: { id: string }[] = await prismadb.$queryRawUnsafe(
+      `SELECT e."id" ${MISSING_ENTRIES} AND e."id" > $3 ORDER BY e."id" LIMIT ${KB_PAGE_SIZE}`,
+      ...kb,
+      after
+    );
+    if (!ids.length) break;
+    const entries: (KnowledgeBaseEntry & { tags: Pick<KnowledgeBaseTag, "name">[] })[] =
+      await prismadb.knowledgeBaseEntry.findMany({
+        where: { id: { in: ids.map((r) => r.id) } },
+        include: { tags: { select: { name: true } } },
+      });
+    for (const entry of entries) {
+      await mm.indexKnowledgeKeywords(entry, entry.tags.map((t: Pick<KnowledgeBaseTag, "name">) => t.name));
+    }
+    report.knowledgeEntries += entries.length;
+    after = ids[ids.length - 1].id;
+  }
+  return report;
+}
+
+/**
+ * Put the creation time on knowledge base vectors and keyword entries written
+ * before chats could be scoped by date; date scopes never match them until
+ * then. Every entry is updated, as the stores cannot list the ones lacking
+ * it. Returns the number of entries.
+ */
+export async function backfillKnowledgeDates(): Promise<number> {
+  const mm = await MemoryManager.getInstance();
+  let updated = 0;
+  for (let skip = 0; ; skip += KB_PAGE_SIZE) {
+    const entries: Pick<KnowledgeBaseEntry, "id" | "createdAt">[] = await prismadb.knowledgeBaseEntry.findMany({
+      select: { id: true, createdAt: true },
+      orderBy: { createdAt: "asc" },
+      skip,
+      take: KB_PAGE_SIZE,
+    });
+    if (!entries.length) break;
+    await mm.updateVectorMetadata(
+      MemoryManager.NS_KB,
+      entries.map((e) => ({ id: knowledgeVectorId(e.id), metadata: { createdAt: e.createdAt.getTime() } }))
+    );
+    updated += entries.length;
+  }
+  return updated;
+}
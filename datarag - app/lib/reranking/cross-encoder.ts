@@ -0,0 +1,67 @@
+// lib/reranking/cross-encoder.ts
+// Scores (query, document) pairs with a cross-encoder run in-process through
+// transformers.js: no model call per batch, no parsing, and the same score
+// for the same pair every time. Weights load from the same cache / local
+// path as the local embedding models.
+import type { PreTrainedModel, PreTrainedTokenizer } from "@xenova/transformers";
+
+import { LOCAL_QUANTIZED, loadTransformers } from "@/lib/embeddings";
+import type { LangchainDocument } from "@/types/common";
+import type { Reranker } from "@/types/chat";
+
+export const DEFAULT_CROSS_ENCODER_MODEL = process.env.RERANKER_CROSS_ENCODER_MODEL || "Xenova/bge-reranker-base";
+
+// pairs per forward pass; bounded so long chunks do not exhaust memory
+const BATCH_SIZE = 8;
+
+type CrossEncoder = { tokenizer: PreTrainedTokenizer; model: PreTrainedModel };
+
+// one model per process; loading takes seconds
+const encoders = new Map<string, Promise<CrossEncoder>>();
+
+function loadCrossEncoder(model: string): Promise<CrossEncoder> {
+  let pending = encoders.get(model);
+  if (!pending) {
+    pending = (async () => {
+      const { AutoTokenizer, AutoModelForSequenceClassification } = await loadTransformers();
+      const [tokenizer, classifier] = await Promise.all([
+        AutoTokenizer.from_pretrained(model),
+        AutoModelForSequenceClassification.from_pretrained(model, { quantized: LOCAL_QUANTIZED }),
+      ]);
+      return { tokenizer, model: classifier };
+    })();
+    // a failed load (e.g. weights missing offline) is retried on the next call
+    pending.catch(() => encoders.delete(model));
+    encoders.set(model, pending);
+  }
+  return pending;
+}
+
+export class CrossEncoderReranker implements Reranker {
+  readonly kind = "cross-encoder" as const;
+
+  constructor(private model = DEFAULT_CROSS_ENCODER_MODEL) {}
+
+  async score(query: string, documents: LangchainDocument[]): Promise<(number | null)[]> {
+    let encoder: CrossEncoder;
+    try {
+      encoder = await loadCrossEncoder(this.model);
+    } catch (e: unknown) {
+      throw new Error(`Cross-encoder "${this.model}" could not be loaded: ${(e as Error)?.message || String(e)}`);
+    }
+
+    const scores: number[] = [];
+    for (let i = 0; i < documents.length; i += BATCH_SIZE) {
+      const passages = documents.slice(i, i + BATCH_SIZE).map((d) => String(d.pageContent));
+      const inputs = encoder.tokenizer(new Array(passages.length).fill(query), {
+        text_pair: passages,
+        padding: true,
+        truncation: true,
+      });
+      const { logits } = await encoder.model(inputs);
+      // one relevance logit per pair; sigmoid puts it on the 0..1 threshold scale
+      scores.push(...(logits.sigmoid().tolist() as number[][]).map(([s]) => s));
+    }
+    return scores;
+  }
+}
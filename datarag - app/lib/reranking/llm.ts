@@ -0,0 +1,83 @@
+// lib/reranking/llm.ts
+// Asks the rerank stage model for a JSON score per numbered document. Scores
+// are matched to documents by the number the model echoes back, never by the
+// order of its lines, so a skipped or reordered document cannot shift the
+// scores of the others.
+import { HumanMessage, SystemMessage } from "@langchain/core/messages";
+import { z } from "zod";
+
+import { createChatModel } from "@/lib/llm/providers";
+import { getPrompt } from "@/lib/prompts/registry";
+import type { LangchainDocument } from "@/types/common";
+import type { Reranker } from "@/types/chat";
+
+// documents per model call
+const BATCH_SIZE = 5;
+const SNIPPET_CHARS = 700;
+
+const ScoresSchema = z.object({
+  scores: z.array(
+    z.object({
+      document: z.coerce.number().int(),
+      score: z.coerce.number(),
+    })
+  ),
+});
+
+const clamp = (n: number) => Math.min(1, Math.max(0, n));
+
+/** Document number → score from a model reply; entries that do not parse are left out. */
+export function parseRerankScores(reply: string): Map<number, number> {
+  const scores = new Map<number, number>();
+  // reasoning models may think out loud before answering
+  const text = reply.replace(/<think>[\s\S]*?<\/think>/gi, "").replace(/```(?:json)?/g, "");
+
+  const json = text.match(/\{[\s\S]*\}/);
+  if (json) {
+    try {
+      const parsed = ScoresSchema.safeParse(JSON.parse(json[0]));
+      if (parsed.success) {
+        for (const { document, score } of parsed.data.scores) {
+          if (Number.isFinite(score)) scores.set(document, clamp(score));
+        }
+        return scores;
+      }
+    } catch {
+      // not JSON after all; try the line format below
+    }
+  }
+
+  // "Document 3: 0.8" lines, the format older prompts asked for
+  for (const m of Array.from(text.matchAll(/Document\s*#?(\d+)\s*[:=\-–]\s*(\d*\.?\d+)/gi))) {
+    scores.set(Number(m[1]), clamp(Number(m[2])));
+  }
+  return scores;
+}
+
+export class LlmReranker implements Reranker {
+  readonly kind = "llm" as const;
+
+  constructor(private modelKey: string) {}
+
+  async score(query: string, documents: LangchainDocument[]): Promise<(number | null)[]> {
+    const model = createChatModel(this.modelKey, { purpose: "rerank", temperature: 0.1, maxTokens: 1024 });
+    const system = await getPrompt("reranking");
+    const out: (number | null)[] = new Array(documents.length).fill(null);
+
+    for (let i = 0; i < documents.length; i += BATCH_SIZE) {
+      const batch = documents.slice(i, i + BATCH_SIZE);
+      const prompt =
+        `Query: "${query}"\n\nRate how relevant each document is to the query, from 0.0 to 1.0.\n\n` +
+        batch.map((doc, j) => `Document ${j + 1}:\n${String(doc.pageContent).slice(0, SNIPPET_CHARS)}\n`).join("\n") +
+        `\nReply with JSON only: {"scores": [{"document": 1, "score": 0.0}, ...]} with one entry per document.`;
+
+      const resp = await model.invoke([new SystemMessage(system), new HumanMessage(prompt)]);
+      const scores = parseRerankScores(String(resp.content));
+      batch.forEach((_, j) => {
+        const s = scores.get(j + 1);
+        if (s !== undefined) out[i + j] = s;
+      });
+    }
+    return out;
+  }
+}
@@ -0,0 +1,89 @@
+// lib/reranking/reranker.ts
+// Picks the reranker for a request and turns its scores into ranked results.
+// A failing reranker never fails retrieval: the documents come back in their
+// retrieval order, and the run is reported as failed.
+import { CrossEncoderReranker } from "@/lib/reranking/cross-encoder";
+import { LlmReranker } from "@/lib/reranking/llm";
+import type { LangchainDocument } from "@/types/common";
+import type { Reranker, RerankerKind, RerankingResult, RerankRun } from "@/types/chat";
+
+export const RERANKER_KINDS: RerankerKind[] = ["llm", "cross-encoder", "none"];
+
+export function isRerankerKind(v: unknown): v is RerankerKind {
+  return typeof v === "string" && (RERANKER_KINDS as string[]).includes(v);
+}
+
+export const DEFAULT_RERANKER: RerankerKind = isRerankerKind(process.env.RERANKER) ? process.env.RERANKER : "llm";
+
+/** Keeps retrieval order; its scores are the retrieval scores. */
+export class NoopReranker implements Reranker {
+  readonly kind = "none" as const;
+
+  async score(_query: string, documents: LangchainDocument[]): Promise<(number | null)[]> {
+    return documents.map(retrievalScore);
+  }
+}
+
+export function createReranker(kind: RerankerKind, opts: { modelKey: string }): Reranker {
+  switch (kind) {
+    case "cross-encoder":
+      return new CrossEncoderReranker();
+    case "none":
+      return new NoopReranker();
+    default:
+      return new LlmReranker(opts.modelKey);
+  }
+}
+
+function retrievalScore(doc: LangchainDocument): number | null {
+  const s = doc.metadata?.searchScore;
+  return typeof s === "number" ? s : null;
+}
+
+/**
+ * Score `documents`, drop those below `threshold` (the no-op reranker drops
+ * nothing) and order the rest by score. A document the reranker left
+ * unscored keeps its retrieval score (or sits right at the threshold when it
+ * has none) rather than a made-up one.
+ */
+export async function rerank(
+  reranker: Reranker,
+  query: string,
+  documents: LangchainDocument[],
+  threshold: number
+): Promise<{ results: RerankingResult[]; run: RerankRun }> {
+  const start = Date.now();
+  const run = (failed?: boolean): RerankRun => ({
+    reranker: reranker.kind,
+    documents: documents.length,
+    latencyMs: Date.now() - start,
+    ...(failed ? { failed } : {}),
+  });
+
+  let scores: (number | null)[];
+  try {
+    scores = await reranker.score(query, documents);
+  } catch (e) {
+    console.warn(`Reranking (${reranker.kind}) failed; keeping retrieval order`, e);
+    return {
+      results: documents.map((d, i) => ({
+        document: d,
+        relevanceScore: retrievalScore(d) ?? threshold,
+        originalRank: i,
+        newRank: i,
+      })),
+      run: run(true),
+    };
+  }
+
+  const floor = reranker.kind === "none" ? -Infinity : threshold;
+  const results: RerankingResult[] = [];
+  documents.forEach((doc, i) => {
+    const s = scores[i] ?? retrievalScore(doc) ?? threshold;
+    if (s >= floor) results.push({ document: doc, relevanceScore: s, originalRank: i, newRank: -1 });
+  });
+  // stable: ties keep retrieval order
+  results.sort((a, b) => b.relevanceScore - a.relevanceScore || a.originalRank - b.originalRank);
+  results.forEach((r, idx) => (r.newRank = idx));
+  return { results, run: run() };
+}
@@ -0,0 +1,234 @@
+// lib/response-cache.ts
+// Semantic response cache: a question whose embedding is close enough to a
+// recent one from the same user, scope and model reuses that answer instead
+// of re-running intent detection, retrieval, SQL and generation. Only opening
+// questions are cached; a follow-up's answer depends on the conversation.
+//
+// Question vectors live in the vector store (RESPONSE_CACHE_NAMESPACE), the
+// answers in a Redis hash per partition. Entries built on database results
+// expire quickly; knowledge-only answers live longer. Every vector carries the
+// knowledge base / document versions its answer was built from, and a bump of
+// either version turns it into a miss.
+import { Document } from "@langchain/core/documents";
+import { Redis } from "@upstash/redis";
+import type { DatabaseQueryResult, EnhancedAgentResponse, ResponseCacheStatus, SourceReference } from "@/types/chat";
+import type { VectorFilter, VectorStore } from "@/types/vector";
+
+export type CacheKind = "database" | "knowledge";
+
+/** What is kept of a response; enough to rebuild an EnhancedAgentResponse. */
+export interface CachedAnswer {
+  content: string;
+  model: string;
+  sources: SourceReference[];
+  database?: DatabaseQueryResult;
+  metadata: Pick<
+    EnhancedAgentResponse["metadata"],
+    "dbQueryDetected" | "dbQueryConfidence" | "contextSources" | "rerankingApplied" | "stageModels" | "promptVersions"
+  >;
+}
+
+/** Cache partition; only questions from the same partition can match. */
+export interface ResponseCacheScope {
+  userId: string;
+  /** "chat:…" for general chat (with its feature flags), "doc:<id>" for a document. */
+  scope: string;
+  model: string;
+  documentId?: string;
+}
+
+/** Where question vectors are kept: the serving index's store, in its response cache namespace. */
+export interface ResponseCacheIndex {
+  vectors: VectorStore;
+  namespace: string;
+}
+
+type Versions = { knowledge: number; doc?: number };
+
+type Entry = {
+  id: string;
+  query: string;
+  answer: CachedAnswer;
+  kind: CacheKind;
+  createdAt: number;
+};
+
+export const RESPONSE_CACHE_TTL_SECONDS: Record<CacheKind, number> = {
+  database: Number(process.env.RESPONSE_CACHE_DB_TTL_SECONDS ?? 10 * 60),
+  knowledge: Number(process.env.RESPONSE_CACHE_KB_TTL_SECONDS ?? 24 * 60 * 60),
+};
+
+export const DEFAULT_RESPONSE_CACHE_THRESHOLD = Number(process.env.RESPONSE_CACHE_THRESHOLD ?? 0.95);
+
+// oldest entries are evicted past this many per partition
+const MAX_ENTRIES = 200;
+// vector matches tried before giving up; later ones may have been evicted
+const CANDIDATES = 3;
+const MAX_TTL_SECONDS = Math.max(...Object.values(RESPONSE_CACHE_TTL_SECONDS));
+
+/** Base vector namespace of cached questions; each embedding generation has its own. */
+export const RESPONSE_CACHE_NAMESPACE = "response_cache";
+
+const KNOWLEDGE_VERSION_KEY = "response_cache:version:knowledge";
+const docVersionKey = (documentId: string) => `response_cache:version:doc:${documentId}`;
+
+export class ResponseCache {
+  private static instance: ResponseCache;
+  private redis: Redis;
+
+  private constructor() {
+    this.redis = Redis.fromEnv();
+  }
+
+  static getInstance() {
+    if (!ResponseCache.instance) ResponseCache.instance = new ResponseCache();
+    return ResponseCache.instance;
+  }
+
+  static enabled(): boolean {
+    return process.env.RESPONSE_CACHE !== "false";
+  }
+
+  private bucket(s: ResponseCacheScope) {
+    return `response_cache:${s.userId}:${s.scope}:${s.model}`;
+  }
+
+  private async versions(documentId?: string): Promise<Versions> {
+    const keys = documentId ? [KNOWLEDGE_VERSION_KEY, docVersionKey(documentId)] : [KNOWLEDGE_VERSION_KEY];
+    const values = await this.redis.mget<(number | string | null)[]>(...keys);
+    return {
+      knowledge: Number(values[0] ?? 0),
+      ...(documentId ? { doc: Number(values[1] ?? 0) } : {}),
+    };
+  }
+
+  /** Vector filter for entries of partition `key` that are still fresh at `current` versions. */
+  private freshFilter(key: string, current: Versions): VectorFilter {
+    return {
+      bucket: key,
+      expiresAt: { $gte: Date.now() },
+      knowledgeVersion: current.knowledge,
+      ...(current.doc !== undefined ? { docVersion: current.doc } : {}),
+    };
+  }
+
+  /** Closest fresh entry at or above `threshold`, if any. */
+  async lookup(
+    index: ResponseCacheIndex,
+    s: ResponseCacheScope,
+    embedding: number[],
+    threshold = DEFAULT_RESPONSE_CACHE_THRESHOLD
+  ): Promise<{ answer: CachedAnswer; status: ResponseCacheStatus } | null> {
+    const key = this.bucket(s);
+    const current = await this.versions(s.documentId);
+    const matches = await index.vectors.similaritySearchByVector(
+      index.namespace,
+      embedding,
+      CANDIDATES,
+      this.freshFilter(key, current)
+    );
+
+    for (const [doc, similarity] of matches) {
+      if (similarity < threshold) break;
+      const raw = await this.redis.hget<unknown>(key, String(doc.metadata.entryId));
+      if (!raw) continue;
+      // values come back parsed unless they were stored as plain strings
+      const entry = (typeof raw === "string" ? JSON.parse(raw) : raw) as Entry;
+      return {
+        answer: entry.answer,
+        status: {
+          hit: true,
+          similarity: Number(similarity.toFixed(4)),
+          cachedAt: new Date(entry.createdAt).toISOString(),
+          kind: entry.kind,
+          matchedQuery: entry.query,
+        },
+      };
+    }
+    return null;
+  }
+
+  async store(
+    index: ResponseCacheIndex,
+    s: ResponseCacheScope,
+    query: string,
+    embedding: number[],
+    answer: CachedAnswer,
+    kind: CacheKind
+  ) {
+    const key = this.bucket(s);
+    const now = Date.now();
+    const entry: Entry = {
+      id: `${now}-${Math.random().toString(36).slice(2, 8)}`,
+      query,
+      answer,
+      kind,
+      createdAt: now,
+    };
+    const versions = await this.versions(s.documentId);
+
+    await index.vectors.addVectors(
+      index.namespace,
+      [
+        new Document({
+          pageContent: query,
+          metadata: {
+            bucket: key,
+            entryId: entry.id,
+            expiresAt: now + RESPONSE_CACHE_TTL_SECONDS[kind] * 1000,
+            knowledgeVersion: versions.knowledge,
+            ...(versions.doc !== undefined ? { docVersion: versions.doc } : {}),
+            ...(s.documentId ? { documentId: s.documentId } : {}),
+          },
+        }),
+      ],
+      [embedding],
+      { ids: [entry.id] }
+    );
+    await this.redis.hset(key, { [entry.id]: JSON.stringify(entry) });
+    // the partition lives as long as its longest-lived entry could
+    await this.redis.expire(key, MAX_TTL_SECONDS);
+
+    // ids start with their creation time: evict the oldest past MAX_ENTRIES and any past every TTL
+    const ids = (await this.redis.hkeys(key)).sort();
+    const expired = ids.filter((id) => Number(id.split("-")[0]) + MAX_TTL_SECONDS * 1000 <= now);
+    const evicted = Array.from(new Set([...expired, ...ids.slice(0, Math.max(0, ids.length - MAX_ENTRIES))]));
+    if (evicted.length) {
+      await this.redis.hdel(key, ...evicted);
+      await index.vectors.delete(index.namespace, { ids: evicted });
+    }
+  }
+
+  /**
+   * Drop every partition of a deleted document and its version counter.
+   * Returns the ids of the answers removed; their question vectors are the
+   * caller's to delete from RESPONSE_CACHE_NAMESPACE.
+   */
+  async purgeDocument(documentId: string): Promise<string[]> {
+    const keys: string[] = [];
+    let cursor = "0";
+    do {
+      const [next, batch] = await this.redis.scan(cursor, { match: `response_cache:*:doc:${documentId}:*`, count: 500 });
+      cursor = String(next);
+      keys.push(...batch);
+    } while (cursor !== "0");
+
+    const ids = (await Promise.all(keys.map((key) => this.redis.hkeys(key)))).flat();
+    await this.redis.del(...keys, docVersionKey(documentId));
+    return ids;
+  }
+}
+
+/**
+ * Invalidate cached answers built on the knowledge base or on one document.
+ * Failures are logged only: a missed invalidation expires with the TTL.
+ */
+export async function invalidateResponseCache(target: { knowledge: true } | { documentId: string }) {
+  if (!ResponseCache.enabled()) return;
+  try {
+    const redis = Redis.fromEnv();
+    await redis.incr("knowledge" in target ? KNOWLEDGE_VERSION_KEY : docVersionKey(target.documentId));
+  } catch (e) {
+    console.warn("Failed to invalidate response cache:", e);
+  }
+}
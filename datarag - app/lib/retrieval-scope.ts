@@ -0,0 +1,129 @@
+// lib/retrieval-scope.ts
+// A chat session's retrieval scope: stored as JSON on ChatSession, checked
+// against the database when it is saved, and enforced as a metadata filter on
+// knowledge base search (vector and keyword side alike). Categories belong to
+// documents, so they are resolved here to document ids: knowledge base entries
+// made from those documents stay in scope, and the user's own documents among
+// them are searched as well.
+import { z } from "zod";
+
+import prismadb from "@/lib/prismadb";
+import type { Category, Document as DocumentRow } from "@prisma/client";
+import type { ResolvedRetrievalScope, RetrievalScope } from "@/types/chat";
+import type { VectorFilter } from "@/types/vector";
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a YYYY-MM-DD date");
+
+export const retrievalScopeSchema = z
+  .object({
+    categoryIds: z.array(z.string().min(1)).max(50).optional(),
+    documentIds: z.array(z.string().min(1)).max(200).optional(),
+    tags: z.array(z.string().min(1).max(50)).max(50).optional(),
+    dateFrom: isoDate.optional(),
+    dateTo: isoDate.optional(),
+  })
+  .strict();
+
+const unique = (values?: string[]) => Array.from(new Set((values || []).map((v) => v.trim()).filter(Boolean)));
+
+/** The scope without empty fields; null when it restricts nothing. */
+export function normalizeScope(scope: RetrievalScope | null | undefined): RetrievalScope | null {
+  if (!scope) return null;
+  const out: RetrievalScope = {};
+  const categoryIds = unique(scope.categoryIds);
+  const documentIds = unique(scope.documentIds);
+  const tags = unique(scope.tags);
+  if (categoryIds.length) out.categoryIds = categoryIds;
+  if (documentIds.length) out.documentIds = documentIds;
+  if (tags.length) out.tags = tags;
+  if (scope.dateFrom) out.dateFrom = scope.dateFrom;
+  if (scope.dateTo) out.dateTo = scope.dateTo;
+  return Object.keys(out).length ? out : null;
+}
+
+/** The scope stored on a session; an unreadable one is logged and restricts nothing. */
+export function parseRetrievalScope(raw: string | null | undefined): RetrievalScope | null {
+  if (!raw) return null;
+  try {
+    const parsed = retrievalScopeSchema.safeParse(JSON.parse(raw));
+    if (parsed.success) return normalizeScope(parsed.data);
+    console.warn("Ignoring invalid retrieval scope", parsed.error.flatten());
+  } catch (e) {
+    console.warn("Ignoring unreadable retrieval scope", e);
+  }
+  return null;
+}
+
+/** Problems with a scope about to be saved: unknown categories, documents the user cannot see, reversed dates. */
+export async function validateRetrievalScope(scope: RetrievalScope, userId: string): Promise<string[]> {
+  const errors: string[] = [];
+
+  if (scope.categoryIds?.length) {
+    const found: Pick<Category, "id">[] = await prismadb.category.findMany({
+      where: { id: { in: scope.categoryIds } },
+      select: { id: true },
+    });
+    const known = new Set(found.map((c) => c.id));
+    const missing = scope.categoryIds.filter((id) => !known.has(id));
+    if (missing.length) errors.push(`Unknown categories: ${missing.join(", ")}`);
+  }
+
+  if (scope.documentIds?.length) {
+    const found: Pick<DocumentRow, "id">[] = await prismadb.document.findMany({
+      where: { id: { in: scope.documentIds }, userId },
+      select: { id: true },
+    });
+    const known = new Set(found.map((d) => d.id));
+    const missing = scope.documentIds.filter((id) => !known.has(id));
+    if (missing.length) errors.push(`Documents not found or access denied: ${missing.join(", ")}`);
+  }
+
+  if (scope.dateFrom && scope.dateTo && scope.dateFrom > scope.dateTo) {
+    errors.push("dateFrom must not be after dateTo");
+  }
+  return errors;
+}
+
+// matches no vector: a scope whose categories hold no documents leaves nothing in scope, not everything
+const NO_DOCUMENT = "__none__";
+
+const dayStart = (d: string) => Date.parse(`${d}T00:00:00.000Z`);
+const dayEnd = (d: string) => Date.parse(`${d}T23:59:59.999Z`);
+
+/**
+ * The knowledge base filter enforcing `scope`, and the documents of `userId`
+ * in it. Dates range over the entry's creation time; knowledge base vectors
+ * written before scoping existed get it from backfillKnowledgeDates.
+ */
+export async function resolveRetrievalScope(scope: RetrievalScope | null, userId: string): Promise<ResolvedRetrievalScope> {
+  const filter: VectorFilter = {};
+  if (!scope) return { knowledgeFilter: filter };
+
+  let documents: ResolvedRetrievalScope["documents"];
+  if (scope.categoryIds?.length || scope.documentIds?.length) {
+    const rows: Pick<DocumentRow, "id" | "title" | "currentVersion" | "userId" | "createdAt">[] =
+      await prismadb.document.findMany({
+        where: {
+          ...(scope.categoryIds?.length ? { categoryId: { in: scope.categoryIds } } : {}),
+          ...(scope.documentIds?.length ? { id: { in: scope.documentIds } } : {}),
+        },
+        select: { id: true, title: true, currentVersion: true, userId: true, createdAt: true },
+      });
+    // entries made from anyone's documents count; only the user's own are searched
+    filter.documentId = { $in: rows.length ? rows.map((d) => d.id) : [NO_DOCUMENT] };
+    const from = scope.dateFrom ? dayStart(scope.dateFrom) : -Infinity;
+    const to = scope.dateTo ? dayEnd(scope.dateTo) : Infinity;
+    documents = rows
+      .filter((d) => d.userId === userId && d.createdAt.getTime() >= from && d.createdAt.getTime() <= to)
+      .map((d) => ({ id: d.id, title: d.title, currentVersion: d.currentVersion }));
+  }
+  if (scope.tags?.length) filter.tags = { $in: scope.tags };
+
+  if (scope.dateFrom || scope.dateTo) {
+    filter.createdAt = {
+      ...(scope.dateFrom ? { $gte: dayStart(scope.dateFrom) } : {}),
+      ...(scope.dateTo ? { $lte: dayEnd(scope.dateTo) } : {}),
+    };
+  }
+  return { knowledgeFilter: filter, ...(documents ? { documents } : {}) };
+}
@@ -0,0 +1,165 @@
+// lib/sql-agent.ts
+// ReAct-style SQL agent: the model inspects the schema, samples values, runs
+// queries and refines them from the result or error, one tool call per turn.
+import { AIMessage, HumanMessage, SystemMessage, type BaseMessage } from "@langchain/core/messages";
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { DATABASE_SCHEMA, getAvailableTools } from "@/lib/database-tools";
+import { getPrompt } from "@/lib/prompts/registry";
+import type { DatabaseRow, UnknownRecord } from "@/types/common";
+import type { SqlAgentAction, SqlAgentStep } from "@/types/database";
+
+export const DEFAULT_SQL_AGENT_MAX_STEPS = 8;
+
+// Long tool output is cut before it goes back to the model
+const MAX_OBSERVATION_CHARS = 2000;
+const PREVIEW_ROWS = 5;
+
+const TOOL_INPUTS: Record<Exclude<SqlAgentAction, "final_answer">, string> = {
+  list_tables: "{}",
+  describe_table: '{"table_name": "<table>"}',
+  sample_table: '{"table_name": "<table>", "row_sample_size": 5}',
+  execute_sql: '{"sql_query": "<MySQL SELECT ... LIMIT n>"}',
+};
+
+async function systemPrompt(): Promise<string> {
+  const tools = getAvailableTools()
+    .filter((t) => t.name in TOOL_INPUTS)
+    .map((t) => `- ${t.name}: ${t.description}. Input: ${TOOL_INPUTS[t.name as keyof typeof TOOL_INPUTS]}`)
+    .join("\n");
+
+  return getPrompt("sqlAgent", {
+    tools,
+    syntaxGuide: await getPrompt("mysqlSyntaxGuide"),
+    schema: DATABASE_SCHEMA,
+  });
+}
+
+function parseAction(raw: string): { thought: string; action: string; input: UnknownRecord } | null {
+  const text = raw.replace(/```json|```/g, "").trim();
+  const match = text.match(/\{[\s\S]*\}/);
+  if (!match) return null;
+  try {
+    const parsed = JSON.parse(match[0]);
+    if (!parsed || typeof parsed.action !== "string") return null;
+    return {
+      thought: String(parsed.thought ?? ""),
+      action: parsed.action.trim(),
+      input: parsed.input && typeof parsed.input === "object" ? parsed.input : {},
+    };
+  } catch {
+    return null;
+  }
+}
+
+function tryJson(raw: string): any {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return null;
+  }
+}
+
+const clip = (s: string) =>
+  s.length > MAX_OBSERVATION_CHARS ? `${s.slice(0, MAX_OBSERVATION_CHARS)}\n…(truncated)` : s;
+
+export interface SqlAgentRun {
+  success: boolean;
+  sql?: string;
+  data?: DatabaseRow[];
+  /** The model's own final answer, when it gave one. */
+  answer?: string;
+  error?: string;
+  steps: SqlAgentStep[];
+}
+
+/**
+ * Run the agent until it gives a final answer or the step budget runs out. The
+ * last successful execute_sql result is returned even if the budget ran out.
+ */
+export async function runSqlAgent(
+  question: string,
+  model: BaseChatModel,
+  opts: { maxSteps?: number } = {}
+): Promise<SqlAgentRun> {
+  const maxSteps = Math.max(1, opts.maxSteps ?? DEFAULT_SQL_AGENT_MAX_STEPS);
+  const toolsByName = new Map(getAvailableTools().map((t) => [t.name, t]));
+  const messages: BaseMessage[] = [new SystemMessage(await systemPrompt()), new HumanMessage(`Question: ${question}`)];
+  const steps: SqlAgentStep[] = [];
+  let last: { sql: string; data: DatabaseRow[] } | null = null;
+
+  for (let step = 1; step <= maxSteps; step++) {
+    const started = Date.now();
+    const reply = String((await model.invoke(messages)).content ?? "");
+    messages.push(new AIMessage(reply));
+
+    const parsed = parseAction(reply);
+    let observation: string;
+    let success: boolean | undefined;
+
+    if (!parsed) {
+      observation = 'Invalid reply. Respond with one JSON object: {"thought": "...", "action": "...", "input": {...}}';
+      steps.push({ step, thought: reply.slice(0, 300), action: "invalid", input: {}, observation, durationMs: Date.now() - started });
+    } else if (parsed.action === "final_answer") {
+      if (last) {
+        observation = "Done.";
+        steps.push({ step, thought: parsed.thought, action: "final_answer", input: parsed.input, observation, durationMs: Date.now() - started });
+        return { success: true, sql: last.sql, data: last.data, answer: String(parsed.input.answer ?? "") || undefined, steps };
+      }
+      observation = "No query has succeeded yet. Run execute_sql before giving a final answer.";
+      steps.push({ step, thought: parsed.thought, action: "final_answer", input: parsed.input, observation, durationMs: Date.now() - started });
+    } else {
+      const tool = toolsByName.get(parsed.action);
+      if (!tool || !(parsed.action in TOOL_INPUTS)) {
+        observation = `Unknown action "${parsed.action}". Use one of: ${Object.keys(TOOL_INPUTS).join(", ")}, final_answer.`;
+        steps.push({ step, thought: parsed.thought, action: "invalid", input: parsed.input, observation, durationMs: Date.now() - started });
+      } else {
+        const action = parsed.action as SqlAgentAction;
+        // the model refines failed queries itself, so the tool's own regeneration is off
+        const reasoning = `SQL agent: ${parsed.thought || action}`;
+        const args =
+          action === "execute_sql"
+            ? { ...parsed.input, reasoning, attempt_regeneration: false }
+            : { ...parsed.input, reasoning };
+
+        let raw: string;
+        try {
+          raw = String(await (tool as { invoke(a: unknown): Promise<unknown> }).invoke(args));
+        } catch (e: any) {
+          raw = `Tool error: ${e?.message || e}`;
+        }
+
+        if (action === "execute_sql") {
+          const result = tryJson(raw);
+          success = !!result?.success;
+          if (success && Array.isArray(result.data)) {
+            last = { sql: String(result.query_used || parsed.input.sql_query || ""), data: result.data };
+            observation = clip(
+              JSON.stringify(
+                {
+                  success: true,
+                  query_used: result.query_used,
+                  columns: result.columns,
+                  row_count: result.row_count,
+                  first_rows: result.data.slice(0, PREVIEW_ROWS),
+                },
+                null,
+                2
+              )
+            );
+          } else {
+            observation = clip(raw);
+          }
+        } else {
+          observation = clip(raw);
+        }
+
+        steps.push({ step, thought: parsed.thought, action, input: parsed.input, observation, success, durationMs: Date.now() - started });
+      }
+    }
+
+    messages.push(new HumanMessage(`Observation (step ${step}/${maxSteps}):\n${observation}`));
+  }
+
+  if (last) return { success: true, sql: last.sql, data: last.data, steps };
+  return { success: false, error: `SQL agent stopped after ${maxSteps} steps without a successful query`, steps };
+}
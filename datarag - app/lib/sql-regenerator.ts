@@ -1,18 +1,17 @@
-// lib/sql-regenerator-groq.ts
-import { ChatGroq } from "@langchain/groq";
+// lib/sql-regenerator.ts
 import { HumanMessage, SystemMessage } from "@langchain/core/messages";
 import { registerSqlRegenerator } from "@/lib/database-tools";
+import { createChatModel, isModelAvailable } from "@/lib/llm/providers";
 
 
 
-export function wireGroqSqlRegenerator(groqmodel: string) {
+export function wireSqlRegenerator(modelId: string) {
   registerSqlRegenerator(async ({ prompt }) => {
-    // If the key is missing, let the tool fall back to its default SQL
-    if (!process.env.GROQ_API_KEY) return null;
+    // If the provider is not configured, let the tool fall back to its default SQL
+    if (!isModelAvailable(modelId, "sql")) return null;
 
-    const model = new ChatGroq({
-      apiKey: process.env.GROQ_API_KEY!,
-      model: groqmodel,
+    const model = createChatModel(modelId, {
+      purpose: "sql",
       temperature: 0,
       maxTokens: 1024,
     });
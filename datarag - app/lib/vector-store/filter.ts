@@ -0,0 +1,51 @@
+// lib/vector-store/filter.ts
+// Metadata filters outside Pinecone: evaluated in process for the in-memory
+// backend, or turned into jsonb containment checks for tables with a
+// "metadata" JSONB column (pgvector, keyword index).
+import type { VectorFilter } from "@/types/vector";
+
+/** Whether `metadata` satisfies every condition of `filter`. */
+export function matchesFilter(metadata: Record<string, unknown>, filter?: VectorFilter): boolean {
+  return Object.entries(filter ?? {}).every(([key, cond]) => {
+    const value = metadata[key];
+    // a list field matches a value it contains
+    const has = (v: unknown) => (Array.isArray(value) ? value.includes(v) : value === v);
+    if (cond !== null && typeof cond === "object") {
+      if ("$in" in cond) return cond.$in.some(has);
+      if ("$ne" in cond) return !has(cond.$ne);
+      if (typeof value !== "number") return false;
+      return (cond.$gte === undefined || value >= cond.$gte) && (cond.$lte === undefined || value <= cond.$lte);
+    }
+    return has(cond);
+  });
+}
+
+/** SQL conditions for `filter`, appending their parameters to `params`. */
+export function filterSql(filter: VectorFilter | undefined, params: unknown[]): string {
+  // containment of {key: v} or {key: [v]}, so list fields match an element
+  const containsAny = (key: string, values: unknown[]) => {
+    params.push(values.flatMap((v) => [JSON.stringify({ [key]: v }), JSON.stringify({ [key]: [v] })]));
+    return `"metadata" @> ANY ($${params.length}::jsonb[])`;
+  };
+  return Object.entries(filter ?? {})
+    .map(([key, cond]) => {
+      if (cond !== null && typeof cond === "object" && "$in" in cond) return ` AND ${containsAny(key, cond.$in)}`;
+      if (cond !== null && typeof cond === "object" && "$ne" in cond) return ` AND NOT ${containsAny(key, [cond.$ne])}`;
+      if (cond !== null && typeof cond === "object") {
+        params.push(key);
+        const field = `CASE WHEN jsonb_typeof("metadata"->$${params.length}::text) = 'number' THEN ("metadata"->>$${params.length}::text)::float8 END`;
+        const bounds: string[] = [];
+        if (cond.$gte !== undefined) {
+          params.push(cond.$gte);
+          bounds.push(` AND ${field} >= $${params.length}`);
+        }
+        if (cond.$lte !== undefined) {
+          params.push(cond.$lte);
+          bounds.push(` AND ${field} <= $${params.length}`);
+        }
+        return bounds.join("");
+      }
+      return ` AND ${containsAny(key, [cond])}`;
+    })
+    .join("");
+}
@@ -0,0 +1,80 @@
+// lib/vector-store/memory.ts
+// In-process backend for development and offline runs. Vectors live as long as
+// the server process and are shared by every store instance in it.
+import { Document } from "@langchain/core/documents";
+import { v4 as uuidv4 } from "uuid";
+
+import { cosineSimilarity, type Embedder } from "@/lib/embeddings";
+import { matchesFilter } from "@/lib/vector-store/filter";
+import type { MetadataUpdate, VectorFilter, VectorMatch, VectorStore } from "@/types/vector";
+
+type Entry = { document: Document; vector: number[] };
+
+const namespaces = new Map<string, Map<string, Entry>>();
+
+export class InMemoryVectorStore implements VectorStore {
+  readonly backend = "memory" as const;
+
+  constructor(private embeddings: Embedder) {}
+
+  async addDocuments(namespace: string, documents: Document[], options: { ids?: string[] } = {}) {
+    if (!documents.length) return [];
+    const vectors = await this.embeddings.embedDocuments(documents.map((d) => d.pageContent));
+    return this.addVectors(namespace, documents, vectors, options);
+  }
+
+  async addVectors(namespace: string, documents: Document[], vectors: number[][], options: { ids?: string[] } = {}) {
+    if (!documents.length) return [];
+    const ids = options.ids ?? documents.map(() => uuidv4());
+    let entries = namespaces.get(namespace);
+    if (!entries) namespaces.set(namespace, (entries = new Map()));
+    documents.forEach((document, i) => entries!.set(ids[i], { document, vector: vectors[i] }));
+    return ids;
+  }
+
+  async similaritySearch(namespace: string, query: string, k: number, filter?: VectorFilter): Promise<VectorMatch[]> {
+    if (!namespaces.get(namespace)?.size) return [];
+    return this.similaritySearchByVector(namespace, await this.embeddings.embedQuery(query), k, filter);
+  }
+
+  async similaritySearchByVector(namespace: string, vector: number[], k: number, filter?: VectorFilter): Promise<VectorMatch[]> {
+    const entries = namespaces.get(namespace);
+    if (!entries?.size) return [];
+
+    return Array.from(entries.values())
+      .filter((e) => matchesFilter(e.document.metadata, filter))
+      .map((e): VectorMatch => [e.document, cosineSimilarity(vector, e.vector)])
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, k);
+  }
+
+  async delete(namespace: string, options: { ids?: string[]; filter?: VectorFilter } = {}) {
+    const entries = namespaces.get(namespace);
+    if (!entries) return;
+    if (options.ids?.length) {
+      options.ids.forEach((id) => entries.delete(id));
+    } else if (options.filter && Object.keys(options.filter).length) {
+      for (const [id, e] of Array.from(entries)) {
+        if (matchesFilter(e.document.metadata, options.filter)) entries.delete(id);
+      }
+    } else {
+      namespaces.delete(namespace);
+    }
+  }
+
+  async updateMetadata(namespace: string, updates: MetadataUpdate[]) {
+    const entries = namespaces.get(namespace);
+    for (const { id, metadata } of updates) {
+      const entry = entries?.get(id);
+      if (entry) entry.document.metadata = { ...entry.document.metadata, ...metadata };
+    }
+  }
+
+  async listNamespaces() {
+    return Array.from(namespaces.keys()).filter((ns) => namespaces.get(ns)!.size > 0);
+  }
+
+  async dimension() {
+    return null;
+  }
+}
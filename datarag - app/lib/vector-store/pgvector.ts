@@ -0,0 +1,113 @@
+// lib/vector-store/pgvector.ts
+// Postgres backend using the pgvector extension, in the app's own database.
+// The table (model VectorEntry) comes from a Prisma migration, with a 768-dim
+// vector column and an HNSW index for cosine distance.
+import { Document } from "@langchain/core/documents";
+import { v4 as uuidv4 } from "uuid";
+
+import prismadb from "@/lib/prismadb";
+import type { Embedder } from "@/lib/embeddings";
+import { filterSql } from "@/lib/vector-store/filter";
+import type { MetadataUpdate, VectorFilter, VectorMatch, VectorStore } from "@/types/vector";
+
+const TABLE = `"public"."vector_entries"`;
+
+const toVector = (v: number[]) => `[${v.join(",")}]`;
+
+export class PgVectorStore implements VectorStore {
+  readonly backend = "pgvector" as const;
+
+  constructor(private embeddings: Embedder) {}
+
+  async addDocuments(namespace: string, documents: Document[], options: { ids?: string[] } = {}) {
+    if (!documents.length) return [];
+    const vectors = await this.embeddings.embedDocuments(documents.map((d) => d.pageContent));
+    return this.addVectors(namespace, documents, vectors, options);
+  }
+
+  async addVectors(namespace: string, documents: Document[], vectors: number[][], options: { ids?: string[] } = {}) {
+    if (!documents.length) return [];
+    const ids = options.ids ?? documents.map(() => uuidv4());
+
+    await prismadb.$transaction(
+      documents.map((doc, i) =>
+        prismadb.$executeRawUnsafe(
+          `INSERT INTO ${TABLE} ("namespace", "id", "content", "metadata", "embedding")
+           VALUES ($1, $2, $3, $4::jsonb, $5::vector)
+           ON CONFLICT ("namespace", "id") DO UPDATE
+           SET "content" = EXCLUDED."content", "metadata" = EXCLUDED."metadata", "embedding" = EXCLUDED."embedding"`,
+          namespace,
+          ids[i],
+          doc.pageContent,
+          JSON.stringify(doc.metadata ?? {}),
+          toVector(vectors[i])
+        )
+      )
+    );
+    return ids;
+  }
+
+  async similaritySearch(namespace: string, query: string, k: number, filter?: VectorFilter): Promise<VectorMatch[]> {
+    return this.similaritySearchByVector(namespace, await this.embeddings.embedQuery(query), k, filter);
+  }
+
+  async similaritySearchByVector(namespace: string, vector: number[], k: number, filter?: VectorFilter): Promise<VectorMatch[]> {
+    const params: unknown[] = [namespace, toVector(vector)];
+    const where = filterSql(filter, params);
+    params.push(Math.max(1, Math.floor(k)));
+
+    type Row = { id: string; content: string; metadata: Record<string, unknown>; score: number };
+    const rows: Row[] = await prismadb.$queryRawUnsafe(
+      `SELECT "id", "content", "metadata", 1 - ("embedding" <=> $2::vector) AS score
+       FROM ${TABLE}
+       WHERE "namespace" = $1${where}
+       ORDER BY "embedding" <=> $2::vector
+       LIMIT $${params.length}`,
+      ...params
+    );
+    return rows.map((r): VectorMatch => [new Document({ id: r.id, pageContent: r.content, metadata: r.metadata }), Number(r.score)]);
+  }
+
+  async delete(namespace: string, options: { ids?: string[]; filter?: VectorFilter } = {}) {
+    const params: unknown[] = [namespace];
+    let where = "";
+    if (options.ids?.length) {
+      params.push(options.ids);
+      where = ` AND "id" = ANY ($2::text[])`;
+    } else {
+      where = filterSql(options.filter, params);
+    }
+    await prismadb.$executeRawUnsafe(`DELETE FROM ${TABLE} WHERE "namespace" = $1${where}`, ...params);
+  }
+
+  async updateMetadata(namespace: string, updates: MetadataUpdate[]) {
+    if (!updates.length) return;
+    await prismadb.$transaction(
+      updates.map(({ id, metadata }) =>
+        prismadb.$executeRawUnsafe(
+          `UPDATE ${TABLE} SET "metadata" = "metadata" || $3::jsonb WHERE "namespace" = $1 AND "id" = $2`,
+          namespace,
+          id,
+          JSON.stringify(metadata)
+        )
+      )
+    );
+  }
+
+  async listNamespaces() {
+    const rows: { namespace: string }[] = await prismadb.$queryRawUnsafe(
+      `SELECT DISTINCT "namespace" FROM ${TABLE} ORDER BY "namespace"`
+    );
+    return rows.map((r) => r.namespace);
+  }
+
+  async dimension(): Promise<number | null> {
+    // pgvector keeps the declared dimension in the column's type modifier
+    const rows: { dim: number }[] = await prismadb.$queryRawUnsafe(
+      `SELECT atttypmod AS dim FROM pg_attribute
+       WHERE attrelid = to_regclass('public.vector_entries') AND attname = 'embedding'`
+    );
+    const dim = Number(rows[0]?.dim);
+    return dim > 0 ? dim : null;
+  }
+}
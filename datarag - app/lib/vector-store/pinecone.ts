@@ -0,0 +1,113 @@
+// lib/vector-store/pinecone.ts
+// Pinecone backend: one index (PINECONE_INDEX), one Pinecone namespace per store namespace.
+import type { EmbeddingsInterface } from "@langchain/core/embeddings";
+import type { Document } from "@langchain/core/documents";
+import { Pinecone } from "@pinecone-database/pinecone";
+import { PineconeStore } from "@langchain/pinecone";
+import { v4 as uuidv4 } from "uuid";
+
+import type { Embedder } from "@/lib/embeddings";
+import type { MetadataUpdate, VectorFilter, VectorMatch, VectorStore } from "@/types/vector";
+
+export class PineconeVectorStore implements VectorStore {
+  readonly backend = "pinecone" as const;
+  private pinecone: Pinecone;
+
+  constructor(private embeddings: Embedder) {
+    this.pinecone = new Pinecone({ apiKey: process.env.PINECONE_API_KEY! });
+  }
+
+  private indexName() {
+    const name = process.env.PINECONE_INDEX;
+    if (!name) throw new Error("PINECONE_INDEX is not set");
+    return name;
+  }
+  private index() {
+    return this.pinecone.Index(this.indexName());
+  }
+  private store(namespace: string) {
+    return PineconeStore.fromExistingIndex(this.embeddings as EmbeddingsInterface, {
+      pineconeIndex: this.index(),
+      textKey: "text",
+      namespace,
+    });
+  }
+
+  async addDocuments(namespace: string, documents: Document[], options: { ids?: string[] } = {}) {
+    if (!documents.length) return [];
+    const ids = options.ids ?? documents.map(() => uuidv4());
+    const store = await this.store(namespace);
+    await store.addDocuments(documents, { ids });
+    return ids;
+  }
+
+  async addVectors(namespace: string, documents: Document[], vectors: number[][], options: { ids?: string[] } = {}) {
+    if (!documents.length) return [];
+    const ids = options.ids ?? documents.map(() => uuidv4());
+    const store = await this.store(namespace);
+    await store.addVectors(vectors, documents, { ids });
+    return ids;
+  }
+
+  async similaritySearch(namespace: string, query: string, k: number, filter?: VectorFilter): Promise<VectorMatch[]> {
+    const store = await this.store(namespace);
+    // Pinecone reads plain values as $eq and knows $in / $ne natively
+    return store.similaritySearchWithScore(query, k, filter);
+  }
+
+  async similaritySearchByVector(namespace: string, vector: number[], k: number, filter?: VectorFilter): Promise<VectorMatch[]> {
+    const store = await this.store(namespace);
+    return store.similaritySearchVectorWithScore(vector, k, filter);
+  }
+
+  async delete(namespace: string, options: { ids?: string[]; filter?: VectorFilter } = {}) {
+    const ns = this.index().namespace(namespace);
+    if (options.ids?.length) return ns.deleteMany(options.ids);
+    // delete-by-filter only exists on pod-based indexes; serverless ones need ids
+    if (options.filter && Object.keys(options.filter).length) return ns.deleteMany(options.filter);
+    return ns.deleteAll();
+  }
+
+  async updateMetadata(namespace: string, updates: MetadataUpdate[]) {
+    const ns = this.index().namespace(namespace);
+    // one record per call; Pinecone merges the fields into the stored metadata
+    for (const { id, metadata } of updates) await ns.update({ id, metadata });
+  }
+
+  async listNamespaces() {
+    const stats = await this.index().describeIndexStats();
+    return Object.keys(stats.namespaces ?? {});
+  }
+
+  async dimension(): Promise<number | null> {
+    type IndexMeta = {
+      dimension?: number;
+      status?: { dimension?: number };
+      spec?: {
+        pod?: { spec?: { dimension?: number } };
+        serverless?: { spec?: { dimension?: number } };
+      };
+    };
+
+    try {
+      const meta = await (
+        this.pinecone as unknown as {
+          describeIndex: (options: { indexName: string }) => Promise<IndexMeta>;
+        }
+      ).describeIndex({ indexName: this.indexName() });
+
+      const dim =
+        meta.dimension ??
+        meta.status?.dimension ??
+        meta.spec?.pod?.spec?.dimension ??
+        meta.spec?.serverless?.spec?.dimension;
+
+      if (typeof dim === "number") return dim;
+    } catch {
+      /* ignore, fallback below */
+    }
+
+    const envDim = Number(process.env.PINECONE_DIMENSION);
+    return Number.isFinite(envDim) ? envDim : null;
+  }
+}
@@ -0,0 +1,25 @@
+// lib/vector-store/providers.ts
+// Picks the vector store backend: VECTOR_STORE=pinecone (default) | pgvector | memory.
+import type { Embedder } from "@/lib/embeddings";
+import { InMemoryVectorStore } from "@/lib/vector-store/memory";
+import { PgVectorStore } from "@/lib/vector-store/pgvector";
+import { PineconeVectorStore } from "@/lib/vector-store/pinecone";
+import type { VectorStore, VectorStoreBackend } from "@/types/vector";
+
+const BACKENDS: Record<VectorStoreBackend, new (embeddings: Embedder) => VectorStore> = {
+  pinecone: PineconeVectorStore,
+  pgvector: PgVectorStore,
+  memory: InMemoryVectorStore,
+};
+
+export function isVectorStoreBackend(id: unknown): id is VectorStoreBackend {
+  return typeof id === "string" && id in BACKENDS;
+}
+
+export const DEFAULT_VECTOR_STORE: VectorStoreBackend = isVectorStoreBackend(process.env.VECTOR_STORE)
+  ? process.env.VECTOR_STORE
+  : "pinecone";
+
+export function createVectorStore(embeddings: Embedder, backend: VectorStoreBackend = DEFAULT_VECTOR_STORE): VectorStore {
+  return new BACKENDS[backend](embeddings);
+}
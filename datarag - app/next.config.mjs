@@ -2,6 +2,10 @@ import { config } from 'process';
 
 /** @type {import('next').NextConfig} */
 const nextConfig = {
+    // Local embeddings load ONNX runtime native bindings at runtime
+    experimental: {
+        serverComponentsExternalPackages: ['@xenova/transformers'],
+    },
     // Canvas is not supported in Node.js
     webpack: (
         config,
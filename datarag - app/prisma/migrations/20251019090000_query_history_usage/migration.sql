@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "public"."query_history" ADD COLUMN     "estimatedCost" DOUBLE PRECISION,
+ADD COLUMN     "usageBreakdown" TEXT;
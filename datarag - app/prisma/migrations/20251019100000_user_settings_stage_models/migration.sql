@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."user_settings" ADD COLUMN     "intentModel" TEXT,
+ADD COLUMN     "judgeModel" TEXT,
+ADD COLUMN     "rerankModel" TEXT,
+ADD COLUMN     "sqlModel" TEXT;
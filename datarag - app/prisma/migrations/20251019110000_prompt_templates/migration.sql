@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "public"."chat_messages" ADD COLUMN     "promptVersions" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."document_messages" ADD COLUMN     "promptVersions" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."evaluation_runs" ADD COLUMN     "promptVersions" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."prompt_templates" (
+    "id" TEXT NOT NULL,
+    "key" VARCHAR(100) NOT NULL,
+    "version" INTEGER NOT NULL,
+    "content" TEXT NOT NULL,
+    "description" TEXT,
+    "userId" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "prompt_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "prompt_templates_key_userId_isActive_idx" ON "public"."prompt_templates"("key", "userId", "isActive");
+
+-- CreateIndex
+CREATE INDEX "prompt_templates_key_userId_version_idx" ON "public"."prompt_templates"("key", "userId", "version");
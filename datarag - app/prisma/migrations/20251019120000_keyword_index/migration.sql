@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "public"."keyword_chunks" (
+    "namespace" VARCHAR(255) NOT NULL,
+    "id" VARCHAR(255) NOT NULL,
+    "content" TEXT NOT NULL,
+    "metadata" JSONB NOT NULL DEFAULT '{}',
+    "search" tsvector GENERATED ALWAYS AS (to_tsvector('simple', "content")) STORED,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "keyword_chunks_pkey" PRIMARY KEY ("namespace","id")
+);
+
+-- CreateIndex
+CREATE INDEX "keyword_chunks_search_idx" ON "public"."keyword_chunks" USING GIN ("search");
+
+-- CreateIndex
+CREATE INDEX "keyword_chunks_metadata_idx" ON "public"."keyword_chunks" USING GIN ("metadata");
@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "public"."documents" ADD COLUMN     "chunkingStrategy" VARCHAR(20);
+
+-- AlterTable
+ALTER TABLE "public"."document_chunks" ADD COLUMN     "level" VARCHAR(20) NOT NULL DEFAULT 'chunk',
+ADD COLUMN     "parentChunkId" TEXT,
+ADD COLUMN     "sectionTitle" TEXT;
+
+-- CreateIndex
+CREATE INDEX "document_chunks_parentChunkId_idx" ON "public"."document_chunks"("parentChunkId");
+
+-- AddForeignKey
+ALTER TABLE "public"."document_chunks" ADD CONSTRAINT "document_chunks_parentChunkId_fkey" FOREIGN KEY ("parentChunkId") REFERENCES "public"."document_chunks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
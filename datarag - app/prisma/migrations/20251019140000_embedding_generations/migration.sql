@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "public"."embedding_generations" (
+    "id" SERIAL NOT NULL,
+    "model" VARCHAR(255) NOT NULL,
+    "backend" VARCHAR(20) NOT NULL,
+    "status" VARCHAR(20) NOT NULL DEFAULT 'BUILDING',
+    "total" INTEGER NOT NULL DEFAULT 0,
+    "processed" INTEGER NOT NULL DEFAULT 0,
+    "failed" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "completedAt" TIMESTAMP(3),
+    "activatedAt" TIMESTAMP(3),
+
+    CONSTRAINT "embedding_generations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "embedding_generations_status_idx" ON "public"."embedding_generations"("status");
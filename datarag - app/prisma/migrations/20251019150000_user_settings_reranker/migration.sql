@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."user_settings" ADD COLUMN     "reranker" VARCHAR(20);
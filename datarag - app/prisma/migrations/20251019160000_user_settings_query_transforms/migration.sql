@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."user_settings" ADD COLUMN     "queryTransforms" TEXT[] DEFAULT ARRAY[]::TEXT[];
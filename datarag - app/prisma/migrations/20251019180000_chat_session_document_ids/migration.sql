@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."chat_sessions" ADD COLUMN     "documentIds" TEXT[] DEFAULT ARRAY[]::TEXT[];
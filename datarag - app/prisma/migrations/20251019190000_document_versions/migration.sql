@@ -0,0 +1,44 @@
+-- AlterTable
+ALTER TABLE "public"."documents" ADD COLUMN     "currentVersion" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "public"."document_chunks" ADD COLUMN     "versionFrom" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "versionTo" INTEGER;
+
+-- AlterTable
+ALTER TABLE "public"."chat_sessions" ADD COLUMN     "documentVersions" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."document_versions" (
+    "id" TEXT NOT NULL,
+    "documentId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "fileUrl" TEXT,
+    "chunkIndexes" INTEGER[] DEFAULT ARRAY[]::INTEGER[],
+    "added" INTEGER NOT NULL DEFAULT 0,
+    "removed" INTEGER NOT NULL DEFAULT 0,
+    "unchanged" INTEGER NOT NULL DEFAULT 0,
+    "note" TEXT,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "document_versions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "document_versions_documentId_version_key" ON "public"."document_versions"("documentId", "version");
+
+-- CreateIndex
+CREATE INDEX "document_chunks_documentId_versionTo_idx" ON "public"."document_chunks"("documentId", "versionTo");
+
+-- AddForeignKey
+ALTER TABLE "public"."document_versions" ADD CONSTRAINT "document_versions_documentId_fkey" FOREIGN KEY ("documentId") REFERENCES "public"."documents"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Existing documents become version 1 of themselves
+INSERT INTO "public"."document_versions" ("id", "documentId", "version", "fileUrl", "chunkIndexes", "unchanged", "createdBy", "createdAt")
+SELECT 'v1_' || d."id", d."id", 1, d."fileUrl",
+       COALESCE(array_agg(c."chunkIndex" ORDER BY c."chunkIndex") FILTER (WHERE c."id" IS NOT NULL), ARRAY[]::INTEGER[]),
+       COUNT(c."id"), d."userId", d."createdAt"
+FROM "public"."documents" d
+LEFT JOIN "public"."document_chunks" c ON c."documentId" = d."id" AND c."level" = 'chunk'
+GROUP BY d."id";
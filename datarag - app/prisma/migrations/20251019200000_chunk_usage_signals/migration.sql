@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "public"."document_chunks" ADD COLUMN     "citedCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "helpfulCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "unhelpfulCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "lastRetrievedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "document_chunks_documentId_usageCount_citedCount_idx" ON "public"."document_chunks"("documentId", "usageCount", "citedCount");
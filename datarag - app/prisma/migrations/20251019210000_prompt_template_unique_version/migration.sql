@@ -0,0 +1,31 @@
+-- Renumber versions saved twice by concurrent edits (the later rows move past
+-- the newest version) so the unique indexes can be built
+WITH "numbered" AS (
+    SELECT "id", "key", "userId",
+           ROW_NUMBER() OVER (PARTITION BY "key", "userId", "version" ORDER BY "createdAt", "id") AS "n"
+    FROM "public"."prompt_templates"
+), "extra" AS (
+    SELECT "id", "key", "userId",
+           ROW_NUMBER() OVER (PARTITION BY "key", "userId" ORDER BY "id") AS "k"
+    FROM "numbered"
+    WHERE "n" > 1
+), "latest" AS (
+    SELECT "key", "userId", MAX("version") AS "top"
+    FROM "public"."prompt_templates"
+    GROUP BY "key", "userId"
+)
+UPDATE "public"."prompt_templates" AS t
+SET "version" = "latest"."top" + "extra"."k"
+FROM "extra"
+JOIN "latest" ON "latest"."key" = "extra"."key" AND "latest"."userId" IS NOT DISTINCT FROM "extra"."userId"
+WHERE t."id" = "extra"."id";
+
+-- DropIndex
+DROP INDEX "public"."prompt_templates_key_userId_version_idx";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "prompt_templates_key_userId_version_key" ON "public"."prompt_templates"("key", "userId", "version");
+
+-- CreateIndex
+-- global templates have no userId, and NULLs never conflict in the index above
+CREATE UNIQUE INDEX "prompt_templates_key_version_global_key" ON "public"."prompt_templates"("key", "version") WHERE "userId" IS NULL;
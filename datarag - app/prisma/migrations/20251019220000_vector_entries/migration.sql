@@ -0,0 +1,25 @@
+-- CreateExtension
+CREATE EXTENSION IF NOT EXISTS "vector";
+
+-- CreateTable
+-- pgvector deployments created this table on first write; IF NOT EXISTS keeps theirs
+CREATE TABLE IF NOT EXISTS "public"."vector_entries" (
+    "namespace" VARCHAR(255) NOT NULL,
+    "id" VARCHAR(255) NOT NULL,
+    "content" TEXT NOT NULL,
+    "metadata" JSONB NOT NULL DEFAULT '{}',
+    "embedding" vector(768) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "vector_entries_pkey" PRIMARY KEY ("namespace","id")
+);
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "vector_entries_metadata_idx" ON "public"."vector_entries" USING GIN ("metadata");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "vector_entries_embedding_idx" ON "public"."vector_entries" USING hnsw ("embedding" vector_cosine_ops);
+
+-- AlterTable
+-- never written: chunk vectors live in the vector store, under "vectorId"
+ALTER TABLE "public"."document_chunks" DROP COLUMN "embedding";
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."document_messages" ADD COLUMN     "metadata" TEXT;
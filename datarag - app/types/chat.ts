@@ -16,6 +16,8 @@ export interface ChatMessage {
   timestamp?: string;
   userId?: string | null;
   documentId?: string;
+  /** The reader's rating of an assistant message. */
+  feedback?: import('./document').ChunkFeedback | null;
 }
 
 export interface EnhancedChatMessage {
@@ -52,6 +54,7 @@ export interface ChatSession {
   isArchived: boolean;
   modelKey: string;
   createdAt: string;
+  documentIds?: string[];
 }
 
 export interface SessionDetail {
@@ -64,6 +67,41 @@ export interface SessionDetail {
   temperature: number;
   isPinned: boolean;
   isArchived: boolean;
+  retrievalScope?: RetrievalScope | null;
+  /** Set for a multi-document chat; answers come from these documents only. */
+  documents?: { id: string; title: string; currentVersion?: number }[];
+  /** Document id -> pinned version; the others follow their latest version. */
+  documentVersions?: Record<string, number> | null;
+}
+
+/**
+ * What a chat session may retrieve. Each set field narrows the search
+ * (categories AND documents AND tags AND dates); values within a field are
+ * alternatives. Unset or empty fields do not restrict. Categories and
+ * documents also bring the documents themselves into the search; tags only
+ * exist on knowledge base entries.
+ */
+export interface RetrievalScope {
+  categoryIds?: string[];
+  documentIds?: string[];
+  tags?: string[];
+  /** Inclusive ISO dates (YYYY-MM-DD) on the entry's or document's creation date. */
+  dateFrom?: string;
+  dateTo?: string;
+}
+
+/** A document a scoped general chat searches alongside the knowledge base. */
+export interface ScopedDocument {
+  id: string;
+  title: string;
+  currentVersion: number;
+}
+
+/** A RetrievalScope turned into what search needs. */
+export interface ResolvedRetrievalScope {
+  knowledgeFilter: import('./vector').VectorFilter;
+  /** Unset when the scope names no categories or documents. */
+  documents?: ScopedDocument[];
 }
 
 export interface UserSettings {
@@ -79,6 +117,15 @@ export interface UserSettings {
   maxContextLength: number;
   rerankingThreshold: number;
   enableReranking: boolean;
+  /** Per-stage models; null follows the chat model (SQL, rerank) or the app default. */
+  sqlModel?: string | null;
+  rerankModel?: string | null;
+  intentModel?: string | null;
+  judgeModel?: string | null;
+  /** null uses the app default (RERANKER env). */
+  reranker?: RerankerKind | null;
+  /** Query transformations run before retrieval; empty = search with the question as typed. */
+  queryTransforms?: QueryTransform[];
 }
 
 // Agent-related types
@@ -91,10 +138,66 @@ export interface AgentConfig {
   useDatabase?: boolean;
   useKnowledgeBase?: boolean;
   useReranking?: boolean;
+  /** How retrieved documents are rescored when `useReranking` is on. */
+  reranker?: RerankerKind;
+  /** Extra queries to retrieve with before reranking (see QueryTransform). */
+  queryTransforms?: QueryTransform[];
+  /** Metadata filter on knowledge base search; a session's resolved RetrievalScope. */
+  knowledgeFilter?: import('./vector').VectorFilter;
+  /** Documents general chat searches next to the knowledge base; from the same scope. */
+  scopeDocuments?: ScopedDocument[];
   contextWindow?: number;
   timeout?: number;
   rerankingThreshold?: number;
+  /** Token budget for the whole prompt; capped by the chat model's context window. */
   maxContextLength?: number;
+  /** Write a QueryHistory row with token usage per response (off for eval runs). */
+  recordUsage?: boolean;
+  /** Tool calls the SQL agent may make before it must answer. */
+  sqlAgentMaxSteps?: number;
+  /** Model per pipeline stage; unset stages use `modelKey` or the purpose default. */
+  stageModels?: StageModels;
+  /** Reuse answers to near-identical recent questions (off for eval runs). */
+  useResponseCache?: boolean;
+  /** Minimum cosine similarity between question embeddings for a cache hit. */
+  responseCacheThreshold?: number;
+}
+
+export type StageModels = Partial<Record<import('@/config/models').ModelPurpose, string>>;
+
+/** Prompt template version behind each prompt key used ("builtin", "v3", "user-v2"). */
+export type PromptVersions = Record<string, string>;
+
+/** Whether a response was served from the semantic response cache. */
+export interface ResponseCacheStatus {
+  hit: boolean;
+  similarity?: number;
+  cachedAt?: string;
+  kind?: "database" | "knowledge";
+  /** The earlier question whose answer was reused. */
+  matchedQuery?: string;
+}
+
+export type ContextSectionName = "database" | "knowledge" | "conversation" | "similar";
+
+/** A context item left out of the prompt to stay within the token budget. */
+export interface DroppedContext {
+  section: ContextSectionName;
+  id: string;
+  tokens: number;
+  relevance?: number;
+}
+
+/** How the prompt's token budget was spent. */
+export interface ContextBudgetReport {
+  budget: number;
+  /** Instructions, source list and question; always kept. */
+  fixedTokens: number;
+  usedTokens: number;
+  sections: Partial<Record<ContextSectionName, { allocated: number; used: number; kept: number; dropped: number }>>;
+  dropped: DroppedContext[];
+  /** Items kept only in part. */
+  truncated: string[];
 }
 
 export interface AgentContext {
@@ -102,6 +205,10 @@ export interface AgentContext {
   userName?: string;
   sessionId?: string;
   documentId?: string;
+  /** Multi-document chat: every document searched, reranked as one list. */
+  documentIds?: string[];
+  /** Document id -> pinned version; documents not listed follow their latest version. */
+  documentVersions?: Record<string, number>;
   chatKey?: import('./common').UnknownRecord;
 }
 
@@ -123,6 +230,17 @@ export interface AgentResponse {
     contextSources: string[];
     rerankingApplied: boolean;
     totalContextTokens?: number;
+    /** Model the caller asked for, when a fallback served the request instead. */
+    requestedModel?: string;
+    modelFallbacks?: { model: string; error: string }[];
+    /** Token usage and cost of every LLM call made for this response. */
+    usage?: import('./models').UsageSummary;
+    /** Model that served each pipeline stage (intent, rerank, sql, chat). */
+    stageModels?: StageModels;
+    promptVersions?: PromptVersions;
+    cache?: ResponseCacheStatus;
+    contextBudget?: ContextBudgetReport;
+    queryTransforms?: QueryTransformReport;
   };
 }
 
@@ -154,6 +272,61 @@ export interface RerankingResult {
   relevanceScore: number;
   originalRank: number;
   newRank: number;
+  /** How vector and keyword retrieval ranked the document before reranking. */
+  fusion?: FusionBreakdown;
+}
+
+/** "llm" asks the rerank stage model, "cross-encoder" runs a local model, "none" keeps retrieval order. */
+export type RerankerKind = "llm" | "cross-encoder" | "none";
+
+export interface Reranker {
+  readonly kind: RerankerKind;
+  /**
+   * Relevance of each document to `query` in 0..1, in input order; null where
+   * the reranker produced no usable score for a document.
+   */
+  score(query: string, documents: import('./common').LangchainDocument[]): Promise<(number | null)[]>;
+}
+
+/**
+ * "rewrite" makes a follow-up standalone and spells out acronyms, "multi-query"
+ * adds paraphrases, "hyde" searches with a hypothetical answer.
+ */
+export type QueryTransform = "rewrite" | "multi-query" | "hyde";
+
+export interface QueryVariant {
+  kind: "original" | QueryTransform;
+  text: string;
+}
+
+/** The queries retrieval ran with; results of all variants are merged by rank. */
+export interface QueryTransformReport {
+  transforms: QueryTransform[];
+  variants: QueryVariant[];
+  latencyMs: number;
+  /** Transformations that failed and were skipped. */
+  failed?: QueryTransform[];
+}
+
+/** One reranker call: which reranker ran, on how many documents, and how long it took. */
+export interface RerankRun {
+  reranker: RerankerKind;
+  documents: number;
+  latencyMs: number;
+  /** The reranker failed and retrieval order was kept. */
+  failed?: boolean;
+}
+
+/** Reciprocal rank fusion of one retrieved document; ranks are 1-based. */
+export interface FusionBreakdown {
+  vectorRank?: number;
+  /** Cosine similarity from the vector store. */
+  vectorScore?: number;
+  keywordRank?: number;
+  /** Full-text rank (ts_rank_cd); only comparable within one query. */
+  keywordScore?: number;
+  /** Fused score: sum of weight / (k + rank) over the lists the document is in. */
+  score: number;
 }
 
 // Database-related interfaces used in chat
@@ -169,6 +342,11 @@ export interface DatabaseQueryResult {
     queryComplexity: "low" | "medium" | "high";
   };
   explorationSteps?: string[];
+  /** Trace of the SQL agent's tool calls, in order. */
+  steps?: import('./database').SqlAgentStep[];
+  usage?: import('./models').UsageSummary;
+  stageModels?: StageModels;
+  promptVersions?: PromptVersions;
 }
 
 // Key types for document and general chat
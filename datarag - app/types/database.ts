@@ -5,6 +5,8 @@ export interface QueryGenerationOptions {
   enforceLimit?: boolean;
   maxLimit?: number;
   includeBestPractices?: boolean;
+  /** MySQL cheatsheet to embed; defaults to the built-in `mysqlSyntaxGuide` template. */
+  syntaxGuide?: string;
 }
 
 export interface ValidationResult {
@@ -62,3 +64,18 @@ export interface ToolCall {
   args: import('./common').UnknownRecord;
   id: string;
 }
+
+// Iterative SQL agent (lib/sql-agent.ts)
+export type SqlAgentAction = "list_tables" | "describe_table" | "sample_table" | "execute_sql" | "final_answer";
+
+export interface SqlAgentStep {
+  step: number;
+  thought: string;
+  action: SqlAgentAction | "invalid";
+  input: import('./common').UnknownRecord;
+  /** Tool output as shown to the model (truncated). */
+  observation: string;
+  /** For execute_sql: whether the query ran. */
+  success?: boolean;
+  durationMs: number;
+}
@@ -69,12 +69,193 @@ export interface GetChatResponse {
 }
 
 // Embedding and processing related types
+/** "huggingface": hosted Inference API; "local": in-process via @xenova/transformers. */
+export type EmbeddingBackend = "huggingface" | "local";
+
+export interface HybridSearchConfig {
+  enabled: boolean;
+  vectorWeight: number;
+  keywordWeight: number;
+  /** Rank offset of reciprocal rank fusion; larger values flatten the gap between top ranks. */
+  rrfK: number;
+}
+
+/** Diversification of search results (lib/diversify.ts). */
+export interface DiversityConfig {
+  enabled: boolean;
+  /** MMR trade-off: 1 ranks by relevance only, 0 by novelty only. */
+  lambda: number;
+  /** Similarity at or above which a candidate is a duplicate of a better one. */
+  duplicateThreshold: number;
+  /** Results per document before other documents are preferred; 0 for no cap. */
+  maxPerDocument: number;
+}
+
 export interface EmbeddingConfig {
   model: string;
+  backend?: EmbeddingBackend;
+  /** Where vectors are kept; defaults to VECTOR_STORE. */
+  vectorStore?: import('./vector').VectorStoreBackend;
+  /** Keyword + vector fusion for document and knowledge base search; defaults to HYBRID_* env. */
+  hybridSearch?: HybridSearchConfig;
+  /** Near-duplicate removal, MMR and a per-document cap in search; defaults to MMR_* / DIVERSITY env. */
+  diversity?: DiversityConfig;
   chunkSize: number;
   chunkOverlap: number;
   batchSize: number;
   enableMetadataFiltering: boolean;
+  /** Default strategy when an upload does not pick one (semantic wins over hierarchical). */
   useHierarchicalChunking: boolean;
   enableSemanticChunking: boolean;
 }
+
+/**
+ * BUILDING: being filled by a re-index job (and written alongside the active
+ * one); READY: complete, not serving; ACTIVE: serving queries; RETIRED: served
+ * before, kept for rollback; FAILED: the job stopped.
+ */
+export type EmbeddingGenerationStatus = "BUILDING" | "READY" | "ACTIVE" | "RETIRED" | "FAILED";
+
+/**
+ * One complete set of vectors embedded with one model. Generation 0 is the
+ * unsuffixed namespaces written before re-indexing existed, with the config model.
+ */
+export interface EmbeddingGeneration {
+  id: number;
+  model: string;
+  backend: EmbeddingBackend;
+  status: EmbeddingGenerationStatus;
+  total: number;
+  processed: number;
+  failed: number;
+  error?: string | null;
+  createdAt?: Date | string;
+  completedAt?: Date | string | null;
+  activatedAt?: Date | string | null;
+}
+
+/**
+ * "flat": fixed-size recursive splits; "hierarchical": sections split into
+ * paragraph chunks linked to their section; "semantic": breaks where the
+ * embedding similarity of neighbouring sentences drops.
+ */
+export type ChunkingStrategy = "flat" | "hierarchical" | "semantic";
+
+export interface SourcePage {
+  pageNumber: number;
+  text: string;
+}
+
+export interface TextChunk {
+  /** Position among the chunker's output; parents are referenced by it. */
+  key: number;
+  content: string;
+  pageNumber: number;
+  /** Sections are stored for context expansion only; chunks are embedded. */
+  level: "section" | "chunk";
+  parentKey?: number;
+  sectionTitle?: string;
+}
+
+export interface Chunker {
+  readonly strategy: ChunkingStrategy;
+  chunk(pages: SourcePage[]): Promise<TextChunk[]>;
+}
+
+/** What deleting a document removed. A step listed in `errors` failed and left its part behind. */
+export interface DocumentCleanupReport {
+  documentId: string;
+  /** Stored chunk and conversation rows (deleted with the document by cascade). */
+  chunks: number;
+  messages: number;
+  knowledgeEntries: number;
+  knowledgeVectors: number;
+  /** Namespaces cleared in every embedding generation: the document's and its document sets'. */
+  vectorNamespaces: string[];
+  historyKeys: number;
+  cachedAnswers: number;
+  /** Multi-document chats the document was taken out of. */
+  documentSessions: number;
+  /** The uploaded PDF. Thumbnails are rendered from it; nothing else is stored for them. */
+  fileDeleted: boolean;
+  errors: string[];
+}
+
+/** Vectors left behind by documents, document sets and knowledge base entries that no longer exist. */
+export interface OrphanReport {
+  namespaces: string[];
+  knowledgeVectorIds: string[];
+  purged: boolean;
+  /** Counted while purging only. */
+  historyKeys?: number;
+  cachedAnswers?: number;
+  errors: string[];
+}
+
+/** Content stored before the keyword index existed: missing from it, or written to it unless a dry run. */
+export interface KeywordBackfillReport {
+  chunks: number;
+  knowledgeEntries: number;
+  backfilled: boolean;
+}
+
+/** One uploaded revision of a document and how it changed the previous one, chunk by chunk. */
+export interface DocumentVersionInfo {
+  version: number;
+  fileUrl: string | null;
+  chunkCount: number;
+  added: number;
+  removed: number;
+  unchanged: number;
+  note: string | null;
+  createdBy: string | null;
+  createdAt: Date | string;
+  current: boolean;
+}
+
+export interface VersionChunk {
+  chunkIndex: number;
+  pageNumber: number | null;
+  sectionTitle: string | null;
+  content: string;
+}
+
+/** Chunks only in `to` (added) or only in `from` (removed); text-identical chunks count as unchanged. */
+export interface DocumentVersionDiff {
+  documentId: string;
+  from: number;
+  to: number;
+  added: VersionChunk[];
+  removed: VersionChunk[];
+  unchanged: number;
+}
+
+/** A reader's rating of an answer; it counts for every chunk the answer cited. */
+export type ChunkFeedback = "helpful" | "unhelpful";
+
+/** Usage counters of one chunk and the quality score search derives from them. */
+export interface ChunkSignal {
+  chunkIndex: number;
+  pageNumber: number | null;
+  sectionTitle: string | null;
+  snippet: string;
+  /** Times retrieved into a prompt. */
+  usageCount: number;
+  citedCount: number;
+  helpfulCount: number;
+  unhelpfulCount: number;
+  avgRelevance: number | null;
+  lastRetrievedAt: Date | string | null;
+  /** -1..1; 0 until there is evidence either way. */
+  quality: number;
+}
+
+/** Chunks of a document's current version that never reach a prompt, or reach it and are never cited. */
+export interface ChunkQualityReport {
+  documentId: string;
+  queryCount: number;
+  lastAccessed: Date | string | null;
+  chunks: number;
+  dead: { total: number; chunks: ChunkSignal[] };
+  noisy: { total: number; minRetrievals: number; chunks: ChunkSignal[] };
+}
@@ -16,6 +16,9 @@ export * from './document';
 // Database and SQL types
 export * from './database';
 
+// Vector store types
+export * from './vector';
+
 // Evaluation and testing types
 export * from './evaluation';
 
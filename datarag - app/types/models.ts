@@ -66,6 +66,30 @@ export interface ModelUsage {
   timestamp: Date | string;
 }
 
+// Token usage captured from LLM calls (lib/llm/usage.ts)
+export interface LLMCallUsage {
+  modelId: string;
+  purpose: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number;
+  /** True when the provider reported no usage and tokens were estimated. */
+  estimated: boolean;
+  duration: number; // in milliseconds
+}
+
+export interface UsageSummary {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  estimatedCost: number;
+  estimated: boolean;
+  byModel: ModelUsage[];
+  byPurpose: Record<string, { calls: number; totalTokens: number; cost: number }>;
+}
+
 export interface ModelPerformance {
   modelId: string;
   averageResponseTime: number;
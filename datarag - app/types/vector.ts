@@ -0,0 +1,46 @@
+// types/vector.ts
+// Vector store types shared by the Pinecone, pgvector and in-memory backends
+
+import type { Document } from "@langchain/core/documents";
+
+export type VectorStoreBackend = "pinecone" | "pgvector" | "memory";
+
+export type VectorFilterValue = string | number | boolean;
+
+/**
+ * Metadata filter: every key must match. A plain value means equality,
+ * `{ $in: [...] }` any of the listed values, `{ $ne: v }` anything but `v`,
+ * `{ $gte, $lte }` a numeric range. On a list field (e.g. `tags`) a value
+ * matches when the list contains it, as in Pinecone.
+ */
+export type VectorFilter = Record<
+  string,
+  | VectorFilterValue
+  | { $in: VectorFilterValue[] }
+  | { $ne: VectorFilterValue }
+  | { $gte?: number; $lte?: number }
+>;
+
+/** A document and its cosine similarity to the query (higher is closer). */
+export type VectorMatch = [Document, number];
+
+/** Fields to merge into one stored vector's metadata. */
+export type MetadataUpdate = { id: string; metadata: Record<string, VectorFilterValue> };
+
+export interface VectorStore {
+  readonly backend: VectorStoreBackend;
+  /** Embed and upsert documents; returns their ids (generated when not given). */
+  addDocuments(namespace: string, documents: Document[], options?: { ids?: string[] }): Promise<string[]>;
+  /** Upsert documents with vectors the caller already computed, one per document. */
+  addVectors(namespace: string, documents: Document[], vectors: number[][], options?: { ids?: string[] }): Promise<string[]>;
+  similaritySearch(namespace: string, query: string, k: number, filter?: VectorFilter): Promise<VectorMatch[]>;
+  /** Like similaritySearch, for a query vector the caller already computed. */
+  similaritySearchByVector(namespace: string, vector: number[], k: number, filter?: VectorFilter): Promise<VectorMatch[]>;
+  /** Delete by ids, by metadata filter, or the whole namespace when neither is given. */
+  delete(namespace: string, options?: { ids?: string[]; filter?: VectorFilter }): Promise<void>;
+  /** Merge fields into stored metadata without embedding again; unknown ids are skipped. */
+  updateMetadata(namespace: string, updates: MetadataUpdate[]): Promise<void>;
+  listNamespaces(): Promise<string[]>;
+  /** Vector dimension the store was created with, when it has a fixed one. */
+  dimension(): Promise<number | null>;
+}